@@ -0,0 +1,11 @@
+-- AlterTable
+ALTER TABLE "user_sessions" ADD COLUMN     "family_id" TEXT,
+ADD COLUMN     "rotated_at" TIMESTAMP(3);
+
+-- Backfill: every existing session starts its own family
+UPDATE "user_sessions" SET "family_id" = gen_random_uuid()::text WHERE "family_id" IS NULL;
+
+ALTER TABLE "user_sessions" ALTER COLUMN "family_id" SET NOT NULL;
+
+-- CreateIndex
+CREATE INDEX "user_sessions_family_id_idx" ON "user_sessions"("family_id");
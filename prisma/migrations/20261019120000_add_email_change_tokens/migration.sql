@@ -0,0 +1,31 @@
+-- CreateTable
+CREATE TABLE "email_change_tokens" (
+    "id" SERIAL NOT NULL,
+    "user_id" INTEGER NOT NULL,
+    "new_email" TEXT NOT NULL,
+    "token_hash" TEXT NOT NULL,
+    "cancel_token_hash" TEXT NOT NULL,
+    "expires_at" TIMESTAMP(3) NOT NULL,
+    "used_at" TIMESTAMP(3),
+    "cancelled_at" TIMESTAMP(3),
+    "created_by" TEXT,
+    "updated_by" TEXT,
+    "deleted_by" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+    "deleted_at" TIMESTAMP(3),
+
+    CONSTRAINT "email_change_tokens_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "email_change_tokens_user_id_idx" ON "email_change_tokens"("user_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "email_change_tokens_token_hash_key" ON "email_change_tokens"("token_hash");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "email_change_tokens_cancel_token_hash_key" ON "email_change_tokens"("cancel_token_hash");
+
+-- AddForeignKey
+ALTER TABLE "email_change_tokens" ADD CONSTRAINT "email_change_tokens_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
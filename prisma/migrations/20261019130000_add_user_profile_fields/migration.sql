@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN     "avatar_url" TEXT,
+ADD COLUMN     "locale" TEXT,
+ADD COLUMN     "timezone" TEXT;
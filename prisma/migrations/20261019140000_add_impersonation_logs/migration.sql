@@ -0,0 +1,37 @@
+-- CreateTable
+CREATE TABLE "impersonation_logs" (
+    "id" SERIAL NOT NULL,
+    "impersonator_id" INTEGER NOT NULL,
+    "target_user_id" INTEGER NOT NULL,
+    "session_id" INTEGER NOT NULL,
+    "reason" TEXT,
+    "ip_address" TEXT,
+    "user_agent" TEXT,
+    "expires_at" TIMESTAMP(3) NOT NULL,
+    "created_by" TEXT,
+    "updated_by" TEXT,
+    "deleted_by" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+    "deleted_at" TIMESTAMP(3),
+
+    CONSTRAINT "impersonation_logs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "impersonation_logs_session_id_key" ON "impersonation_logs"("session_id");
+
+-- CreateIndex
+CREATE INDEX "impersonation_logs_impersonator_id_idx" ON "impersonation_logs"("impersonator_id");
+
+-- CreateIndex
+CREATE INDEX "impersonation_logs_target_user_id_idx" ON "impersonation_logs"("target_user_id");
+
+-- AddForeignKey
+ALTER TABLE "impersonation_logs" ADD CONSTRAINT "impersonation_logs_impersonator_id_fkey" FOREIGN KEY ("impersonator_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "impersonation_logs" ADD CONSTRAINT "impersonation_logs_target_user_id_fkey" FOREIGN KEY ("target_user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "impersonation_logs" ADD CONSTRAINT "impersonation_logs_session_id_fkey" FOREIGN KEY ("session_id") REFERENCES "user_sessions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
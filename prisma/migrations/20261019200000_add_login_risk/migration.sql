@@ -0,0 +1,35 @@
+-- AlterTable
+ALTER TABLE "user_sessions" ADD COLUMN "risk_reasons" TEXT[],
+ADD COLUMN "report_token_hash" TEXT;
+
+-- CreateTable
+CREATE TABLE "login_confirmation_tokens" (
+    "id" SERIAL NOT NULL,
+    "user_id" INTEGER NOT NULL,
+    "token_hash" TEXT NOT NULL,
+    "expires_at" TIMESTAMP(3) NOT NULL,
+    "used_at" TIMESTAMP(3),
+    "created_by" TEXT,
+    "updated_by" TEXT,
+    "deleted_by" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+    "deleted_at" TIMESTAMP(3),
+
+    CONSTRAINT "login_confirmation_tokens_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "user_sessions_report_token_hash_key" ON "user_sessions"("report_token_hash");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "login_confirmation_tokens_token_hash_key" ON "login_confirmation_tokens"("token_hash");
+
+-- CreateIndex
+CREATE INDEX "login_confirmation_tokens_user_id_idx" ON "login_confirmation_tokens"("user_id");
+
+-- CreateIndex
+CREATE INDEX "login_confirmation_tokens_expires_at_idx" ON "login_confirmation_tokens"("expires_at");
+
+-- AddForeignKey
+ALTER TABLE "login_confirmation_tokens" ADD CONSTRAINT "login_confirmation_tokens_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,31 @@
+-- CreateTable
+CREATE TABLE "security_events" (
+    "id" SERIAL NOT NULL,
+    "user_id" INTEGER,
+    "type" TEXT NOT NULL,
+    "email" TEXT,
+    "ip_address" TEXT,
+    "user_agent" TEXT,
+    "request_id" TEXT,
+    "metadata" JSONB,
+    "created_by" TEXT,
+    "updated_by" TEXT,
+    "deleted_by" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+    "deleted_at" TIMESTAMP(3),
+
+    CONSTRAINT "security_events_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "security_events_user_id_created_at_idx" ON "security_events"("user_id", "created_at");
+
+-- CreateIndex
+CREATE INDEX "security_events_type_created_at_idx" ON "security_events"("type", "created_at");
+
+-- CreateIndex
+CREATE INDEX "security_events_created_at_idx" ON "security_events"("created_at");
+
+-- AddForeignKey
+ALTER TABLE "security_events" ADD CONSTRAINT "security_events_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
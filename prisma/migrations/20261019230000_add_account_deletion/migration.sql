@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN     "purge_at" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "users_purge_at_idx" ON "users"("purge_at");
@@ -0,0 +1,89 @@
+-- CreateTable
+CREATE TABLE "organizations" (
+    "id" SERIAL NOT NULL,
+    "name" TEXT NOT NULL,
+    "created_by" TEXT,
+    "updated_by" TEXT,
+    "deleted_by" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+    "deleted_at" TIMESTAMP(3),
+
+    CONSTRAINT "organizations_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "memberships" (
+    "id" SERIAL NOT NULL,
+    "organization_id" INTEGER NOT NULL,
+    "user_id" INTEGER NOT NULL,
+    "role" TEXT NOT NULL DEFAULT 'member',
+    "created_by" TEXT,
+    "updated_by" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "memberships_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "memberships_organization_id_user_id_key" ON "memberships"("organization_id", "user_id");
+
+-- CreateIndex
+CREATE INDEX "memberships_user_id_idx" ON "memberships"("user_id");
+
+-- AddForeignKey
+ALTER TABLE "memberships" ADD CONSTRAINT "memberships_organization_id_fkey" FOREIGN KEY ("organization_id") REFERENCES "organizations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "memberships" ADD CONSTRAINT "memberships_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AlterTable
+ALTER TABLE "examples" ADD COLUMN "organization_id" INTEGER;
+
+-- Existing examples were visible to every user: keep them in a shared organization that every
+-- existing user joins as a member
+INSERT INTO "organizations" ("name", "created_by", "updated_at")
+SELECT 'Default', 'migration', CURRENT_TIMESTAMP
+WHERE EXISTS (SELECT 1 FROM "examples");
+
+UPDATE "examples" SET "organization_id" = (SELECT MIN("id") FROM "organizations");
+
+-- Administrators own it, so someone can manage the organization and its members
+INSERT INTO "memberships" ("organization_id", "user_id", "role", "created_by", "updated_at")
+SELECT o."id", u."id",
+    CASE WHEN EXISTS (
+        SELECT 1 FROM "user_roles" ur
+        JOIN "roles" r ON r."id" = ur."role_id"
+        WHERE ur."user_id" = u."id" AND r."name" = 'admin' AND r."deleted_at" IS NULL
+    ) THEN 'owner' ELSE 'member' END,
+    'migration', CURRENT_TIMESTAMP
+FROM "organizations" o CROSS JOIN "users" u
+WHERE u."deleted_at" IS NULL;
+
+-- Without administrators, the earliest account owns it
+UPDATE "memberships" SET "role" = 'owner'
+WHERE "id" = (
+    SELECT m."id" FROM "memberships" m
+    JOIN "users" u ON u."id" = m."user_id"
+    ORDER BY u."created_at", u."id"
+    LIMIT 1
+)
+AND NOT EXISTS (SELECT 1 FROM "memberships" WHERE "role" = 'owner');
+
+ALTER TABLE "examples" ALTER COLUMN "organization_id" SET NOT NULL;
+
+-- CreateIndex
+CREATE INDEX "examples_organization_id_idx" ON "examples"("organization_id");
+
+-- AddForeignKey
+ALTER TABLE "examples" ADD CONSTRAINT "examples_organization_id_fkey" FOREIGN KEY ("organization_id") REFERENCES "organizations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AlterTable
+ALTER TABLE "oauth_clients" ADD COLUMN "organization_id" INTEGER;
+
+-- CreateIndex
+CREATE INDEX "oauth_clients_organization_id_idx" ON "oauth_clients"("organization_id");
+
+-- AddForeignKey
+ALTER TABLE "oauth_clients" ADD CONSTRAINT "oauth_clients_organization_id_fkey" FOREIGN KEY ("organization_id") REFERENCES "organizations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
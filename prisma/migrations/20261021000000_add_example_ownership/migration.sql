@@ -0,0 +1,40 @@
+-- AlterTable
+ALTER TABLE "examples" ADD COLUMN "owner_id" INTEGER;
+
+-- Existing examples are owned by the user recorded as their creator, when that user still exists;
+-- the others stay shared with the whole organization
+UPDATE "examples" e SET "owner_id" = u."id"
+FROM "users" u
+WHERE u."id"::TEXT = e."created_by";
+
+-- CreateTable
+CREATE TABLE "example_shares" (
+    "id" SERIAL NOT NULL,
+    "example_id" INTEGER NOT NULL,
+    "user_id" INTEGER NOT NULL,
+    "permission" TEXT NOT NULL DEFAULT 'read',
+    "created_by" TEXT,
+    "updated_by" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "example_shares_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "examples_owner_id_idx" ON "examples"("owner_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "example_shares_example_id_user_id_key" ON "example_shares"("example_id", "user_id");
+
+-- CreateIndex
+CREATE INDEX "example_shares_user_id_idx" ON "example_shares"("user_id");
+
+-- AddForeignKey
+ALTER TABLE "examples" ADD CONSTRAINT "examples_owner_id_fkey" FOREIGN KEY ("owner_id") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "example_shares" ADD CONSTRAINT "example_shares_example_id_fkey" FOREIGN KEY ("example_id") REFERENCES "examples"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "example_shares" ADD CONSTRAINT "example_shares_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
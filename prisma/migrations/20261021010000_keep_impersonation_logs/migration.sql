@@ -0,0 +1,24 @@
+-- Impersonation logs are audit records: they outlive the purge of either account and of the session
+
+-- DropForeignKey
+ALTER TABLE "impersonation_logs" DROP CONSTRAINT "impersonation_logs_impersonator_id_fkey";
+
+-- DropForeignKey
+ALTER TABLE "impersonation_logs" DROP CONSTRAINT "impersonation_logs_target_user_id_fkey";
+
+-- DropForeignKey
+ALTER TABLE "impersonation_logs" DROP CONSTRAINT "impersonation_logs_session_id_fkey";
+
+-- AlterTable
+ALTER TABLE "impersonation_logs" ALTER COLUMN "impersonator_id" DROP NOT NULL,
+ALTER COLUMN "target_user_id" DROP NOT NULL,
+ALTER COLUMN "session_id" DROP NOT NULL;
+
+-- AddForeignKey
+ALTER TABLE "impersonation_logs" ADD CONSTRAINT "impersonation_logs_impersonator_id_fkey" FOREIGN KEY ("impersonator_id") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "impersonation_logs" ADD CONSTRAINT "impersonation_logs_target_user_id_fkey" FOREIGN KEY ("target_user_id") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "impersonation_logs" ADD CONSTRAINT "impersonation_logs_session_id_fkey" FOREIGN KEY ("session_id") REFERENCES "user_sessions"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,8 @@
+-- Accounts created before roles existed keep access to the routes now guarded by permissions:
+-- they get the default role. Administrators are promoted explicitly with `pnpm roles:assign`.
+INSERT INTO "user_roles" ("user_id", "role_id", "created_by")
+SELECT u."id", r."id", 'migration'
+FROM "users" u
+CROSS JOIN "roles" r
+WHERE r."name" = 'user' AND r."deleted_at" IS NULL AND u."deleted_at" IS NULL
+ON CONFLICT ("user_id", "role_id") DO NOTHING;
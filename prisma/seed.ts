@@ -28,6 +28,12 @@ const SEED_CONFIG = {
   defaultPassword: 'password123',
 };
 
+// Roles and the permissions they grant
+const ROLE_PERMISSIONS: Record<string, string[]> = {
+  admin: ['examples:read', 'examples:create', 'examples:update', 'examples:delete'],
+  user: ['examples:read', 'examples:create', 'examples:update', 'examples:delete'],
+};
+
 /**
  * Hash password using Argon2id
  */
@@ -35,6 +41,44 @@ async function hashPassword(password: string): Promise<string> {
   return argon2.hash(password, { type: argon2.argon2id });
 }
 
+/**
+ * Seed roles and permissions
+ */
+async function seedRoles() {
+  console.log('🔐 Seeding roles and permissions...');
+
+  const permissionNames = [...new Set(Object.values(ROLE_PERMISSIONS).flat())];
+
+  for (const name of permissionNames) {
+    await prisma.permission.upsert({
+      where: { name },
+      update: { deletedAt: null },
+      create: { name, createdBy: 'seeder' },
+    });
+  }
+  console.log(`  ✓ Upserted ${permissionNames.length} permissions`);
+
+  for (const [name, permissions] of Object.entries(ROLE_PERMISSIONS)) {
+    const role = await prisma.role.upsert({
+      where: { name },
+      update: { deletedAt: null },
+      create: { name, createdBy: 'seeder' },
+    });
+
+    const granted = await prisma.permission.findMany({ where: { name: { in: permissions } } });
+
+    await prisma.rolePermission.deleteMany({ where: { roleId: role.id } });
+    await prisma.rolePermission.createMany({
+      data: granted.map((permission) => ({
+        roleId: role.id,
+        permissionId: permission.id,
+        createdBy: 'seeder',
+      })),
+    });
+  }
+  console.log(`  ✓ Upserted ${Object.keys(ROLE_PERMISSIONS).length} roles`);
+}
+
 /**
  * Seed users
  */
@@ -42,9 +86,25 @@ async function seedUsers() {
   console.log('👤 Seeding users...');
 
   // Clear existing users and related data
+  await prisma.invitation.deleteMany();
+  await prisma.oAuthClient.deleteMany();
+  await prisma.example.deleteMany();
+  await prisma.organization.deleteMany();
+  await prisma.apiKey.deleteMany();
+  await prisma.oAuthState.deleteMany();
+  await prisma.webAuthnChallenge.deleteMany();
+  await prisma.webAuthnCredential.deleteMany();
+  await prisma.userIdentity.deleteMany();
+  await prisma.impersonationLog.deleteMany();
+  await prisma.magicLinkToken.deleteMany();
+  await prisma.loginConfirmationToken.deleteMany();
+  await prisma.passwordHistory.deleteMany();
+  await prisma.securityEvent.deleteMany();
+  await prisma.emailChangeToken.deleteMany();
   await prisma.emailVerificationToken.deleteMany();
   await prisma.passwordResetToken.deleteMany();
   await prisma.userSession.deleteMany();
+  await prisma.userRole.deleteMany();
   await prisma.user.deleteMany();
   console.log('  ✓ Cleared existing users');
 
@@ -59,6 +119,12 @@ async function seedUsers() {
       isActive: true,
       emailVerifiedAt: new Date(),
       createdBy: 'seeder',
+      roles: {
+        create: {
+          role: { connect: { name: 'admin' } },
+          createdBy: 'seeder',
+        },
+      },
     },
   });
   console.log(`  ✓ Created admin: ${admin.email}`);
@@ -82,13 +148,62 @@ async function seedUsers() {
   const created = await prisma.user.createMany({ data: users });
   console.log(`  ✓ Created ${created.count} additional users`);
 
+  // Assign the default role to every non-admin user
+  const userRole = await prisma.role.findUniqueOrThrow({ where: { name: 'user' } });
+  const regularUsers = await prisma.user.findMany({
+    where: { id: { not: admin.id } },
+    select: { id: true },
+  });
+
+  await prisma.userRole.createMany({
+    data: regularUsers.map((user) => ({
+      userId: user.id,
+      roleId: userRole.id,
+      createdBy: 'seeder',
+    })),
+  });
+  console.log(`  ✓ Assigned '${userRole.name}' role to ${regularUsers.length} users`);
+
   return admin;
 }
 
+/**
+ * Seed an organization owned by the admin with every other user as a member
+ */
+async function seedOrganization(admin: { id: number }) {
+  console.log('🏢 Seeding organization...');
+
+  const organization = await prisma.organization.create({
+    data: {
+      name: 'Acme Inc.',
+      createdBy: 'seeder',
+      memberships: {
+        create: { userId: admin.id, role: 'owner', createdBy: 'seeder' },
+      },
+    },
+  });
+
+  const members = await prisma.user.findMany({
+    where: { id: { not: admin.id } },
+    select: { id: true },
+  });
+
+  await prisma.membership.createMany({
+    data: members.map((user) => ({
+      organizationId: organization.id,
+      userId: user.id,
+      createdBy: 'seeder',
+    })),
+  });
+  console.log(`  ✓ Created ${organization.name} with ${members.length + 1} members`);
+
+  return organization;
+}
+
 /**
  * Seed examples
  */
-async function seedExamples() {
+async function seedExamples(organizationId: number) {
   console.log('📦 Seeding examples...');
 
   // Clear existing examples
@@ -96,6 +211,7 @@ async function seedExamples() {
   console.log('  ✓ Cleared existing examples');
 
   const examples = Array.from({ length: SEED_CONFIG.examples }, () => ({
+    organizationId,
     name: faker.commerce.productName(),
     description: faker.datatype.boolean({ probability: 0.8 })
       ? faker.commerce.productDescription()
@@ -117,9 +233,13 @@ async function main() {
   // Set faker seed for reproducible data
   faker.seed(12345);
 
-  await seedUsers();
+  await seedRoles();
+  console.log('');
+  const admin = await seedUsers();
+  console.log('');
+  const organization = await seedOrganization(admin);
   console.log('');
-  await seedExamples();
+  await seedExamples(organization.id);
 
   console.log('\n🌱 Seed completed!');
   console.log('\n📋 Test Credentials:');
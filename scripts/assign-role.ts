@@ -0,0 +1,56 @@
+/**
+ * Role Assignment
+ *
+ * Assigns a role to an existing account, e.g. to promote the administrators of a
+ * database upgraded from before roles existed (the migration gives every account
+ * the default role only). The new permissions apply from the user's next token
+ * refresh or sign-in.
+ *
+ * Usage:
+ *   pnpm roles:assign -- --email ops@example.com --role admin
+ */
+
+import 'dotenv/config';
+import { prisma } from '@/shared/utils/prisma';
+
+/**
+ * Read a `--name value` command line option
+ */
+function getOption(name: string): string | undefined {
+  const index = process.argv.indexOf(`--${name}`);
+  return index === -1 ? undefined : process.argv[index + 1];
+}
+
+async function main() {
+  const email = getOption('email');
+  const roleName = getOption('role');
+
+  if (!email || !roleName) {
+    throw new Error('Usage: pnpm roles:assign -- --email <email> --role <role>');
+  }
+
+  const user = await prisma.user.findFirst({ where: { email, deletedAt: null } });
+  if (!user) {
+    throw new Error(`No account uses ${email}`);
+  }
+
+  const role = await prisma.role.findFirst({ where: { name: roleName, deletedAt: null } });
+  if (!role) {
+    throw new Error(`Unknown role: ${roleName}`);
+  }
+
+  await prisma.userRole.upsert({
+    where: { userId_roleId: { userId: user.id, roleId: role.id } },
+    update: {},
+    create: { userId: user.id, roleId: role.id, createdBy: 'script' },
+  });
+
+  console.log(`✅  ${email} has the '${role.name}' role.`);
+}
+
+main()
+  .catch((error) => {
+    console.error('❌  Role assignment failed:', error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
@@ -4,9 +4,16 @@
  * Generates a cryptographically secure 64-byte random hex string
  * and updates the locally configured .env file.
  *
- * Usage: npm run secrets:generate
+ * With --keypair, generates an RS256/ES256 key pair instead and appends it to
+ * the JWT keys file. Pass --activate-at to schedule a rotation: the new key is
+ * published in the JWKS immediately but only starts signing at that time.
+ *
+ * Usage:
+ *   npm run secrets:generate
+ *   npm run secrets:generate -- --keypair ES256 [--activate-at 2026-11-01T00:00:00Z]
  */
 
+import 'dotenv/config';
 import crypto from 'crypto';
 import fs from 'fs';
 import path from 'path';
@@ -15,40 +22,144 @@ import path from 'path';
 const ENV_FILE = '.env';
 const EXAMPLE_ENV_FILE = '.env.example';
 const SECRET_LENGTH_BYTES = 64; // 64 bytes = 512 bits
+const DEFAULT_KEYS_FILE = 'keys/jwt-keys.json';
+const KEY_ALGORITHMS = ['RS256', 'ES256'] as const;
+const RSA_MODULUS_LENGTH = 2048;
+
+type KeyAlgorithm = (typeof KEY_ALGORITHMS)[number];
+
+interface KeyFileEntry {
+  kid: string;
+  alg: KeyAlgorithm;
+  privateKey: string;
+  publicKey: string;
+  activatesAt: string;
+}
 
 /**
- * Main execution
+ * Read a `--name value` command line option
  */
-function main() {
-  console.log('🔑  Generating secure JWT Secret...');
-
-  // 1. Generate Entropy
-  const secret = crypto.randomBytes(SECRET_LENGTH_BYTES).toString('hex');
+function getOption(name: string): string | undefined {
+  const index = process.argv.indexOf(`--${name}`);
+  return index === -1 ? undefined : process.argv[index + 1];
+}
 
-  const envPath = path.join(process.cwd(), ENV_FILE);
+/**
+ * Load the .env file contents, falling back to .env.example
+ */
+function readEnvContent(envPath: string): string {
   const exampleEnvPath = path.join(process.cwd(), EXAMPLE_ENV_FILE);
 
-  let envContent = '';
-
-  // 2. Resolve Environment File
   if (fs.existsSync(envPath)) {
-    envContent = fs.readFileSync(envPath, 'utf-8');
-  } else if (fs.existsSync(exampleEnvPath)) {
+    return fs.readFileSync(envPath, 'utf-8');
+  }
+
+  if (fs.existsSync(exampleEnvPath)) {
     console.log('⚠️   .env file not found, initializing from .env.example...');
-    envContent = fs.readFileSync(exampleEnvPath, 'utf-8');
-  } else {
-    console.log('ℹ️   No .env source found. Creating new file.');
+    return fs.readFileSync(exampleEnvPath, 'utf-8');
   }
 
-  // 3. Update or Insert Secret
-  if (envContent.includes('JWT_SECRET=')) {
-    envContent = envContent.replace(/^JWT_SECRET=.*$/m, `JWT_SECRET="${secret}"`);
+  console.log('ℹ️   No .env source found. Creating new file.');
+  return '';
+}
+
+/**
+ * Update or insert a variable in the .env file
+ */
+function setEnvValue(key: string, value: string) {
+  const envPath = path.join(process.cwd(), ENV_FILE);
+  let envContent = readEnvContent(envPath);
+
+  if (envContent.includes(`${key}=`)) {
+    envContent = envContent.replace(new RegExp(`^${key}=.*$`, 'm'), `${key}="${value}"`);
   } else {
-    envContent += `\nJWT_SECRET="${secret}"\n`;
+    envContent += `\n${key}="${value}"\n`;
   }
 
-  // 4. Write Changes
   fs.writeFileSync(envPath, envContent, 'utf-8');
+}
+
+/**
+ * Generate a PEM encoded key pair for the algorithm
+ */
+function generateKeyPair(alg: KeyAlgorithm): { privateKey: string; publicKey: string } {
+  const encoding = {
+    publicKeyEncoding: { type: 'spki', format: 'pem' },
+    privateKeyEncoding: { type: 'pkcs8', format: 'pem' },
+  } as const;
+
+  if (alg === 'RS256') {
+    return crypto.generateKeyPairSync('rsa', { modulusLength: RSA_MODULUS_LENGTH, ...encoding });
+  }
+
+  return crypto.generateKeyPairSync('ec', { namedCurve: 'P-256', ...encoding });
+}
+
+/**
+ * Append a new key pair to the JWT keys file
+ */
+function generateSigningKey(alg: string) {
+  if (!KEY_ALGORITHMS.includes(alg as KeyAlgorithm)) {
+    console.error(`❌  Unsupported algorithm "${alg}". Use one of: ${KEY_ALGORITHMS.join(', ')}`);
+    process.exit(1);
+  }
+
+  const activateAtOption = getOption('activate-at');
+  const activatesAt = activateAtOption ? new Date(activateAtOption) : new Date();
+
+  if (isNaN(activatesAt.getTime())) {
+    console.error(`❌  Invalid --activate-at value "${activateAtOption}"`);
+    process.exit(1);
+  }
+
+  console.log(`🔑  Generating ${alg} signing key...`);
+
+  const keysFile = process.env.JWT_KEYS_FILE || DEFAULT_KEYS_FILE;
+  const keysPath = path.join(process.cwd(), keysFile);
+
+  // 1. Load existing keys so previous keys keep verifying during rotation
+  const keyFile: { keys: KeyFileEntry[] } = fs.existsSync(keysPath)
+    ? JSON.parse(fs.readFileSync(keysPath, 'utf-8'))
+    : { keys: [] };
+
+  // 2. Generate Key Pair
+  const kid = `${activatesAt.toISOString().slice(0, 10)}-${crypto.randomBytes(4).toString('hex')}`;
+  const { privateKey, publicKey } = generateKeyPair(alg as KeyAlgorithm);
+
+  keyFile.keys.push({
+    kid,
+    alg: alg as KeyAlgorithm,
+    privateKey,
+    publicKey,
+    activatesAt: activatesAt.toISOString(),
+  });
+
+  // 3. Write Keys (private keys: owner read/write only)
+  fs.mkdirSync(path.dirname(keysPath), { recursive: true });
+  fs.writeFileSync(keysPath, JSON.stringify(keyFile, null, 2), { encoding: 'utf-8', mode: 0o600 });
+
+  // Scheduled keys must not switch the algorithm before they can sign
+  if (!activateAtOption) {
+    setEnvValue('JWT_ALGORITHM', alg);
+  }
+
+  console.log(`✅  Key ${kid} written to ${keysFile} (signs from ${activatesAt.toISOString()}).`);
+  console.log(
+    `🔒  ${keyFile.keys.length} key(s) in file. Remove retired keys once they leave the JWKS.`
+  );
+}
+
+/**
+ * Replace JWT_SECRET with a new random secret
+ */
+function generateSecret() {
+  console.log('🔑  Generating secure JWT Secret...');
+
+  // 1. Generate Entropy
+  const secret = crypto.randomBytes(SECRET_LENGTH_BYTES).toString('hex');
+
+  // 2. Update or Insert Secret
+  setEnvValue('JWT_SECRET', secret);
 
   console.log('✅  JWT_SECRET updated successfully.');
   console.log(
@@ -56,4 +167,17 @@ function main() {
   );
 }
 
+/**
+ * Main execution
+ */
+function main() {
+  const keyAlgorithm = getOption('keypair');
+
+  if (keyAlgorithm) {
+    generateSigningKey(keyAlgorithm);
+  } else {
+    generateSecret();
+  }
+}
+
 main();
@@ -0,0 +1,122 @@
+/**
+ * Breached Password Importer
+ *
+ * Adds passwords to the breached-password prefix files checked by the password
+ * policy. Each password is stored as the SHA-1 suffix in the file named after
+ * its 5 character SHA-1 prefix (`<dir>/<PREFIX>.txt`), the same layout as the
+ * Pwned Passwords range API, so only hashes are ever written to disk.
+ *
+ * The input is either a plain list (one password per line) or SHA-1 hashes as
+ * in the Pwned Passwords downloads (`HASH:COUNT` per line). Existing files are
+ * merged with the new entries. For the complete Pwned Passwords set, point
+ * AUTH_BREACHED_PASSWORDS_DIR at the output of the official downloader instead.
+ *
+ * Usage:
+ *   npm run passwords:import -- --input common-passwords.txt
+ *   npm run passwords:import -- --input pwned-sha1.txt --format sha1 [--out data/breached-passwords]
+ */
+
+import 'dotenv/config';
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import readline from 'readline';
+
+// Configuration
+const DEFAULT_OUT_DIR = process.env.AUTH_BREACHED_PASSWORDS_DIR || 'data/breached-passwords';
+const PREFIX_LENGTH = 5;
+const FORMATS = ['plain', 'sha1'] as const;
+
+type InputFormat = (typeof FORMATS)[number];
+
+/**
+ * Read a `--name value` command line option
+ */
+function getOption(name: string): string | undefined {
+  const index = process.argv.indexOf(`--${name}`);
+  return index === -1 ? undefined : process.argv[index + 1];
+}
+
+/**
+ * Uppercase SHA-1 hex of an input line, or null for blank or malformed lines
+ */
+function toHash(line: string, format: InputFormat): string | null {
+  if (format === 'plain') {
+    return line ? crypto.createHash('sha1').update(line).digest('hex').toUpperCase() : null;
+  }
+
+  const hash = line.split(':')[0].trim().toUpperCase();
+  return /^[0-9A-F]{40}$/.test(hash) ? hash : null;
+}
+
+/**
+ * Group the hashes of the input file by prefix
+ */
+async function readSuffixes(inputFile: string, format: InputFormat) {
+  const byPrefix = new Map<string, Set<string>>();
+  const lines = readline.createInterface({
+    input: fs.createReadStream(inputFile, 'utf-8'),
+    crlfDelay: Infinity,
+  });
+
+  for await (const line of lines) {
+    const hash = toHash(format === 'plain' ? line.replace(/\r$/, '') : line, format);
+
+    if (!hash) {
+      continue;
+    }
+
+    const prefix = hash.slice(0, PREFIX_LENGTH);
+    const suffixes = byPrefix.get(prefix) ?? new Set<string>();
+    suffixes.add(hash.slice(PREFIX_LENGTH));
+    byPrefix.set(prefix, suffixes);
+  }
+
+  return byPrefix;
+}
+
+async function main() {
+  const inputFile = getOption('input');
+  const format = (getOption('format') ?? 'plain') as InputFormat;
+  const outDir = path.resolve(process.cwd(), getOption('out') ?? DEFAULT_OUT_DIR);
+
+  if (!inputFile || !fs.existsSync(inputFile)) {
+    console.error('❌  Pass an existing password list with --input <file>');
+    process.exit(1);
+  }
+
+  if (!FORMATS.includes(format)) {
+    console.error(`❌  Unsupported format "${format}". Use one of: ${FORMATS.join(', ')}`);
+    process.exit(1);
+  }
+
+  console.log(`🔐  Hashing ${inputFile}...`);
+  const byPrefix = await readSuffixes(inputFile, format);
+
+  fs.mkdirSync(outDir, { recursive: true });
+
+  let total = 0;
+
+  for (const [prefix, suffixes] of byPrefix) {
+    const file = path.join(outDir, `${prefix}.txt`);
+
+    if (fs.existsSync(file)) {
+      for (const line of fs.readFileSync(file, 'utf-8').split(/\r?\n/)) {
+        const suffix = line.split(':')[0].trim().toUpperCase();
+        if (suffix) {
+          suffixes.add(suffix);
+        }
+      }
+    }
+
+    fs.writeFileSync(file, `${[...suffixes].sort().join('\n')}\n`);
+    total += suffixes.size;
+  }
+
+  console.log(`✅  ${byPrefix.size} prefix files updated in ${outDir} (${total} hashes).`);
+}
+
+main().catch((error) => {
+  console.error('❌  Import failed:', error);
+  process.exit(1);
+});
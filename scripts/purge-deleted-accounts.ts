@@ -0,0 +1,33 @@
+/**
+ * Deleted Account Purge
+ *
+ * Permanently deletes the accounts users deleted themselves once their grace
+ * period (AUTH_ACCOUNT_DELETION_GRACE_DAYS) has ended. Their sessions, tokens,
+ * passkeys and API keys go with them; security events are kept without personal
+ * details and audit columns naming the user are cleared.
+ *
+ * Run it on a schedule (e.g. a daily cron job). Running it from several
+ * instances at once is safe: each account is purged once.
+ *
+ * Usage:
+ *   pnpm accounts:purge
+ */
+
+import 'dotenv/config';
+import { purgeDeletedAccounts } from '@/features/auth/auth.service';
+import { prisma } from '@/shared/utils/prisma';
+
+async function main() {
+  console.log('🧹  Purging deleted accounts past their grace period...');
+
+  const purged = await purgeDeletedAccounts();
+
+  console.log(`✅  ${purged} account(s) purged.`);
+}
+
+main()
+  .catch((error) => {
+    console.error('❌  Purge failed:', error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
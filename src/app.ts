@@ -18,6 +18,7 @@ import {
 import { requestIdMiddleware } from '@/shared/middlewares/requestId.middleware';
 import { loggingMiddleware } from '@/shared/middlewares/logging.middleware';
 import { defaultTimeoutMiddleware } from '@/shared/middlewares/timeout.middleware';
+import { csrfMiddleware } from '@/shared/middlewares/csrf.middleware';
 
 import { notFoundHandler } from '@/shared/middlewares/notFound.middleware';
 import { errorHandler } from '@/shared/middlewares/error.middleware';
@@ -25,6 +26,14 @@ import { errorHandler } from '@/shared/middlewares/error.middleware';
 import healthRoutes from '@/features/health/health.routes';
 import exampleRoutes from '@/features/example/example.routes';
 import authRoutes from '@/features/auth/auth.routes';
+import jwksRoutes from '@/features/jwks/jwks.routes';
+import adminRoutes from '@/features/admin/admin.routes';
+import oauthRoutes from '@/features/oauth/oauth.routes';
+import apiKeyRoutes from '@/features/api-keys/api-keys.routes';
+import passkeyRoutes from '@/features/passkeys/passkeys.routes';
+import oauthClientRoutes, { tokenRouter } from '@/features/oauth-clients/oauth-clients.routes';
+import invitationRoutes, { acceptRouter } from '@/features/invitations/invitations.routes';
+import organizationRoutes from '@/features/organizations/organizations.routes';
 
 const app: Express = express();
 
@@ -48,6 +57,7 @@ app.use(loggingMiddleware);
 app.use(defaultTimeoutMiddleware);
 app.use(express.json({ limit: config.request.bodyLimit }));
 app.use(express.urlencoded({ extended: true, limit: config.request.bodyLimit }));
+app.use(csrfMiddleware);
 
 /**
  * Feature Routes
@@ -55,9 +65,19 @@ app.use(express.urlencoded({ extended: true, limit: config.request.bodyLimit }))
 const v1Router = express.Router();
 v1Router.use('/health', healthRoutes);
 v1Router.use('/examples', exampleRoutes);
+v1Router.use('/organizations', organizationRoutes);
+v1Router.use('/auth/oauth', oauthRoutes);
+v1Router.use('/auth/api-keys', apiKeyRoutes);
+v1Router.use('/auth/passkeys', passkeyRoutes);
+v1Router.use('/auth/invitations', acceptRouter);
 v1Router.use('/auth', authRoutes);
+v1Router.use('/admin/oauth-clients', oauthClientRoutes);
+v1Router.use('/admin/invitations', invitationRoutes);
+v1Router.use('/admin', adminRoutes);
 
 app.use('/api/v1', v1Router);
+app.use('/.well-known', jwksRoutes);
+app.use('/oauth', tokenRouter);
 
 if (isDevelopment) {
   app.get('/error', () => {
@@ -5,6 +5,17 @@
  * Fails fast if required variables are missing.
  */
 
+export type JwtAlgorithm = 'HS256' | 'RS256' | 'ES256';
+
+export type TokenTransport = 'body' | 'cookie';
+
+export type CookieSameSite = 'strict' | 'lax' | 'none';
+
+export interface OAuthClientConfig {
+  clientId: string;
+  clientSecret: string;
+}
+
 export interface AppConfig {
   env: string;
   port: number;
@@ -22,6 +33,8 @@ export interface AppConfig {
   rateLimit: {
     windowMs: number;
     max: number;
+    emailWindowMs: number;
+    emailMax: number;
   };
   log: {
     level: string;
@@ -34,6 +47,9 @@ export interface AppConfig {
   };
   jwt: {
     secret: string;
+    algorithm: JwtAlgorithm;
+    keysFile: string;
+    keyGracePeriodMinutes: number;
     issuer: string;
     audience: string;
     accessExpiration: string;
@@ -42,8 +58,58 @@ export interface AppConfig {
     refreshTokenExpiresDays: number;
     emailTokenExpiresMinutes: number;
     passwordResetTokenExpiresMinutes: number;
+    magicLinkExpiresMinutes: number;
     maxLoginAttempts: number;
     lockDurationMinutes: number;
+    defaultRole: string;
+    mfaIssuer: string;
+    mfaChallengeExpiresMinutes: number;
+    mfaRecoveryCodeCount: number;
+    sessionCacheTtlMs: number;
+    requireVerifiedEmailForLogin: boolean;
+    impersonationExpiresMinutes: number;
+    passwordMinLength: number;
+    passwordMaxLength: number;
+    passwordRequireLowercase: boolean;
+    passwordRequireUppercase: boolean;
+    passwordRequireDigit: boolean;
+    passwordRequireSymbol: boolean;
+    passwordHistorySize: number;
+    passwordBreachCheck: boolean;
+    breachedPasswordsDir: string;
+    loginAlerts: boolean;
+    loginRiskLookbackDays: number;
+    loginTravelWindowMinutes: number;
+    confirmHighRiskLogin: boolean;
+    loginConfirmationExpiresMinutes: number;
+    accountDeletionGraceDays: number;
+    recentSignInMinutes: number;
+    inviteOnly: boolean;
+    invitationExpiresDays: number;
+  };
+  cookies: {
+    tokenTransport: TokenTransport;
+    accessToken: boolean;
+    sameSite: CookieSameSite;
+    secure: boolean;
+    domain?: string;
+  };
+  webauthn: {
+    rpId: string;
+    rpName: string;
+    origins: string[];
+    challengeExpiresMinutes: number;
+  };
+  oauth: {
+    redirectBaseUrl: string;
+    stateExpiresMinutes: number;
+    google: OAuthClientConfig;
+    github: OAuthClientConfig;
+    oidc: OAuthClientConfig & {
+      issuer: string;
+      scopes: string;
+    };
+    clientTokenExpiresMinutes: number;
   };
   mail: {
     host: string;
@@ -71,6 +137,8 @@ function parseCorsOrigin(origin: string): string | string[] {
 const DEFAULT_PORT = '3000';
 const DEFAULT_RATE_LIMIT_WINDOW_MS = '900000';
 const DEFAULT_RATE_LIMIT_MAX_REQUESTS = '100';
+const DEFAULT_RATE_LIMIT_EMAIL_WINDOW_MS = '3600000';
+const DEFAULT_RATE_LIMIT_EMAIL_MAX_REQUESTS = '5';
 const DEFAULT_LOG_DIR = 'logs';
 const DEFAULT_BODY_LIMIT = '10mb';
 const DEFAULT_REQUEST_TIMEOUT_MS = '30000';
@@ -79,17 +147,88 @@ const DEFAULT_HSTS_MAX_AGE = '31536000';
 const DEFAULT_CORS_MAX_AGE = '86400';
 const DEFAULT_REQUEST_ID_HEADER = 'X-Request-Id';
 const DEFAULT_JWT_SECRET = 'dev_secret_do_not_use';
+const DEFAULT_JWT_ALGORITHM = 'HS256';
+const DEFAULT_JWT_KEYS_FILE = 'keys/jwt-keys.json';
+const DEFAULT_JWT_KEY_GRACE_PERIOD_MINUTES = '60';
 const DEFAULT_JWT_ISSUER = 'express-api';
 const DEFAULT_JWT_AUDIENCE = 'express-api-client';
 const DEFAULT_JWT_ACCESS_EXPIRATION = '15m';
 const DEFAULT_AUTH_REFRESH_TOKEN_EXPIRES_DAYS = '7';
 const DEFAULT_AUTH_EMAIL_TOKEN_EXPIRES_MINUTES = '1440';
 const DEFAULT_AUTH_PASSWORD_RESET_TOKEN_EXPIRES_MINUTES = '60';
+const DEFAULT_AUTH_MAGIC_LINK_EXPIRES_MINUTES = '15';
 const DEFAULT_AUTH_MAX_LOGIN_ATTEMPTS = '5';
 const DEFAULT_AUTH_LOCK_DURATION_MINUTES = '15';
+const DEFAULT_AUTH_DEFAULT_ROLE = 'user';
+const DEFAULT_AUTH_MFA_ISSUER = 'Express API';
+const DEFAULT_AUTH_MFA_CHALLENGE_EXPIRES_MINUTES = '5';
+const DEFAULT_AUTH_MFA_RECOVERY_CODE_COUNT = '10';
+const DEFAULT_AUTH_SESSION_CACHE_TTL_MS = '30000';
+const DEFAULT_AUTH_REQUIRE_VERIFIED_EMAIL = 'false';
+const DEFAULT_AUTH_IMPERSONATION_EXPIRES_MINUTES = '15';
+const DEFAULT_AUTH_PASSWORD_MIN_LENGTH = '12';
+const DEFAULT_AUTH_PASSWORD_MAX_LENGTH = '128';
+const DEFAULT_AUTH_PASSWORD_REQUIRE_CHARACTER_CLASS = 'false';
+const DEFAULT_AUTH_PASSWORD_HISTORY_SIZE = '5';
+const DEFAULT_AUTH_PASSWORD_BREACH_CHECK = 'true';
+const DEFAULT_AUTH_BREACHED_PASSWORDS_DIR = 'data/breached-passwords';
+const DEFAULT_AUTH_LOGIN_ALERTS = 'true';
+const DEFAULT_AUTH_LOGIN_RISK_LOOKBACK_DAYS = '90';
+const DEFAULT_AUTH_LOGIN_TRAVEL_WINDOW_MINUTES = '120';
+const DEFAULT_AUTH_CONFIRM_HIGH_RISK_LOGIN = 'false';
+const DEFAULT_AUTH_LOGIN_CONFIRMATION_EXPIRES_MINUTES = '15';
+const DEFAULT_AUTH_ACCOUNT_DELETION_GRACE_DAYS = '30';
+const DEFAULT_AUTH_RECENT_SIGN_IN_MINUTES = '10';
+const DEFAULT_AUTH_INVITE_ONLY = 'false';
+const DEFAULT_AUTH_INVITATION_EXPIRES_DAYS = '7';
+const DEFAULT_AUTH_TOKEN_TRANSPORT = 'body';
+const DEFAULT_AUTH_ACCESS_TOKEN_COOKIE = 'false';
+const DEFAULT_AUTH_COOKIE_SAME_SITE = 'strict';
+const DEFAULT_AUTH_COOKIE_SECURE = 'true';
+const DEFAULT_WEBAUTHN_RP_NAME = 'Express API';
+const DEFAULT_WEBAUTHN_CHALLENGE_EXPIRES_MINUTES = '5';
+const DEFAULT_OAUTH_STATE_EXPIRES_MINUTES = '10';
+const DEFAULT_OAUTH_OIDC_SCOPES = 'openid email profile';
+const DEFAULT_OAUTH_CLIENT_TOKEN_EXPIRES_MINUTES = '15';
 const DEFAULT_MAIL_HOST = 'localhost';
 const DEFAULT_MAIL_PORT = '1025';
 
+const JWT_ALGORITHMS: JwtAlgorithm[] = ['HS256', 'RS256', 'ES256'];
+
+/**
+ * Parse JWT signing algorithm - shared secret (HS256) or key pairs (RS256/ES256)
+ */
+function parseJwtAlgorithm(algorithm: string): JwtAlgorithm {
+  if (!JWT_ALGORITHMS.includes(algorithm as JwtAlgorithm)) {
+    throw new Error(`Invalid JWT_ALGORITHM value: must be one of ${JWT_ALGORITHMS.join(', ')}`);
+  }
+  return algorithm as JwtAlgorithm;
+}
+
+const TOKEN_TRANSPORTS: TokenTransport[] = ['body', 'cookie'];
+const COOKIE_SAME_SITE_VALUES: CookieSameSite[] = ['strict', 'lax', 'none'];
+
+/**
+ * Parse how tokens reach the client - JSON body (default) or HttpOnly cookies for browsers
+ */
+function parseTokenTransport(transport: string): TokenTransport {
+  if (!TOKEN_TRANSPORTS.includes(transport as TokenTransport)) {
+    throw new Error(
+      `Invalid AUTH_TOKEN_TRANSPORT value: must be one of ${TOKEN_TRANSPORTS.join(', ')}`
+    );
+  }
+  return transport as TokenTransport;
+}
+
+function parseCookieSameSite(sameSite: string): CookieSameSite {
+  if (!COOKIE_SAME_SITE_VALUES.includes(sameSite as CookieSameSite)) {
+    throw new Error(
+      `Invalid AUTH_COOKIE_SAME_SITE value: must be one of ${COOKIE_SAME_SITE_VALUES.join(', ')}`
+    );
+  }
+  return sameSite as CookieSameSite;
+}
+
 /**
  * Validate and build configuration object
  */
@@ -102,6 +241,7 @@ function buildConfig(): AppConfig {
   }
 
   const defaultUrl = `http://localhost:${port}`;
+  const appUrl = getOptional('APP_URL', defaultUrl);
   const corsOrigin = getOptional('CORS_ORIGIN', defaultUrl);
   const rateLimitWindowMs = parseInt(
     getOptional('RATE_LIMIT_WINDOW_MS', DEFAULT_RATE_LIMIT_WINDOW_MS),
@@ -132,7 +272,7 @@ function buildConfig(): AppConfig {
     env,
     port,
     app: {
-      url: getOptional('APP_URL', defaultUrl),
+      url: appUrl,
       gracefulShutdownTimeoutMs: parseInt(
         getOptional('GRACEFUL_SHUTDOWN_TIMEOUT_MS', DEFAULT_GRACEFUL_SHUTDOWN_TIMEOUT_MS),
         10
@@ -148,6 +288,14 @@ function buildConfig(): AppConfig {
     rateLimit: {
       windowMs: rateLimitWindowMs,
       max: rateLimitMax,
+      emailWindowMs: parseInt(
+        getOptional('RATE_LIMIT_EMAIL_WINDOW_MS', DEFAULT_RATE_LIMIT_EMAIL_WINDOW_MS),
+        10
+      ),
+      emailMax: parseInt(
+        getOptional('RATE_LIMIT_EMAIL_MAX_REQUESTS', DEFAULT_RATE_LIMIT_EMAIL_MAX_REQUESTS),
+        10
+      ),
     },
     log: {
       level: logLevel,
@@ -160,6 +308,12 @@ function buildConfig(): AppConfig {
     },
     jwt: {
       secret: getOptional('JWT_SECRET', DEFAULT_JWT_SECRET),
+      algorithm: parseJwtAlgorithm(getOptional('JWT_ALGORITHM', DEFAULT_JWT_ALGORITHM)),
+      keysFile: getOptional('JWT_KEYS_FILE', DEFAULT_JWT_KEYS_FILE),
+      keyGracePeriodMinutes: parseInt(
+        getOptional('JWT_KEY_GRACE_PERIOD_MINUTES', DEFAULT_JWT_KEY_GRACE_PERIOD_MINUTES),
+        10
+      ),
       issuer: getOptional('JWT_ISSUER', DEFAULT_JWT_ISSUER),
       audience: getOptional('JWT_AUDIENCE', DEFAULT_JWT_AUDIENCE),
       accessExpiration: getOptional('JWT_ACCESS_EXPIRATION', DEFAULT_JWT_ACCESS_EXPIRATION),
@@ -180,6 +334,10 @@ function buildConfig(): AppConfig {
         ),
         10
       ),
+      magicLinkExpiresMinutes: parseInt(
+        getOptional('AUTH_MAGIC_LINK_EXPIRES_MINUTES', DEFAULT_AUTH_MAGIC_LINK_EXPIRES_MINUTES),
+        10
+      ),
       maxLoginAttempts: parseInt(
         getOptional('AUTH_MAX_LOGIN_ATTEMPTS', DEFAULT_AUTH_MAX_LOGIN_ATTEMPTS),
         10
@@ -188,6 +346,156 @@ function buildConfig(): AppConfig {
         getOptional('AUTH_LOCK_DURATION_MINUTES', DEFAULT_AUTH_LOCK_DURATION_MINUTES),
         10
       ),
+      defaultRole: getOptional('AUTH_DEFAULT_ROLE', DEFAULT_AUTH_DEFAULT_ROLE),
+      mfaIssuer: getOptional('AUTH_MFA_ISSUER', DEFAULT_AUTH_MFA_ISSUER),
+      mfaChallengeExpiresMinutes: parseInt(
+        getOptional(
+          'AUTH_MFA_CHALLENGE_EXPIRES_MINUTES',
+          DEFAULT_AUTH_MFA_CHALLENGE_EXPIRES_MINUTES
+        ),
+        10
+      ),
+      mfaRecoveryCodeCount: parseInt(
+        getOptional('AUTH_MFA_RECOVERY_CODE_COUNT', DEFAULT_AUTH_MFA_RECOVERY_CODE_COUNT),
+        10
+      ),
+      sessionCacheTtlMs: parseInt(
+        getOptional('AUTH_SESSION_CACHE_TTL_MS', DEFAULT_AUTH_SESSION_CACHE_TTL_MS),
+        10
+      ),
+      requireVerifiedEmailForLogin:
+        getOptional('AUTH_REQUIRE_VERIFIED_EMAIL', DEFAULT_AUTH_REQUIRE_VERIFIED_EMAIL) === 'true',
+      impersonationExpiresMinutes: parseInt(
+        getOptional(
+          'AUTH_IMPERSONATION_EXPIRES_MINUTES',
+          DEFAULT_AUTH_IMPERSONATION_EXPIRES_MINUTES
+        ),
+        10
+      ),
+      passwordMinLength: parseInt(
+        getOptional('AUTH_PASSWORD_MIN_LENGTH', DEFAULT_AUTH_PASSWORD_MIN_LENGTH),
+        10
+      ),
+      passwordMaxLength: parseInt(
+        getOptional('AUTH_PASSWORD_MAX_LENGTH', DEFAULT_AUTH_PASSWORD_MAX_LENGTH),
+        10
+      ),
+      passwordRequireLowercase:
+        getOptional(
+          'AUTH_PASSWORD_REQUIRE_LOWERCASE',
+          DEFAULT_AUTH_PASSWORD_REQUIRE_CHARACTER_CLASS
+        ) === 'true',
+      passwordRequireUppercase:
+        getOptional(
+          'AUTH_PASSWORD_REQUIRE_UPPERCASE',
+          DEFAULT_AUTH_PASSWORD_REQUIRE_CHARACTER_CLASS
+        ) === 'true',
+      passwordRequireDigit:
+        getOptional(
+          'AUTH_PASSWORD_REQUIRE_DIGIT',
+          DEFAULT_AUTH_PASSWORD_REQUIRE_CHARACTER_CLASS
+        ) === 'true',
+      passwordRequireSymbol:
+        getOptional(
+          'AUTH_PASSWORD_REQUIRE_SYMBOL',
+          DEFAULT_AUTH_PASSWORD_REQUIRE_CHARACTER_CLASS
+        ) === 'true',
+      passwordHistorySize: parseInt(
+        getOptional('AUTH_PASSWORD_HISTORY_SIZE', DEFAULT_AUTH_PASSWORD_HISTORY_SIZE),
+        10
+      ),
+      passwordBreachCheck:
+        getOptional('AUTH_PASSWORD_BREACH_CHECK', DEFAULT_AUTH_PASSWORD_BREACH_CHECK) === 'true',
+      breachedPasswordsDir: getOptional(
+        'AUTH_BREACHED_PASSWORDS_DIR',
+        DEFAULT_AUTH_BREACHED_PASSWORDS_DIR
+      ),
+      loginAlerts: getOptional('AUTH_LOGIN_ALERTS', DEFAULT_AUTH_LOGIN_ALERTS) === 'true',
+      loginRiskLookbackDays: parseInt(
+        getOptional('AUTH_LOGIN_RISK_LOOKBACK_DAYS', DEFAULT_AUTH_LOGIN_RISK_LOOKBACK_DAYS),
+        10
+      ),
+      loginTravelWindowMinutes: parseInt(
+        getOptional('AUTH_LOGIN_TRAVEL_WINDOW_MINUTES', DEFAULT_AUTH_LOGIN_TRAVEL_WINDOW_MINUTES),
+        10
+      ),
+      confirmHighRiskLogin:
+        getOptional('AUTH_CONFIRM_HIGH_RISK_LOGIN', DEFAULT_AUTH_CONFIRM_HIGH_RISK_LOGIN) ===
+        'true',
+      loginConfirmationExpiresMinutes: parseInt(
+        getOptional(
+          'AUTH_LOGIN_CONFIRMATION_EXPIRES_MINUTES',
+          DEFAULT_AUTH_LOGIN_CONFIRMATION_EXPIRES_MINUTES
+        ),
+        10
+      ),
+      accountDeletionGraceDays: parseInt(
+        getOptional('AUTH_ACCOUNT_DELETION_GRACE_DAYS', DEFAULT_AUTH_ACCOUNT_DELETION_GRACE_DAYS),
+        10
+      ),
+      recentSignInMinutes: parseInt(
+        getOptional('AUTH_RECENT_SIGN_IN_MINUTES', DEFAULT_AUTH_RECENT_SIGN_IN_MINUTES),
+        10
+      ),
+      inviteOnly: getOptional('AUTH_INVITE_ONLY', DEFAULT_AUTH_INVITE_ONLY) === 'true',
+      invitationExpiresDays: parseInt(
+        getOptional('AUTH_INVITATION_EXPIRES_DAYS', DEFAULT_AUTH_INVITATION_EXPIRES_DAYS),
+        10
+      ),
+    },
+    cookies: {
+      tokenTransport: parseTokenTransport(
+        getOptional('AUTH_TOKEN_TRANSPORT', DEFAULT_AUTH_TOKEN_TRANSPORT)
+      ),
+      accessToken:
+        getOptional('AUTH_ACCESS_TOKEN_COOKIE', DEFAULT_AUTH_ACCESS_TOKEN_COOKIE) === 'true',
+      sameSite: parseCookieSameSite(
+        getOptional('AUTH_COOKIE_SAME_SITE', DEFAULT_AUTH_COOKIE_SAME_SITE)
+      ),
+      secure: getOptional('AUTH_COOKIE_SECURE', DEFAULT_AUTH_COOKIE_SECURE) === 'true',
+      domain: getOptional('AUTH_COOKIE_DOMAIN', '') || undefined,
+    },
+    webauthn: {
+      rpId: getOptional('WEBAUTHN_RP_ID', new URL(appUrl).hostname),
+      rpName: getOptional('WEBAUTHN_RP_NAME', DEFAULT_WEBAUTHN_RP_NAME),
+      origins: getOptional('WEBAUTHN_ORIGINS', new URL(appUrl).origin)
+        .split(',')
+        .map((origin) => origin.trim()),
+      challengeExpiresMinutes: parseInt(
+        getOptional(
+          'WEBAUTHN_CHALLENGE_EXPIRES_MINUTES',
+          DEFAULT_WEBAUTHN_CHALLENGE_EXPIRES_MINUTES
+        ),
+        10
+      ),
+    },
+    oauth: {
+      redirectBaseUrl: getOptional('OAUTH_REDIRECT_BASE_URL', `${appUrl}/oauth/callback`),
+      stateExpiresMinutes: parseInt(
+        getOptional('OAUTH_STATE_EXPIRES_MINUTES', DEFAULT_OAUTH_STATE_EXPIRES_MINUTES),
+        10
+      ),
+      google: {
+        clientId: getOptional('OAUTH_GOOGLE_CLIENT_ID', ''),
+        clientSecret: getOptional('OAUTH_GOOGLE_CLIENT_SECRET', ''),
+      },
+      github: {
+        clientId: getOptional('OAUTH_GITHUB_CLIENT_ID', ''),
+        clientSecret: getOptional('OAUTH_GITHUB_CLIENT_SECRET', ''),
+      },
+      oidc: {
+        issuer: getOptional('OAUTH_OIDC_ISSUER', ''),
+        clientId: getOptional('OAUTH_OIDC_CLIENT_ID', ''),
+        clientSecret: getOptional('OAUTH_OIDC_CLIENT_SECRET', ''),
+        scopes: getOptional('OAUTH_OIDC_SCOPES', DEFAULT_OAUTH_OIDC_SCOPES),
+      },
+      clientTokenExpiresMinutes: parseInt(
+        getOptional(
+          'OAUTH_CLIENT_TOKEN_EXPIRES_MINUTES',
+          DEFAULT_OAUTH_CLIENT_TOKEN_EXPIRES_MINUTES
+        ),
+        10
+      ),
     },
     mail: {
       host: getOptional('MAIL_HOST', DEFAULT_MAIL_HOST),
@@ -206,7 +514,7 @@ export const isTest = config.env === 'test';
 
 // Enforce critical secrets in production
 if (isProduction) {
-  if (config.jwt.secret === DEFAULT_JWT_SECRET) {
+  if (config.jwt.algorithm === 'HS256' && config.jwt.secret === DEFAULT_JWT_SECRET) {
     throw new Error('JWT_SECRET must be set in production environment');
   }
 }
@@ -51,7 +51,14 @@ export const corsConfig: CorsOptions = {
   origin: config.cors.origin,
   credentials: true,
   methods: ['GET', 'POST', 'PUT', 'DELETE', 'PATCH', 'OPTIONS'],
-  allowedHeaders: ['Content-Type', 'Authorization', 'X-Requested-With'],
+  allowedHeaders: [
+    'Content-Type',
+    'Authorization',
+    'X-API-Key',
+    'X-Organization-Id',
+    'X-CSRF-Token',
+    'X-Requested-With',
+  ],
   exposedHeaders: ['X-RateLimit-Limit', 'X-RateLimit-Remaining', 'X-RateLimit-Reset'],
   maxAge: config.security.corsMaxAge, // preflight cache
 };
@@ -74,6 +81,21 @@ export const rateLimitConfig: Partial<RateLimitOptions> = {
   skipFailedRequests: false, // Count failed requests too
 };
 
+/**
+ * Rate limiting for endpoints that send email
+ * Stops a single client from flooding an inbox or the mail server
+ */
+export const emailRateLimitConfig: Partial<RateLimitOptions> = {
+  ...rateLimitConfig,
+  windowMs: config.rateLimit.emailWindowMs,
+  max: config.rateLimit.emailMax,
+  message: {
+    error: 'Too Many Requests',
+    message: 'Too many email requests from this IP, please try again later',
+    retryAfter: Math.ceil(config.rateLimit.emailWindowMs / 1000),
+  },
+};
+
 /**
  * HPP (HTTP Parameter Pollution) configuration
  * Protects against parameter pollution attacks
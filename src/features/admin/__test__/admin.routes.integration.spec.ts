@@ -0,0 +1,289 @@
+import 'dotenv/config';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import request from 'supertest';
+import express, { Request, Response, NextFunction } from 'express';
+import { Logger } from 'pino';
+import adminRoutes from '@/features/admin/admin.routes';
+import type { AdminUser } from '@/features/admin/admin.types';
+import * as adminService from '@/features/admin/admin.service';
+import { errorHandler } from '@/shared/middlewares/error.middleware';
+import { ForbiddenError, NotFoundError } from '@/shared/errors';
+
+// Mock Service Layer
+vi.mock('@/features/admin/admin.service');
+
+const { mockRoles } = vi.hoisted(() => ({
+  mockRoles: ['admin'],
+}));
+
+// Mock Auth Middleware Module (keep the real requireRole)
+vi.mock('@/shared/middlewares/auth.middleware', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/shared/middlewares/auth.middleware')>()),
+  authenticate: (req: Request, res: Response, next: NextFunction) => {
+    req.user = { userId: 1, sessionId: 1, roles: [...mockRoles], permissions: [] };
+    next();
+  },
+}));
+
+const app = express();
+app.use(express.json());
+
+// Mock Logger Middleware
+app.use((req: Request, res: Response, next: NextFunction) => {
+  (req as Request & { log: Partial<Logger> }).log = {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+    trace: vi.fn(),
+    fatal: vi.fn(),
+    level: 'info',
+    silent: vi.fn(),
+    child: vi.fn(),
+  } as unknown as Logger;
+  next();
+});
+app.use('/api/v1/admin', adminRoutes);
+app.use(errorHandler);
+
+const mockUser = {
+  id: 2,
+  name: 'Test User',
+  email: 'test@example.com',
+  isActive: true,
+  roles: ['user'],
+  deletedAt: null,
+} as unknown as AdminUser;
+
+describe('Admin Feature Integration (Route/Controller)', () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+  });
+
+  describe('Role guard', () => {
+    it('should return 403 for users without the admin role', async () => {
+      mockRoles.splice(0, mockRoles.length, 'user');
+
+      const res = await request(app).get('/api/v1/admin/users');
+
+      mockRoles.splice(0, mockRoles.length, 'admin');
+
+      expect(res.status).toBe(403);
+      expect(adminService.listUsers).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('GET /api/v1/admin/users', () => {
+    it('should list users with filters and pagination', async () => {
+      vi.mocked(adminService.listUsers).mockResolvedValue({
+        data: [mockUser],
+        meta: { total: 1, per_page: 10, current_page: 2, last_page: 1, from: 11, to: 11 },
+      });
+
+      const res = await request(app).get(
+        '/api/v1/admin/users?page=2&per_page=10&search=test&status=active&role=user'
+      );
+
+      expect(res.status).toBe(200);
+      expect(res.body.data).toHaveLength(1);
+      expect(res.body.meta.total).toBe(1);
+      expect(adminService.listUsers).toHaveBeenCalledWith({
+        page: 2,
+        perPage: 10,
+        search: 'test',
+        status: 'active',
+        role: 'user',
+      });
+    });
+
+    it('should cap the page size', async () => {
+      vi.mocked(adminService.listUsers).mockResolvedValue({
+        data: [],
+        meta: { total: 0, per_page: 100, current_page: 1, last_page: 0, from: 1, to: 0 },
+      });
+
+      await request(app).get('/api/v1/admin/users?per_page=5000');
+
+      expect(adminService.listUsers).toHaveBeenCalledWith(
+        expect.objectContaining({ perPage: 100 })
+      );
+    });
+
+    it('should return 422 for an unknown status', async () => {
+      const res = await request(app).get('/api/v1/admin/users?status=banned');
+
+      expect(res.status).toBe(422);
+      expect(adminService.listUsers).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('GET /api/v1/admin/security-events', () => {
+    const emptyPage = {
+      data: [],
+      meta: { total: 0, per_page: 15, current_page: 1, last_page: 0, from: 1, to: 0 },
+    };
+
+    it('should query security events with filters', async () => {
+      vi.mocked(adminService.listSecurityEvents).mockResolvedValue(emptyPage);
+
+      const res = await request(app).get(
+        '/api/v1/admin/security-events?user_id=2&type=login_failed&email=test@example.com' +
+          '&ip=203.0.113.9&from=2026-10-01T00:00:00Z&to=2026-10-19'
+      );
+
+      expect(res.status).toBe(200);
+      expect(adminService.listSecurityEvents).toHaveBeenCalledWith({
+        page: 1,
+        perPage: 15,
+        userId: 2,
+        type: 'login_failed',
+        email: 'test@example.com',
+        ipAddress: '203.0.113.9',
+        from: new Date('2026-10-01T00:00:00Z'),
+        to: new Date('2026-10-19'),
+      });
+    });
+
+    it.each([
+      ['type=unknown', 'type'],
+      ['user_id=abc', 'user_id'],
+      ['from=yesterday', 'from'],
+    ])('should return 422 for %s', async (query, field) => {
+      const res = await request(app).get(`/api/v1/admin/security-events?${query}`);
+
+      expect(res.status).toBe(422);
+      expect(res.body.error.details).toHaveProperty(field);
+      expect(adminService.listSecurityEvents).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('GET /api/v1/admin/users/:id', () => {
+    it('should return the user', async () => {
+      vi.mocked(adminService.getUser).mockResolvedValue(mockUser);
+
+      const res = await request(app).get('/api/v1/admin/users/2');
+
+      expect(res.status).toBe(200);
+      expect(res.body.data.id).toBe(2);
+    });
+
+    it('should return 404 when the user does not exist', async () => {
+      vi.mocked(adminService.getUser).mockRejectedValue(NotFoundError.resource('User', 999));
+
+      const res = await request(app).get('/api/v1/admin/users/999');
+
+      expect(res.status).toBe(404);
+    });
+
+    it('should return 422 for a non-numeric id', async () => {
+      const res = await request(app).get('/api/v1/admin/users/abc');
+
+      expect(res.status).toBe(422);
+    });
+  });
+
+  describe('Account actions', () => {
+    it('should activate a user', async () => {
+      vi.mocked(adminService.activateUser).mockResolvedValue(mockUser);
+
+      const res = await request(app).post('/api/v1/admin/users/2/activate');
+
+      expect(res.status).toBe(200);
+      expect(adminService.activateUser).toHaveBeenCalledWith(2, 1);
+    });
+
+    it('should deactivate a user', async () => {
+      vi.mocked(adminService.deactivateUser).mockResolvedValue({ ...mockUser, isActive: false });
+
+      const res = await request(app).post('/api/v1/admin/users/2/deactivate');
+
+      expect(res.status).toBe(200);
+      expect(res.body.data.isActive).toBe(false);
+    });
+
+    it('should return 403 when deactivating your own account', async () => {
+      vi.mocked(adminService.deactivateUser).mockRejectedValue(
+        new ForbiddenError('You cannot deactivate your own account')
+      );
+
+      const res = await request(app).post('/api/v1/admin/users/1/deactivate');
+
+      expect(res.status).toBe(403);
+    });
+
+    it('should unlock a user', async () => {
+      vi.mocked(adminService.unlockUser).mockResolvedValue(mockUser);
+
+      const res = await request(app).post('/api/v1/admin/users/2/unlock');
+
+      expect(res.status).toBe(200);
+      expect(adminService.unlockUser).toHaveBeenCalledWith(2, 1);
+    });
+
+    it('should force a password reset', async () => {
+      vi.mocked(adminService.forcePasswordReset).mockResolvedValue(undefined);
+
+      const res = await request(app).post('/api/v1/admin/users/2/force-password-reset');
+
+      expect(res.status).toBe(200);
+      expect(adminService.forcePasswordReset).toHaveBeenCalledWith(2, 1);
+    });
+
+    it('should revoke all sessions', async () => {
+      vi.mocked(adminService.revokeUserSessions).mockResolvedValue({ revokedCount: 2 });
+
+      const res = await request(app).post('/api/v1/admin/users/2/revoke-sessions');
+
+      expect(res.status).toBe(200);
+      expect(res.body.data.revokedCount).toBe(2);
+    });
+
+    it('should issue an impersonation token', async () => {
+      vi.mocked(adminService.impersonateUser).mockResolvedValue({
+        accessToken: 'impersonation-token',
+        expiresAt: new Date(),
+      });
+
+      const res = await request(app)
+        .post('/api/v1/admin/users/2/impersonate')
+        .send({ reason: 'Ticket 42' });
+
+      expect(res.status).toBe(200);
+      expect(res.body.data.accessToken).toBe('impersonation-token');
+      expect(adminService.impersonateUser).toHaveBeenCalledWith(
+        2,
+        1,
+        expect.objectContaining({ reason: 'Ticket 42' })
+      );
+    });
+
+    it('should allow impersonation without a reason', async () => {
+      vi.mocked(adminService.impersonateUser).mockResolvedValue({
+        accessToken: 'impersonation-token',
+        expiresAt: new Date(),
+      });
+
+      const res = await request(app).post('/api/v1/admin/users/2/impersonate');
+
+      expect(res.status).toBe(200);
+    });
+
+    it('should soft-delete a user', async () => {
+      vi.mocked(adminService.deleteUser).mockResolvedValue(undefined);
+
+      const res = await request(app).delete('/api/v1/admin/users/2');
+
+      expect(res.status).toBe(200);
+      expect(adminService.deleteUser).toHaveBeenCalledWith(2, 1);
+    });
+
+    it('should restore a user', async () => {
+      vi.mocked(adminService.restoreUser).mockResolvedValue(mockUser);
+
+      const res = await request(app).post('/api/v1/admin/users/2/restore');
+
+      expect(res.status).toBe(200);
+      expect(adminService.restoreUser).toHaveBeenCalledWith(2, 1);
+    });
+  });
+});
@@ -0,0 +1,290 @@
+/**
+ * Admin Service Unit Tests
+ *
+ * Tests the service layer with mocked repository.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { NotFoundError, ForbiddenError, ConflictError } from '@/shared/errors';
+import type { AdminUserRecord } from '@/features/admin/admin.repository';
+
+// Mock the repository
+vi.mock('@/features/admin/admin.repository', () => ({
+  findAll: vi.fn(),
+  findById: vi.fn(),
+  update: vi.fn(),
+  deactivate: vi.fn(),
+  revokeAllSessions: vi.fn(),
+  softDelete: vi.fn(),
+  restore: vi.fn(),
+  clearPassword: vi.fn(),
+  findSecurityEvents: vi.fn(),
+}));
+
+vi.mock('@/features/auth/auth.service', () => ({
+  sendPasswordResetLink: vi.fn(),
+  startImpersonation: vi.fn(),
+}));
+
+vi.mock('@/shared/utils/sessionState', () => ({
+  invalidateUserSessionStates: vi.fn(),
+}));
+
+// Import after mocking
+import * as adminRepository from '@/features/admin/admin.repository';
+import { sendPasswordResetLink, startImpersonation } from '@/features/auth/auth.service';
+import { invalidateUserSessionStates } from '@/shared/utils/sessionState';
+import {
+  listUsers,
+  getUser,
+  activateUser,
+  deactivateUser,
+  unlockUser,
+  forcePasswordReset,
+  revokeUserSessions,
+  impersonateUser,
+  deleteUser,
+  restoreUser,
+  listSecurityEvents,
+} from '@/features/admin/admin.service';
+
+const ADMIN_ID = 1;
+
+const mockUser = {
+  id: 2,
+  name: 'Test User',
+  email: 'test@example.com',
+  isActive: true,
+  emailVerifiedAt: new Date('2026-01-15T00:00:00Z'),
+  lastLoginAt: null,
+  passwordChangedAt: null,
+  failedLoginAttempts: 0,
+  lockedUntil: null,
+  mfaEnabledAt: null,
+  locale: null,
+  timezone: null,
+  avatarUrl: null,
+  createdBy: null,
+  updatedBy: null,
+  deletedBy: null,
+  createdAt: new Date('2026-01-15T00:00:00Z'),
+  updatedAt: new Date('2026-01-15T00:00:00Z'),
+  deletedAt: null,
+  roles: [{ userId: 2, roleId: 1, role: { id: 1, name: 'user' } }],
+} as unknown as AdminUserRecord;
+
+const deletedUser = { ...mockUser, deletedAt: new Date(), deletedBy: '1' } as AdminUserRecord;
+
+describe('Admin Service', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('listUsers', () => {
+    it('should return paginated users with role names', async () => {
+      const meta = { total: 1, per_page: 15, current_page: 1, last_page: 1, from: 1, to: 1 };
+      vi.mocked(adminRepository.findAll).mockResolvedValue({ data: [mockUser], meta });
+
+      const result = await listUsers({ page: 1, perPage: 15, status: 'active' });
+
+      expect(adminRepository.findAll).toHaveBeenCalledWith({
+        page: 1,
+        perPage: 15,
+        status: 'active',
+      });
+      expect(result.meta).toEqual(meta);
+      expect(result.data[0].roles).toEqual(['user']);
+    });
+  });
+
+  describe('getUser', () => {
+    it('should return deleted users too', async () => {
+      vi.mocked(adminRepository.findById).mockResolvedValue(deletedUser);
+
+      const result = await getUser(2);
+
+      expect(result.deletedAt).not.toBeNull();
+    });
+
+    it('should throw NotFoundError when user does not exist', async () => {
+      vi.mocked(adminRepository.findById).mockResolvedValue(null);
+
+      await expect(getUser(999)).rejects.toThrow(NotFoundError);
+    });
+  });
+
+  describe('activateUser / deactivateUser', () => {
+    it('should activate a user', async () => {
+      vi.mocked(adminRepository.findById).mockResolvedValue(mockUser);
+      vi.mocked(adminRepository.update).mockResolvedValue(mockUser);
+
+      await activateUser(2, ADMIN_ID);
+
+      expect(adminRepository.update).toHaveBeenCalledWith(2, { isActive: true }, '1');
+    });
+
+    it('should deactivate a user, revoke their sessions and drop cached sessions', async () => {
+      vi.mocked(adminRepository.findById).mockResolvedValue(mockUser);
+      vi.mocked(adminRepository.deactivate).mockResolvedValue({ ...mockUser, isActive: false });
+
+      const result = await deactivateUser(2, ADMIN_ID);
+
+      expect(result.isActive).toBe(false);
+      expect(adminRepository.deactivate).toHaveBeenCalledWith(2, '1');
+      expect(invalidateUserSessionStates).toHaveBeenCalledWith(2);
+    });
+
+    it('should not let an admin deactivate themselves', async () => {
+      await expect(deactivateUser(ADMIN_ID, ADMIN_ID)).rejects.toThrow(ForbiddenError);
+      expect(adminRepository.deactivate).not.toHaveBeenCalled();
+    });
+
+    it('should throw NotFoundError for deleted users', async () => {
+      vi.mocked(adminRepository.findById).mockResolvedValue(deletedUser);
+
+      await expect(activateUser(2, ADMIN_ID)).rejects.toThrow(NotFoundError);
+    });
+  });
+
+  describe('unlockUser', () => {
+    it('should clear the lockout and failed attempts', async () => {
+      vi.mocked(adminRepository.findById).mockResolvedValue({
+        ...mockUser,
+        failedLoginAttempts: 5,
+        lockedUntil: new Date(Date.now() + 60000),
+      });
+      vi.mocked(adminRepository.update).mockResolvedValue(mockUser);
+
+      await unlockUser(2, ADMIN_ID);
+
+      expect(adminRepository.update).toHaveBeenCalledWith(
+        2,
+        { lockedUntil: null, failedLoginAttempts: 0 },
+        '1'
+      );
+    });
+  });
+
+  describe('forcePasswordReset', () => {
+    it('should clear the password and email a reset link', async () => {
+      vi.mocked(adminRepository.findById).mockResolvedValue(mockUser);
+
+      await forcePasswordReset(2, ADMIN_ID);
+
+      expect(adminRepository.clearPassword).toHaveBeenCalledWith(2, '1');
+      expect(invalidateUserSessionStates).toHaveBeenCalledWith(2);
+      expect(sendPasswordResetLink).toHaveBeenCalledWith(mockUser);
+    });
+
+    it('should not let an admin reset their own password', async () => {
+      await expect(forcePasswordReset(ADMIN_ID, ADMIN_ID)).rejects.toThrow(ForbiddenError);
+      expect(adminRepository.clearPassword).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('revokeUserSessions', () => {
+    it('should revoke all sessions and return the count', async () => {
+      vi.mocked(adminRepository.findById).mockResolvedValue(mockUser);
+      vi.mocked(adminRepository.revokeAllSessions).mockResolvedValue(3);
+
+      const result = await revokeUserSessions(2);
+
+      expect(result).toEqual({ revokedCount: 3 });
+      expect(invalidateUserSessionStates).toHaveBeenCalledWith(2);
+    });
+  });
+
+  describe('listSecurityEvents', () => {
+    it('should query the security events with the given filters', async () => {
+      const page = {
+        data: [],
+        meta: { total: 0, per_page: 15, current_page: 1, last_page: 0, from: 1, to: 0 },
+      };
+      vi.mocked(adminRepository.findSecurityEvents).mockResolvedValue(page);
+
+      const options = { page: 1, perPage: 15, userId: 2, type: 'login_failed' as const };
+
+      await expect(listSecurityEvents(options)).resolves.toBe(page);
+      expect(adminRepository.findSecurityEvents).toHaveBeenCalledWith(options);
+    });
+  });
+
+  describe('impersonateUser', () => {
+    it('should start an impersonation session for the user', async () => {
+      const impersonation = { accessToken: 'token', expiresAt: new Date() };
+      vi.mocked(adminRepository.findById).mockResolvedValue(mockUser);
+      vi.mocked(startImpersonation).mockResolvedValue(impersonation);
+
+      const result = await impersonateUser(2, ADMIN_ID, { reason: 'Ticket 42' });
+
+      expect(result).toBe(impersonation);
+      expect(startImpersonation).toHaveBeenCalledWith({
+        impersonatorId: ADMIN_ID,
+        targetUserId: 2,
+        reason: 'Ticket 42',
+      });
+    });
+
+    it('should not let an admin impersonate themselves', async () => {
+      await expect(impersonateUser(ADMIN_ID, ADMIN_ID, {})).rejects.toThrow(ForbiddenError);
+    });
+
+    it('should not impersonate inactive users', async () => {
+      vi.mocked(adminRepository.findById).mockResolvedValue({ ...mockUser, isActive: false });
+
+      await expect(impersonateUser(2, ADMIN_ID, {})).rejects.toThrow(ForbiddenError);
+      expect(startImpersonation).not.toHaveBeenCalled();
+    });
+
+    it('should not impersonate other administrators', async () => {
+      vi.mocked(adminRepository.findById).mockResolvedValue({
+        ...mockUser,
+        roles: [{ userId: 2, roleId: 2, role: { id: 2, name: 'admin' } }],
+      } as unknown as AdminUserRecord);
+
+      await expect(impersonateUser(2, ADMIN_ID, {})).rejects.toThrow(ForbiddenError);
+      expect(startImpersonation).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('deleteUser', () => {
+    it('should soft-delete the user', async () => {
+      vi.mocked(adminRepository.findById).mockResolvedValue(mockUser);
+
+      await deleteUser(2, ADMIN_ID);
+
+      expect(adminRepository.softDelete).toHaveBeenCalledWith(2, '1');
+      expect(invalidateUserSessionStates).toHaveBeenCalledWith(2);
+    });
+
+    it('should not let an admin delete themselves', async () => {
+      await expect(deleteUser(ADMIN_ID, ADMIN_ID)).rejects.toThrow(ForbiddenError);
+      expect(adminRepository.softDelete).not.toHaveBeenCalled();
+    });
+
+    it('should throw NotFoundError when already deleted', async () => {
+      vi.mocked(adminRepository.findById).mockResolvedValue(deletedUser);
+
+      await expect(deleteUser(2, ADMIN_ID)).rejects.toThrow(NotFoundError);
+    });
+  });
+
+  describe('restoreUser', () => {
+    it('should restore a deleted user', async () => {
+      vi.mocked(adminRepository.findById).mockResolvedValue(deletedUser);
+      vi.mocked(adminRepository.restore).mockResolvedValue(mockUser);
+
+      const result = await restoreUser(2, ADMIN_ID);
+
+      expect(adminRepository.restore).toHaveBeenCalledWith(2, '1');
+      expect(result.deletedAt).toBeNull();
+    });
+
+    it('should throw ConflictError when the user is not deleted', async () => {
+      vi.mocked(adminRepository.findById).mockResolvedValue(mockUser);
+
+      await expect(restoreUser(2, ADMIN_ID)).rejects.toThrow(ConflictError);
+      expect(adminRepository.restore).not.toHaveBeenCalled();
+    });
+  });
+});
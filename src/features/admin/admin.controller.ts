@@ -0,0 +1,263 @@
+/**
+ * Admin Controller
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import {
+  listUsers,
+  getUser,
+  activateUser,
+  deactivateUser,
+  unlockUser,
+  forcePasswordReset,
+  revokeUserSessions,
+  impersonateUser,
+  deleteUser,
+  restoreUser,
+  listSecurityEvents,
+} from '@/features/admin/admin.service';
+import { ADMIN_USER_STATUSES, AdminUserStatus } from '@/features/admin/admin.types';
+import { sendOk, getRequestId } from '@/shared/utils/apiResponse';
+import { UnauthorizedError, ValidationError } from '@/shared/errors';
+import { SECURITY_EVENT_TYPES, SecurityEventType } from '@/shared/utils/securityEvents';
+
+const MAX_PER_PAGE = 100;
+
+function getActorId(req: Request): number {
+  if (!req.user) {
+    throw new UnauthorizedError('User not authenticated');
+  }
+
+  return req.user.userId;
+}
+
+function getOptionalQuery(req: Request, name: string): string | undefined {
+  const value = req.query[name];
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+}
+
+export async function index(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const page = parseInt(req.query.page as string, 10) || 1;
+    const perPage = Math.min(parseInt(req.query.per_page as string, 10) || 15, MAX_PER_PAGE);
+    const search = getOptionalQuery(req, 'search');
+    const status = getOptionalQuery(req, 'status');
+    const role = getOptionalQuery(req, 'role');
+
+    if (status && !ADMIN_USER_STATUSES.includes(status as AdminUserStatus)) {
+      throw ValidationError.field('status', `Must be one of: ${ADMIN_USER_STATUSES.join(', ')}`);
+    }
+
+    req.log.info({ page, perPage, search, status, role }, 'Listing users');
+
+    const result = await listUsers({
+      page,
+      perPage,
+      search,
+      status: status as AdminUserStatus | undefined,
+      role,
+    });
+
+    sendOk(res, result.data, {
+      meta: result.meta as unknown as Record<string, unknown>,
+      requestId: getRequestId(req),
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+function getOptionalDateQuery(req: Request, name: string): Date | undefined {
+  const value = getOptionalQuery(req, name);
+
+  if (value === undefined) {
+    return undefined;
+  }
+
+  const date = new Date(value);
+
+  if (Number.isNaN(date.getTime())) {
+    throw ValidationError.field(name, 'Must be an ISO 8601 date');
+  }
+
+  return date;
+}
+
+export async function securityEvents(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const page = parseInt(req.query.page as string, 10) || 1;
+    const perPage = Math.min(parseInt(req.query.per_page as string, 10) || 15, MAX_PER_PAGE);
+    const userId = getOptionalQuery(req, 'user_id');
+    const type = getOptionalQuery(req, 'type');
+    const email = getOptionalQuery(req, 'email');
+    const ipAddress = getOptionalQuery(req, 'ip');
+    const from = getOptionalDateQuery(req, 'from');
+    const to = getOptionalDateQuery(req, 'to');
+
+    if (userId && !/^\d+$/.test(userId)) {
+      throw ValidationError.field('user_id', 'Must be a number');
+    }
+
+    if (type && !SECURITY_EVENT_TYPES.includes(type as SecurityEventType)) {
+      throw ValidationError.field('type', `Must be one of: ${SECURITY_EVENT_TYPES.join(', ')}`);
+    }
+
+    const result = await listSecurityEvents({
+      page,
+      perPage,
+      userId: userId ? parseInt(userId, 10) : undefined,
+      type: type as SecurityEventType | undefined,
+      email,
+      ipAddress,
+      from,
+      to,
+    });
+
+    sendOk(res, result.data, {
+      meta: result.meta as unknown as Record<string, unknown>,
+      requestId: getRequestId(req),
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function show(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const id = parseInt(req.params.id as string, 10);
+
+    const user = await getUser(id);
+
+    sendOk(res, user, { requestId: getRequestId(req) });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function activate(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const actorId = getActorId(req);
+    const id = parseInt(req.params.id as string, 10);
+    req.log.info({ targetUserId: id, actorId }, 'Activating user');
+
+    const user = await activateUser(id, actorId);
+
+    sendOk(res, user, { requestId: getRequestId(req) });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function deactivate(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const actorId = getActorId(req);
+    const id = parseInt(req.params.id as string, 10);
+    req.log.info({ targetUserId: id, actorId }, 'Deactivating user');
+
+    const user = await deactivateUser(id, actorId);
+
+    sendOk(res, user, { requestId: getRequestId(req) });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function unlock(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const actorId = getActorId(req);
+    const id = parseInt(req.params.id as string, 10);
+    req.log.info({ targetUserId: id, actorId }, 'Unlocking user');
+
+    const user = await unlockUser(id, actorId);
+
+    sendOk(res, user, { requestId: getRequestId(req) });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function resetPassword(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const actorId = getActorId(req);
+    const id = parseInt(req.params.id as string, 10);
+    req.log.info({ targetUserId: id, actorId }, 'Forcing password reset');
+
+    await forcePasswordReset(id, actorId);
+
+    sendOk(res, null, { requestId: getRequestId(req) });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function revokeSessions(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const actorId = getActorId(req);
+    const id = parseInt(req.params.id as string, 10);
+    req.log.info({ targetUserId: id, actorId }, 'Revoking user sessions');
+
+    const result = await revokeUserSessions(id);
+
+    sendOk(res, result, { requestId: getRequestId(req) });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function impersonate(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const actorId = getActorId(req);
+    const id = parseInt(req.params.id as string, 10);
+    req.log.warn({ targetUserId: id, actorId, reason: req.body.reason }, 'Impersonating user');
+
+    const result = await impersonateUser(id, actorId, {
+      reason: req.body.reason,
+      userAgent: req.headers['user-agent'],
+      ipAddress: req.ip,
+    });
+
+    sendOk(res, result, { requestId: getRequestId(req) });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function destroy(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const actorId = getActorId(req);
+    const id = parseInt(req.params.id as string, 10);
+    req.log.info({ targetUserId: id, actorId }, 'Deleting user');
+
+    await deleteUser(id, actorId);
+
+    sendOk(res, null, { requestId: getRequestId(req) });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function restore(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const actorId = getActorId(req);
+    const id = parseInt(req.params.id as string, 10);
+    req.log.info({ targetUserId: id, actorId }, 'Restoring user');
+
+    const user = await restoreUser(id, actorId);
+
+    sendOk(res, user, { requestId: getRequestId(req) });
+  } catch (error) {
+    next(error);
+  }
+}
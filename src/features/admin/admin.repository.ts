@@ -0,0 +1,268 @@
+/**
+ * Admin Repository
+ *
+ * Database operations for managing user accounts using Prisma.
+ */
+
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/shared/utils/prisma';
+import type {
+  AdminSecurityEvent,
+  ListSecurityEventsOptions,
+  ListUsersOptions,
+  PaginatedResult,
+} from '@/features/admin/admin.types';
+
+const USER_SELECT = {
+  omit: {
+    password: true,
+    mfaSecret: true,
+    mfaLastUsedStep: true,
+  },
+  include: {
+    roles: {
+      include: { role: true },
+    },
+  },
+} satisfies Prisma.UserDefaultArgs;
+
+export type AdminUserRecord = Prisma.UserGetPayload<typeof USER_SELECT>;
+
+function buildStatusFilter(status: ListUsersOptions['status']): Prisma.UserWhereInput {
+  const now = new Date();
+
+  switch (status) {
+    case 'active':
+      return {
+        deletedAt: null,
+        isActive: true,
+        OR: [{ lockedUntil: null }, { lockedUntil: { lte: now } }],
+      };
+    case 'inactive':
+      return { deletedAt: null, isActive: false };
+    case 'locked':
+      return { deletedAt: null, lockedUntil: { gt: now } };
+    case 'deleted':
+      return { deletedAt: { not: null } };
+    default:
+      return { deletedAt: null };
+  }
+}
+
+export async function findAll(
+  options: ListUsersOptions
+): Promise<PaginatedResult<AdminUserRecord>> {
+  const { page, perPage, search, status, role } = options;
+  const skip = (page - 1) * perPage;
+
+  const where: Prisma.UserWhereInput = {
+    AND: [
+      buildStatusFilter(status),
+      search
+        ? {
+            OR: [
+              { name: { contains: search, mode: 'insensitive' } },
+              { email: { contains: search, mode: 'insensitive' } },
+            ],
+          }
+        : {},
+      role ? { roles: { some: { role: { name: role } } } } : {},
+    ],
+  };
+
+  const [total, data] = await Promise.all([
+    prisma.user.count({ where }),
+    prisma.user.findMany({
+      where,
+      ...USER_SELECT,
+      orderBy: {
+        createdAt: 'desc',
+      },
+      skip,
+      take: perPage,
+    }),
+  ]);
+
+  const lastPage = Math.ceil(total / perPage);
+
+  return {
+    data,
+    meta: {
+      total,
+      per_page: perPage,
+      current_page: page,
+      last_page: lastPage,
+      from: skip + 1,
+      to: skip + data.length,
+    },
+  };
+}
+
+/**
+ * Find a user by ID, including soft-deleted accounts
+ */
+export async function findById(id: number): Promise<AdminUserRecord | null> {
+  return prisma.user.findUnique({
+    where: { id },
+    ...USER_SELECT,
+  });
+}
+
+export async function update(
+  id: number,
+  data: Prisma.UserUpdateInput,
+  updatedBy: string
+): Promise<AdminUserRecord> {
+  return prisma.user.update({
+    where: { id },
+    data: {
+      ...data,
+      updatedBy,
+    },
+    ...USER_SELECT,
+  });
+}
+
+/**
+ * Deactivate a user and revoke all of their sessions
+ */
+export async function deactivate(id: number, updatedBy: string): Promise<AdminUserRecord> {
+  const [user] = await prisma.$transaction([
+    prisma.user.update({
+      where: { id },
+      data: {
+        isActive: false,
+        updatedBy,
+      },
+      ...USER_SELECT,
+    }),
+    prisma.userSession.updateMany({
+      where: { userId: id, revokedAt: null },
+      data: { revokedAt: new Date() },
+    }),
+  ]);
+
+  return user;
+}
+
+/**
+ * Revoke every active session of a user
+ *
+ * @returns Number of sessions revoked
+ */
+export async function revokeAllSessions(userId: number): Promise<number> {
+  const result = await prisma.userSession.updateMany({
+    where: {
+      userId,
+      revokedAt: null,
+    },
+    data: {
+      revokedAt: new Date(),
+    },
+  });
+
+  return result.count;
+}
+
+/**
+ * Soft-delete a user and revoke all of their sessions.
+ * Unlike a self-service deletion, it is not cancelled by signing in and never purged.
+ */
+export async function softDelete(id: number, deletedBy: string): Promise<void> {
+  await prisma.$transaction([
+    prisma.user.update({
+      where: { id },
+      data: {
+        deletedAt: new Date(),
+        deletedBy,
+        purgeAt: null,
+      },
+    }),
+    prisma.userSession.updateMany({
+      where: { userId: id, revokedAt: null },
+      data: { revokedAt: new Date() },
+    }),
+  ]);
+}
+
+export async function restore(id: number, updatedBy: string): Promise<AdminUserRecord> {
+  return prisma.user.update({
+    where: { id },
+    data: {
+      deletedAt: null,
+      deletedBy: null,
+      purgeAt: null,
+      updatedBy,
+    },
+    ...USER_SELECT,
+  });
+}
+
+/**
+ * Clear the password so it can no longer be used to sign in and revoke all sessions.
+ * The user regains access through the password reset flow.
+ */
+export async function clearPassword(id: number, updatedBy: string): Promise<void> {
+  await prisma.$transaction([
+    prisma.user.update({
+      where: { id },
+      data: {
+        password: null,
+        passwordChangedAt: new Date(),
+        updatedBy,
+      },
+    }),
+    prisma.userSession.updateMany({
+      where: { userId: id, revokedAt: null },
+      data: { revokedAt: new Date() },
+    }),
+  ]);
+}
+
+/**
+ * Security events of all users, newest first
+ */
+export async function findSecurityEvents(
+  options: ListSecurityEventsOptions
+): Promise<PaginatedResult<AdminSecurityEvent>> {
+  const { page, perPage, userId, type, email, ipAddress, from, to } = options;
+  const skip = (page - 1) * perPage;
+
+  const where: Prisma.SecurityEventWhereInput = {
+    deletedAt: null,
+    userId,
+    type,
+    email: email ? { equals: email, mode: 'insensitive' } : undefined,
+    ipAddress,
+    createdAt: from || to ? { gte: from, lte: to } : undefined,
+  };
+
+  const [total, data] = await Promise.all([
+    prisma.securityEvent.count({ where }),
+    prisma.securityEvent.findMany({
+      where,
+      include: {
+        user: { select: { id: true, email: true, name: true } },
+      },
+      orderBy: {
+        createdAt: 'desc',
+      },
+      skip,
+      take: perPage,
+    }),
+  ]);
+
+  const lastPage = Math.ceil(total / perPage);
+
+  return {
+    data,
+    meta: {
+      total,
+      per_page: perPage,
+      current_page: page,
+      last_page: lastPage,
+      from: skip + 1,
+      to: skip + data.length,
+    },
+  };
+}
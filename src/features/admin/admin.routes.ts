@@ -0,0 +1,62 @@
+/**
+ * Admin Routes
+ */
+
+import { Router } from 'express';
+import { validate } from '@/shared/middlewares/validation.middleware';
+import { adminUserIdSchema, impersonateUserSchema } from '@/features/admin/admin.schema';
+import {
+  index,
+  show,
+  activate,
+  deactivate,
+  unlock,
+  resetPassword,
+  revokeSessions,
+  impersonate,
+  destroy,
+  restore,
+  securityEvents,
+} from '@/features/admin/admin.controller';
+
+import { authenticate, forbidApiKey, requireRole } from '@/shared/middlewares/auth.middleware';
+
+const router = Router();
+
+// Every admin route requires an administrator signed in with a session (API key scopes do not cover roles)
+router.use(authenticate, forbidApiKey, requireRole('admin'));
+
+// GET /admin/users - List users (search, status, role filters)
+router.get('/users', index);
+
+// GET /admin/users/:id - Get user by ID (including deleted users)
+router.get('/users/:id', validate(adminUserIdSchema), show);
+
+// POST /admin/users/:id/activate - Allow the user to sign in again
+router.post('/users/:id/activate', validate(adminUserIdSchema), activate);
+
+// POST /admin/users/:id/deactivate - Block sign in and end existing sessions
+router.post('/users/:id/deactivate', validate(adminUserIdSchema), deactivate);
+
+// POST /admin/users/:id/unlock - Clear a failed-login lockout
+router.post('/users/:id/unlock', validate(adminUserIdSchema), unlock);
+
+// POST /admin/users/:id/force-password-reset - Invalidate the password and email a reset link
+router.post('/users/:id/force-password-reset', validate(adminUserIdSchema), resetPassword);
+
+// POST /admin/users/:id/revoke-sessions - Sign the user out everywhere
+router.post('/users/:id/revoke-sessions', validate(adminUserIdSchema), revokeSessions);
+
+// POST /admin/users/:id/impersonate - Get a short-lived access token acting as the user
+router.post('/users/:id/impersonate', validate(impersonateUserSchema), impersonate);
+
+// DELETE /admin/users/:id - Soft-delete user
+router.delete('/users/:id', validate(adminUserIdSchema), destroy);
+
+// POST /admin/users/:id/restore - Restore a soft-deleted user
+router.post('/users/:id/restore', validate(adminUserIdSchema), restore);
+
+// GET /admin/security-events - Query the security audit trail (user, type, email, IP, date filters)
+router.get('/security-events', securityEvents);
+
+export default router;
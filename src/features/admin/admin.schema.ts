@@ -0,0 +1,22 @@
+/**
+ * Admin Validation Schemas
+ */
+
+import { z } from 'zod';
+
+export const adminUserIdSchema = {
+  params: z.object({
+    id: z.string().regex(/^\d+$/, 'ID must be a number'),
+  }),
+};
+
+export const impersonateUserSchema = {
+  params: z.object({
+    id: z.string().regex(/^\d+$/, 'ID must be a number'),
+  }),
+  body: z
+    .object({
+      reason: z.string().trim().min(1).max(500).optional(),
+    })
+    .default({}),
+};
@@ -0,0 +1,174 @@
+/**
+ * Admin Service
+ *
+ * Business logic for managing user accounts on behalf of administrators.
+ */
+
+import * as adminRepository from '@/features/admin/admin.repository';
+import type { AdminUserRecord } from '@/features/admin/admin.repository';
+import type {
+  AdminSecurityEvent,
+  AdminUser,
+  ImpersonateUserInput,
+  ListSecurityEventsOptions,
+  ListUsersOptions,
+  PaginatedResult,
+  RevokeSessionsResult,
+} from '@/features/admin/admin.types';
+import type { ImpersonationResult } from '@/features/auth/auth.types';
+import { sendPasswordResetLink, startImpersonation } from '@/features/auth/auth.service';
+import { invalidateUserSessionStates } from '@/shared/utils/sessionState';
+import { NotFoundError, ForbiddenError, ConflictError } from '@/shared/errors';
+
+function toAdminUser(user: AdminUserRecord): AdminUser {
+  const { roles, ...rest } = user;
+
+  return {
+    ...rest,
+    roles: roles.map((userRole) => userRole.role.name),
+  };
+}
+
+/**
+ * Load a user that has not been soft-deleted
+ */
+async function findExistingUser(id: number): Promise<AdminUserRecord> {
+  const user = await adminRepository.findById(id);
+
+  if (!user || user.deletedAt) {
+    throw NotFoundError.resource('User', id);
+  }
+
+  return user;
+}
+
+/**
+ * Administrators must not lock themselves out
+ */
+function assertNotSelf(id: number, actorId: number, action: string): void {
+  if (id === actorId) {
+    throw new ForbiddenError(`You cannot ${action} your own account`);
+  }
+}
+
+export async function listUsers(options: ListUsersOptions): Promise<PaginatedResult<AdminUser>> {
+  const result = await adminRepository.findAll(options);
+
+  return {
+    data: result.data.map(toAdminUser),
+    meta: result.meta,
+  };
+}
+
+export async function getUser(id: number): Promise<AdminUser> {
+  const user = await adminRepository.findById(id);
+
+  if (!user) {
+    throw NotFoundError.resource('User', id);
+  }
+
+  return toAdminUser(user);
+}
+
+export async function activateUser(id: number, actorId: number): Promise<AdminUser> {
+  await findExistingUser(id);
+
+  const user = await adminRepository.update(id, { isActive: true }, String(actorId));
+
+  return toAdminUser(user);
+}
+
+export async function deactivateUser(id: number, actorId: number): Promise<AdminUser> {
+  assertNotSelf(id, actorId, 'deactivate');
+  await findExistingUser(id);
+
+  const user = await adminRepository.deactivate(id, String(actorId));
+  invalidateUserSessionStates(id);
+
+  return toAdminUser(user);
+}
+
+export async function unlockUser(id: number, actorId: number): Promise<AdminUser> {
+  await findExistingUser(id);
+
+  const user = await adminRepository.update(
+    id,
+    { lockedUntil: null, failedLoginAttempts: 0 },
+    String(actorId)
+  );
+
+  return toAdminUser(user);
+}
+
+/**
+ * Invalidate the current password and sessions, then email the user a reset link
+ */
+export async function forcePasswordReset(id: number, actorId: number): Promise<void> {
+  assertNotSelf(id, actorId, 'force a password reset on');
+  const user = await findExistingUser(id);
+
+  await adminRepository.clearPassword(id, String(actorId));
+  invalidateUserSessionStates(id);
+
+  await sendPasswordResetLink(user);
+}
+
+/**
+ * Query the security event trail (sign-ins, lockouts, password changes...) for incident response
+ */
+export async function listSecurityEvents(
+  options: ListSecurityEventsOptions
+): Promise<PaginatedResult<AdminSecurityEvent>> {
+  return adminRepository.findSecurityEvents(options);
+}
+
+export async function revokeUserSessions(id: number): Promise<RevokeSessionsResult> {
+  await findExistingUser(id);
+
+  const revokedCount = await adminRepository.revokeAllSessions(id);
+  invalidateUserSessionStates(id);
+
+  return { revokedCount };
+}
+
+/**
+ * Issue a short-lived, non-refreshable access token to act as another user
+ */
+export async function impersonateUser(
+  id: number,
+  actorId: number,
+  input: ImpersonateUserInput
+): Promise<ImpersonationResult> {
+  assertNotSelf(id, actorId, 'impersonate');
+  const user = await findExistingUser(id);
+
+  if (!user.isActive) {
+    throw new ForbiddenError('Cannot impersonate an inactive account');
+  }
+
+  if (user.roles.some((userRole) => userRole.role.name === 'admin')) {
+    throw new ForbiddenError('Cannot impersonate another administrator');
+  }
+
+  return startImpersonation({ impersonatorId: actorId, targetUserId: id, ...input });
+}
+
+export async function deleteUser(id: number, actorId: number): Promise<void> {
+  assertNotSelf(id, actorId, 'delete');
+  await findExistingUser(id);
+
+  await adminRepository.softDelete(id, String(actorId));
+  invalidateUserSessionStates(id);
+}
+
+export async function restoreUser(id: number, actorId: number): Promise<AdminUser> {
+  const existing = await getUser(id);
+
+  if (!existing.deletedAt) {
+    throw new ConflictError('User is not deleted');
+  }
+
+  const user = await adminRepository.restore(id, String(actorId));
+
+  return toAdminUser(user);
+}
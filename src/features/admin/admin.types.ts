@@ -0,0 +1,55 @@
+/**
+ * Admin Types
+ */
+
+import type { SecurityEvent, User } from '@prisma/client';
+import type { SecurityEventType } from '@/shared/utils/securityEvents';
+
+export type AdminUserStatus = 'active' | 'inactive' | 'locked' | 'deleted';
+
+export const ADMIN_USER_STATUSES: AdminUserStatus[] = ['active', 'inactive', 'locked', 'deleted'];
+
+export interface ListUsersOptions {
+  page: number;
+  perPage: number;
+  search?: string;
+  status?: AdminUserStatus;
+  role?: string;
+}
+
+/**
+ * User as seen by administrators (credentials and MFA secrets stripped)
+ */
+export type AdminUser = Omit<User, 'password' | 'mfaSecret' | 'mfaLastUsedStep'> & {
+  roles: string[];
+};
+
+export interface ImpersonateUserInput {
+  reason?: string;
+  userAgent?: string;
+  ipAddress?: string;
+}
+
+export interface ListSecurityEventsOptions {
+  page: number;
+  perPage: number;
+  userId?: number;
+  type?: SecurityEventType;
+  email?: string;
+  ipAddress?: string;
+  from?: Date;
+  to?: Date;
+}
+
+/**
+ * Security event with the account it belongs to, if any
+ */
+export type AdminSecurityEvent = SecurityEvent & {
+  user: Pick<User, 'id' | 'email' | 'name'> | null;
+};
+
+export interface RevokeSessionsResult {
+  revokedCount: number;
+}
+
+export type { PaginatedResult } from '@/shared/types/pagination.types';
@@ -0,0 +1,164 @@
+import 'dotenv/config';
+import request from 'supertest';
+import express, { Request, Response, NextFunction } from 'express';
+import { describe, it, expect, vi, beforeAll, beforeEach } from 'vitest';
+import { subMinutes } from 'date-fns';
+
+vi.mock('@/shared/utils/logger', () => ({
+  logger: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+    child: vi.fn().mockReturnThis(),
+  },
+}));
+
+// Import implementations after mocks
+import pino from 'pino';
+import { prisma } from '@/shared/utils/prisma';
+import { authenticate, authorize } from '@/shared/middlewares/auth.middleware';
+import { createApiKey, revokeApiKey } from '@/features/api-keys/api-keys.service';
+
+// Setup Express App with routes guarded like the example feature
+const app = express();
+app.use((req, _res, next) => {
+  req.log = pino({ level: 'silent' });
+  next();
+});
+app.get('/read', authenticate, authorize('examples:read'), (req, res) => {
+  res.json({ user: req.user });
+});
+app.get('/create', authenticate, authorize('examples:create'), (_req, res) => {
+  res.json({ ok: true });
+});
+
+interface HttpError extends Error {
+  statusCode?: number;
+}
+
+app.use((err: HttpError, req: Request, res: Response, _next: NextFunction) => {
+  res.status(err.statusCode || 500).json({
+    success: false,
+    error: { message: err.message || 'Internal Server Error' },
+  });
+});
+
+const ROLE_NAME = 'api-key-e2e';
+
+describe('API Keys E2E', () => {
+  let roleId: number;
+  let owner: { userId: number; sessionId: number; permissions: string[] };
+
+  beforeAll(async () => {
+    const role = await prisma.role.upsert({
+      where: { name: ROLE_NAME },
+      update: {},
+      create: { name: ROLE_NAME },
+    });
+    roleId = role.id;
+
+    for (const name of ['examples:read', 'examples:create']) {
+      const permission = await prisma.permission.upsert({
+        where: { name },
+        update: {},
+        create: { name },
+      });
+      await prisma.rolePermission.upsert({
+        where: { roleId_permissionId: { roleId, permissionId: permission.id } },
+        update: {},
+        create: { roleId, permissionId: permission.id },
+      });
+    }
+  });
+
+  beforeEach(async () => {
+    await prisma.apiKey.deleteMany();
+    await prisma.user.deleteMany({ where: { email: 'api-keys@example.com' } });
+
+    const user = await prisma.user.create({
+      data: {
+        email: 'api-keys@example.com',
+        name: 'Script Owner',
+        password: 'hashed',
+        emailVerifiedAt: new Date(),
+        roles: { create: { roleId } },
+      },
+    });
+
+    owner = {
+      userId: user.id,
+      sessionId: 1,
+      permissions: ['examples:read', 'examples:create'],
+    };
+  });
+
+  it('should authenticate with an unscoped key and track its use', async () => {
+    const { key, id } = await createApiKey(owner, { name: 'CI' });
+
+    const res = await request(app).get('/read').set('X-API-Key', key);
+
+    expect(res.status).toBe(200);
+    expect(res.body.user).toMatchObject({
+      userId: owner.userId,
+      apiKeyId: id,
+      roles: [ROLE_NAME],
+    });
+    expect(res.body.user.permissions).toEqual(
+      expect.arrayContaining(['examples:read', 'examples:create'])
+    );
+
+    const stored = await prisma.apiKey.findUnique({ where: { id } });
+    expect(stored?.lastUsedAt).not.toBeNull();
+    expect(stored?.keyHash).not.toBe(key);
+  });
+
+  it('should limit a scoped key to its scopes', async () => {
+    const { key } = await createApiKey(owner, { name: 'Read only', scopes: ['examples:read'] });
+
+    const read = await request(app).get('/read').set('X-API-Key', key);
+    const create = await request(app).get('/create').set('X-API-Key', key);
+
+    expect(read.status).toBe(200);
+    expect(create.status).toBe(403);
+  });
+
+  it('should drop scopes the owner no longer has', async () => {
+    const { key } = await createApiKey(owner, { name: 'Writer', scopes: ['examples:create'] });
+    await prisma.userRole.deleteMany({ where: { userId: owner.userId } });
+
+    const res = await request(app).get('/create').set('X-API-Key', key);
+
+    expect(res.status).toBe(403);
+  });
+
+  it('should reject revoked, expired and unknown keys', async () => {
+    const revoked = await createApiKey(owner, { name: 'Revoked' });
+    await revokeApiKey(owner, revoked.id);
+
+    const expired = await createApiKey(owner, { name: 'Expired' });
+    await prisma.apiKey.update({
+      where: { id: expired.id },
+      data: { expiresAt: subMinutes(new Date(), 1) },
+    });
+
+    const revokedRes = await request(app).get('/read').set('X-API-Key', revoked.key);
+    const expiredRes = await request(app).get('/read').set('X-API-Key', expired.key);
+    const unknownRes = await request(app).get('/read').set('X-API-Key', 'pak_unknown');
+
+    expect(revokedRes.status).toBe(401);
+    expect(revokedRes.body.error.message).toBe('API key revoked');
+    expect(expiredRes.status).toBe(401);
+    expect(expiredRes.body.error.message).toBe('API key expired');
+    expect(unknownRes.status).toBe(401);
+  });
+
+  it('should reject keys of deactivated accounts', async () => {
+    const { key } = await createApiKey(owner, { name: 'CI' });
+    await prisma.user.update({ where: { id: owner.userId }, data: { isActive: false } });
+
+    const res = await request(app).get('/read').set('X-API-Key', key);
+
+    expect(res.status).toBe(401);
+  });
+});
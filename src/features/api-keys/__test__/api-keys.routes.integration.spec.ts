@@ -0,0 +1,158 @@
+import 'dotenv/config';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import request from 'supertest';
+import express, { Request, Response, NextFunction } from 'express';
+import { Logger } from 'pino';
+import apiKeyRoutes from '@/features/api-keys/api-keys.routes';
+import type { ApiKeySummary } from '@/features/api-keys/api-keys.types';
+import * as apiKeysService from '@/features/api-keys/api-keys.service';
+import { errorHandler } from '@/shared/middlewares/error.middleware';
+import { NotFoundError } from '@/shared/errors';
+import type { UserSessionPayload } from '@/shared/types/auth';
+
+// Mock Service Layer
+vi.mock('@/features/api-keys/api-keys.service');
+
+const { mockUser } = vi.hoisted(() => ({
+  mockUser: {} as Partial<UserSessionPayload>,
+}));
+
+// Mock Auth Middleware Module (keep the real guards)
+vi.mock('@/shared/middlewares/auth.middleware', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/shared/middlewares/auth.middleware')>()),
+  authenticate: (req: Request, res: Response, next: NextFunction) => {
+    req.user = { userId: 1, sessionId: 2, roles: ['user'], permissions: [], ...mockUser };
+    next();
+  },
+}));
+
+const app = express();
+app.use(express.json());
+
+// Mock Logger Middleware
+app.use((req: Request, res: Response, next: NextFunction) => {
+  (req as Request & { log: Partial<Logger> }).log = {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+    trace: vi.fn(),
+    fatal: vi.fn(),
+    level: 'info',
+    silent: vi.fn(),
+    child: vi.fn(),
+  } as unknown as Logger;
+  next();
+});
+app.use('/api/v1/auth/api-keys', apiKeyRoutes);
+app.use(errorHandler);
+
+const mockApiKey = {
+  id: 3,
+  name: 'CI',
+  prefix: 'pak_12345678',
+  scopes: ['examples:read'],
+  expiresAt: null,
+  lastUsedAt: null,
+  lastUsedIp: null,
+  revokedAt: null,
+  createdAt: new Date('2026-01-15T00:00:00Z'),
+} as ApiKeySummary;
+
+describe('API Keys Feature Integration (Route/Controller)', () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+    for (const key of Object.keys(mockUser)) {
+      delete mockUser[key as keyof UserSessionPayload];
+    }
+  });
+
+  describe('GET /api/v1/auth/api-keys', () => {
+    it("should list the user's keys", async () => {
+      vi.mocked(apiKeysService.listApiKeys).mockResolvedValue([mockApiKey]);
+
+      const res = await request(app).get('/api/v1/auth/api-keys');
+
+      expect(res.status).toBe(200);
+      expect(res.body.data).toHaveLength(1);
+      expect(res.body.data[0].prefix).toBe('pak_12345678');
+    });
+  });
+
+  describe('POST /api/v1/auth/api-keys', () => {
+    it('should create a key and return it', async () => {
+      vi.mocked(apiKeysService.createApiKey).mockResolvedValue({
+        ...mockApiKey,
+        key: 'pak_secret',
+      });
+
+      const res = await request(app)
+        .post('/api/v1/auth/api-keys')
+        .send({ name: 'CI', scopes: ['examples:read'], expiresAt: '2099-01-01T00:00:00Z' });
+
+      expect(res.status).toBe(201);
+      expect(res.body.data.key).toBe('pak_secret');
+      expect(apiKeysService.createApiKey).toHaveBeenCalledWith(
+        expect.objectContaining({ userId: 1 }),
+        {
+          name: 'CI',
+          scopes: ['examples:read'],
+          expiresAt: new Date('2099-01-01T00:00:00Z'),
+        }
+      );
+    });
+
+    it('should return 422 for a missing name or past expiry', async () => {
+      const res = await request(app)
+        .post('/api/v1/auth/api-keys')
+        .send({ expiresAt: '2000-01-01T00:00:00Z' });
+
+      expect(res.status).toBe(422);
+      expect(res.body.error.details).toHaveProperty('name');
+      expect(res.body.error.details).toHaveProperty('expiresAt');
+      expect(apiKeysService.createApiKey).not.toHaveBeenCalled();
+    });
+
+    it('should return 403 when authenticated with an API key', async () => {
+      mockUser.apiKeyId = 3;
+
+      const res = await request(app).post('/api/v1/auth/api-keys').send({ name: 'CI' });
+
+      expect(res.status).toBe(403);
+      expect(apiKeysService.createApiKey).not.toHaveBeenCalled();
+    });
+
+    it('should return 403 while impersonating', async () => {
+      mockUser.impersonatorId = 9;
+
+      const res = await request(app).post('/api/v1/auth/api-keys').send({ name: 'CI' });
+
+      expect(res.status).toBe(403);
+      expect(apiKeysService.createApiKey).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('DELETE /api/v1/auth/api-keys/:id', () => {
+    it('should revoke a key', async () => {
+      vi.mocked(apiKeysService.revokeApiKey).mockResolvedValue(undefined);
+
+      const res = await request(app).delete('/api/v1/auth/api-keys/3');
+
+      expect(res.status).toBe(200);
+      expect(apiKeysService.revokeApiKey).toHaveBeenCalledWith(
+        expect.objectContaining({ userId: 1 }),
+        3
+      );
+    });
+
+    it('should return 404 for an unknown key', async () => {
+      vi.mocked(apiKeysService.revokeApiKey).mockRejectedValue(
+        NotFoundError.resource('API key', 99)
+      );
+
+      const res = await request(app).delete('/api/v1/auth/api-keys/99');
+
+      expect(res.status).toBe(404);
+    });
+  });
+});
@@ -0,0 +1,114 @@
+/**
+ * API Key Service Unit Tests
+ *
+ * Tests the service layer with mocked repository.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import crypto from 'crypto';
+import { ForbiddenError, NotFoundError, ValidationError } from '@/shared/errors';
+import type { ApiKeySummary } from '@/features/api-keys/api-keys.types';
+
+// Mock the repository
+vi.mock('@/features/api-keys/api-keys.repository', () => ({
+  findByUser: vi.fn(),
+  findUserEmailVerifiedAt: vi.fn(),
+  create: vi.fn(),
+  revoke: vi.fn(),
+}));
+
+// Import after mocking
+import * as apiKeysRepository from '@/features/api-keys/api-keys.repository';
+import { listApiKeys, createApiKey, revokeApiKey } from '@/features/api-keys/api-keys.service';
+
+const encodedUser = {
+  userId: 1,
+  sessionId: 2,
+  roles: ['user'],
+  permissions: ['examples:read', 'examples:create'],
+};
+
+const mockApiKey: ApiKeySummary = {
+  id: 3,
+  name: 'CI',
+  prefix: 'pak_12345678',
+  scopes: ['examples:read'],
+  expiresAt: null,
+  lastUsedAt: null,
+  lastUsedIp: null,
+  revokedAt: null,
+  createdAt: new Date('2026-01-15T00:00:00Z'),
+};
+
+describe('API Key Service', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(apiKeysRepository.findUserEmailVerifiedAt).mockResolvedValue(new Date());
+    vi.mocked(apiKeysRepository.create).mockResolvedValue(mockApiKey);
+  });
+
+  describe('listApiKeys', () => {
+    it("should list the user's keys", async () => {
+      vi.mocked(apiKeysRepository.findByUser).mockResolvedValue([mockApiKey]);
+
+      const result = await listApiKeys(encodedUser);
+
+      expect(result).toEqual([mockApiKey]);
+      expect(apiKeysRepository.findByUser).toHaveBeenCalledWith(1);
+    });
+  });
+
+  describe('createApiKey', () => {
+    it('should return the key once and store only its hash', async () => {
+      const result = await createApiKey(encodedUser, { name: 'CI', scopes: ['examples:read'] });
+
+      expect(result.key).toMatch(/^pak_[0-9a-f]{64}$/);
+
+      const stored = vi.mocked(apiKeysRepository.create).mock.calls[0][0];
+      expect(stored.keyHash).toBe(crypto.createHash('sha256').update(result.key).digest('hex'));
+      expect(stored.prefix).toBe(result.key.slice(0, 12));
+      expect(stored.scopes).toEqual(['examples:read']);
+      expect(stored.expiresAt).toBeNull();
+    });
+
+    it('should create an unscoped key with an expiry', async () => {
+      const expiresAt = new Date(Date.now() + 1000 * 60 * 60 * 24);
+
+      await createApiKey(encodedUser, { name: 'Script', expiresAt });
+
+      expect(apiKeysRepository.create).toHaveBeenCalledWith(
+        expect.objectContaining({ userId: 1, name: 'Script', scopes: [], expiresAt })
+      );
+    });
+
+    it('should reject scopes the user does not have', async () => {
+      await expect(
+        createApiKey(encodedUser, { name: 'CI', scopes: ['examples:read', 'users:delete'] })
+      ).rejects.toThrow(ValidationError);
+      expect(apiKeysRepository.create).not.toHaveBeenCalled();
+    });
+
+    it('should require a verified email address', async () => {
+      vi.mocked(apiKeysRepository.findUserEmailVerifiedAt).mockResolvedValue(null);
+
+      await expect(createApiKey(encodedUser, { name: 'CI' })).rejects.toThrow(ForbiddenError);
+      expect(apiKeysRepository.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('revokeApiKey', () => {
+    it("should revoke one of the user's keys", async () => {
+      vi.mocked(apiKeysRepository.revoke).mockResolvedValue(true);
+
+      await revokeApiKey(encodedUser, 3);
+
+      expect(apiKeysRepository.revoke).toHaveBeenCalledWith(1, 3);
+    });
+
+    it('should throw NotFoundError for unknown or already revoked keys', async () => {
+      vi.mocked(apiKeysRepository.revoke).mockResolvedValue(false);
+
+      await expect(revokeApiKey(encodedUser, 99)).rejects.toThrow(NotFoundError);
+    });
+  });
+});
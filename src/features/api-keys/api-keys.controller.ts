@@ -0,0 +1,50 @@
+/**
+ * API Key Controller
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { listApiKeys, createApiKey, revokeApiKey } from '@/features/api-keys/api-keys.service';
+import { sendOk, sendCreated, getRequestId } from '@/shared/utils/apiResponse';
+import { UnauthorizedError } from '@/shared/errors';
+
+export async function index(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    if (!req.user) {
+      throw new UnauthorizedError('User not authenticated');
+    }
+
+    const apiKeys = await listApiKeys(req.user);
+
+    sendOk(res, apiKeys, { requestId: getRequestId(req) });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function create(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    if (!req.user) {
+      throw new UnauthorizedError('User not authenticated');
+    }
+
+    const apiKey = await createApiKey(req.user, req.body);
+
+    sendCreated(res, apiKey, { requestId: getRequestId(req) });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function destroy(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    if (!req.user) {
+      throw new UnauthorizedError('User not authenticated');
+    }
+
+    await revokeApiKey(req.user, parseInt(req.params.id as string, 10));
+
+    sendOk(res, null, { requestId: getRequestId(req) });
+  } catch (error) {
+    next(error);
+  }
+}
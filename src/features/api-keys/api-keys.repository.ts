@@ -0,0 +1,79 @@
+/**
+ * API Key Repository
+ *
+ * Database operations for personal API keys.
+ */
+
+import { prisma } from '@/shared/utils/prisma';
+import type { ApiKeySummary } from '@/features/api-keys/api-keys.types';
+
+const SUMMARY_SELECT = {
+  id: true,
+  name: true,
+  prefix: true,
+  scopes: true,
+  expiresAt: true,
+  lastUsedAt: true,
+  lastUsedIp: true,
+  revokedAt: true,
+  createdAt: true,
+} as const;
+
+export async function findByUser(userId: number): Promise<ApiKeySummary[]> {
+  return prisma.apiKey.findMany({
+    where: {
+      userId,
+      deletedAt: null,
+    },
+    select: SUMMARY_SELECT,
+    orderBy: { createdAt: 'desc' },
+  });
+}
+
+export async function findUserEmailVerifiedAt(userId: number): Promise<Date | null> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { emailVerifiedAt: true },
+  });
+
+  return user?.emailVerifiedAt ?? null;
+}
+
+export async function create(data: {
+  userId: number;
+  name: string;
+  prefix: string;
+  keyHash: string;
+  scopes: string[];
+  expiresAt: Date | null;
+}): Promise<ApiKeySummary> {
+  return prisma.apiKey.create({
+    data: {
+      ...data,
+      createdBy: String(data.userId),
+    },
+    select: SUMMARY_SELECT,
+  });
+}
+
+/**
+ * Revoke one of the user's keys
+ *
+ * @returns false if the key does not exist, belongs to someone else or is already revoked
+ */
+export async function revoke(userId: number, id: number): Promise<boolean> {
+  const result = await prisma.apiKey.updateMany({
+    where: {
+      id,
+      userId,
+      revokedAt: null,
+      deletedAt: null,
+    },
+    data: {
+      revokedAt: new Date(),
+      updatedBy: String(userId),
+    },
+  });
+
+  return result.count > 0;
+}
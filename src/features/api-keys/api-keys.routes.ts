@@ -0,0 +1,29 @@
+/**
+ * API Key Routes
+ */
+
+import { Router } from 'express';
+import { validate } from '@/shared/middlewares/validation.middleware';
+import { createApiKeySchema, apiKeyIdSchema } from '@/features/api-keys/api-keys.schema';
+import { index, create, destroy } from '@/features/api-keys/api-keys.controller';
+import {
+  authenticate,
+  forbidApiKey,
+  forbidImpersonation,
+} from '@/shared/middlewares/auth.middleware';
+
+const router = Router();
+
+// Keys are managed from a signed-in session only: not with another key, not while impersonating
+router.use(authenticate, forbidApiKey, forbidImpersonation);
+
+// GET /auth/api-keys - List the user's keys
+router.get('/', index);
+
+// POST /auth/api-keys - Create a key (the key is only returned in this response)
+router.post('/', validate(createApiKeySchema), create);
+
+// DELETE /auth/api-keys/:id - Revoke a key
+router.delete('/:id', validate(apiKeyIdSchema), destroy);
+
+export default router;
@@ -0,0 +1,22 @@
+/**
+ * API Key Validation Schemas
+ */
+
+import { z } from 'zod';
+
+export const createApiKeySchema = {
+  body: z.object({
+    name: z.string().trim().min(1, 'Name is required').max(100),
+    scopes: z.array(z.string().min(1)).max(100).optional(),
+    expiresAt: z.coerce
+      .date()
+      .refine((date) => date.getTime() > Date.now(), 'Expiry must be in the future')
+      .optional(),
+  }),
+};
+
+export const apiKeyIdSchema = {
+  params: z.object({
+    id: z.string().regex(/^\d+$/, 'ID must be a number'),
+  }),
+};
@@ -0,0 +1,82 @@
+/**
+ * API Key Service
+ *
+ * Personal API keys let scripts and CI jobs call the API without the
+ * login/refresh flow. The key is shown once on creation and only its hash is
+ * stored; requests are authenticated in the `authenticate` middleware.
+ */
+
+import { logger } from '@/shared/utils/logger';
+import { generateRandomToken, hashToken } from '@/shared/utils/crypto';
+import { API_KEY_PREFIX } from '@/shared/utils/apiKeys';
+import * as apiKeysRepository from '@/features/api-keys/api-keys.repository';
+import type { UserSessionPayload } from '@/shared/types/auth';
+import type {
+  ApiKeySummary,
+  CreateApiKeyInput,
+  CreatedApiKey,
+} from '@/features/api-keys/api-keys.types';
+import { ForbiddenError, NotFoundError, ValidationError } from '@/shared/errors';
+
+// Characters of the key kept in plain text so owners can tell their keys apart
+const DISPLAY_PREFIX_LENGTH = API_KEY_PREFIX.length + 8;
+
+export async function listApiKeys(encodedUser: UserSessionPayload): Promise<ApiKeySummary[]> {
+  return apiKeysRepository.findByUser(encodedUser.userId);
+}
+
+/**
+ * Create a key limited to a subset of the user's permissions
+ *
+ * @throws ForbiddenError if the user's email address is not verified
+ * @throws ValidationError if a scope is not one of the user's permissions
+ */
+export async function createApiKey(
+  encodedUser: UserSessionPayload,
+  input: CreateApiKeyInput
+): Promise<CreatedApiKey> {
+  const emailVerifiedAt = await apiKeysRepository.findUserEmailVerifiedAt(encodedUser.userId);
+
+  if (!emailVerifiedAt) {
+    throw new ForbiddenError('Email address is not verified');
+  }
+
+  const scopes = [...new Set(input.scopes ?? [])];
+  const granted = encodedUser.permissions ?? [];
+  const unknownScopes = scopes.filter((scope) => !granted.includes(scope));
+
+  if (unknownScopes.length > 0) {
+    throw ValidationError.field(
+      'scopes',
+      `Not granted to this account: ${unknownScopes.join(', ')}`
+    );
+  }
+
+  const key = `${API_KEY_PREFIX}${generateRandomToken()}`;
+
+  const apiKey = await apiKeysRepository.create({
+    userId: encodedUser.userId,
+    name: input.name,
+    prefix: key.slice(0, DISPLAY_PREFIX_LENGTH),
+    keyHash: await hashToken(key),
+    scopes,
+    expiresAt: input.expiresAt ?? null,
+  });
+
+  logger.info({ userId: encodedUser.userId, apiKeyId: apiKey.id, scopes }, 'API key created');
+
+  return { ...apiKey, key };
+}
+
+/**
+ * @throws NotFoundError if the key does not exist, belongs to someone else or is already revoked
+ */
+export async function revokeApiKey(encodedUser: UserSessionPayload, id: number): Promise<void> {
+  const revoked = await apiKeysRepository.revoke(encodedUser.userId, id);
+
+  if (!revoked) {
+    throw NotFoundError.resource('API key', id);
+  }
+
+  logger.info({ userId: encodedUser.userId, apiKeyId: id }, 'API key revoked');
+}
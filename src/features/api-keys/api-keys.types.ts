@@ -0,0 +1,34 @@
+/**
+ * API Key Types
+ */
+
+import type { ApiKey } from '@prisma/client';
+
+export interface CreateApiKeyInput {
+  name: string;
+  /**
+   * Permissions the key is limited to (all of the owner's permissions when empty)
+   */
+  scopes?: string[];
+  expiresAt?: Date;
+}
+
+/**
+ * API key as shown to its owner (the key itself is only returned on creation)
+ */
+export type ApiKeySummary = Pick<
+  ApiKey,
+  | 'id'
+  | 'name'
+  | 'prefix'
+  | 'scopes'
+  | 'expiresAt'
+  | 'lastUsedAt'
+  | 'lastUsedIp'
+  | 'revokedAt'
+  | 'createdAt'
+>;
+
+export interface CreatedApiKey extends ApiKeySummary {
+  key: string;
+}
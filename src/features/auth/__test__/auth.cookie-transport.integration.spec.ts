@@ -0,0 +1,300 @@
+import 'dotenv/config';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import request from 'supertest';
+import express from 'express';
+import authRoutes from '@/features/auth/auth.routes';
+import * as authService from '@/features/auth/auth.service';
+import { errorHandler } from '@/shared/middlewares/error.middleware';
+import { csrfMiddleware } from '@/shared/middlewares/csrf.middleware';
+import { getSessionState, SessionState } from '@/shared/utils/sessionState';
+import { parseCookies } from '@/shared/utils/authCookies';
+import { config } from '@/config';
+import jwt from 'jsonwebtoken';
+import pino from 'pino';
+
+vi.mock('@/features/auth/auth.service');
+vi.mock('@/shared/utils/sessionState');
+vi.mock('@/shared/utils/apiKeys');
+
+const app = express();
+
+const accessToken = jwt.sign({ userId: 1, sessionId: 2 }, config.jwt.secret);
+
+const activeSessionState: SessionState = {
+  sessionId: 2,
+  userId: 1,
+  expiresAt: new Date(Date.now() + 1000 * 60 * 60),
+  revokedAt: null,
+  userIsActive: true,
+  userDeletedAt: null,
+  userEmailVerifiedAt: new Date(),
+  passwordChangedAt: null,
+};
+
+app.use(express.json());
+app.use(csrfMiddleware);
+app.use((req, _res, next) => {
+  req.log = pino({ level: 'silent' });
+  next();
+});
+app.use('/api/v1/auth', authRoutes);
+app.use(errorHandler);
+
+function getSetCookies(res: request.Response): string[] {
+  const header = res.headers['set-cookie'] as unknown as string[] | undefined;
+  return header ?? [];
+}
+
+function findSetCookie(res: request.Response, name: string): string | undefined {
+  return getSetCookies(res).find((cookie) => cookie.startsWith(`${name}=`));
+}
+
+describe('Auth Cookie Transport', () => {
+  const originalCookies = { ...config.cookies };
+
+  beforeEach(() => {
+    vi.resetAllMocks();
+    vi.mocked(getSessionState).mockResolvedValue(activeSessionState);
+    config.cookies.tokenTransport = 'cookie';
+  });
+
+  afterEach(() => {
+    Object.assign(config.cookies, originalCookies);
+  });
+
+  describe('parseCookies', () => {
+    it('should parse and decode cookie pairs', () => {
+      expect(parseCookies('a=1; b=hello%20world; broken; c="quoted"')).toEqual({
+        a: '1',
+        b: 'hello world',
+        c: 'quoted',
+      });
+    });
+
+    it('should keep the first value of a repeated cookie', () => {
+      expect(parseCookies('a=specific; a=general')).toEqual({ a: 'specific' });
+    });
+
+    it('should return an empty object without a header', () => {
+      expect(parseCookies(undefined)).toEqual({});
+    });
+  });
+
+  describe('Token delivery', () => {
+    it('should move the refresh token into an HttpOnly cookie on login', async () => {
+      vi.mocked(authService.login).mockResolvedValue({
+        accessToken: 'access',
+        refreshToken: 'refresh',
+      });
+
+      const res = await request(app)
+        .post('/api/v1/auth/login')
+        .send({ email: 'test@example.com', password: 'Password123!' });
+
+      expect(res.status).toBe(200);
+      expect(res.body.data.accessToken).toBe('access');
+      expect(res.body.data.refreshToken).toBeUndefined();
+      expect(res.body.data.csrfToken).toEqual(expect.any(String));
+
+      const refreshCookie = findSetCookie(res, 'refresh_token');
+      expect(refreshCookie).toContain('refresh_token=refresh');
+      expect(refreshCookie).toContain('Path=/api/v1/auth/refresh');
+      expect(refreshCookie).toContain('HttpOnly');
+      expect(refreshCookie).toContain('Secure');
+      expect(refreshCookie).toContain('SameSite=Strict');
+      expect(findSetCookie(res, 'csrf_token')).toContain(`csrf_token=${res.body.data.csrfToken}`);
+      expect(findSetCookie(res, 'access_token')).toBeUndefined();
+    });
+
+    it('should replace a CSRF token set before the sign-in', async () => {
+      vi.mocked(authService.login).mockResolvedValue({
+        accessToken: 'access',
+        refreshToken: 'refresh',
+      });
+
+      const res = await request(app)
+        .post('/api/v1/auth/login')
+        .set('Cookie', 'csrf_token=planted')
+        .send({ email: 'test@example.com', password: 'Password123!' });
+
+      expect(res.body.data.csrfToken).not.toBe('planted');
+      expect(findSetCookie(res, 'csrf_token')).toContain(`csrf_token=${res.body.data.csrfToken}`);
+    });
+
+    it('should move the access token into a cookie when enabled', async () => {
+      config.cookies.accessToken = true;
+      vi.mocked(authService.login).mockResolvedValue({
+        accessToken: 'access',
+        refreshToken: 'refresh',
+      });
+
+      const res = await request(app)
+        .post('/api/v1/auth/login')
+        .send({ email: 'test@example.com', password: 'Password123!' });
+
+      expect(res.status).toBe(200);
+      expect(res.body.data.accessToken).toBeUndefined();
+      expect(findSetCookie(res, 'access_token')).toContain('Path=/api/v1;');
+    });
+
+    it('should leave results without tokens unchanged', async () => {
+      vi.mocked(authService.login).mockResolvedValue({
+        mfaRequired: true,
+        mfaToken: 'challenge',
+      });
+
+      const res = await request(app)
+        .post('/api/v1/auth/login')
+        .send({ email: 'test@example.com', password: 'Password123!' });
+
+      expect(res.body.data).toEqual({ mfaRequired: true, mfaToken: 'challenge' });
+      expect(getSetCookies(res)).toEqual([]);
+    });
+
+    it('should keep tokens in the body in body transport', async () => {
+      config.cookies.tokenTransport = 'body';
+      vi.mocked(authService.login).mockResolvedValue({
+        accessToken: 'access',
+        refreshToken: 'refresh',
+      });
+
+      const res = await request(app)
+        .post('/api/v1/auth/login')
+        .send({ email: 'test@example.com', password: 'Password123!' });
+
+      expect(res.body.data).toEqual({ accessToken: 'access', refreshToken: 'refresh' });
+      expect(getSetCookies(res)).toEqual([]);
+    });
+  });
+
+  describe('POST /api/v1/auth/refresh', () => {
+    it('should refresh from the cookie with a matching CSRF header', async () => {
+      vi.mocked(authService.refresh).mockResolvedValue({
+        accessToken: 'new-access',
+        refreshToken: 'new-refresh',
+      });
+
+      const res = await request(app)
+        .post('/api/v1/auth/refresh')
+        .set('Cookie', 'refresh_token=old-refresh; csrf_token=csrf')
+        .set('X-CSRF-Token', 'csrf');
+
+      expect(res.status).toBe(200);
+      expect(authService.refresh).toHaveBeenCalledWith(
+        expect.objectContaining({ refreshToken: 'old-refresh' })
+      );
+      expect(res.body.data).toEqual({ accessToken: 'new-access', csrfToken: expect.any(String) });
+      expect(res.body.data.csrfToken).not.toBe('csrf');
+      expect(findSetCookie(res, 'csrf_token')).toContain(`csrf_token=${res.body.data.csrfToken}`);
+      expect(findSetCookie(res, 'refresh_token')).toContain('refresh_token=new-refresh');
+    });
+
+    it('should reject a cookie refresh without the CSRF header', async () => {
+      const res = await request(app)
+        .post('/api/v1/auth/refresh')
+        .set('Cookie', 'refresh_token=old-refresh; csrf_token=csrf');
+
+      expect(res.status).toBe(403);
+      expect(res.body.error.code).toBe('CSRF_TOKEN_INVALID');
+      expect(authService.refresh).not.toHaveBeenCalled();
+    });
+
+    it('should reject a mismatching CSRF header', async () => {
+      const res = await request(app)
+        .post('/api/v1/auth/refresh')
+        .set('Cookie', 'refresh_token=old-refresh; csrf_token=csrf')
+        .set('X-CSRF-Token', 'other');
+
+      expect(res.status).toBe(403);
+    });
+
+    it('should still accept a refresh token in the body', async () => {
+      vi.mocked(authService.refresh).mockResolvedValue({
+        accessToken: 'new-access',
+        refreshToken: 'new-refresh',
+      });
+
+      const res = await request(app)
+        .post('/api/v1/auth/refresh')
+        .send({ refreshToken: 'body-refresh' });
+
+      expect(res.status).toBe(200);
+      expect(authService.refresh).toHaveBeenCalledWith(
+        expect.objectContaining({ refreshToken: 'body-refresh' })
+      );
+    });
+
+    it('should return 422 without any refresh token', async () => {
+      const res = await request(app).post('/api/v1/auth/refresh');
+
+      expect(res.status).toBe(422);
+      expect(authService.refresh).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Access token cookie', () => {
+    it('should authenticate with the access token cookie and clear cookies on logout', async () => {
+      config.cookies.accessToken = true;
+      vi.mocked(authService.logout).mockResolvedValue(undefined);
+
+      const res = await request(app)
+        .post('/api/v1/auth/logout')
+        .set('Cookie', `access_token=${accessToken}; csrf_token=csrf`)
+        .set('X-CSRF-Token', 'csrf');
+
+      expect(res.status).toBe(200);
+      expect(authService.logout).toHaveBeenCalled();
+      expect(findSetCookie(res, 'refresh_token')).toContain('Expires=Thu, 01 Jan 1970');
+    });
+
+    it('should ignore the access token cookie unless enabled', async () => {
+      const res = await request(app)
+        .post('/api/v1/auth/logout')
+        .set('Cookie', `access_token=${accessToken}; csrf_token=csrf`)
+        .set('X-CSRF-Token', 'csrf');
+
+      expect(res.status).toBe(401);
+    });
+
+    it('should not require a CSRF header for Authorization header requests', async () => {
+      vi.mocked(authService.logout).mockResolvedValue(undefined);
+
+      const res = await request(app)
+        .post('/api/v1/auth/logout')
+        .set('Authorization', `Bearer ${accessToken}`);
+
+      expect(res.status).toBe(200);
+    });
+
+    it('should still require the CSRF header when an auth cookie comes with the request', async () => {
+      config.cookies.accessToken = true;
+
+      const res = await request(app)
+        .post('/api/v1/auth/logout')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .set('Cookie', `access_token=${accessToken}; csrf_token=csrf`);
+
+      expect(res.status).toBe(403);
+      expect(res.body.error.code).toBe('CSRF_TOKEN_INVALID');
+      expect(authService.logout).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('GET /api/v1/auth/csrf-token', () => {
+    it('should issue a CSRF token cookie', async () => {
+      const res = await request(app).get('/api/v1/auth/csrf-token');
+
+      expect(res.status).toBe(200);
+      expect(res.body.data.csrfToken).toEqual(expect.any(String));
+      expect(findSetCookie(res, 'csrf_token')).toContain(`csrf_token=${res.body.data.csrfToken}`);
+    });
+
+    it('should return the existing CSRF token', async () => {
+      const res = await request(app)
+        .get('/api/v1/auth/csrf-token')
+        .set('Cookie', 'csrf_token=existing');
+
+      expect(res.body.data.csrfToken).toBe('existing');
+    });
+  });
+});
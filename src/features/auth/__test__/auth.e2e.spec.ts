@@ -34,6 +34,7 @@ vi.mock('@/shared/utils/logger', () => ({
 import authRoutes from '@/features/auth/auth.routes';
 import { prisma } from '@/shared/utils/prisma';
 import { UserSessionPayload } from '@/features/auth/auth.types';
+import { purgeDeletedAccounts } from '@/features/auth/auth.service';
 
 // Setup Express App
 const app = express();
@@ -45,6 +46,7 @@ import { Request, Response, NextFunction } from 'express';
 
 interface HttpError extends Error {
   statusCode?: number;
+  details?: unknown;
 }
 
 app.use(
@@ -60,6 +62,7 @@ app.use(
       success: false,
       error: {
         message: err.message || 'Internal Server Error',
+        details: err.details,
       },
     });
   }
@@ -77,6 +80,8 @@ describe('Auth Feature E2E', () => {
     vi.clearAllMocks();
 
     // Clean Database
+    await prisma.securityEvent.deleteMany();
+    await prisma.impersonationLog.deleteMany();
     await prisma.userSession.deleteMany();
     await prisma.emailVerificationToken.deleteMany();
     await prisma.passwordResetToken.deleteMany();
@@ -187,7 +192,8 @@ describe('Auth Feature E2E', () => {
       // Verify JWT Claims
       const decoded = jwt.decode(res.body.data.accessToken) as UserSessionPayload;
       expect(decoded.userId).toBe(user.id);
-      expect(decoded.role).toBe('user');
+      expect(decoded.roles).toEqual([]);
+      expect(decoded.permissions).toEqual([]);
 
       // Verify Session in DB
       const session = await prisma.userSession.findFirst({ where: { userId: user.id } });
@@ -437,6 +443,56 @@ describe('Auth Feature E2E', () => {
       expect(res.status).toBe(401);
       expect(res.body.error.message).toMatch(/expired/i);
     });
+    it('should revoke the whole session family when a rotated token is reused', async () => {
+      vi.stubEnv('NODE_ENV', 'development');
+
+      const user = await prisma.user.create({
+        data: { email: 'reuse@example.com', name: 'Reuse', password: 'hash' },
+      });
+
+      const stolenToken = 'stolen-refresh-token';
+      const original = await prisma.userSession.create({
+        data: {
+          userId: user.id,
+          refreshTokenHash: hashToken(stolenToken),
+          expiresAt: addDays(new Date(), 7),
+        },
+      });
+
+      // Legitimate client rotates first
+      const rotateRes = await request(app).post('/api/v1/auth/refresh').send({
+        refreshToken: stolenToken,
+      });
+      expect(rotateRes.status).toBe(200);
+
+      // Attacker replays the old token
+      const res = await request(app).post('/api/v1/auth/refresh').send({
+        refreshToken: stolenToken,
+      });
+
+      expect(res.status).toBe(401);
+      expect(res.body.error.message).toMatch(/reuse/i);
+
+      // Every session in the family is revoked, including the rotated-in one
+      const family = await prisma.userSession.findMany({
+        where: { familyId: original.familyId },
+      });
+      expect(family).toHaveLength(2);
+      expect(family.every((session) => session.revokedAt !== null)).toBe(true);
+
+      // The legitimate client's new refresh token no longer works
+      const followUp = await request(app).post('/api/v1/auth/refresh').send({
+        refreshToken: rotateRes.body.data.refreshToken,
+      });
+      expect(followUp.status).toBe(401);
+
+      // User is notified
+      expect(sendMailMock).toHaveBeenCalledWith(
+        expect.objectContaining({ to: 'reuse@example.com' })
+      );
+
+      vi.stubEnv('NODE_ENV', 'test');
+    });
   });
 
   describe('Logout', () => {
@@ -469,6 +525,49 @@ describe('Auth Feature E2E', () => {
       const session = await prisma.userSession.findFirst({ where: { userId: user.id } });
       expect(session).not.toBeNull();
       expect(session!.revokedAt).not.toBeNull();
+
+      // 5. The access token of the revoked session is no longer accepted
+      const meRes = await request(app)
+        .get('/api/v1/auth/me')
+        .set('Authorization', `Bearer ${accessToken}`);
+
+      expect(meRes.status).toBe(401);
+    });
+  });
+
+  describe('Profile Update (PATCH /me)', () => {
+    it('should update profile fields and record the acting user', async () => {
+      const user = await prisma.user.create({
+        data: { email: 'profile@example.com', name: 'Before', password: 'hash' },
+      });
+      const session = await prisma.userSession.create({
+        data: {
+          userId: user.id,
+          refreshTokenHash: 'hash',
+          expiresAt: addDays(new Date(), 1),
+        },
+      });
+      const accessToken = jwt.sign(
+        { userId: user.id, sessionId: session.id },
+        process.env.JWT_SECRET || 'dev_secret_do_not_use'
+      );
+
+      const res = await request(app)
+        .patch('/api/v1/auth/me')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .send({ name: 'After', locale: 'de-DE', timezone: 'Europe/Berlin' });
+
+      expect(res.status).toBe(200);
+      expect(res.body.data).toMatchObject({
+        email: 'profile@example.com',
+        name: 'After',
+        locale: 'de-DE',
+        timezone: 'Europe/Berlin',
+      });
+      expect(res.body.data).not.toHaveProperty('password');
+
+      const updatedUser = await prisma.user.findUnique({ where: { id: user.id } });
+      expect(updatedUser!.updatedBy).toBe(String(user.id));
     });
   });
 
@@ -497,6 +596,29 @@ describe('Auth Feature E2E', () => {
       expect(res.body.data.email).toBe('me@example.com');
     });
 
+    it('should reject access once the account is deactivated', async () => {
+      const user = await prisma.user.create({
+        data: { email: 'inactive-me@example.com', name: 'Me', password: 'hash', isActive: false },
+      });
+      const session = await prisma.userSession.create({
+        data: {
+          userId: user.id,
+          refreshTokenHash: 'hash',
+          expiresAt: addDays(new Date(), 1),
+        },
+      });
+      const accessToken = jwt.sign(
+        { userId: user.id, sessionId: session.id },
+        process.env.JWT_SECRET || 'dev_secret_do_not_use'
+      );
+
+      const res = await request(app)
+        .get('/api/v1/auth/me')
+        .set('Authorization', `Bearer ${accessToken}`);
+
+      expect(res.status).toBe(401);
+    });
+
     it('should reject access with expired access token', async () => {
       const accessToken = jwt.sign(
         { userId: 1, sessionId: 1, role: 'user' },
@@ -560,6 +682,380 @@ describe('Auth Feature E2E', () => {
       });
       expect(updatedToken!.usedAt).not.toBeNull();
     });
+
+    it('should resend verification and invalidate the previous token', async () => {
+      const user = await prisma.user.create({
+        data: { email: 'resend@example.com', name: 'R', password: 'hash' },
+      });
+      await prisma.emailVerificationToken.create({
+        data: {
+          userId: user.id,
+          tokenHash: hashToken('old-token'),
+          expiresAt: addMinutes(new Date(), 60),
+        },
+      });
+
+      vi.stubEnv('NODE_ENV', 'development');
+      const res = await request(app)
+        .post('/api/v1/auth/resend-verification')
+        .send({ email: 'resend@example.com' });
+      vi.stubEnv('NODE_ENV', 'test');
+
+      expect(res.status).toBe(200);
+      expect(sendMailMock).toHaveBeenCalledWith(
+        expect.objectContaining({ to: 'resend@example.com', subject: 'Verify your email' })
+      );
+
+      const oldRes = await request(app)
+        .post('/api/v1/auth/verify-email')
+        .send({ token: 'old-token' });
+      expect(oldRes.status).toBe(404);
+
+      const newToken = sendMailMock.mock.calls[0][0].text.split('token=')[1];
+      const newRes = await request(app).post('/api/v1/auth/verify-email').send({ token: newToken });
+      expect(newRes.status).toBe(200);
+    });
+
+    it('should respond the same for unknown emails', async () => {
+      const res = await request(app)
+        .post('/api/v1/auth/resend-verification')
+        .send({ email: 'nobody@example.com' });
+
+      expect(res.status).toBe(200);
+      expect(sendMailMock).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Email Change', () => {
+    async function requestChange(email: string, newEmail: string) {
+      const password = 'Password123!';
+      const user = await prisma.user.create({
+        data: { email, name: 'Change', password: await argon2.hash(password) },
+      });
+      const loginRes = await request(app).post('/api/v1/auth/login').send({ email, password });
+
+      vi.stubEnv('NODE_ENV', 'development');
+      const res = await request(app)
+        .post('/api/v1/auth/email-change')
+        .set('Authorization', `Bearer ${loginRes.body.data.accessToken}`)
+        .send({ newEmail, password });
+      vi.stubEnv('NODE_ENV', 'test');
+
+      const tokenFor = (to: string) =>
+        sendMailMock.mock.calls.find(([mail]) => mail.to === to)![0].text.split('token=')[1];
+
+      return { user, res, tokenFor };
+    }
+
+    it('should change the email after confirming from the new address', async () => {
+      const { user, res, tokenFor } = await requestChange(
+        'before@example.com',
+        'after@example.com'
+      );
+
+      expect(res.status).toBe(200);
+      expect(sendMailMock).toHaveBeenCalledWith(
+        expect.objectContaining({ to: 'before@example.com', subject: 'Email change requested' })
+      );
+
+      const confirmRes = await request(app)
+        .post('/api/v1/auth/email-change/confirm')
+        .send({ token: tokenFor('after@example.com') });
+      expect(confirmRes.status).toBe(200);
+
+      const updatedUser = await prisma.user.findUnique({ where: { id: user.id } });
+      expect(updatedUser!.email).toBe('after@example.com');
+      expect(updatedUser!.emailVerifiedAt).not.toBeNull();
+    });
+
+    it('should not change the email once cancelled from the old address', async () => {
+      const { user, tokenFor } = await requestChange('keep@example.com', 'other@example.com');
+
+      const cancelRes = await request(app)
+        .post('/api/v1/auth/email-change/cancel')
+        .send({ token: tokenFor('keep@example.com') });
+      expect(cancelRes.status).toBe(200);
+
+      const confirmRes = await request(app)
+        .post('/api/v1/auth/email-change/confirm')
+        .send({ token: tokenFor('other@example.com') });
+      expect(confirmRes.status).toBe(422);
+
+      const updatedUser = await prisma.user.findUnique({ where: { id: user.id } });
+      expect(updatedUser!.email).toBe('keep@example.com');
+    });
+
+    it('should return 409 if the new address was registered in the meantime', async () => {
+      const { tokenFor } = await requestChange('first@example.com', 'contested@example.com');
+
+      await prisma.user.create({
+        data: { email: 'contested@example.com', name: 'Other', password: 'hash' },
+      });
+
+      const confirmRes = await request(app)
+        .post('/api/v1/auth/email-change/confirm')
+        .send({ token: tokenFor('contested@example.com') });
+      expect(confirmRes.status).toBe(409);
+    });
+  });
+
+  describe('Magic Link', () => {
+    it('should email a single-use sign-in link', async () => {
+      vi.stubEnv('NODE_ENV', 'development');
+
+      await prisma.user.create({
+        data: { email: 'magic@example.com', name: 'Magic', password: null },
+      });
+
+      const res = await request(app).post('/api/v1/auth/magic-link').send({
+        email: 'magic@example.com',
+      });
+
+      expect(res.status).toBe(200);
+
+      const token = await prisma.magicLinkToken.findFirst({
+        where: { user: { email: 'magic@example.com' } },
+      });
+      expect(token).toBeTruthy();
+
+      expect(sendMailMock).toHaveBeenCalledWith(
+        expect.objectContaining({
+          to: 'magic@example.com',
+          subject: 'Your sign-in link',
+        })
+      );
+
+      vi.stubEnv('NODE_ENV', 'test');
+    });
+
+    it('should not reveal unknown email addresses', async () => {
+      const res = await request(app).post('/api/v1/auth/magic-link').send({
+        email: 'nobody@example.com',
+      });
+
+      expect(res.status).toBe(200);
+    });
+
+    it('should sign in once with a valid link and verify the email address', async () => {
+      const user = await prisma.user.create({
+        data: { email: 'magic-login@example.com', name: 'Magic', password: null },
+      });
+
+      const token = 'magic-token';
+      await prisma.magicLinkToken.create({
+        data: {
+          userId: user.id,
+          tokenHash: hashToken(token),
+          expiresAt: addMinutes(new Date(), 15),
+        },
+      });
+
+      const res = await request(app).post('/api/v1/auth/magic-link/verify').send({ token });
+
+      expect(res.status).toBe(200);
+      expect(res.body.data.accessToken).toBeDefined();
+      expect(res.body.data.refreshToken).toBeDefined();
+
+      const session = await prisma.userSession.findFirst({ where: { userId: user.id } });
+      expect(session).toBeTruthy();
+
+      const updatedUser = await prisma.user.findUnique({ where: { id: user.id } });
+      expect(updatedUser!.emailVerifiedAt).not.toBeNull();
+      expect(updatedUser!.lastLoginAt).not.toBeNull();
+
+      const reuse = await request(app).post('/api/v1/auth/magic-link/verify').send({ token });
+      expect(reuse.status).toBe(401);
+    });
+
+    it('should reject expired links', async () => {
+      const user = await prisma.user.create({
+        data: { email: 'magic-expired@example.com', name: 'Magic', password: null },
+      });
+
+      await prisma.magicLinkToken.create({
+        data: {
+          userId: user.id,
+          tokenHash: hashToken('expired-magic-token'),
+          expiresAt: subMinutes(new Date(), 1),
+        },
+      });
+
+      const res = await request(app)
+        .post('/api/v1/auth/magic-link/verify')
+        .send({ token: 'expired-magic-token' });
+
+      expect(res.status).toBe(401);
+    });
+
+    it('should honour account lockout', async () => {
+      const user = await prisma.user.create({
+        data: {
+          email: 'magic-locked@example.com',
+          name: 'Magic',
+          lockedUntil: addMinutes(new Date(), 10),
+        },
+      });
+
+      await prisma.magicLinkToken.create({
+        data: {
+          userId: user.id,
+          tokenHash: hashToken('locked-magic-token'),
+          expiresAt: addMinutes(new Date(), 15),
+        },
+      });
+
+      const res = await request(app)
+        .post('/api/v1/auth/magic-link/verify')
+        .send({ token: 'locked-magic-token' });
+
+      expect(res.status).toBe(403);
+      expect(await prisma.userSession.count({ where: { userId: user.id } })).toBe(0);
+    });
+  });
+
+  describe('New Sign-In Alerts', () => {
+    it('should announce a sign-in from a new device and sign it out when reported', async () => {
+      vi.stubEnv('NODE_ENV', 'development');
+
+      const password = 'Password123!';
+      const user = await prisma.user.create({
+        data: {
+          name: 'Alert User',
+          email: 'alert@example.com',
+          password: await argon2.hash(password),
+          isActive: true,
+        },
+      });
+
+      await prisma.userSession.create({
+        data: {
+          userId: user.id,
+          refreshTokenHash: hashToken('earlier-session'),
+          userAgent: 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) Chrome/129.0.0.0 Safari/537.36',
+          ipAddress: '127.0.0.1',
+          expiresAt: addDays(new Date(), 7),
+          createdAt: subMinutes(new Date(), 60 * 24),
+        },
+      });
+
+      const login = await request(app)
+        .post('/api/v1/auth/login')
+        .set('User-Agent', 'Mozilla/5.0 (Android 14; Mobile; rv:130.0) Gecko/130.0 Firefox/130.0')
+        .send({ email: 'alert@example.com', password });
+
+      expect(login.status).toBe(200);
+
+      const session = await prisma.userSession.findFirst({
+        where: { refreshTokenHash: hashToken(login.body.data.refreshToken) },
+      });
+      expect(session!.riskReasons).toEqual(['new_device']);
+
+      const mail = sendMailMock.mock.calls.find(
+        ([sent]) => sent.subject === 'New sign-in to your account'
+      );
+      expect(mail).toBeDefined();
+      expect(mail![0].text).toContain('Firefox on Android');
+
+      const reportToken = mail![0].text.split('report-sign-in?token=')[1].split(/\s/)[0];
+      const report = await request(app)
+        .post('/api/v1/auth/sessions/report')
+        .send({ token: reportToken });
+
+      expect(report.status).toBe(200);
+
+      const reported = await prisma.userSession.findUnique({ where: { id: session!.id } });
+      expect(reported!.revokedAt).not.toBeNull();
+
+      vi.stubEnv('NODE_ENV', 'test');
+    });
+
+    it('should not alert on a sign-in from a familiar device', async () => {
+      vi.stubEnv('NODE_ENV', 'development');
+
+      const password = 'Password123!';
+      const userAgent = 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) Chrome/129.0.0.0 Safari/537.36';
+      const user = await prisma.user.create({
+        data: {
+          name: 'Familiar User',
+          email: 'familiar@example.com',
+          password: await argon2.hash(password),
+          isActive: true,
+        },
+      });
+
+      await prisma.userSession.create({
+        data: {
+          userId: user.id,
+          refreshTokenHash: hashToken('familiar-session'),
+          userAgent,
+          ipAddress: '127.0.0.1',
+          expiresAt: addDays(new Date(), 7),
+        },
+      });
+
+      const res = await request(app)
+        .post('/api/v1/auth/login')
+        .set('User-Agent', userAgent)
+        .send({ email: 'familiar@example.com', password });
+
+      expect(res.status).toBe(200);
+      expect(sendMailMock).not.toHaveBeenCalled();
+
+      vi.stubEnv('NODE_ENV', 'test');
+    });
+  });
+
+  describe('Security Events', () => {
+    it('should record sign-in attempts and list them to the account owner', async () => {
+      const password = 'Password123!';
+      const user = await prisma.user.create({
+        data: {
+          name: 'Audit User',
+          email: 'audit@example.com',
+          password: await argon2.hash(password),
+          isActive: true,
+        },
+      });
+
+      await request(app)
+        .post('/api/v1/auth/login')
+        .set('User-Agent', 'AuditAgent')
+        .send({ email: 'audit@example.com', password: 'WrongPassword!' });
+      await request(app)
+        .post('/api/v1/auth/login')
+        .send({ email: 'unknown-audit@example.com', password: 'WrongPassword!' });
+
+      const login = await request(app)
+        .post('/api/v1/auth/login')
+        .set('User-Agent', 'AuditAgent')
+        .send({ email: 'audit@example.com', password });
+
+      expect(login.status).toBe(200);
+
+      const unknown = await prisma.securityEvent.findFirst({
+        where: { email: 'unknown-audit@example.com' },
+      });
+      expect(unknown).toMatchObject({ type: 'login_failed', userId: null });
+
+      const res = await request(app)
+        .get('/api/v1/auth/security-events')
+        .set('Authorization', `Bearer ${login.body.data.accessToken}`);
+
+      expect(res.status).toBe(200);
+      expect(res.body.meta.total).toBe(2);
+      expect(res.body.data.map((event: { type: string }) => event.type)).toEqual([
+        'login_succeeded',
+        'login_failed',
+      ]);
+      expect(res.body.data[1]).toMatchObject({
+        userAgent: 'AuditAgent',
+        metadata: { reason: 'invalid_password', failedAttempts: 1 },
+      });
+      expect(res.body.data[0]).not.toHaveProperty('email');
+
+      const stored = await prisma.securityEvent.count({ where: { userId: user.id } });
+      expect(stored).toBe(2);
+    });
   });
 
   describe('Password Reset', () => {
@@ -630,6 +1126,265 @@ describe('Auth Feature E2E', () => {
     });
   });
 
+  describe('Change Password', () => {
+    it('should change password, revoke other sessions and keep the current one', async () => {
+      const password = 'Password123!';
+      const user = await prisma.user.create({
+        data: {
+          email: 'change@example.com',
+          name: 'Change',
+          password: await argon2.hash(password),
+        },
+      });
+
+      const loginA = await request(app)
+        .post('/api/v1/auth/login')
+        .send({ email: 'change@example.com', password });
+      const loginB = await request(app)
+        .post('/api/v1/auth/login')
+        .send({ email: 'change@example.com', password });
+
+      vi.stubEnv('NODE_ENV', 'development');
+      const res = await request(app)
+        .post('/api/v1/auth/change-password')
+        .set('Authorization', `Bearer ${loginA.body.data.accessToken}`)
+        .send({ currentPassword: password, newPassword: 'NewSecurePassword123!' });
+      vi.stubEnv('NODE_ENV', 'test');
+
+      expect(res.status).toBe(200);
+      expect(res.body.data.revokedCount).toBe(1);
+
+      const updatedUser = await prisma.user.findUnique({ where: { id: user.id } });
+      expect(await argon2.verify(updatedUser!.password!, 'NewSecurePassword123!')).toBe(true);
+      expect(updatedUser!.passwordChangedAt).not.toBeNull();
+
+      // The other device is signed out, the current one keeps working with its new token
+      const otherRes = await request(app)
+        .get('/api/v1/auth/me')
+        .set('Authorization', `Bearer ${loginB.body.data.accessToken}`);
+      expect(otherRes.status).toBe(401);
+
+      const meRes = await request(app)
+        .get('/api/v1/auth/me')
+        .set('Authorization', `Bearer ${res.body.data.accessToken}`);
+      expect(meRes.status).toBe(200);
+
+      expect(sendMailMock).toHaveBeenCalledWith(
+        expect.objectContaining({ to: 'change@example.com', subject: 'Password Changed' })
+      );
+    });
+
+    it('should reject an incorrect current password', async () => {
+      const password = 'Password123!';
+      await prisma.user.create({
+        data: {
+          email: 'change-bad@example.com',
+          name: 'Change',
+          password: await argon2.hash(password),
+        },
+      });
+
+      const loginRes = await request(app)
+        .post('/api/v1/auth/login')
+        .send({ email: 'change-bad@example.com', password });
+
+      const res = await request(app)
+        .post('/api/v1/auth/change-password')
+        .set('Authorization', `Bearer ${loginRes.body.data.accessToken}`)
+        .send({ currentPassword: 'WrongPassword123!', newPassword: 'NewSecurePassword123!' });
+
+      expect(res.status).toBe(401);
+    });
+
+    it('should not allow switching back to a recent password', async () => {
+      const password = 'Password123!';
+      await prisma.user.create({
+        data: {
+          email: 'change-reuse@example.com',
+          name: 'Change',
+          password: await argon2.hash(password),
+        },
+      });
+
+      const loginRes = await request(app)
+        .post('/api/v1/auth/login')
+        .send({ email: 'change-reuse@example.com', password });
+
+      const first = await request(app)
+        .post('/api/v1/auth/change-password')
+        .set('Authorization', `Bearer ${loginRes.body.data.accessToken}`)
+        .send({ currentPassword: password, newPassword: 'NewSecurePassword123!' });
+
+      const second = await request(app)
+        .post('/api/v1/auth/change-password')
+        .set('Authorization', `Bearer ${first.body.data.accessToken}`)
+        .send({ currentPassword: 'NewSecurePassword123!', newPassword: password });
+
+      expect(first.status).toBe(200);
+      expect(second.status).toBe(422);
+      expect(second.body.error.details).toHaveProperty(['newPassword.reused']);
+    });
+  });
+
+  describe('Account Deletion', () => {
+    const password = 'Password123!';
+
+    async function createUserAndSignIn() {
+      const user = await prisma.user.create({
+        data: {
+          email: 'leaving@example.com',
+          name: 'Leaving',
+          password: await argon2.hash(password),
+        },
+      });
+      const login = await request(app)
+        .post('/api/v1/auth/login')
+        .send({ email: 'leaving@example.com', password });
+
+      return { user, accessToken: login.body.data.accessToken as string };
+    }
+
+    it('should export the account data without secrets', async () => {
+      const { user, accessToken } = await createUserAndSignIn();
+      const example = await prisma.example.create({
+        data: {
+          name: 'Mine',
+          createdBy: String(user.id),
+          organization: { create: { name: 'Personal' } },
+        },
+      });
+
+      const res = await request(app)
+        .post('/api/v1/auth/me/export')
+        .set('Authorization', `Bearer ${accessToken}`);
+
+      await prisma.example.delete({ where: { id: example.id } });
+
+      expect(res.status).toBe(200);
+      expect(res.body.data.user).toMatchObject({ id: user.id, email: 'leaving@example.com' });
+      expect(res.body.data.user).not.toHaveProperty('password');
+      expect(res.body.data.sessions).toHaveLength(1);
+      expect(res.body.data.sessions[0]).not.toHaveProperty('refreshTokenHash');
+      expect(res.body.data.examples).toEqual([expect.objectContaining({ name: 'Mine' })]);
+    });
+
+    it('should delete the account, sign it out and restore it on the next sign-in', async () => {
+      const { user, accessToken } = await createUserAndSignIn();
+
+      const wrongPassword = await request(app)
+        .delete('/api/v1/auth/me')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .send({ password: 'wrong-password' });
+      expect(wrongPassword.status).toBe(401);
+
+      const res = await request(app)
+        .delete('/api/v1/auth/me')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .send({ password });
+
+      expect(res.status).toBe(200);
+      const deleted = await prisma.user.findUniqueOrThrow({ where: { id: user.id } });
+      expect(deleted.deletedAt).not.toBeNull();
+      expect(deleted.purgeAt!.toISOString()).toBe(res.body.data.purgeAt);
+
+      const meRes = await request(app)
+        .get('/api/v1/auth/me')
+        .set('Authorization', `Bearer ${accessToken}`);
+      expect(meRes.status).toBe(401);
+
+      const login = await request(app)
+        .post('/api/v1/auth/login')
+        .send({ email: 'leaving@example.com', password });
+
+      expect(login.status).toBe(200);
+      const restored = await prisma.user.findUniqueOrThrow({ where: { id: user.id } });
+      expect(restored.deletedAt).toBeNull();
+      expect(restored.purgeAt).toBeNull();
+    });
+
+    it('should purge the account once the grace period has ended', async () => {
+      const { user } = await createUserAndSignIn();
+      await prisma.user.update({
+        where: { id: user.id },
+        data: { deletedAt: new Date(), purgeAt: subMinutes(new Date(), 1) },
+      });
+      const example = await prisma.example.create({
+        data: {
+          name: 'Left behind',
+          createdBy: String(user.id),
+          organization: { create: { name: 'Personal' } },
+          owner: { connect: { id: user.id } },
+        },
+      });
+      const admin = await prisma.user.create({
+        data: { email: 'support@example.com', name: 'Support' },
+      });
+      const impersonation = await prisma.impersonationLog.create({
+        data: {
+          impersonator: { connect: { id: admin.id } },
+          targetUser: { connect: { id: user.id } },
+          session: {
+            create: { userId: user.id, refreshTokenHash: 'hash', expiresAt: new Date() },
+          },
+          reason: 'Support ticket',
+          expiresAt: new Date(),
+        },
+      });
+
+      const login = await request(app)
+        .post('/api/v1/auth/login')
+        .send({ email: 'leaving@example.com', password });
+      expect(login.status).toBe(401);
+
+      expect(await purgeDeletedAccounts()).toBe(1);
+
+      expect(await prisma.user.findUnique({ where: { id: user.id } })).toBeNull();
+      const events = await prisma.securityEvent.findMany();
+      expect(events.length).toBeGreaterThan(0);
+      expect(events.every((event) => event.userId === null && event.email === null)).toBe(true);
+      expect(await prisma.example.findUniqueOrThrow({ where: { id: example.id } })).toMatchObject({
+        createdBy: null,
+        ownerId: null,
+      });
+      expect(
+        await prisma.impersonationLog.findUniqueOrThrow({ where: { id: impersonation.id } })
+      ).toMatchObject({ impersonatorId: admin.id, targetUserId: null, sessionId: null });
+
+      await prisma.example.delete({ where: { id: example.id } });
+    });
+
+    it('should pass organizations the purged user still owns to another member', async () => {
+      const { user } = await createUserAndSignIn();
+      const member = await prisma.user.create({
+        data: { email: 'staying@example.com', name: 'Staying' },
+      });
+      const organization = await prisma.organization.create({
+        data: {
+          name: 'Shared',
+          memberships: {
+            create: [
+              { userId: user.id, role: 'owner' },
+              { userId: member.id, role: 'member' },
+            ],
+          },
+        },
+      });
+      await prisma.user.update({
+        where: { id: user.id },
+        data: { deletedAt: new Date(), purgeAt: subMinutes(new Date(), 1) },
+      });
+
+      expect(await purgeDeletedAccounts()).toBe(1);
+
+      const memberships = await prisma.membership.findMany({
+        where: { organizationId: organization.id },
+      });
+      expect(memberships).toEqual([expect.objectContaining({ userId: member.id, role: 'owner' })]);
+
+      await prisma.organization.delete({ where: { id: organization.id } });
+    });
+  });
+
   describe('Rate Limiting', () => {
     it('should return 429 when too many requests are made', async () => {
       // Setup isolated app with aggressive rate limiting
@@ -0,0 +1,110 @@
+/**
+ * Login Risk Unit Tests
+ *
+ * Tests how sign-ins are compared with the user's previous sessions.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { subMinutes, subDays } from 'date-fns';
+import { assessLoginRisk, ipSubnet, userAgentFamily } from '@/shared/utils/loginRisk';
+
+const CHROME_WINDOWS =
+  'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/129.0.0.0 Safari/537.36';
+const CHROME_WINDOWS_NEWER =
+  'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/131.0.0.0 Safari/537.36';
+const SAFARI_IPHONE =
+  'Mozilla/5.0 (iPhone; CPU iPhone OS 17_5 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.5 Mobile/15E148 Safari/604.1';
+const FIREFOX_ANDROID = 'Mozilla/5.0 (Android 14; Mobile; rv:130.0) Gecko/130.0 Firefox/130.0';
+
+const now = new Date('2026-10-19T12:00:00Z');
+
+describe('Login Risk', () => {
+  describe('userAgentFamily', () => {
+    it('should ignore versions and recognise mobile platforms', () => {
+      expect(userAgentFamily(CHROME_WINDOWS)).toBe('Chrome on Windows');
+      expect(userAgentFamily(CHROME_WINDOWS_NEWER)).toBe('Chrome on Windows');
+      expect(userAgentFamily(SAFARI_IPHONE)).toBe('Safari on iOS');
+      expect(userAgentFamily(FIREFOX_ANDROID)).toBe('Firefox on Android');
+      expect(userAgentFamily('curl/8.5.0')).toBe('curl');
+      expect(userAgentFamily(undefined)).toBe('Unknown device');
+    });
+  });
+
+  describe('ipSubnet', () => {
+    it('should group IPv4, IPv4-mapped and IPv6 addresses by subnet', () => {
+      expect(ipSubnet('203.0.113.17')).toBe('203.0.113.0/24');
+      expect(ipSubnet('::ffff:203.0.113.99')).toBe('203.0.113.0/24');
+      expect(ipSubnet('2001:db8:85a3::8a2e:370:7334')).toBe('2001:0db8:85a3/48');
+      expect(ipSubnet('2001:db8:85a3:1::1')).toBe('2001:0db8:85a3/48');
+      expect(ipSubnet('not-an-ip')).toBeNull();
+    });
+  });
+
+  describe('assessLoginRisk', () => {
+    const known = {
+      userAgent: CHROME_WINDOWS,
+      ipAddress: '203.0.113.17',
+      createdAt: subDays(now, 3),
+    };
+
+    it('should not flag a first sign-in', () => {
+      expect(assessLoginRisk({ userAgent: SAFARI_IPHONE }, [], 120, now)).toEqual({
+        level: 'none',
+        reasons: [],
+      });
+    });
+
+    it('should not flag a known device on a known subnet', () => {
+      const risk = assessLoginRisk(
+        { userAgent: CHROME_WINDOWS_NEWER, ipAddress: '203.0.113.200' },
+        [known],
+        120,
+        now
+      );
+
+      expect(risk).toEqual({ level: 'none', reasons: [] });
+    });
+
+    it('should rate a new device or a new network as medium risk', () => {
+      expect(
+        assessLoginRisk({ userAgent: SAFARI_IPHONE, ipAddress: '203.0.113.5' }, [known], 120, now)
+      ).toEqual({ level: 'medium', reasons: ['new_device'] });
+      expect(
+        assessLoginRisk({ userAgent: CHROME_WINDOWS, ipAddress: '198.51.100.5' }, [known], 120, now)
+      ).toEqual({ level: 'medium', reasons: ['new_network'] });
+    });
+
+    it('should rate a new device on a new network as high risk', () => {
+      const risk = assessLoginRisk(
+        { userAgent: FIREFOX_ANDROID, ipAddress: '198.51.100.5' },
+        [known],
+        120,
+        now
+      );
+
+      expect(risk).toEqual({ level: 'high', reasons: ['new_device', 'new_network'] });
+    });
+
+    it('should flag a change of region shortly after the previous sign-in', () => {
+      const recent = { ...known, createdAt: subMinutes(now, 30) };
+      const previous = [recent, { ...known, ipAddress: '198.51.100.9' }];
+
+      const risk = assessLoginRisk(
+        { userAgent: CHROME_WINDOWS, ipAddress: '198.51.100.5' },
+        previous,
+        120,
+        now
+      );
+
+      expect(risk).toEqual({ level: 'high', reasons: ['impossible_travel'] });
+      expect(
+        assessLoginRisk(
+          { userAgent: CHROME_WINDOWS, ipAddress: '198.51.100.5' },
+          previous,
+          120,
+          subMinutes(now, -120)
+        ).reasons
+      ).toEqual([]);
+    });
+  });
+});
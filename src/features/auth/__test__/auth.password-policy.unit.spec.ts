@@ -0,0 +1,123 @@
+/**
+ * Password Policy Unit Tests
+ *
+ * Tests the policy rules used by register, password reset and password change.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { config } from '@/config';
+import { ValidationError } from '@/shared/errors';
+import { hashPassword } from '@/shared/utils/crypto';
+import {
+  assertPasswordPolicy,
+  breachedHashParts,
+  findPasswordViolations,
+  isBreachedPassword,
+} from '@/shared/utils/passwordPolicy';
+
+const defaults = { ...config.auth };
+
+describe('Password Policy', () => {
+  afterEach(() => {
+    Object.assign(config.auth, defaults);
+  });
+
+  it('should accept a long passphrase with the default policy', async () => {
+    expect(await findPasswordViolations('plain lowercase passphrase')).toEqual({});
+  });
+
+  it('should require the configured character classes', async () => {
+    Object.assign(config.auth, {
+      passwordRequireLowercase: true,
+      passwordRequireUppercase: true,
+      passwordRequireDigit: true,
+      passwordRequireSymbol: true,
+    });
+
+    expect(Object.keys(await findPasswordViolations('ALLUPPERCASEWORDS'))).toEqual([
+      'lowercase',
+      'digit',
+      'symbol',
+    ]);
+    expect(await findPasswordViolations('Mixed-Case-Passphrase-9')).toEqual({});
+  });
+
+  it('should reject oversized passwords without evaluating other rules', async () => {
+    config.auth.passwordMaxLength = 20;
+
+    expect(await findPasswordViolations('password'.repeat(5))).toEqual({
+      maxLength: 'Password must be at most 20 characters',
+    });
+  });
+
+  it('should reject passwords containing the email local part or a name', async () => {
+    const context = { email: 'jane.doe@example.com', name: 'Jane Al Doe' };
+
+    expect(await findPasswordViolations('my-name-is-JANE-42', context)).toHaveProperty(
+      'personalInfo'
+    );
+    expect(await findPasswordViolations('xjane.doe@work-2026', context)).toHaveProperty(
+      'personalInfo'
+    );
+    // Fragments shorter than 3 characters are ignored
+    expect(await findPasswordViolations('totally-alright-pass', context)).toEqual({});
+  });
+
+  it('should reject reuse of previous passwords', async () => {
+    const previousHashes = [await hashPassword('one-of-my-old-passwords')];
+
+    expect(
+      await findPasswordViolations('one-of-my-old-passwords', { previousHashes })
+    ).toHaveProperty('reused');
+    expect(await findPasswordViolations('a-different-password', { previousHashes })).toEqual({});
+  });
+
+  it('should report a detail per violated rule under the field name', async () => {
+    await expect(assertPasswordPolicy('short', {}, 'newPassword')).rejects.toThrow(ValidationError);
+    await expect(assertPasswordPolicy('short', {}, 'newPassword')).rejects.toMatchObject({
+      details: { 'newPassword.minLength': 'Password must be at least 12 characters' },
+    });
+  });
+
+  describe('breached passwords', () => {
+    let dir: string;
+
+    beforeEach(() => {
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), 'breached-'));
+      config.auth.breachedPasswordsDir = dir;
+    });
+
+    afterEach(() => {
+      fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('should match suffixes in the prefix file, with or without counts', async () => {
+      const leaked = breachedHashParts('leaked passphrase one');
+      const counted = breachedHashParts('leaked passphrase two');
+      fs.writeFileSync(path.join(dir, `${leaked.prefix}.txt`), `${leaked.suffix}\n`);
+      fs.appendFileSync(path.join(dir, `${counted.prefix}.txt`), `${counted.suffix}:42\r\n`);
+
+      expect(await isBreachedPassword('leaked passphrase one')).toBe(true);
+      expect(await isBreachedPassword('leaked passphrase two')).toBe(true);
+      expect(await isBreachedPassword('never leaked passphrase')).toBe(false);
+    });
+
+    it('should skip the check when disabled', async () => {
+      const { prefix, suffix } = breachedHashParts('leaked passphrase one');
+      fs.writeFileSync(path.join(dir, `${prefix}.txt`), `${suffix}\n`);
+      config.auth.passwordBreachCheck = false;
+
+      expect(await findPasswordViolations('leaked passphrase one')).toEqual({});
+    });
+
+    it('should ship a bundled list of common passwords', async () => {
+      config.auth.breachedPasswordsDir = defaults.breachedPasswordsDir;
+
+      expect(await isBreachedPassword('qwerty123456')).toBe(true);
+      expect(await isBreachedPassword('correcthorsebatterystaple')).toBe(true);
+    });
+  });
+});
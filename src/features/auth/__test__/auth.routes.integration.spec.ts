@@ -5,19 +5,51 @@ import express from 'express';
 import authRoutes from '@/features/auth/auth.routes';
 import * as authService from '@/features/auth/auth.service';
 import { errorHandler } from '@/shared/middlewares/error.middleware';
-import { UnauthorizedError } from '@/shared/errors';
+import { UnauthorizedError, ConflictError, ForbiddenError } from '@/shared/errors';
+import { getSessionState, SessionState } from '@/shared/utils/sessionState';
+import { resolveApiKey } from '@/shared/utils/apiKeys';
+import { config } from '@/config';
+import jwt from 'jsonwebtoken';
+import pino from 'pino';
 
 // Mock the Service Layer to isolate Controller logic
 vi.mock('@/features/auth/auth.service');
+// Session state is read from the database by the authenticate middleware
+vi.mock('@/shared/utils/sessionState');
+// API keys are resolved from the database as well
+vi.mock('@/shared/utils/apiKeys');
 
 const app = express();
+
+const accessToken = jwt.sign({ userId: 1, sessionId: 2 }, config.jwt.secret);
+const impersonationToken = jwt.sign(
+  { userId: 1, sessionId: 2, impersonatorId: 9 },
+  config.jwt.secret
+);
+
+const activeSessionState: SessionState = {
+  sessionId: 2,
+  userId: 1,
+  expiresAt: new Date(Date.now() + 1000 * 60 * 60),
+  revokedAt: null,
+  userIsActive: true,
+  userDeletedAt: null,
+  userEmailVerifiedAt: new Date(),
+  passwordChangedAt: null,
+};
+
 app.use(express.json());
+app.use((req, _res, next) => {
+  req.log = pino({ level: 'silent' });
+  next();
+});
 app.use('/api/v1/auth', authRoutes);
 app.use(errorHandler);
 
 describe('Auth Feature Integration (Route/Controller)', () => {
   beforeEach(() => {
     vi.resetAllMocks();
+    vi.mocked(getSessionState).mockResolvedValue(activeSessionState);
   });
 
   describe('POST /api/v1/auth/register', () => {
@@ -80,10 +112,620 @@ describe('Auth Feature Integration (Route/Controller)', () => {
     });
   });
 
+  describe('Magic link', () => {
+    it('should request a magic link', async () => {
+      vi.mocked(authService.requestMagicLink).mockResolvedValue(undefined);
+
+      const res = await request(app)
+        .post('/api/v1/auth/magic-link')
+        .send({ email: 'test@example.com' });
+
+      expect(res.status).toBe(200);
+      expect(authService.requestMagicLink).toHaveBeenCalledWith({ email: 'test@example.com' });
+    });
+
+    it('should pass client details when verifying a magic link', async () => {
+      vi.mocked(authService.verifyMagicLink).mockResolvedValue({
+        accessToken: 'access',
+        refreshToken: 'refresh',
+      });
+
+      const res = await request(app)
+        .post('/api/v1/auth/magic-link/verify')
+        .set('User-Agent', 'TestAgent')
+        .send({ token: 'magic' });
+
+      expect(res.status).toBe(200);
+      expect(res.body.data).toEqual({ accessToken: 'access', refreshToken: 'refresh' });
+      expect(authService.verifyMagicLink).toHaveBeenCalledWith(
+        expect.objectContaining({ token: 'magic', userAgent: 'TestAgent' })
+      );
+    });
+
+    it('should return 422 without a token', async () => {
+      const res = await request(app).post('/api/v1/auth/magic-link/verify').send({});
+
+      expect(res.status).toBe(422);
+    });
+  });
+
+  describe('Sign-in risk', () => {
+    it('should tell the client when a sign-in awaits email confirmation', async () => {
+      vi.mocked(authService.login).mockResolvedValue({ confirmationRequired: true });
+
+      const res = await request(app).post('/api/v1/auth/login').send({
+        email: 'test@example.com',
+        password: 'Password123!',
+      });
+
+      expect(res.status).toBe(200);
+      expect(res.body.data).toEqual({ confirmationRequired: true });
+    });
+
+    it('should pass client details when confirming a sign-in', async () => {
+      vi.mocked(authService.confirmLogin).mockResolvedValue({
+        accessToken: 'access',
+        refreshToken: 'refresh',
+      });
+
+      const res = await request(app)
+        .post('/api/v1/auth/login/confirm')
+        .set('User-Agent', 'TestAgent')
+        .send({ token: 'confirm' });
+
+      expect(res.status).toBe(200);
+      expect(res.body.data).toEqual({ accessToken: 'access', refreshToken: 'refresh' });
+      expect(authService.confirmLogin).toHaveBeenCalledWith(
+        expect.objectContaining({ token: 'confirm', userAgent: 'TestAgent' })
+      );
+    });
+
+    it('should report a sign-in without authentication', async () => {
+      vi.mocked(authService.reportSignIn).mockResolvedValue(undefined);
+
+      const res = await request(app)
+        .post('/api/v1/auth/sessions/report')
+        .set('User-Agent', 'TestAgent')
+        .send({ token: 'report' });
+
+      expect(res.status).toBe(200);
+      expect(authService.reportSignIn).toHaveBeenCalledWith(
+        expect.objectContaining({ token: 'report', userAgent: 'TestAgent' })
+      );
+    });
+
+    it('should return 422 without a report token', async () => {
+      const res = await request(app).post('/api/v1/auth/sessions/report').send({});
+
+      expect(res.status).toBe(422);
+    });
+  });
+
+  describe('POST /api/v1/auth/resend-verification', () => {
+    it('should return 200 regardless of whether the email exists', async () => {
+      vi.mocked(authService.resendVerification).mockResolvedValue(undefined);
+
+      const res = await request(app)
+        .post('/api/v1/auth/resend-verification')
+        .send({ email: 'unknown@example.com' });
+
+      expect(res.status).toBe(200);
+      expect(authService.resendVerification).toHaveBeenCalledWith({
+        email: 'unknown@example.com',
+      });
+    });
+
+    it('should return 422 for an invalid email', async () => {
+      const res = await request(app)
+        .post('/api/v1/auth/resend-verification')
+        .send({ email: 'not-an-email' });
+
+      expect(res.status).toBe(422);
+      expect(authService.resendVerification).not.toHaveBeenCalled();
+    });
+  });
+
   describe('POST /api/v1/auth/logout', () => {
     it('should return 401 if missing headers (Middleware Check)', async () => {
       const res = await request(app).post('/api/v1/auth/logout');
       expect(res.status).toBe(401);
     });
+
+    it('should pass the client details on logout', async () => {
+      vi.mocked(authService.logout).mockResolvedValue(undefined);
+
+      const res = await request(app)
+        .post('/api/v1/auth/logout')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .set('User-Agent', 'TestAgent');
+
+      expect(res.status).toBe(200);
+      expect(authService.logout).toHaveBeenCalledWith(
+        expect.objectContaining({ userId: 1, sessionId: 2 }),
+        expect.objectContaining({ userAgent: 'TestAgent' })
+      );
+    });
+  });
+
+  describe('POST /api/v1/auth/mfa/verify', () => {
+    it('should exchange the challenge for tokens', async () => {
+      const mockTokens = { accessToken: 'access', refreshToken: 'refresh' };
+      vi.mocked(authService.verifyMfa).mockResolvedValue(mockTokens);
+
+      const res = await request(app).post('/api/v1/auth/mfa/verify').send({
+        mfaToken: 'challenge',
+        code: '123456',
+      });
+
+      expect(res.status).toBe(200);
+      expect(res.body.data).toEqual(mockTokens);
+      expect(authService.verifyMfa).toHaveBeenCalledWith(
+        expect.objectContaining({ mfaToken: 'challenge', code: '123456' })
+      );
+    });
+
+    it('should return 422 when both a code and a recovery code are sent', async () => {
+      const res = await request(app).post('/api/v1/auth/mfa/verify').send({
+        mfaToken: 'challenge',
+        code: '123456',
+        recoveryCode: 'abcde-12345',
+      });
+
+      expect(res.status).toBe(422);
+      expect(authService.verifyMfa).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('POST /api/v1/auth/mfa/setup', () => {
+    it('should return 401 if missing headers (Middleware Check)', async () => {
+      const res = await request(app).post('/api/v1/auth/mfa/setup');
+      expect(res.status).toBe(401);
+      expect(authService.setupMfa).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('PATCH /api/v1/auth/me', () => {
+    it('should update the profile of the authenticated user', async () => {
+      vi.mocked(authService.updateProfile).mockResolvedValue({
+        id: 1,
+        name: 'Renamed',
+        locale: 'en-US',
+      } as Awaited<ReturnType<typeof authService.updateProfile>>);
+
+      const res = await request(app)
+        .patch('/api/v1/auth/me')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .send({ name: 'Renamed', locale: 'en-US', email: 'ignored@example.com' });
+
+      expect(res.status).toBe(200);
+      expect(res.body.data.name).toBe('Renamed');
+      expect(authService.updateProfile).toHaveBeenCalledWith(
+        expect.objectContaining({ userId: 1 }),
+        {
+          name: 'Renamed',
+          locale: 'en-US',
+        }
+      );
+    });
+
+    it('should return 422 for an unknown timezone or non-https avatar', async () => {
+      const res = await request(app)
+        .patch('/api/v1/auth/me')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .send({ timezone: 'Mars/Olympus', avatarUrl: 'http://example.com/a.png' });
+
+      expect(res.status).toBe(422);
+      expect(res.body.error.details).toHaveProperty('timezone');
+      expect(res.body.error.details).toHaveProperty('avatarUrl');
+      expect(authService.updateProfile).not.toHaveBeenCalled();
+    });
+
+    it('should return 422 for an empty update', async () => {
+      const res = await request(app)
+        .patch('/api/v1/auth/me')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .send({});
+
+      expect(res.status).toBe(422);
+    });
+  });
+
+  describe('Account export and deletion', () => {
+    it('should export the data of the authenticated user', async () => {
+      vi.mocked(authService.exportAccountData).mockResolvedValue({
+        exportedAt: new Date('2026-10-19T00:00:00Z'),
+        user: { id: 1, email: 'test@example.com' },
+        examples: [],
+      } as unknown as Awaited<ReturnType<typeof authService.exportAccountData>>);
+
+      const res = await request(app)
+        .post('/api/v1/auth/me/export')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .set('User-Agent', 'TestAgent');
+
+      expect(res.status).toBe(200);
+      expect(res.body.data.user.email).toBe('test@example.com');
+      expect(authService.exportAccountData).toHaveBeenCalledWith(
+        1,
+        expect.objectContaining({ userAgent: 'TestAgent' })
+      );
+    });
+
+    it('should schedule the deletion of the authenticated user', async () => {
+      vi.mocked(authService.deleteAccount).mockResolvedValue({
+        purgeAt: new Date('2026-11-18T00:00:00Z'),
+      });
+
+      const res = await request(app)
+        .delete('/api/v1/auth/me')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .send({ password: 'Password123!' });
+
+      expect(res.status).toBe(200);
+      expect(res.body.data).toEqual({ purgeAt: '2026-11-18T00:00:00.000Z' });
+      expect(authService.deleteAccount).toHaveBeenCalledWith(
+        expect.objectContaining({ userId: 1, sessionId: 2 }),
+        expect.objectContaining({ password: 'Password123!' })
+      );
+    });
+
+    it('should leave confirming without the password to the service', async () => {
+      vi.mocked(authService.deleteAccount).mockRejectedValue(
+        new ForbiddenError('Sign in again to delete your account')
+      );
+
+      const res = await request(app)
+        .delete('/api/v1/auth/me')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .send({});
+
+      expect(res.status).toBe(403);
+      expect(authService.deleteAccount).toHaveBeenCalledWith(
+        expect.objectContaining({ userId: 1 }),
+        expect.not.objectContaining({ password: expect.anything() })
+      );
+    });
+
+    it('should return 422 for an empty password', async () => {
+      const res = await request(app)
+        .delete('/api/v1/auth/me')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .send({ password: '' });
+
+      expect(res.status).toBe(422);
+      expect(authService.deleteAccount).not.toHaveBeenCalled();
+    });
+
+    it('should return 401 for a wrong password', async () => {
+      vi.mocked(authService.deleteAccount).mockRejectedValue(
+        new UnauthorizedError('Invalid password')
+      );
+
+      const res = await request(app)
+        .delete('/api/v1/auth/me')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .send({ password: 'wrong' });
+
+      expect(res.status).toBe(401);
+    });
+  });
+
+  describe('POST /api/v1/auth/change-password', () => {
+    it('should change the password and return a new access token', async () => {
+      vi.mocked(authService.changePassword).mockResolvedValue({
+        accessToken: 'new-access',
+        revokedCount: 1,
+      });
+
+      const res = await request(app)
+        .post('/api/v1/auth/change-password')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .send({ currentPassword: 'OldPassword123!', newPassword: 'NewPassword123!' });
+
+      expect(res.status).toBe(200);
+      expect(res.body.data).toEqual({ accessToken: 'new-access', revokedCount: 1 });
+      expect(authService.changePassword).toHaveBeenCalledWith(
+        expect.objectContaining({ userId: 1, sessionId: 2 }),
+        expect.objectContaining({
+          currentPassword: 'OldPassword123!',
+          newPassword: 'NewPassword123!',
+        })
+      );
+    });
+
+    it('should return 422 for a weak new password', async () => {
+      const res = await request(app)
+        .post('/api/v1/auth/change-password')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .send({ currentPassword: 'OldPassword123!', newPassword: 'short' });
+
+      expect(res.status).toBe(422);
+      expect(authService.changePassword).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Email change', () => {
+    it('should start an email change for the authenticated user', async () => {
+      vi.mocked(authService.requestEmailChange).mockResolvedValue(undefined);
+
+      const res = await request(app)
+        .post('/api/v1/auth/email-change')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .send({ newEmail: 'new@example.com', password: 'Password123!' });
+
+      expect(res.status).toBe(200);
+      expect(authService.requestEmailChange).toHaveBeenCalledWith(1, {
+        newEmail: 'new@example.com',
+        password: 'Password123!',
+      });
+    });
+
+    it('should confirm an email change without authentication', async () => {
+      vi.mocked(authService.confirmEmailChange).mockResolvedValue(undefined);
+
+      const res = await request(app)
+        .post('/api/v1/auth/email-change/confirm')
+        .send({ token: 'confirm-token' });
+
+      expect(res.status).toBe(200);
+      expect(authService.confirmEmailChange).toHaveBeenCalledWith({ token: 'confirm-token' });
+    });
+
+    it('should return 409 when the new address was taken', async () => {
+      vi.mocked(authService.confirmEmailChange).mockRejectedValue(
+        new ConflictError('Email already registered')
+      );
+
+      const res = await request(app)
+        .post('/api/v1/auth/email-change/confirm')
+        .send({ token: 'confirm-token' });
+
+      expect(res.status).toBe(409);
+    });
+  });
+
+  describe('Session management', () => {
+    it('should list the sessions of the authenticated user', async () => {
+      vi.mocked(authService.listSessions).mockResolvedValue([]);
+
+      const res = await request(app)
+        .get('/api/v1/auth/sessions')
+        .set('Authorization', `Bearer ${accessToken}`);
+
+      expect(res.status).toBe(200);
+      expect(authService.listSessions).toHaveBeenCalledWith(
+        expect.objectContaining({ userId: 1, sessionId: 2 })
+      );
+    });
+
+    it('should revoke a session by id', async () => {
+      vi.mocked(authService.revokeUserSession).mockResolvedValue(undefined);
+
+      const res = await request(app)
+        .delete('/api/v1/auth/sessions/5')
+        .set('Authorization', `Bearer ${accessToken}`);
+
+      expect(res.status).toBe(200);
+      expect(authService.revokeUserSession).toHaveBeenCalledWith(
+        expect.objectContaining({ userId: 1 }),
+        5
+      );
+    });
+
+    it('should return 422 for a non-numeric session id', async () => {
+      const res = await request(app)
+        .delete('/api/v1/auth/sessions/abc')
+        .set('Authorization', `Bearer ${accessToken}`);
+
+      expect(res.status).toBe(422);
+      expect(authService.revokeUserSession).not.toHaveBeenCalled();
+    });
+
+    it('should revoke all other sessions', async () => {
+      vi.mocked(authService.revokeOtherSessions).mockResolvedValue({ revokedCount: 2 });
+
+      const res = await request(app)
+        .post('/api/v1/auth/sessions/revoke-others')
+        .set('Authorization', `Bearer ${accessToken}`);
+
+      expect(res.status).toBe(200);
+      expect(res.body.data).toEqual({ revokedCount: 2 });
+    });
+  });
+
+  describe('GET /api/v1/auth/security-events', () => {
+    it("should list the authenticated user's security events with pagination", async () => {
+      vi.mocked(authService.listSecurityEvents).mockResolvedValue({
+        data: [],
+        meta: { total: 0, per_page: 5, current_page: 2, last_page: 0, from: 6, to: 5 },
+      });
+
+      const res = await request(app)
+        .get('/api/v1/auth/security-events?page=2&per_page=5')
+        .set('Authorization', `Bearer ${accessToken}`);
+
+      expect(res.status).toBe(200);
+      expect(res.body.meta).toMatchObject({ current_page: 2, per_page: 5 });
+      expect(authService.listSecurityEvents).toHaveBeenCalledWith(1, { page: 2, perPage: 5 });
+    });
+
+    it('should require authentication', async () => {
+      const res = await request(app).get('/api/v1/auth/security-events');
+
+      expect(res.status).toBe(401);
+    });
+  });
+
+  describe('Access token revocation', () => {
+    it('should reject a token whose session was revoked', async () => {
+      vi.mocked(getSessionState).mockResolvedValue({
+        ...activeSessionState,
+        revokedAt: new Date(),
+      });
+
+      const res = await request(app)
+        .get('/api/v1/auth/sessions')
+        .set('Authorization', `Bearer ${accessToken}`);
+
+      expect(res.status).toBe(401);
+      expect(getSessionState).toHaveBeenCalledWith(2);
+      expect(authService.listSessions).not.toHaveBeenCalled();
+    });
+
+    it('should reject a token whose session no longer exists', async () => {
+      vi.mocked(getSessionState).mockResolvedValue(null);
+
+      const res = await request(app)
+        .get('/api/v1/auth/sessions')
+        .set('Authorization', `Bearer ${accessToken}`);
+
+      expect(res.status).toBe(401);
+    });
+
+    it('should reject a token once the account is deactivated', async () => {
+      vi.mocked(getSessionState).mockResolvedValue({
+        ...activeSessionState,
+        userIsActive: false,
+      });
+
+      const res = await request(app)
+        .get('/api/v1/auth/sessions')
+        .set('Authorization', `Bearer ${accessToken}`);
+
+      expect(res.status).toBe(401);
+    });
+
+    it('should reject a token issued before the last password change', async () => {
+      const issuedAt = Math.floor(Date.now() / 1000) - 60;
+      const staleToken = jwt.sign({ userId: 1, sessionId: 2, iat: issuedAt }, config.jwt.secret);
+      vi.mocked(getSessionState).mockResolvedValue({
+        ...activeSessionState,
+        passwordChangedAt: new Date(),
+      });
+
+      const res = await request(app)
+        .get('/api/v1/auth/sessions')
+        .set('Authorization', `Bearer ${staleToken}`);
+
+      expect(res.status).toBe(401);
+    });
+  });
+
+  describe('Impersonation', () => {
+    it('should allow regular requests with an impersonation token', async () => {
+      vi.mocked(authService.getProfile).mockResolvedValue({
+        id: 1,
+        email: 'test@example.com',
+      } as Awaited<ReturnType<typeof authService.getProfile>>);
+
+      const res = await request(app)
+        .get('/api/v1/auth/me')
+        .set('Authorization', `Bearer ${impersonationToken}`);
+
+      expect(res.status).toBe(200);
+    });
+
+    it.each([
+      [
+        '/change-password',
+        { currentPassword: 'old-password-123', newPassword: 'new-password-456' },
+      ],
+      ['/email-change', { newEmail: 'new@example.com', password: 'password-123' }],
+      ['/mfa/setup', {}],
+      ['/mfa/disable', { password: 'password-123' }],
+      ['/me/export', {}],
+    ])('should block POST %s while impersonating', async (path, body) => {
+      const res = await request(app)
+        .post(`/api/v1/auth${path}`)
+        .set('Authorization', `Bearer ${impersonationToken}`)
+        .send(body);
+
+      expect(res.status).toBe(403);
+      expect(authService.changePassword).not.toHaveBeenCalled();
+      expect(authService.requestEmailChange).not.toHaveBeenCalled();
+      expect(authService.setupMfa).not.toHaveBeenCalled();
+      expect(authService.disableMfa).not.toHaveBeenCalled();
+      expect(authService.exportAccountData).not.toHaveBeenCalled();
+    });
+
+    it('should block DELETE /me while impersonating', async () => {
+      const res = await request(app)
+        .delete('/api/v1/auth/me')
+        .set('Authorization', `Bearer ${impersonationToken}`)
+        .send({ password: 'password-123' });
+
+      expect(res.status).toBe(403);
+      expect(authService.deleteAccount).not.toHaveBeenCalled();
+    });
+
+    it('should block profile changes and session revocation while impersonating', async () => {
+      const auth = (req: request.Test) => req.set('Authorization', `Bearer ${impersonationToken}`);
+
+      expect(
+        (await auth(request(app).patch('/api/v1/auth/me').send({ name: 'Renamed' }))).status
+      ).toBe(403);
+      expect((await auth(request(app).post('/api/v1/auth/sessions/revoke-others'))).status).toBe(
+        403
+      );
+      expect((await auth(request(app).delete('/api/v1/auth/sessions/5'))).status).toBe(403);
+      expect(authService.updateProfile).not.toHaveBeenCalled();
+      expect(authService.revokeOtherSessions).not.toHaveBeenCalled();
+      expect(authService.revokeUserSession).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('API keys', () => {
+    beforeEach(() => {
+      vi.mocked(resolveApiKey).mockResolvedValue({
+        userId: 1,
+        sessionId: 0,
+        apiKeyId: 4,
+        roles: ['user'],
+        permissions: ['examples:read'],
+      });
+    });
+
+    it('should authenticate GET /me with an X-API-Key header', async () => {
+      vi.mocked(authService.getProfile).mockResolvedValue({
+        id: 1,
+        email: 'test@example.com',
+      } as Awaited<ReturnType<typeof authService.getProfile>>);
+
+      const res = await request(app).get('/api/v1/auth/me').set('X-API-Key', 'pak_valid');
+
+      expect(res.status).toBe(200);
+      expect(resolveApiKey).toHaveBeenCalledWith('pak_valid', expect.anything());
+      expect(getSessionState).not.toHaveBeenCalled();
+    });
+
+    it('should return 401 when the key is rejected', async () => {
+      vi.mocked(resolveApiKey).mockRejectedValue(new UnauthorizedError('API key revoked'));
+
+      const res = await request(app).get('/api/v1/auth/me').set('X-API-Key', 'pak_revoked');
+
+      expect(res.status).toBe(401);
+      expect(res.body.error.message).toBe('API key revoked');
+    });
+
+    it.each([
+      ['post', '/logout'],
+      ['get', '/sessions'],
+      ['post', '/sessions/revoke-others'],
+      ['get', '/security-events'],
+      ['post', '/mfa/setup'],
+      ['post', '/me/export'],
+      ['delete', '/me'],
+    ] as const)('should block %s %s with an API key', async (method, path) => {
+      const res = await request(app)[method](`/api/v1/auth${path}`).set('X-API-Key', 'pak_valid');
+
+      expect(res.status).toBe(403);
+      expect(authService.logout).not.toHaveBeenCalled();
+      expect(authService.listSessions).not.toHaveBeenCalled();
+      expect(authService.revokeOtherSessions).not.toHaveBeenCalled();
+      expect(authService.listSecurityEvents).not.toHaveBeenCalled();
+      expect(authService.setupMfa).not.toHaveBeenCalled();
+      expect(authService.exportAccountData).not.toHaveBeenCalled();
+      expect(authService.deleteAccount).not.toHaveBeenCalled();
+    });
   });
 });
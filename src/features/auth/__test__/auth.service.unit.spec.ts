@@ -1,30 +1,98 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { User, UserSession } from '@prisma/client';
+import { Prisma, User, UserSession, EmailChangeToken, MagicLinkToken } from '@prisma/client';
 import * as authService from '@/features/auth/auth.service';
 import * as authRepository from '@/features/auth/auth.repository';
-import { UnauthorizedError, ForbiddenError, ConflictError } from '@/shared/errors';
+import { AuthTokens } from '@/features/auth/auth.types';
+import { config } from '@/config';
+import {
+  UnauthorizedError,
+  ForbiddenError,
+  ConflictError,
+  ValidationError,
+  NotFoundError,
+  BadRequestError,
+} from '@/shared/errors';
+import { generateTotp, generateTotpSecret } from '@/shared/utils/totp';
+import { invalidateSessionState, invalidateUserSessionStates } from '@/shared/utils/sessionState';
+import { sendEmail } from '@/shared/utils/mailer';
+import { recordSecurityEvent } from '@/shared/utils/securityEvents';
 import argon2 from 'argon2';
+import { addDays, subDays } from 'date-fns';
+import jwt from 'jsonwebtoken';
 
 // Mock Repository Layer
 vi.mock('@/features/auth/auth.repository', () => ({
   findUserByEmail: vi.fn(),
+  findUserById: vi.fn(),
+  findUserAuthorization: vi.fn(),
   createUser: vi.fn(),
   updateUserLoginStats: vi.fn(),
+  updateUserProfile: vi.fn(),
   createSession: vi.fn(),
+  createImpersonationSession: vi.fn(),
   findSessionByHash: vi.fn(),
+  findRecentSignIns: vi.fn(),
+  findSessionByReportTokenHash: vi.fn(),
   rotateSession: vi.fn(),
   revokeSession: vi.fn(),
+  revokeSessionFamily: vi.fn(),
+  findActiveSessionsByUserId: vi.fn(),
+  revokeUserSession: vi.fn(),
+  revokeOtherSessions: vi.fn(),
   findEmailVerificationToken: vi.fn(),
+  replaceEmailVerificationToken: vi.fn(),
+  createEmailChangeToken: vi.fn(),
+  findEmailChangeToken: vi.fn(),
+  findEmailChangeTokenByCancelHash: vi.fn(),
+  confirmEmailChange: vi.fn(),
+  cancelEmailChange: vi.fn(),
   verifyEmail: vi.fn(),
+  createMagicLinkToken: vi.fn(),
+  findMagicLinkToken: vi.fn(),
+  consumeMagicLinkToken: vi.fn(),
+  createLoginConfirmationToken: vi.fn(),
+  findLoginConfirmationToken: vi.fn(),
+  consumeLoginConfirmationToken: vi.fn(),
   createPasswordResetToken: vi.fn(),
   findPasswordResetToken: vi.fn(),
   markPasswordResetTokenUsed: vi.fn(),
   resetPassword: vi.fn(),
+  changePassword: vi.fn(),
+  findPasswordHistory: vi.fn(),
+  recordPasswordHistory: vi.fn(),
+  setPendingMfaSecret: vi.fn(),
+  enableMfa: vi.fn(),
+  disableMfa: vi.fn(),
+  claimMfaStep: vi.fn(),
+  useMfaRecoveryCode: vi.fn(),
+  findSecurityEventsByUserId: vi.fn(),
+  findAccountExportData: vi.fn(),
+  scheduleAccountDeletion: vi.fn(),
+  cancelAccountDeletion: vi.fn(),
+  findAccountsDueForPurge: vi.fn(),
+  purgeAccount: vi.fn(),
+  findSolelyOwnedOrganizations: vi.fn(),
+  findSessionSignedInAt: vi.fn(),
+}));
+
+vi.mock('@/shared/utils/mailer', () => ({
+  sendEmail: vi.fn(),
+}));
+
+vi.mock('@/shared/utils/securityEvents', () => ({
+  recordSecurityEvent: vi.fn(),
+}));
+
+vi.mock('@/shared/utils/sessionState', () => ({
+  invalidateSessionState: vi.fn(),
+  invalidateUserSessionStates: vi.fn(),
 }));
 
 describe('AuthService', () => {
   beforeEach(() => {
     vi.clearAllMocks();
+    vi.mocked(authRepository.findPasswordHistory).mockResolvedValue([]);
+    vi.mocked(authRepository.findRecentSignIns).mockResolvedValue([]);
   });
 
   describe('register', () => {
@@ -39,7 +107,7 @@ describe('AuthService', () => {
       const result = await authService.register({
         name: 'Test',
         email: 'test@example.com',
-        password: 'password123',
+        password: 'correct-horse-battery-41',
       });
 
       expect(result).toEqual({
@@ -54,10 +122,34 @@ describe('AuthService', () => {
         expect.objectContaining({ name: 'Test' }),
         expect.any(String), // hashed password
         expect.any(String), // hashed token
-        expect.any(Date)
+        expect.any(Date),
+        'user' // default role
+      );
+      expect(authRepository.recordPasswordHistory).toHaveBeenCalledWith(
+        1,
+        expect.any(String),
+        config.auth.passwordHistorySize,
+        null
       );
     });
 
+    it('should reject registration when it is by invitation only', async () => {
+      config.auth.inviteOnly = true;
+
+      try {
+        await expect(
+          authService.register({
+            name: 'Test',
+            email: 'test@example.com',
+            password: 'correct-horse-battery-41',
+          })
+        ).rejects.toThrow(ForbiddenError);
+        expect(authRepository.createUser).not.toHaveBeenCalled();
+      } finally {
+        config.auth.inviteOnly = false;
+      }
+    });
+
     it('should throw if email already exists', async () => {
       vi.mocked(authRepository.findUserByEmail).mockResolvedValue({ id: 1 } as User);
 
@@ -88,6 +180,10 @@ describe('AuthService', () => {
 
       vi.mocked(authRepository.findUserByEmail).mockResolvedValue(mockUser as User);
       vi.mocked(authRepository.createSession).mockResolvedValue({ id: 100 } as UserSession);
+      vi.mocked(authRepository.findUserAuthorization).mockResolvedValue({
+        roles: [],
+        permissions: [],
+      });
 
       const result = await authService.login({
         email: 'test@example.com',
@@ -103,6 +199,38 @@ describe('AuthService', () => {
       );
     });
 
+    it('should embed the user roles and permissions in the access token', async () => {
+      const password = 'password123';
+      const hash = await argon2.hash(password);
+
+      vi.mocked(authRepository.findUserByEmail).mockResolvedValue({
+        id: 1,
+        password: hash,
+        isActive: true,
+        failedLoginAttempts: 0,
+        lockedUntil: null,
+      } as User);
+      vi.mocked(authRepository.createSession).mockResolvedValue({ id: 100 } as UserSession);
+      vi.mocked(authRepository.findUserAuthorization).mockResolvedValue({
+        roles: ['admin'],
+        permissions: ['examples:delete'],
+      });
+
+      const result = (await authService.login({
+        email: 'admin@example.com',
+        password,
+      })) as AuthTokens;
+
+      const decoded = jwt.decode(result.accessToken) as Record<string, unknown>;
+      expect(authRepository.findUserAuthorization).toHaveBeenCalledWith(1);
+      expect(decoded).toMatchObject({
+        userId: 1,
+        sessionId: 100,
+        roles: ['admin'],
+        permissions: ['examples:delete'],
+      });
+    });
+
     it('should throw UnauthorizedError on wrong password and increment failures', async () => {
       const mockUser = {
         id: 1,
@@ -148,5 +276,1248 @@ describe('AuthService', () => {
         })
       ).rejects.toThrow(ForbiddenError);
     });
+
+    it('should block unverified accounts when verification is required for login', async () => {
+      const password = 'password123';
+      vi.mocked(authRepository.findUserByEmail).mockResolvedValue({
+        id: 1,
+        email: 'test@example.com',
+        password: await argon2.hash(password),
+        isActive: true,
+        emailVerifiedAt: null,
+      } as User);
+      config.auth.requireVerifiedEmailForLogin = true;
+
+      try {
+        await expect(authService.login({ email: 'test@example.com', password })).rejects.toThrow(
+          'Email address is not verified'
+        );
+      } finally {
+        config.auth.requireVerifiedEmailForLogin = false;
+      }
+
+      expect(authRepository.createSession).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('magic link', () => {
+    const activeUser = {
+      id: 1,
+      email: 'test@example.com',
+      password: null,
+      isActive: true,
+      failedLoginAttempts: 0,
+      lockedUntil: null,
+      deletedAt: null,
+      emailVerifiedAt: null,
+      mfaEnabledAt: null,
+    } as User;
+
+    const validToken = {
+      id: 7,
+      usedAt: null,
+      expiresAt: new Date(Date.now() + 60000),
+      user: activeUser,
+    } as MagicLinkToken & { user: User };
+
+    it('should not create a link for deleted users', async () => {
+      vi.mocked(authRepository.findUserByEmail).mockResolvedValue({
+        ...activeUser,
+        deletedAt: new Date(),
+      });
+
+      await authService.requestMagicLink({ email: 'test@example.com' });
+
+      expect(authRepository.createMagicLinkToken).not.toHaveBeenCalled();
+    });
+
+    it('should store only the hash of the emailed token', async () => {
+      vi.mocked(authRepository.findUserByEmail).mockResolvedValue(activeUser);
+
+      await authService.requestMagicLink({ email: 'test@example.com' });
+
+      expect(authRepository.createMagicLinkToken).toHaveBeenCalledWith(
+        expect.objectContaining({ userId: 1, tokenHash: expect.stringMatching(/^[a-f0-9]{64}$/) })
+      );
+    });
+
+    it('should consume the link and create a session', async () => {
+      vi.mocked(authRepository.findMagicLinkToken).mockResolvedValue(validToken);
+      vi.mocked(authRepository.consumeMagicLinkToken).mockResolvedValue(true);
+      vi.mocked(authRepository.createSession).mockResolvedValue({ id: 100 } as UserSession);
+      vi.mocked(authRepository.findUserAuthorization).mockResolvedValue({
+        roles: [],
+        permissions: [],
+      });
+
+      const result = await authService.verifyMagicLink({ token: 'magic', ipAddress: '1.2.3.4' });
+
+      expect(result).toHaveProperty('accessToken');
+      expect(authRepository.consumeMagicLinkToken).toHaveBeenCalledWith(7, 1);
+      expect(authRepository.createSession).toHaveBeenCalledWith(
+        expect.objectContaining({ userId: 1, ipAddress: '1.2.3.4' })
+      );
+    });
+
+    it('should reject a link that was already used', async () => {
+      vi.mocked(authRepository.findMagicLinkToken).mockResolvedValue({
+        ...validToken,
+        usedAt: new Date(),
+      });
+
+      await expect(authService.verifyMagicLink({ token: 'magic' })).rejects.toThrow(
+        UnauthorizedError
+      );
+      expect(authRepository.createSession).not.toHaveBeenCalled();
+    });
+
+    it('should reject a link consumed by a concurrent request', async () => {
+      vi.mocked(authRepository.findMagicLinkToken).mockResolvedValue(validToken);
+      vi.mocked(authRepository.consumeMagicLinkToken).mockResolvedValue(false);
+
+      await expect(authService.verifyMagicLink({ token: 'magic' })).rejects.toThrow(
+        UnauthorizedError
+      );
+      expect(authRepository.createSession).not.toHaveBeenCalled();
+    });
+
+    it('should reject inactive accounts without consuming the link', async () => {
+      vi.mocked(authRepository.findMagicLinkToken).mockResolvedValue({
+        ...validToken,
+        user: { ...activeUser, isActive: false },
+      });
+
+      await expect(authService.verifyMagicLink({ token: 'magic' })).rejects.toThrow(ForbiddenError);
+      expect(authRepository.consumeMagicLinkToken).not.toHaveBeenCalled();
+    });
+
+    it('should require the second factor when MFA is enabled', async () => {
+      vi.mocked(authRepository.findMagicLinkToken).mockResolvedValue({
+        ...validToken,
+        user: { ...activeUser, mfaEnabledAt: new Date() },
+      });
+      vi.mocked(authRepository.consumeMagicLinkToken).mockResolvedValue(true);
+
+      const result = await authService.verifyMagicLink({ token: 'magic' });
+
+      expect(result).toMatchObject({ mfaRequired: true });
+      expect(authRepository.createSession).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('refresh', () => {
+    const activeSession = {
+      id: 10,
+      userId: 1,
+      familyId: 'family-1',
+      expiresAt: new Date(Date.now() + 1000 * 60 * 60),
+      revokedAt: null,
+      rotatedAt: null,
+      deletedAt: null,
+      user: { id: 1, email: 'test@example.com', isActive: true, deletedAt: null },
+    };
+
+    it('should rotate the session within the same family', async () => {
+      vi.mocked(authRepository.findSessionByHash).mockResolvedValue(
+        activeSession as unknown as UserSession & { user: User }
+      );
+      vi.mocked(authRepository.rotateSession).mockResolvedValue({ id: 11 } as UserSession);
+      vi.mocked(authRepository.findUserAuthorization).mockResolvedValue({
+        roles: [],
+        permissions: [],
+      });
+
+      const result = await authService.refresh({ refreshToken: 'token' });
+
+      expect(result).toHaveProperty('accessToken');
+      expect(authRepository.rotateSession).toHaveBeenCalledWith(
+        10,
+        expect.objectContaining({ familyId: 'family-1' })
+      );
+    });
+
+    it('should revoke the session family when a rotated token is reused', async () => {
+      vi.mocked(authRepository.findSessionByHash).mockResolvedValue({
+        ...activeSession,
+        revokedAt: new Date(),
+        rotatedAt: new Date(),
+      } as unknown as UserSession & { user: User });
+
+      await expect(authService.refresh({ refreshToken: 'token' })).rejects.toThrow(
+        UnauthorizedError
+      );
+
+      expect(authRepository.revokeSessionFamily).toHaveBeenCalledWith('family-1');
+      expect(invalidateUserSessionStates).toHaveBeenCalledWith(1);
+      expect(authRepository.rotateSession).not.toHaveBeenCalled();
+    });
+
+    it('should not treat a logged-out session as reuse', async () => {
+      vi.mocked(authRepository.findSessionByHash).mockResolvedValue({
+        ...activeSession,
+        revokedAt: new Date(),
+      } as unknown as UserSession & { user: User });
+
+      await expect(authService.refresh({ refreshToken: 'token' })).rejects.toThrow(
+        'Session revoked'
+      );
+
+      expect(authRepository.revokeSessionFamily).not.toHaveBeenCalled();
+    });
+
+    it.each([
+      ['inactive', { isActive: false }],
+      ['deleted', { deletedAt: new Date() }],
+    ])('should reject sessions of %s users', async (_name, user) => {
+      vi.mocked(authRepository.findSessionByHash).mockResolvedValue({
+        ...activeSession,
+        user: { ...activeSession.user, ...user },
+      } as unknown as UserSession & { user: User });
+
+      await expect(authService.refresh({ refreshToken: 'token' })).rejects.toThrow(
+        'Session revoked'
+      );
+
+      expect(authRepository.rotateSession).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('sessions', () => {
+    const currentUser = { userId: 1, sessionId: 2 };
+
+    it('should list active sessions and mark the current one', async () => {
+      vi.mocked(authRepository.findActiveSessionsByUserId).mockResolvedValue([
+        { id: 2, userAgent: 'Laptop', refreshTokenHash: 'secret' },
+        { id: 3, userAgent: 'Phone', refreshTokenHash: 'secret' },
+      ] as UserSession[]);
+
+      const sessions = await authService.listSessions(currentUser);
+
+      expect(authRepository.findActiveSessionsByUserId).toHaveBeenCalledWith(1);
+      expect(sessions.map((session) => [session.id, session.current])).toEqual([
+        [2, true],
+        [3, false],
+      ]);
+      expect(sessions[0]).not.toHaveProperty('refreshTokenHash');
+    });
+
+    it("should throw NotFoundError when revoking a session that isn't the user's", async () => {
+      vi.mocked(authRepository.revokeUserSession).mockResolvedValue(false);
+
+      await expect(authService.revokeUserSession(currentUser, 99)).rejects.toThrow(NotFoundError);
+      expect(authRepository.revokeUserSession).toHaveBeenCalledWith(1, 99);
+    });
+
+    it('should drop the cached state of a revoked session', async () => {
+      vi.mocked(authRepository.revokeUserSession).mockResolvedValue(true);
+
+      await authService.revokeUserSession(currentUser, 3);
+
+      expect(invalidateSessionState).toHaveBeenCalledWith(3);
+    });
+
+    it('should revoke every session except the current one', async () => {
+      vi.mocked(authRepository.revokeOtherSessions).mockResolvedValue(3);
+
+      const result = await authService.revokeOtherSessions(currentUser);
+
+      expect(result).toEqual({ revokedCount: 3 });
+      expect(authRepository.revokeOtherSessions).toHaveBeenCalledWith(1, 2);
+    });
+  });
+
+  describe('startImpersonation', () => {
+    it('should issue a short-lived token carrying the impersonator', async () => {
+      vi.mocked(authRepository.createImpersonationSession).mockResolvedValue({
+        id: 5,
+      } as UserSession);
+      vi.mocked(authRepository.findUserAuthorization).mockResolvedValue({
+        roles: ['user'],
+        permissions: ['examples:read'],
+      });
+
+      const result = await authService.startImpersonation({
+        impersonatorId: 9,
+        targetUserId: 1,
+        reason: 'Ticket 42',
+      });
+
+      const decoded = jwt.decode(result.accessToken) as Record<string, number>;
+      expect(decoded).toMatchObject({ userId: 1, sessionId: 5, impersonatorId: 9 });
+      expect(decoded.exp - decoded.iat).toBe(config.auth.impersonationExpiresMinutes * 60);
+      expect(authRepository.createImpersonationSession).toHaveBeenCalledWith(
+        expect.objectContaining({ impersonatorId: 9, targetUserId: 1, reason: 'Ticket 42' })
+      );
+      expect(result).not.toHaveProperty('refreshToken');
+    });
+  });
+
+  describe('resendVerification', () => {
+    it('should silently ignore unknown emails', async () => {
+      vi.mocked(authRepository.findUserByEmail).mockResolvedValue(null);
+
+      await expect(
+        authService.resendVerification({ email: 'unknown@example.com' })
+      ).resolves.toBeUndefined();
+      expect(authRepository.replaceEmailVerificationToken).not.toHaveBeenCalled();
+    });
+
+    it('should not issue a token for an already verified user', async () => {
+      vi.mocked(authRepository.findUserByEmail).mockResolvedValue({
+        id: 1,
+        email: 'test@example.com',
+        emailVerifiedAt: new Date(),
+      } as User);
+
+      await authService.resendVerification({ email: 'test@example.com' });
+
+      expect(authRepository.replaceEmailVerificationToken).not.toHaveBeenCalled();
+    });
+
+    it('should replace previous tokens for an unverified user', async () => {
+      vi.mocked(authRepository.findUserByEmail).mockResolvedValue({
+        id: 1,
+        email: 'test@example.com',
+        emailVerifiedAt: null,
+        deletedAt: null,
+      } as User);
+
+      await authService.resendVerification({ email: 'test@example.com' });
+
+      expect(authRepository.replaceEmailVerificationToken).toHaveBeenCalledWith(
+        expect.objectContaining({ userId: 1, tokenHash: expect.any(String) })
+      );
+    });
+  });
+
+  describe('email change', () => {
+    const pendingChange = {
+      id: 5,
+      userId: 1,
+      newEmail: 'new@example.com',
+      expiresAt: new Date(Date.now() + 1000 * 60 * 60),
+      usedAt: null,
+      cancelledAt: null,
+      user: { id: 1, email: 'old@example.com' },
+    } as unknown as EmailChangeToken & { user: User };
+
+    it('should reject an address that is already registered', async () => {
+      vi.mocked(authRepository.findUserById).mockResolvedValue({
+        id: 1,
+        email: 'old@example.com',
+        password: await argon2.hash('password123'),
+      } as User);
+      vi.mocked(authRepository.findUserByEmail).mockResolvedValue({ id: 2 } as User);
+
+      await expect(
+        authService.requestEmailChange(1, {
+          newEmail: 'taken@example.com',
+          password: 'password123',
+        })
+      ).rejects.toThrow(ConflictError);
+      expect(authRepository.createEmailChangeToken).not.toHaveBeenCalled();
+    });
+
+    it('should store the pending address with hashed tokens', async () => {
+      vi.mocked(authRepository.findUserById).mockResolvedValue({
+        id: 1,
+        email: 'old@example.com',
+        password: await argon2.hash('password123'),
+      } as User);
+      vi.mocked(authRepository.findUserByEmail).mockResolvedValue(null);
+
+      await authService.requestEmailChange(1, {
+        newEmail: 'new@example.com',
+        password: 'password123',
+      });
+
+      expect(authRepository.createEmailChangeToken).toHaveBeenCalledWith(
+        expect.objectContaining({
+          userId: 1,
+          newEmail: 'new@example.com',
+          tokenHash: expect.any(String),
+          cancelTokenHash: expect.any(String),
+        })
+      );
+    });
+
+    it('should map a unique violation on confirm to ConflictError', async () => {
+      vi.mocked(authRepository.findEmailChangeToken).mockResolvedValue(pendingChange);
+      vi.mocked(authRepository.confirmEmailChange).mockRejectedValue(
+        new Prisma.PrismaClientKnownRequestError('Unique constraint failed', {
+          code: 'P2002',
+          clientVersion: 'test',
+        })
+      );
+
+      await expect(authService.confirmEmailChange({ token: 'token' })).rejects.toThrow(
+        ConflictError
+      );
+    });
+
+    it('should confirm the change and drop cached session state', async () => {
+      vi.mocked(authRepository.findEmailChangeToken).mockResolvedValue(pendingChange);
+      vi.mocked(authRepository.confirmEmailChange).mockResolvedValue(undefined);
+
+      await authService.confirmEmailChange({ token: 'token' });
+
+      expect(authRepository.confirmEmailChange).toHaveBeenCalledWith(1, 5, 'new@example.com');
+      expect(invalidateUserSessionStates).toHaveBeenCalledWith(1);
+    });
+
+    it('should not cancel a change that was already confirmed', async () => {
+      vi.mocked(authRepository.findEmailChangeTokenByCancelHash).mockResolvedValue({
+        ...pendingChange,
+        usedAt: new Date(),
+      });
+
+      await expect(authService.cancelEmailChange({ token: 'cancel' })).rejects.toThrow(
+        ValidationError
+      );
+      expect(authRepository.cancelEmailChange).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('updateProfile', () => {
+    it('should record the acting user and never return credentials', async () => {
+      vi.mocked(authRepository.findUserById).mockResolvedValue({ id: 1, deletedAt: null } as User);
+      vi.mocked(authRepository.updateUserProfile).mockResolvedValue({
+        id: 1,
+        name: 'Renamed',
+        timezone: 'Europe/Berlin',
+        password: 'hash',
+        mfaSecret: 'secret',
+      } as User);
+
+      const profile = await authService.updateProfile(
+        { userId: 1, sessionId: 2 },
+        { name: 'Renamed', timezone: 'Europe/Berlin' }
+      );
+
+      expect(authRepository.updateUserProfile).toHaveBeenCalledWith(
+        1,
+        { name: 'Renamed', timezone: 'Europe/Berlin' },
+        '1'
+      );
+      expect(profile).toMatchObject({ name: 'Renamed', timezone: 'Europe/Berlin' });
+      expect(profile).not.toHaveProperty('password');
+      expect(profile).not.toHaveProperty('mfaSecret');
+    });
+
+    it('should record the impersonator as the acting user', async () => {
+      vi.mocked(authRepository.findUserById).mockResolvedValue({ id: 1, deletedAt: null } as User);
+      vi.mocked(authRepository.updateUserProfile).mockResolvedValue({ id: 1 } as User);
+
+      await authService.updateProfile(
+        { userId: 1, sessionId: 2, impersonatorId: 9 },
+        { name: 'Renamed' }
+      );
+
+      expect(authRepository.updateUserProfile).toHaveBeenCalledWith(1, { name: 'Renamed' }, '9');
+    });
+  });
+
+  describe('changePassword', () => {
+    const currentUser = { userId: 1, sessionId: 2 };
+
+    it('should reject an incorrect current password', async () => {
+      vi.mocked(authRepository.findUserById).mockResolvedValue({
+        id: 1,
+        email: 'test@example.com',
+        password: await argon2.hash('password123'),
+      } as User);
+
+      await expect(
+        authService.changePassword(currentUser, {
+          currentPassword: 'wrong-password',
+          newPassword: 'NewPassword123!',
+        })
+      ).rejects.toThrow(UnauthorizedError);
+      expect(authRepository.changePassword).not.toHaveBeenCalled();
+    });
+
+    it('should keep the current session and issue it a new access token', async () => {
+      vi.mocked(authRepository.findUserById).mockResolvedValue({
+        id: 1,
+        email: 'test@example.com',
+        password: await argon2.hash('password123'),
+      } as User);
+      vi.mocked(authRepository.changePassword).mockResolvedValue(2);
+      vi.mocked(authRepository.findUserAuthorization).mockResolvedValue({
+        roles: [],
+        permissions: [],
+      });
+
+      const result = await authService.changePassword(currentUser, {
+        currentPassword: 'password123',
+        newPassword: 'NewPassword123!',
+      });
+
+      expect(authRepository.changePassword).toHaveBeenCalledWith(1, 2, expect.any(String));
+      expect(invalidateUserSessionStates).toHaveBeenCalledWith(1);
+      expect(result.revokedCount).toBe(2);
+      expect(jwt.decode(result.accessToken)).toMatchObject({ userId: 1, sessionId: 2 });
+    });
+
+    it('should remember the replaced password along with the new one', async () => {
+      const currentHash = await argon2.hash('password123');
+      vi.mocked(authRepository.findUserById).mockResolvedValue({
+        id: 1,
+        email: 'test@example.com',
+        password: currentHash,
+      } as User);
+      vi.mocked(authRepository.changePassword).mockResolvedValue(0);
+      vi.mocked(authRepository.findUserAuthorization).mockResolvedValue({
+        roles: [],
+        permissions: [],
+      });
+
+      await authService.changePassword(currentUser, {
+        currentPassword: 'password123',
+        newPassword: 'NewPassword123!',
+      });
+
+      expect(authRepository.recordPasswordHistory).toHaveBeenCalledWith(
+        1,
+        expect.any(String),
+        config.auth.passwordHistorySize,
+        currentHash
+      );
+    });
+  });
+
+  describe('sign-in risk', () => {
+    const KNOWN_DEVICE =
+      'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/129.0.0.0 Safari/537.36';
+    const NEW_DEVICE = 'Mozilla/5.0 (Android 14; Mobile; rv:130.0) Gecko/130.0 Firefox/130.0';
+    const password = 'password123';
+    let user: User;
+
+    beforeEach(async () => {
+      user = {
+        id: 1,
+        email: 'risk@example.com',
+        password: await argon2.hash(password),
+        isActive: true,
+        failedLoginAttempts: 0,
+        lockedUntil: null,
+      } as User;
+
+      vi.mocked(authRepository.findUserByEmail).mockResolvedValue(user);
+      vi.mocked(authRepository.createSession).mockResolvedValue({ id: 100 } as UserSession);
+      vi.mocked(authRepository.findUserAuthorization).mockResolvedValue({
+        roles: [],
+        permissions: [],
+      });
+      vi.mocked(authRepository.findRecentSignIns).mockResolvedValue([
+        { userAgent: KNOWN_DEVICE, ipAddress: '203.0.113.17', createdAt: new Date('2026-01-01') },
+      ]);
+    });
+
+    it('should sign in quietly from a known device and network', async () => {
+      await authService.login({
+        email: user.email,
+        password,
+        userAgent: KNOWN_DEVICE,
+        ipAddress: '203.0.113.40',
+      });
+
+      expect(authRepository.createSession).toHaveBeenCalledWith(
+        expect.objectContaining({ riskReasons: [], reportTokenHash: undefined })
+      );
+      expect(sendEmail).not.toHaveBeenCalled();
+    });
+
+    it('should email a new sign-in notice with a report link for a new device', async () => {
+      const result = await authService.login({
+        email: user.email,
+        password,
+        userAgent: NEW_DEVICE,
+        ipAddress: '203.0.113.40',
+      });
+
+      expect(result).toHaveProperty('accessToken');
+      expect(authRepository.createSession).toHaveBeenCalledWith(
+        expect.objectContaining({
+          riskReasons: ['new_device'],
+          reportTokenHash: expect.any(String),
+        })
+      );
+      expect(sendEmail).toHaveBeenCalledWith(
+        'risk@example.com',
+        'New sign-in to your account',
+        expect.stringMatching(/Firefox on Android[\s\S]*report-sign-in\?token=/)
+      );
+    });
+
+    it('should hold back tokens of a high-risk sign-in when confirmation is required', async () => {
+      config.auth.confirmHighRiskLogin = true;
+
+      try {
+        const result = await authService.login({
+          email: user.email,
+          password,
+          userAgent: NEW_DEVICE,
+          ipAddress: '198.51.100.5',
+        });
+
+        expect(result).toEqual({ confirmationRequired: true });
+        expect(authRepository.createSession).not.toHaveBeenCalled();
+        expect(authRepository.createLoginConfirmationToken).toHaveBeenCalledWith(
+          expect.objectContaining({ userId: 1, tokenHash: expect.any(String) })
+        );
+        expect(sendEmail).toHaveBeenCalledWith(
+          'risk@example.com',
+          'Confirm your sign-in',
+          expect.stringContaining('confirm-sign-in?token=')
+        );
+      } finally {
+        config.auth.confirmHighRiskLogin = false;
+      }
+    });
+
+    it('should issue tokens from a valid confirmation link without another notice', async () => {
+      vi.mocked(authRepository.findLoginConfirmationToken).mockResolvedValue({
+        id: 7,
+        usedAt: null,
+        expiresAt: new Date(Date.now() + 60_000),
+        user,
+      } as Awaited<ReturnType<typeof authRepository.findLoginConfirmationToken>>);
+      vi.mocked(authRepository.consumeLoginConfirmationToken).mockResolvedValue(true);
+
+      const result = await authService.confirmLogin({
+        token: 'confirm-token',
+        userAgent: NEW_DEVICE,
+        ipAddress: '198.51.100.5',
+      });
+
+      expect(result).toHaveProperty('accessToken');
+      expect(authRepository.consumeLoginConfirmationToken).toHaveBeenCalledWith(7);
+      expect(authRepository.createSession).toHaveBeenCalledWith(
+        expect.objectContaining({ riskReasons: ['new_device', 'new_network'] })
+      );
+      expect(sendEmail).not.toHaveBeenCalled();
+    });
+
+    it('should reject a used confirmation link', async () => {
+      vi.mocked(authRepository.findLoginConfirmationToken).mockResolvedValue({
+        id: 7,
+        usedAt: new Date(),
+        expiresAt: new Date(Date.now() + 60_000),
+        user,
+      } as Awaited<ReturnType<typeof authRepository.findLoginConfirmationToken>>);
+
+      await expect(authService.confirmLogin({ token: 'confirm-token' })).rejects.toThrow(
+        UnauthorizedError
+      );
+      expect(authRepository.createSession).not.toHaveBeenCalled();
+    });
+
+    it('should revoke the reported session family', async () => {
+      vi.mocked(authRepository.findSessionByReportTokenHash).mockResolvedValue({
+        id: 100,
+        userId: 1,
+        familyId: 'family-1',
+        user,
+      } as Awaited<ReturnType<typeof authRepository.findSessionByReportTokenHash>>);
+      vi.mocked(authRepository.revokeSessionFamily).mockResolvedValue(2);
+
+      await authService.reportSignIn({ token: 'report-token' });
+
+      expect(authRepository.revokeSessionFamily).toHaveBeenCalledWith('family-1');
+      expect(invalidateUserSessionStates).toHaveBeenCalledWith(1);
+    });
+
+    it('should reject an unknown report link', async () => {
+      vi.mocked(authRepository.findSessionByReportTokenHash).mockResolvedValue(null);
+
+      await expect(authService.reportSignIn({ token: 'unknown' })).rejects.toThrow(NotFoundError);
+    });
+  });
+
+  describe('security events', () => {
+    const password = 'password123';
+    const client = { userAgent: 'TestAgent', ipAddress: '203.0.113.9', requestId: 'req-1' };
+
+    it('should record a failed sign-in for an unknown email address', async () => {
+      vi.mocked(authRepository.findUserByEmail).mockResolvedValue(null);
+
+      await expect(
+        authService.login({ email: 'nobody@example.com', password, ...client })
+      ).rejects.toThrow(UnauthorizedError);
+
+      expect(recordSecurityEvent).toHaveBeenCalledWith({
+        type: 'login_failed',
+        userId: null,
+        email: 'nobody@example.com',
+        context: expect.objectContaining(client),
+        metadata: { reason: 'unknown_account' },
+      });
+    });
+
+    it('should record the lockout when the last allowed attempt fails', async () => {
+      vi.mocked(authRepository.findUserByEmail).mockResolvedValue({
+        id: 1,
+        email: 'test@example.com',
+        password: await argon2.hash(password),
+        isActive: true,
+        failedLoginAttempts: config.auth.maxLoginAttempts - 1,
+      } as User);
+
+      await expect(
+        authService.login({ email: 'test@example.com', password: 'wrong', ...client })
+      ).rejects.toThrow(UnauthorizedError);
+
+      expect(recordSecurityEvent).toHaveBeenCalledWith(
+        expect.objectContaining({
+          type: 'login_failed',
+          userId: 1,
+          metadata: { reason: 'invalid_password', failedAttempts: config.auth.maxLoginAttempts },
+        })
+      );
+      expect(recordSecurityEvent).toHaveBeenCalledWith(
+        expect.objectContaining({ type: 'account_locked', userId: 1 })
+      );
+    });
+
+    it('should record a sign-in blocked by the account status', async () => {
+      vi.mocked(authRepository.findUserByEmail).mockResolvedValue({
+        id: 1,
+        email: 'test@example.com',
+        password: await argon2.hash(password),
+        isActive: false,
+      } as User);
+
+      await expect(
+        authService.login({ email: 'test@example.com', password, ...client })
+      ).rejects.toThrow(ForbiddenError);
+
+      expect(recordSecurityEvent).toHaveBeenCalledWith(
+        expect.objectContaining({
+          type: 'login_failed',
+          userId: 1,
+          metadata: { reason: 'account_unavailable', message: 'Account is inactive' },
+        })
+      );
+    });
+
+    it('should record a successful sign-in with its session and request', async () => {
+      vi.mocked(authRepository.findUserByEmail).mockResolvedValue({
+        id: 1,
+        email: 'test@example.com',
+        password: await argon2.hash(password),
+        isActive: true,
+      } as User);
+      vi.mocked(authRepository.createSession).mockResolvedValue({ id: 100 } as UserSession);
+      vi.mocked(authRepository.findUserAuthorization).mockResolvedValue({
+        roles: [],
+        permissions: [],
+      });
+
+      await authService.login({ email: 'test@example.com', password, ...client });
+
+      expect(recordSecurityEvent).toHaveBeenCalledWith({
+        type: 'login_succeeded',
+        userId: 1,
+        email: 'test@example.com',
+        context: expect.objectContaining(client),
+        metadata: { sessionId: 100, riskReasons: [] },
+      });
+    });
+
+    it('should record a logout', async () => {
+      await authService.logout({ userId: 1, sessionId: 2 }, client);
+
+      expect(recordSecurityEvent).toHaveBeenCalledWith({
+        type: 'logout',
+        userId: 1,
+        context: client,
+        metadata: { sessionId: 2 },
+      });
+    });
+
+    it("should list the user's own events", async () => {
+      const page = {
+        data: [],
+        meta: { total: 0, per_page: 15, current_page: 1, last_page: 0, from: 1, to: 0 },
+      };
+      vi.mocked(authRepository.findSecurityEventsByUserId).mockResolvedValue(page);
+
+      await expect(authService.listSecurityEvents(1, { page: 1, perPage: 15 })).resolves.toBe(page);
+      expect(authRepository.findSecurityEventsByUserId).toHaveBeenCalledWith(1, {
+        page: 1,
+        perPage: 15,
+      });
+    });
+  });
+
+  describe('password policy', () => {
+    async function rejectionDetails(promise: Promise<unknown>) {
+      const error = await promise.catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(ValidationError);
+      return (error as ValidationError).details;
+    }
+
+    it('should reject a breached password containing the user name on register', async () => {
+      vi.mocked(authRepository.findUserByEmail).mockResolvedValue(null);
+
+      const details = await rejectionDetails(
+        authService.register({
+          name: 'Dragon',
+          email: 'dragon@example.com',
+          password: 'dragon1234',
+        })
+      );
+
+      expect(details).toEqual({
+        'password.minLength': 'Password must be at least 12 characters',
+        'password.personalInfo': 'Password must not contain your email address or name',
+        'password.breached': 'Password has appeared in a data breach, choose a different one',
+      });
+      expect(authRepository.createUser).not.toHaveBeenCalled();
+    });
+
+    it('should reject reusing a recent password on change', async () => {
+      const previousHash = await argon2.hash('an-older-long-passphrase');
+      vi.mocked(authRepository.findUserById).mockResolvedValue({
+        id: 1,
+        email: 'test@example.com',
+        name: 'Test',
+        password: await argon2.hash('password123'),
+      } as User);
+      vi.mocked(authRepository.findPasswordHistory).mockResolvedValue([previousHash]);
+
+      const details = await rejectionDetails(
+        authService.changePassword(
+          { userId: 1, sessionId: 2 },
+          { currentPassword: 'password123', newPassword: 'an-older-long-passphrase' }
+        )
+      );
+
+      expect(Object.keys(details)).toEqual(['newPassword.reused']);
+      expect(authRepository.findPasswordHistory).toHaveBeenCalledWith(
+        1,
+        config.auth.passwordHistorySize
+      );
+      expect(authRepository.changePassword).not.toHaveBeenCalled();
+    });
+
+    it('should reject the current password on reset and record the new one', async () => {
+      const user = {
+        id: 1,
+        email: 'reset@example.com',
+        name: 'Reset',
+        password: await argon2.hash('the-current-passphrase'),
+      } as User;
+      vi.mocked(authRepository.findPasswordResetToken).mockResolvedValue({
+        id: 5,
+        usedAt: null,
+        expiresAt: new Date(Date.now() + 60_000),
+        user,
+      } as Awaited<ReturnType<typeof authRepository.findPasswordResetToken>>);
+
+      const details = await rejectionDetails(
+        authService.resetPassword({ token: 'token', password: 'the-current-passphrase' })
+      );
+      expect(Object.keys(details)).toEqual(['password.reused']);
+
+      await authService.resetPassword({ token: 'token', password: 'a-brand-new-passphrase' });
+
+      expect(authRepository.resetPassword).toHaveBeenCalledWith(1, 5, expect.any(String));
+      expect(authRepository.recordPasswordHistory).toHaveBeenCalledWith(
+        1,
+        expect.any(String),
+        config.auth.passwordHistorySize,
+        user.password
+      );
+    });
+  });
+
+  describe('mfa', () => {
+    const mfaSecret = generateTotpSecret();
+
+    async function loginForChallenge(): Promise<string> {
+      const password = 'password123';
+      vi.mocked(authRepository.findUserByEmail).mockResolvedValue({
+        id: 1,
+        password: await argon2.hash(password),
+        isActive: true,
+        failedLoginAttempts: 0,
+        lockedUntil: null,
+        mfaEnabledAt: new Date(),
+        mfaSecret,
+      } as User);
+
+      const result = await authService.login({ email: 'mfa@example.com', password });
+
+      expect(result).toEqual({ mfaRequired: true, mfaToken: expect.any(String) });
+      return (result as { mfaToken: string }).mfaToken;
+    }
+
+    it('should return an MFA challenge instead of tokens when MFA is enabled', async () => {
+      await loginForChallenge();
+
+      expect(authRepository.createSession).not.toHaveBeenCalled();
+      expect(authRepository.updateUserLoginStats).not.toHaveBeenCalled();
+    });
+
+    it('should issue tokens when the challenge is completed with a valid code', async () => {
+      const mfaToken = await loginForChallenge();
+
+      vi.mocked(authRepository.findUserById).mockResolvedValue({
+        id: 1,
+        isActive: true,
+        failedLoginAttempts: 0,
+        lockedUntil: null,
+        mfaEnabledAt: new Date(),
+        mfaSecret,
+      } as User);
+      vi.mocked(authRepository.claimMfaStep).mockResolvedValue(true);
+      vi.mocked(authRepository.createSession).mockResolvedValue({ id: 100 } as UserSession);
+      vi.mocked(authRepository.findUserAuthorization).mockResolvedValue({
+        roles: [],
+        permissions: [],
+      });
+
+      const result = await authService.verifyMfa({ mfaToken, code: generateTotp(mfaSecret) });
+
+      expect(result).toHaveProperty('accessToken');
+      expect(result).toHaveProperty('refreshToken');
+      expect(authRepository.createSession).toHaveBeenCalled();
+    });
+
+    it('should reject a replayed code and record a failed attempt', async () => {
+      const mfaToken = await loginForChallenge();
+
+      vi.mocked(authRepository.findUserById).mockResolvedValue({
+        id: 1,
+        isActive: true,
+        failedLoginAttempts: 0,
+        lockedUntil: null,
+        mfaEnabledAt: new Date(),
+        mfaSecret,
+      } as User);
+      vi.mocked(authRepository.claimMfaStep).mockResolvedValue(false);
+
+      await expect(
+        authService.verifyMfa({ mfaToken, code: generateTotp(mfaSecret) })
+      ).rejects.toThrow(UnauthorizedError);
+
+      expect(authRepository.updateUserLoginStats).toHaveBeenCalledWith(
+        1,
+        expect.objectContaining({ failedLoginAttempts: 1 })
+      );
+      expect(authRepository.createSession).not.toHaveBeenCalled();
+    });
+
+    it('should reject an access token used as an MFA challenge', async () => {
+      const accessToken = jwt.sign({ userId: 1, sessionId: 1 }, 'dev_secret_do_not_use');
+
+      await expect(
+        authService.verifyMfa({ mfaToken: accessToken, code: '123456' })
+      ).rejects.toThrow(UnauthorizedError);
+    });
+
+    it('should enable MFA and return recovery codes when confirmed with a valid code', async () => {
+      vi.mocked(authRepository.findUserById).mockResolvedValue({
+        id: 1,
+        email: 'mfa@example.com',
+        mfaEnabledAt: null,
+        mfaSecret,
+      } as User);
+
+      const result = await authService.confirmMfa(1, { code: generateTotp(mfaSecret) });
+
+      expect(result.recoveryCodes).toHaveLength(10);
+      expect(authRepository.enableMfa).toHaveBeenCalledWith(
+        1,
+        expect.arrayContaining([expect.any(String)]),
+        expect.any(Number)
+      );
+    });
+
+    it('should reject confirmation with an invalid code', async () => {
+      vi.mocked(authRepository.findUserById).mockResolvedValue({
+        id: 1,
+        mfaEnabledAt: null,
+        mfaSecret,
+      } as User);
+
+      await expect(authService.confirmMfa(1, { code: '000000' })).rejects.toThrow(ValidationError);
+      expect(authRepository.enableMfa).not.toHaveBeenCalled();
+    });
+
+    it('should require the current password to disable MFA', async () => {
+      vi.mocked(authRepository.findUserById).mockResolvedValue({
+        id: 1,
+        password: await argon2.hash('password123'),
+        mfaEnabledAt: new Date(),
+      } as User);
+
+      await expect(authService.disableMfa(1, { password: 'wrong' })).rejects.toThrow(
+        UnauthorizedError
+      );
+      expect(authRepository.disableMfa).not.toHaveBeenCalled();
+
+      await authService.disableMfa(1, { password: 'password123' });
+      expect(authRepository.disableMfa).toHaveBeenCalledWith(1);
+    });
+
+    it('should accept a current code to disable MFA on accounts without password', async () => {
+      vi.mocked(authRepository.findUserById).mockResolvedValue({
+        id: 1,
+        password: null,
+        mfaEnabledAt: new Date(),
+        mfaSecret,
+      } as User);
+      vi.mocked(authRepository.claimMfaStep).mockResolvedValue(true);
+
+      await expect(authService.disableMfa(1, {})).rejects.toThrow(ValidationError);
+      await expect(authService.disableMfa(1, { code: '000000' })).rejects.toThrow(
+        UnauthorizedError
+      );
+      expect(authRepository.disableMfa).not.toHaveBeenCalled();
+
+      await authService.disableMfa(1, { code: generateTotp(mfaSecret) });
+      expect(authRepository.disableMfa).toHaveBeenCalledWith(1);
+    });
+
+    it('should not accept a code instead of an existing password', async () => {
+      vi.mocked(authRepository.findUserById).mockResolvedValue({
+        id: 1,
+        password: await argon2.hash('password123'),
+        mfaEnabledAt: new Date(),
+        mfaSecret,
+      } as User);
+      vi.mocked(authRepository.claimMfaStep).mockResolvedValue(true);
+
+      await expect(authService.disableMfa(1, { code: generateTotp(mfaSecret) })).rejects.toThrow(
+        ValidationError
+      );
+      expect(authRepository.disableMfa).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('account deletion', () => {
+    const session = { userId: 1, sessionId: 10, roles: [], permissions: [] };
+
+    beforeEach(() => {
+      vi.mocked(authRepository.findSolelyOwnedOrganizations).mockResolvedValue([]);
+    });
+
+    async function mockSignIn(user: Partial<User>) {
+      vi.mocked(authRepository.findUserByEmail).mockResolvedValue({
+        id: 1,
+        email: 'leaving@example.com',
+        password: await argon2.hash('password123'),
+        isActive: true,
+        failedLoginAttempts: 0,
+        lockedUntil: null,
+        ...user,
+      } as User);
+      vi.mocked(authRepository.createSession).mockResolvedValue({ id: 100 } as UserSession);
+      vi.mocked(authRepository.findUserAuthorization).mockResolvedValue({
+        roles: [],
+        permissions: [],
+      });
+    }
+
+    it('should require the current password', async () => {
+      vi.mocked(authRepository.findUserById).mockResolvedValue({
+        id: 1,
+        password: await argon2.hash('password123'),
+        deletedAt: null,
+      } as User);
+
+      await expect(authService.deleteAccount(session, { password: 'wrong' })).rejects.toThrow(
+        UnauthorizedError
+      );
+      expect(authRepository.scheduleAccountDeletion).not.toHaveBeenCalled();
+    });
+
+    it('should not accept a recent sign-in instead of an existing password', async () => {
+      vi.mocked(authRepository.findUserById).mockResolvedValue({
+        id: 1,
+        password: await argon2.hash('password123'),
+        deletedAt: null,
+      } as User);
+      vi.mocked(authRepository.findSessionSignedInAt).mockResolvedValue(new Date());
+
+      await expect(authService.deleteAccount(session, {})).rejects.toThrow(ValidationError);
+      expect(authRepository.scheduleAccountDeletion).not.toHaveBeenCalled();
+    });
+
+    it('should accept a recent sign-in for accounts without password', async () => {
+      vi.mocked(authRepository.findUserById).mockResolvedValue({
+        id: 1,
+        email: 'leaving@example.com',
+        password: null,
+        deletedAt: null,
+      } as User);
+      vi.mocked(authRepository.findSessionSignedInAt).mockResolvedValue(new Date());
+      vi.mocked(authRepository.scheduleAccountDeletion).mockResolvedValue(1);
+
+      await authService.deleteAccount(session, {});
+
+      expect(authRepository.findSessionSignedInAt).toHaveBeenCalledWith(10);
+      expect(authRepository.scheduleAccountDeletion).toHaveBeenCalled();
+    });
+
+    it('should require a recent sign-in for accounts without password', async () => {
+      vi.mocked(authRepository.findUserById).mockResolvedValue({
+        id: 1,
+        password: null,
+        deletedAt: null,
+      } as User);
+      vi.mocked(authRepository.findSessionSignedInAt).mockResolvedValue(subDays(new Date(), 1));
+
+      await expect(authService.deleteAccount(session, {})).rejects.toThrow(ForbiddenError);
+      expect(authRepository.scheduleAccountDeletion).not.toHaveBeenCalled();
+    });
+
+    it('should not delete the only owner of an organization', async () => {
+      vi.mocked(authRepository.findUserById).mockResolvedValue({
+        id: 1,
+        password: await argon2.hash('password123'),
+        deletedAt: null,
+      } as User);
+      vi.mocked(authRepository.findSolelyOwnedOrganizations).mockResolvedValue([
+        { id: 3, name: 'Acme' },
+      ]);
+
+      await expect(authService.deleteAccount(session, { password: 'password123' })).rejects.toThrow(
+        BadRequestError
+      );
+      expect(authRepository.scheduleAccountDeletion).not.toHaveBeenCalled();
+    });
+
+    it('should soft delete the account and schedule the purge after the grace period', async () => {
+      vi.mocked(authRepository.findUserById).mockResolvedValue({
+        id: 1,
+        email: 'leaving@example.com',
+        password: await argon2.hash('password123'),
+        deletedAt: null,
+      } as User);
+      vi.mocked(authRepository.scheduleAccountDeletion).mockResolvedValue(2);
+
+      const result = await authService.deleteAccount(session, {
+        password: 'password123',
+        ipAddress: '203.0.113.5',
+      });
+
+      const graceMs = config.auth.accountDeletionGraceDays * 24 * 60 * 60 * 1000;
+      expect(result.purgeAt.getTime() - Date.now()).toBeGreaterThan(graceMs - 60_000);
+      expect(authRepository.scheduleAccountDeletion).toHaveBeenCalledWith(1, result.purgeAt);
+      expect(invalidateUserSessionStates).toHaveBeenCalledWith(1);
+      expect(recordSecurityEvent).toHaveBeenCalledWith(
+        expect.objectContaining({
+          type: 'account_deletion_requested',
+          userId: 1,
+          metadata: { purgeAt: result.purgeAt.toISOString(), revokedCount: 2 },
+        })
+      );
+      expect(sendEmail).toHaveBeenCalledWith(
+        'leaving@example.com',
+        'Your account will be deleted',
+        expect.stringContaining(result.purgeAt.toISOString())
+      );
+    });
+
+    it('should cancel the deletion when the user signs in during the grace period', async () => {
+      await mockSignIn({ deletedAt: new Date(), purgeAt: addDays(new Date(), 10) });
+
+      const result = await authService.login({
+        email: 'leaving@example.com',
+        password: 'password123',
+      });
+
+      expect(result).toHaveProperty('accessToken');
+      expect(authRepository.cancelAccountDeletion).toHaveBeenCalledWith(1);
+      expect(recordSecurityEvent).toHaveBeenCalledWith(
+        expect.objectContaining({ type: 'account_deletion_cancelled', userId: 1 })
+      );
+      expect(sendEmail).toHaveBeenCalledWith(
+        'leaving@example.com',
+        'Account deletion cancelled',
+        expect.any(String)
+      );
+    });
+
+    it('should not cancel the deletion before the second factor is verified', async () => {
+      await mockSignIn({
+        deletedAt: new Date(),
+        purgeAt: addDays(new Date(), 10),
+        mfaEnabledAt: new Date(),
+      });
+
+      const result = await authService.login({
+        email: 'leaving@example.com',
+        password: 'password123',
+      });
+
+      expect(result).toMatchObject({ mfaRequired: true });
+      expect(authRepository.cancelAccountDeletion).not.toHaveBeenCalled();
+    });
+
+    it('should reject sign-in after the grace period or an admin deletion', async () => {
+      await mockSignIn({ deletedAt: subDays(new Date(), 31), purgeAt: subDays(new Date(), 1) });
+
+      await expect(
+        authService.login({ email: 'leaving@example.com', password: 'password123' })
+      ).rejects.toThrow('Invalid credentials');
+
+      await mockSignIn({ deletedAt: new Date(), purgeAt: null });
+
+      await expect(
+        authService.login({ email: 'leaving@example.com', password: 'password123' })
+      ).rejects.toThrow('Invalid credentials');
+      expect(authRepository.cancelAccountDeletion).not.toHaveBeenCalled();
+    });
+
+    it('should export the account data and record the export', async () => {
+      vi.mocked(authRepository.findAccountExportData).mockResolvedValue({
+        user: { id: 1, email: 'leaving@example.com', roles: ['user'] },
+        sessions: [],
+        identities: [],
+        apiKeys: [],
+        passkeys: [],
+        securityEvents: [],
+        organizations: [],
+        examples: [{ id: 3, name: 'Mine' }],
+      } as unknown as Awaited<ReturnType<typeof authRepository.findAccountExportData>>);
+
+      const result = await authService.exportAccountData(1, { requestId: 'req-1' });
+
+      expect(result.exportedAt).toBeInstanceOf(Date);
+      expect(result.user).not.toHaveProperty('password');
+      expect(result.examples).toEqual([{ id: 3, name: 'Mine' }]);
+      expect(recordSecurityEvent).toHaveBeenCalledWith({
+        type: 'account_data_exported',
+        userId: 1,
+        context: { requestId: 'req-1' },
+      });
+    });
+
+    it('should purge the accounts whose grace period ended', async () => {
+      const now = new Date();
+      vi.mocked(authRepository.findAccountsDueForPurge).mockResolvedValue([
+        { id: 1, email: 'a@example.com' },
+        { id: 2, email: 'b@example.com' },
+      ]);
+      // The second user signed in since the lookup
+      vi.mocked(authRepository.purgeAccount)
+        .mockResolvedValueOnce(true)
+        .mockResolvedValueOnce(false);
+
+      const purged = await authService.purgeDeletedAccounts(now);
+
+      expect(purged).toBe(1);
+      expect(authRepository.findAccountsDueForPurge).toHaveBeenCalledWith(now);
+      expect(authRepository.purgeAccount).toHaveBeenCalledWith(
+        { id: 1, email: 'a@example.com' },
+        now
+      );
+    });
   });
 });
@@ -2,16 +2,57 @@ import { Request, Response, NextFunction } from 'express';
 import {
   register as registerService,
   login as loginService,
+  requestMagicLink as requestMagicLinkService,
+  verifyMagicLink as verifyMagicLinkService,
+  confirmLogin as confirmLoginService,
+  reportSignIn as reportSignInService,
   refresh as refreshService,
   logout as logoutService,
   verifyEmail as verifyEmailService,
+  resendVerification as resendVerificationService,
   forgotPassword as forgotPasswordService,
   resetPassword as resetPasswordService,
+  changePassword as changePasswordService,
+  requestEmailChange as requestEmailChangeService,
+  confirmEmailChange as confirmEmailChangeService,
+  cancelEmailChange as cancelEmailChangeService,
   getProfile as getProfileService,
+  updateProfile as updateProfileService,
+  setupMfa as setupMfaService,
+  confirmMfa as confirmMfaService,
+  verifyMfa as verifyMfaService,
+  disableMfa as disableMfaService,
+  listSessions as listSessionsService,
+  revokeUserSession as revokeUserSessionService,
+  revokeOtherSessions as revokeOtherSessionsService,
+  listSecurityEvents as listSecurityEventsService,
+  exportAccountData as exportAccountDataService,
+  deleteAccount as deleteAccountService,
 } from '@/features/auth/auth.service';
 import { UserSessionPayload } from '@/features/auth/auth.types';
-import { UnauthorizedError } from '@/shared/errors';
+import { UnauthorizedError, ValidationError } from '@/shared/errors';
 import { sendOk, sendCreated, getRequestId } from '@/shared/utils/apiResponse';
+import {
+  REFRESH_TOKEN_COOKIE,
+  clearAuthCookies,
+  deliverTokens,
+  getCookie,
+  isCookieTransport,
+  issueCsrfToken,
+} from '@/shared/utils/authCookies';
+
+const MAX_PER_PAGE = 100;
+
+/**
+ * Where the request came from, recorded with sessions and security events
+ */
+function getClientContext(req: Request) {
+  return {
+    userAgent: req.headers['user-agent'],
+    ipAddress: req.ip,
+    requestId: getRequestId(req),
+  };
+}
 
 export async function register(req: Request, res: Response, next: NextFunction): Promise<void> {
   try {
@@ -27,29 +68,89 @@ export async function login(req: Request, res: Response, next: NextFunction): Pr
   try {
     const input = {
       ...req.body,
-      userAgent: req.headers['user-agent'],
-      ipAddress: req.ip,
+      ...getClientContext(req),
     };
 
     const tokens = await loginService(input);
 
-    sendOk(res, tokens, { requestId: getRequestId(req) });
+    sendOk(res, deliverTokens(res, tokens), { requestId: getRequestId(req) });
   } catch (error) {
     next(error);
   }
 }
 
-export async function refresh(req: Request, res: Response, next: NextFunction): Promise<void> {
+export async function requestMagicLink(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    await requestMagicLinkService(req.body);
+
+    sendOk(res, null, { requestId: getRequestId(req) });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function verifyMagicLink(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
   try {
     const input = {
       ...req.body,
-      userAgent: req.headers['user-agent'],
-      ipAddress: req.ip,
+      ...getClientContext(req),
     };
 
-    const tokens = await refreshService(input);
+    const tokens = await verifyMagicLinkService(input);
 
-    sendOk(res, tokens, { requestId: getRequestId(req) });
+    sendOk(res, deliverTokens(res, tokens), { requestId: getRequestId(req) });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function confirmLogin(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const input = {
+      ...req.body,
+      ...getClientContext(req),
+    };
+
+    const tokens = await confirmLoginService(input);
+
+    sendOk(res, deliverTokens(res, tokens), { requestId: getRequestId(req) });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function reportSignIn(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    await reportSignInService({ ...req.body, ...getClientContext(req) });
+
+    sendOk(res, null, { requestId: getRequestId(req) });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function refresh(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    // Browser clients in cookie transport send the refresh token as a cookie
+    const refreshToken =
+      req.body.refreshToken ??
+      (isCookieTransport() ? getCookie(req, REFRESH_TOKEN_COOKIE) : undefined);
+
+    if (!refreshToken) {
+      throw ValidationError.field('refreshToken', 'Refresh token is required');
+    }
+
+    const tokens = await refreshService({ refreshToken, ...getClientContext(req) });
+
+    sendOk(res, deliverTokens(res, tokens), { requestId: getRequestId(req) });
   } catch (error) {
     next(error);
   }
@@ -64,7 +165,11 @@ export async function logout(req: Request, res: Response, next: NextFunction): P
 
     const userSession = req.user as unknown as UserSessionPayload;
 
-    await logoutService(userSession);
+    await logoutService(userSession, getClientContext(req));
+
+    if (isCookieTransport()) {
+      clearAuthCookies(res);
+    }
 
     sendOk(res, null, { requestId: getRequestId(req) });
   } catch (error) {
@@ -72,6 +177,17 @@ export async function logout(req: Request, res: Response, next: NextFunction): P
   }
 }
 
+/**
+ * CSRF token for browser clients in cookie transport, e.g. after a page reload
+ */
+export async function csrfToken(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    sendOk(res, { csrfToken: issueCsrfToken(req, res) }, { requestId: getRequestId(req) });
+  } catch (error) {
+    next(error);
+  }
+}
+
 export async function me(req: Request, res: Response, next: NextFunction): Promise<void> {
   try {
     if (!req.user) {
@@ -87,9 +203,215 @@ export async function me(req: Request, res: Response, next: NextFunction): Promi
   }
 }
 
+export async function updateMe(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    if (!req.user) {
+      throw new UnauthorizedError('User not authenticated');
+    }
+
+    const user = await updateProfileService(req.user, req.body);
+
+    sendOk(res, user, { requestId: getRequestId(req) });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function exportMe(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    if (!req.user) {
+      throw new UnauthorizedError('User not authenticated');
+    }
+
+    const data = await exportAccountDataService(req.user.userId, getClientContext(req));
+
+    sendOk(res, data, { requestId: getRequestId(req) });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function deleteMe(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    if (!req.user) {
+      throw new UnauthorizedError('User not authenticated');
+    }
+
+    const result = await deleteAccountService(req.user, {
+      ...req.body,
+      ...getClientContext(req),
+    });
+
+    if (isCookieTransport()) {
+      clearAuthCookies(res);
+    }
+
+    sendOk(res, result, { requestId: getRequestId(req) });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function listSessions(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    if (!req.user) {
+      throw new UnauthorizedError('User not authenticated');
+    }
+
+    const sessions = await listSessionsService(req.user);
+
+    sendOk(res, sessions, { requestId: getRequestId(req) });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function listSecurityEvents(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    if (!req.user) {
+      throw new UnauthorizedError('User not authenticated');
+    }
+
+    const page = parseInt(req.query.page as string, 10) || 1;
+    const perPage = Math.min(parseInt(req.query.per_page as string, 10) || 15, MAX_PER_PAGE);
+
+    const result = await listSecurityEventsService(req.user.userId, { page, perPage });
+
+    sendOk(res, result.data, {
+      meta: result.meta as unknown as Record<string, unknown>,
+      requestId: getRequestId(req),
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function revokeSession(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    if (!req.user) {
+      throw new UnauthorizedError('User not authenticated');
+    }
+
+    const sessionId = parseInt(req.params.id as string, 10);
+
+    await revokeUserSessionService(req.user, sessionId);
+
+    sendOk(res, null, { requestId: getRequestId(req) });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function revokeOtherSessions(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    if (!req.user) {
+      throw new UnauthorizedError('User not authenticated');
+    }
+
+    const result = await revokeOtherSessionsService(req.user);
+
+    sendOk(res, result, { requestId: getRequestId(req) });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function changePassword(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    if (!req.user) {
+      throw new UnauthorizedError('User not authenticated');
+    }
+
+    const result = await changePasswordService(req.user, {
+      ...req.body,
+      ...getClientContext(req),
+    });
+
+    sendOk(res, deliverTokens(res, result), { requestId: getRequestId(req) });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function requestEmailChange(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    if (!req.user) {
+      throw new UnauthorizedError('User not authenticated');
+    }
+
+    await requestEmailChangeService(req.user.userId, req.body);
+
+    sendOk(res, null, { requestId: getRequestId(req) });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function confirmEmailChange(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    await confirmEmailChangeService(req.body);
+
+    sendOk(res, null, { requestId: getRequestId(req) });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function cancelEmailChange(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    await cancelEmailChangeService(req.body);
+
+    sendOk(res, null, { requestId: getRequestId(req) });
+  } catch (error) {
+    next(error);
+  }
+}
+
 export async function verifyEmail(req: Request, res: Response, next: NextFunction): Promise<void> {
   try {
-    await verifyEmailService(req.body);
+    await verifyEmailService({ ...req.body, ...getClientContext(req) });
+
+    sendOk(res, null, { requestId: getRequestId(req) });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function resendVerification(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    await resendVerificationService(req.body);
 
     sendOk(res, null, { requestId: getRequestId(req) });
   } catch (error) {
@@ -103,7 +425,7 @@ export async function forgotPassword(
   next: NextFunction
 ): Promise<void> {
   try {
-    await forgotPasswordService(req.body);
+    await forgotPasswordService({ ...req.body, ...getClientContext(req) });
 
     sendOk(res, null, { requestId: getRequestId(req) });
   } catch (error) {
@@ -117,7 +439,64 @@ export async function resetPassword(
   next: NextFunction
 ): Promise<void> {
   try {
-    await resetPasswordService(req.body);
+    await resetPasswordService({ ...req.body, ...getClientContext(req) });
+
+    sendOk(res, null, { requestId: getRequestId(req) });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function setupMfa(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    if (!req.user) {
+      throw new UnauthorizedError('User not authenticated');
+    }
+
+    const result = await setupMfaService(req.user.userId);
+
+    sendOk(res, result, { requestId: getRequestId(req) });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function confirmMfa(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    if (!req.user) {
+      throw new UnauthorizedError('User not authenticated');
+    }
+
+    const result = await confirmMfaService(req.user.userId, req.body);
+
+    sendOk(res, result, { requestId: getRequestId(req) });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function verifyMfa(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const input = {
+      ...req.body,
+      ...getClientContext(req),
+    };
+
+    const tokens = await verifyMfaService(input);
+
+    sendOk(res, deliverTokens(res, tokens), { requestId: getRequestId(req) });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function disableMfa(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    if (!req.user) {
+      throw new UnauthorizedError('User not authenticated');
+    }
+
+    await disableMfaService(req.user.userId, req.body);
 
     sendOk(res, null, { requestId: getRequestId(req) });
   } catch (error) {
@@ -1,6 +1,23 @@
 import { prisma } from '@/shared/utils/prisma';
-import type { User, UserSession, EmailVerificationToken, PasswordResetToken } from '@prisma/client';
-import { RegisterInput } from '@/features/auth/auth.types';
+import type {
+  Organization,
+  User,
+  UserSession,
+  EmailVerificationToken,
+  EmailChangeToken,
+  PasswordResetToken,
+  MagicLinkToken,
+  LoginConfirmationToken,
+} from '@prisma/client';
+import {
+  RegisterInput,
+  UpdateProfileInput,
+  UserAuthorization,
+  ListSecurityEventsOptions,
+  SecurityEventSummary,
+  AccountExport,
+} from '@/features/auth/auth.types';
+import type { PaginatedResult } from '@/shared/types/pagination.types';
 
 export async function findUserByEmail(email: string): Promise<User | null> {
   return prisma.user.findUnique({
@@ -18,7 +35,8 @@ export async function createUser(
   input: RegisterInput,
   hashedPassword: string,
   emailVerificationTokenHash: string,
-  tokenExpiresAt: Date
+  tokenExpiresAt: Date,
+  defaultRole?: string
 ): Promise<User> {
   return prisma.$transaction(async (tx) => {
     const user = await tx.user.create({
@@ -30,6 +48,17 @@ export async function createUser(
       },
     });
 
+    const role = defaultRole ? await tx.role.findUnique({ where: { name: defaultRole } }) : null;
+
+    if (role && !role.deletedAt) {
+      await tx.userRole.create({
+        data: {
+          userId: user.id,
+          roleId: role.id,
+        },
+      });
+    }
+
     await tx.emailVerificationToken.create({
       data: {
         userId: user.id,
@@ -42,6 +71,34 @@ export async function createUser(
   });
 }
 
+export async function findUserAuthorization(userId: number): Promise<UserAuthorization> {
+  const userRoles = await prisma.userRole.findMany({
+    where: {
+      userId,
+      role: { deletedAt: null },
+    },
+    include: {
+      role: {
+        include: {
+          permissions: {
+            where: { permission: { deletedAt: null } },
+            include: { permission: true },
+          },
+        },
+      },
+    },
+  });
+
+  const roles = userRoles.map((userRole) => userRole.role.name);
+  const permissions = new Set(
+    userRoles.flatMap((userRole) =>
+      userRole.role.permissions.map((rolePermission) => rolePermission.permission.name)
+    )
+  );
+
+  return { roles, permissions: [...permissions] };
+}
+
 export async function updateUserLoginStats(
   userId: number,
   data: {
@@ -62,6 +119,8 @@ export async function createSession(data: {
   userAgent?: string;
   ipAddress?: string;
   expiresAt: Date;
+  riskReasons?: string[];
+  reportTokenHash?: string;
 }): Promise<UserSession> {
   return prisma.userSession.create({
     data: {
@@ -70,15 +129,94 @@ export async function createSession(data: {
       userAgent: data.userAgent,
       ipAddress: data.ipAddress,
       expiresAt: data.expiresAt,
+      riskReasons: data.riskReasons ?? [],
+      reportTokenHash: data.reportTokenHash,
     },
   });
 }
 
-export async function findSessionByHash(refreshTokenHash: string): Promise<UserSession | null> {
+/**
+ * Device and network of the user's own sign-ins since a date (impersonation sessions excluded)
+ */
+export async function findRecentSignIns(
+  userId: number,
+  since: Date
+): Promise<Pick<UserSession, 'userAgent' | 'ipAddress' | 'createdAt'>[]> {
+  return prisma.userSession.findMany({
+    where: {
+      userId,
+      createdAt: { gte: since },
+      impersonation: null,
+      deletedAt: null,
+    },
+    select: { userAgent: true, ipAddress: true, createdAt: true },
+    orderBy: { createdAt: 'desc' },
+    take: 50,
+  });
+}
+
+/**
+ * Find the session a "this wasn't me" link from a sign-in notice refers to
+ */
+export async function findSessionByReportTokenHash(
+  reportTokenHash: string
+): Promise<(UserSession & { user: User }) | null> {
+  return prisma.userSession.findUnique({
+    where: { reportTokenHash },
+    include: { user: true },
+  });
+}
+
+/**
+ * Create an impersonation session and record who started it
+ */
+export async function createImpersonationSession(data: {
+  impersonatorId: number;
+  targetUserId: number;
+  refreshTokenHash: string;
+  reason?: string;
+  userAgent?: string;
+  ipAddress?: string;
+  expiresAt: Date;
+}): Promise<UserSession> {
+  return prisma.$transaction(async (tx) => {
+    const session = await tx.userSession.create({
+      data: {
+        userId: data.targetUserId,
+        refreshTokenHash: data.refreshTokenHash,
+        userAgent: data.userAgent,
+        ipAddress: data.ipAddress,
+        expiresAt: data.expiresAt,
+        createdBy: String(data.impersonatorId),
+      },
+    });
+
+    await tx.impersonationLog.create({
+      data: {
+        impersonatorId: data.impersonatorId,
+        targetUserId: data.targetUserId,
+        sessionId: session.id,
+        reason: data.reason,
+        userAgent: data.userAgent,
+        ipAddress: data.ipAddress,
+        expiresAt: data.expiresAt,
+        createdBy: String(data.impersonatorId),
+      },
+    });
+
+    return session;
+  });
+}
+
+/**
+ * Find a session by refresh token hash, including revoked sessions so reuse can be detected
+ */
+export async function findSessionByHash(
+  refreshTokenHash: string
+): Promise<(UserSession & { user: User }) | null> {
   return prisma.userSession.findFirst({
     where: {
       refreshTokenHash,
-      revokedAt: null,
       deletedAt: null,
     },
     include: {
@@ -96,34 +234,295 @@ export async function revokeSession(sessionId: number): Promise<UserSession> {
   });
 }
 
+/**
+ * Revoke every still-active session descending from the same login
+ */
+export async function revokeSessionFamily(familyId: string): Promise<number> {
+  const result = await prisma.userSession.updateMany({
+    where: {
+      familyId,
+      revokedAt: null,
+    },
+    data: {
+      revokedAt: new Date(),
+    },
+  });
+
+  return result.count;
+}
+
+/**
+ * Replace a session with a new one in the same family.
+ * Returns null if the old session was already revoked (e.g. a concurrent rotation won).
+ */
 export async function rotateSession(
   oldSessionId: number,
   newSessionData: {
     userId: number;
+    familyId: string;
     refreshTokenHash: string;
     userAgent?: string;
     ipAddress?: string;
     expiresAt: Date;
   }
-): Promise<UserSession> {
+): Promise<UserSession | null> {
   return prisma.$transaction(async (tx) => {
-    await tx.userSession.update({
-      where: { id: oldSessionId },
-      data: { revokedAt: new Date() },
+    const now = new Date();
+    const { count } = await tx.userSession.updateMany({
+      where: { id: oldSessionId, revokedAt: null },
+      data: { revokedAt: now, rotatedAt: now, lastUsedAt: now },
     });
 
+    if (count === 0) {
+      return null;
+    }
+
     return tx.userSession.create({
       data: {
         userId: newSessionData.userId,
+        familyId: newSessionData.familyId,
         refreshTokenHash: newSessionData.refreshTokenHash,
         userAgent: newSessionData.userAgent,
         ipAddress: newSessionData.ipAddress,
         expiresAt: newSessionData.expiresAt,
+        lastUsedAt: now,
+      },
+    });
+  });
+}
+
+export async function findActiveSessionsByUserId(userId: number): Promise<UserSession[]> {
+  return prisma.userSession.findMany({
+    where: {
+      userId,
+      revokedAt: null,
+      deletedAt: null,
+      expiresAt: { gt: new Date() },
+    },
+    orderBy: {
+      createdAt: 'desc',
+    },
+  });
+}
+
+/**
+ * Revoke one of the user's active sessions; returns false if it does not exist or is not theirs
+ */
+export async function revokeUserSession(userId: number, sessionId: number): Promise<boolean> {
+  const result = await prisma.userSession.updateMany({
+    where: {
+      id: sessionId,
+      userId,
+      revokedAt: null,
+      deletedAt: null,
+    },
+    data: {
+      revokedAt: new Date(),
+    },
+  });
+
+  return result.count > 0;
+}
+
+export async function revokeOtherSessions(
+  userId: number,
+  currentSessionId: number
+): Promise<number> {
+  const result = await prisma.userSession.updateMany({
+    where: {
+      userId,
+      id: { not: currentSessionId },
+      revokedAt: null,
+    },
+    data: {
+      revokedAt: new Date(),
+    },
+  });
+
+  return result.count;
+}
+
+export async function updateUserProfile(
+  userId: number,
+  data: UpdateProfileInput,
+  updatedBy: string
+): Promise<User> {
+  return prisma.user.update({
+    where: { id: userId },
+    data: {
+      ...data,
+      updatedBy,
+    },
+  });
+}
+
+/**
+ * Set a new password and revoke every other session of the user
+ *
+ * @returns Number of sessions revoked
+ */
+export async function changePassword(
+  userId: number,
+  currentSessionId: number,
+  newHashedPassword: string
+): Promise<number> {
+  return prisma.$transaction(async (tx) => {
+    await tx.user.update({
+      where: { id: userId },
+      data: {
+        password: newHashedPassword,
+        passwordChangedAt: new Date(),
+      },
+    });
+
+    const result = await tx.userSession.updateMany({
+      where: {
+        userId,
+        id: { not: currentSessionId },
+        revokedAt: null,
       },
+      data: {
+        revokedAt: new Date(),
+      },
+    });
+
+    return result.count;
+  });
+}
+
+/**
+ * Hashes of the user's most recent passwords, newest first
+ */
+export async function findPasswordHistory(userId: number, limit: number): Promise<string[]> {
+  const entries = await prisma.passwordHistory.findMany({
+    where: { userId, deletedAt: null },
+    orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+    take: limit,
+    select: { passwordHash: true },
+  });
+
+  return entries.map((entry) => entry.passwordHash);
+}
+
+/**
+ * Remember a password hash and drop entries beyond the most recent `keep`. The replaced
+ * hash is remembered first when the history does not hold it yet.
+ */
+export async function recordPasswordHistory(
+  userId: number,
+  passwordHash: string,
+  keep: number,
+  replacedHash: string | null = null
+): Promise<void> {
+  await prisma.$transaction(async (tx) => {
+    if (replacedHash && replacedHash !== passwordHash) {
+      const known = await tx.passwordHistory.findFirst({
+        where: { userId, passwordHash: replacedHash, deletedAt: null },
+        select: { id: true },
+      });
+
+      if (!known) {
+        await tx.passwordHistory.create({ data: { userId, passwordHash: replacedHash } });
+      }
+    }
+
+    await tx.passwordHistory.create({ data: { userId, passwordHash } });
+
+    // Entries of one transaction share the timestamp: the id keeps their order
+    const stale = await tx.passwordHistory.findMany({
+      where: { userId },
+      orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+      skip: keep,
+      select: { id: true },
     });
+
+    if (stale.length > 0) {
+      await tx.passwordHistory.deleteMany({
+        where: { id: { in: stale.map((entry) => entry.id) } },
+      });
+    }
   });
 }
 
+export async function createMagicLinkToken(data: {
+  userId: number;
+  tokenHash: string;
+  expiresAt: Date;
+}): Promise<MagicLinkToken> {
+  return prisma.magicLinkToken.create({
+    data,
+  });
+}
+
+export async function findMagicLinkToken(
+  tokenHash: string
+): Promise<(MagicLinkToken & { user: User }) | null> {
+  return prisma.magicLinkToken.findUnique({
+    where: { tokenHash },
+    include: {
+      user: true,
+    },
+  });
+}
+
+/**
+ * Mark a magic link as used. Clicking the link also proves ownership of the email address.
+ * Returns false if the link was already used (e.g. a concurrent request won).
+ */
+export async function consumeMagicLinkToken(tokenId: number, userId: number): Promise<boolean> {
+  return prisma.$transaction(async (tx) => {
+    const result = await tx.magicLinkToken.updateMany({
+      where: { id: tokenId, usedAt: null },
+      data: { usedAt: new Date() },
+    });
+
+    if (result.count === 0) {
+      return false;
+    }
+
+    await tx.user.updateMany({
+      where: { id: userId, emailVerifiedAt: null },
+      data: { emailVerifiedAt: new Date() },
+    });
+
+    return true;
+  });
+}
+
+export async function createLoginConfirmationToken(data: {
+  userId: number;
+  tokenHash: string;
+  expiresAt: Date;
+}): Promise<LoginConfirmationToken> {
+  return prisma.loginConfirmationToken.create({
+    data,
+  });
+}
+
+export async function findLoginConfirmationToken(
+  tokenHash: string
+): Promise<(LoginConfirmationToken & { user: User }) | null> {
+  return prisma.loginConfirmationToken.findUnique({
+    where: { tokenHash },
+    include: {
+      user: true,
+    },
+  });
+}
+
+/**
+ * Mark a login confirmation as used.
+ * Returns false if it was already used (e.g. a concurrent request won).
+ */
+export async function consumeLoginConfirmationToken(tokenId: number): Promise<boolean> {
+  const result = await prisma.loginConfirmationToken.updateMany({
+    where: { id: tokenId, usedAt: null },
+    data: { usedAt: new Date() },
+  });
+
+  return result.count > 0;
+}
+
 export async function createPasswordResetToken(data: {
   userId: number;
   tokenHash: string;
@@ -188,8 +587,34 @@ export async function resetPassword(
 export async function findEmailVerificationToken(
   tokenHash: string
 ): Promise<EmailVerificationToken | null> {
-  return prisma.emailVerificationToken.findUnique({
-    where: { tokenHash },
+  return prisma.emailVerificationToken.findFirst({
+    where: { tokenHash, deletedAt: null },
+  });
+}
+
+/**
+ * Issue a new verification token, invalidating any unused ones
+ */
+export async function replaceEmailVerificationToken(data: {
+  userId: number;
+  tokenHash: string;
+  expiresAt: Date;
+}): Promise<EmailVerificationToken> {
+  return prisma.$transaction(async (tx) => {
+    await tx.emailVerificationToken.updateMany({
+      where: {
+        userId: data.userId,
+        usedAt: null,
+        deletedAt: null,
+      },
+      data: {
+        deletedAt: new Date(),
+      },
+    });
+
+    return tx.emailVerificationToken.create({
+      data,
+    });
   });
 }
 
@@ -210,3 +635,501 @@ export async function verifyEmail(userId: number, tokenId: number): Promise<void
     });
   });
 }
+
+/**
+ * Store a pending email change, replacing any earlier pending request
+ */
+export async function createEmailChangeToken(data: {
+  userId: number;
+  newEmail: string;
+  tokenHash: string;
+  cancelTokenHash: string;
+  expiresAt: Date;
+}): Promise<EmailChangeToken> {
+  return prisma.$transaction(async (tx) => {
+    await tx.emailChangeToken.updateMany({
+      where: {
+        userId: data.userId,
+        usedAt: null,
+        cancelledAt: null,
+        deletedAt: null,
+      },
+      data: {
+        deletedAt: new Date(),
+      },
+    });
+
+    return tx.emailChangeToken.create({
+      data,
+    });
+  });
+}
+
+export async function findEmailChangeToken(
+  tokenHash: string
+): Promise<(EmailChangeToken & { user: User }) | null> {
+  return prisma.emailChangeToken.findFirst({
+    where: { tokenHash, deletedAt: null },
+    include: { user: true },
+  });
+}
+
+export async function findEmailChangeTokenByCancelHash(
+  cancelTokenHash: string
+): Promise<EmailChangeToken | null> {
+  return prisma.emailChangeToken.findFirst({
+    where: { cancelTokenHash, deletedAt: null },
+  });
+}
+
+/**
+ * Switch the user to the confirmed address.
+ * The new address is proven by the confirmation link, so it counts as verified;
+ * outstanding verification links for the old address are invalidated.
+ *
+ * @throws Prisma P2002 if the address was taken since the request was made
+ */
+export async function confirmEmailChange(
+  userId: number,
+  tokenId: number,
+  newEmail: string
+): Promise<void> {
+  await prisma.$transaction(async (tx) => {
+    await tx.user.update({
+      where: { id: userId },
+      data: {
+        email: newEmail,
+        emailVerifiedAt: new Date(),
+      },
+    });
+
+    await tx.emailChangeToken.update({
+      where: { id: tokenId },
+      data: { usedAt: new Date() },
+    });
+
+    await tx.emailVerificationToken.updateMany({
+      where: {
+        userId,
+        usedAt: null,
+        deletedAt: null,
+      },
+      data: {
+        deletedAt: new Date(),
+      },
+    });
+  });
+}
+
+export async function cancelEmailChange(tokenId: number): Promise<void> {
+  await prisma.emailChangeToken.update({
+    where: { id: tokenId },
+    data: { cancelledAt: new Date() },
+  });
+}
+
+export async function setPendingMfaSecret(userId: number, secret: string): Promise<User> {
+  return prisma.user.update({
+    where: { id: userId },
+    data: {
+      mfaSecret: secret,
+      mfaEnabledAt: null,
+      mfaLastUsedStep: null,
+    },
+  });
+}
+
+export async function enableMfa(
+  userId: number,
+  recoveryCodeHashes: string[],
+  usedStep: number
+): Promise<void> {
+  await prisma.$transaction(async (tx) => {
+    await tx.user.update({
+      where: { id: userId },
+      data: {
+        mfaEnabledAt: new Date(),
+        mfaLastUsedStep: usedStep,
+      },
+    });
+
+    await tx.mfaRecoveryCode.deleteMany({ where: { userId } });
+
+    await tx.mfaRecoveryCode.createMany({
+      data: recoveryCodeHashes.map((codeHash) => ({ userId, codeHash })),
+    });
+  });
+}
+
+export async function disableMfa(userId: number): Promise<void> {
+  await prisma.$transaction(async (tx) => {
+    await tx.user.update({
+      where: { id: userId },
+      data: {
+        mfaSecret: null,
+        mfaEnabledAt: null,
+        mfaLastUsedStep: null,
+      },
+    });
+
+    await tx.mfaRecoveryCode.deleteMany({ where: { userId } });
+  });
+}
+
+/**
+ * Record a TOTP time step as used; returns false if it (or a later step) was already used
+ */
+export async function claimMfaStep(userId: number, step: number): Promise<boolean> {
+  const result = await prisma.user.updateMany({
+    where: {
+      id: userId,
+      OR: [{ mfaLastUsedStep: null }, { mfaLastUsedStep: { lt: step } }],
+    },
+    data: { mfaLastUsedStep: step },
+  });
+
+  return result.count > 0;
+}
+
+/**
+ * Mark an unused recovery code as used; returns false if no such code exists
+ */
+export async function useMfaRecoveryCode(userId: number, codeHash: string): Promise<boolean> {
+  const result = await prisma.mfaRecoveryCode.updateMany({
+    where: {
+      userId,
+      codeHash,
+      usedAt: null,
+      deletedAt: null,
+    },
+    data: { usedAt: new Date() },
+  });
+
+  return result.count > 0;
+}
+
+/**
+ * The user's security events, newest first
+ */
+export async function findSecurityEventsByUserId(
+  userId: number,
+  options: ListSecurityEventsOptions
+): Promise<PaginatedResult<SecurityEventSummary>> {
+  const { page, perPage } = options;
+  const skip = (page - 1) * perPage;
+  const where = { userId, deletedAt: null };
+
+  const [total, data] = await Promise.all([
+    prisma.securityEvent.count({ where }),
+    prisma.securityEvent.findMany({
+      where,
+      select: {
+        id: true,
+        type: true,
+        ipAddress: true,
+        userAgent: true,
+        requestId: true,
+        metadata: true,
+        createdAt: true,
+      },
+      orderBy: { createdAt: 'desc' },
+      skip,
+      take: perPage,
+    }),
+  ]);
+
+  return {
+    data,
+    meta: {
+      total,
+      per_page: perPage,
+      current_page: page,
+      last_page: Math.ceil(total / perPage),
+      from: skip + 1,
+      to: skip + data.length,
+    },
+  };
+}
+
+/**
+ * Everything held about the user for the data export, without secrets
+ */
+export async function findAccountExportData(
+  userId: number
+): Promise<Omit<AccountExport, 'exportedAt'> | null> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: {
+      id: true,
+      name: true,
+      email: true,
+      isActive: true,
+      emailVerifiedAt: true,
+      lastLoginAt: true,
+      passwordChangedAt: true,
+      mfaEnabledAt: true,
+      locale: true,
+      timezone: true,
+      avatarUrl: true,
+      createdAt: true,
+      updatedAt: true,
+      roles: { select: { role: { select: { name: true } } } },
+      sessions: {
+        select: {
+          id: true,
+          userAgent: true,
+          ipAddress: true,
+          createdAt: true,
+          lastUsedAt: true,
+          expiresAt: true,
+          riskReasons: true,
+        },
+        orderBy: { createdAt: 'desc' },
+      },
+      identities: {
+        select: { provider: true, email: true, lastLoginAt: true, createdAt: true },
+      },
+      apiKeys: {
+        select: {
+          name: true,
+          prefix: true,
+          scopes: true,
+          expiresAt: true,
+          lastUsedAt: true,
+          lastUsedIp: true,
+          revokedAt: true,
+          createdAt: true,
+        },
+      },
+      webAuthnCredentials: {
+        select: { name: true, transports: true, backedUp: true, lastUsedAt: true, createdAt: true },
+      },
+      securityEvents: {
+        select: {
+          type: true,
+          ipAddress: true,
+          userAgent: true,
+          requestId: true,
+          metadata: true,
+          createdAt: true,
+        },
+        orderBy: { createdAt: 'desc' },
+      },
+      memberships: {
+        select: {
+          role: true,
+          createdAt: true,
+          organization: { select: { id: true, name: true } },
+        },
+        orderBy: { createdAt: 'asc' },
+      },
+    },
+  });
+
+  if (!user) {
+    return null;
+  }
+
+  const examples = await prisma.example.findMany({
+    where: { OR: [{ ownerId: userId }, { createdBy: String(userId) }] },
+    select: {
+      id: true,
+      organizationId: true,
+      name: true,
+      description: true,
+      createdAt: true,
+      updatedAt: true,
+    },
+    orderBy: { id: 'asc' },
+  });
+
+  const {
+    roles,
+    sessions,
+    identities,
+    apiKeys,
+    webAuthnCredentials,
+    securityEvents,
+    memberships,
+    ...profile
+  } = user;
+
+  return {
+    user: { ...profile, roles: roles.map(({ role }) => role.name) },
+    sessions,
+    identities,
+    apiKeys,
+    passkeys: webAuthnCredentials,
+    securityEvents,
+    organizations: memberships.map(({ role, createdAt, organization }) => ({
+      ...organization,
+      role,
+      joinedAt: createdAt,
+    })),
+    examples,
+  };
+}
+
+/**
+ * When the user signed in to create the session's family (refreshing keeps it)
+ */
+export async function findSessionSignedInAt(sessionId: number): Promise<Date | null> {
+  const session = await prisma.userSession.findUnique({
+    where: { id: sessionId },
+    select: { familyId: true },
+  });
+
+  if (!session) {
+    return null;
+  }
+
+  const first = await prisma.userSession.findFirst({
+    where: { familyId: session.familyId },
+    orderBy: { createdAt: 'asc' },
+    select: { createdAt: true },
+  });
+
+  return first?.createdAt ?? null;
+}
+
+/**
+ * Organizations that would be left without an owner if the user left them
+ */
+export async function findSolelyOwnedOrganizations(
+  userId: number
+): Promise<Pick<Organization, 'id' | 'name'>[]> {
+  return prisma.organization.findMany({
+    where: {
+      deletedAt: null,
+      memberships: {
+        some: { userId, role: 'owner' },
+        none: { role: 'owner', userId: { not: userId } },
+      },
+    },
+    select: { id: true, name: true },
+    orderBy: { name: 'asc' },
+  });
+}
+
+/**
+ * Soft delete the account on the user's own request, revoke all of its sessions
+ * and schedule the purge
+ *
+ * @returns Number of sessions revoked
+ */
+export async function scheduleAccountDeletion(userId: number, purgeAt: Date): Promise<number> {
+  return prisma.$transaction(async (tx) => {
+    await tx.user.update({
+      where: { id: userId },
+      data: {
+        deletedAt: new Date(),
+        deletedBy: String(userId),
+        purgeAt,
+      },
+    });
+
+    const result = await tx.userSession.updateMany({
+      where: { userId, revokedAt: null },
+      data: { revokedAt: new Date() },
+    });
+
+    return result.count;
+  });
+}
+
+export async function cancelAccountDeletion(userId: number): Promise<User> {
+  return prisma.user.update({
+    where: { id: userId },
+    data: {
+      deletedAt: null,
+      deletedBy: null,
+      purgeAt: null,
+      updatedBy: String(userId),
+    },
+  });
+}
+
+/**
+ * Self-deleted accounts whose grace period has ended
+ */
+export async function findAccountsDueForPurge(now: Date): Promise<Pick<User, 'id' | 'email'>[]> {
+  return prisma.user.findMany({
+    where: { purgeAt: { lte: now }, deletedAt: { not: null } },
+    select: { id: true, email: true },
+  });
+}
+
+/**
+ * Permanently delete an account whose grace period ended. Records that outlive it are
+ * anonymised: security events lose their personal details, impersonation logs the
+ * impersonator's device and network, and audit columns naming the user are cleared.
+ * Organizations the user still is the only owner of pass to their longest-standing admin
+ * (or member), and are deleted when no member remains.
+ *
+ * @returns False when the deletion was cancelled in the meantime
+ */
+export async function purgeAccount(user: Pick<User, 'id' | 'email'>, now: Date): Promise<boolean> {
+  const actor = String(user.id);
+
+  return prisma.$transaction(async (tx) => {
+    // Locks the row, so a sign-in cannot cancel the deletion halfway through the purge
+    const due = await tx.user.updateMany({
+      where: { id: user.id, purgeAt: { lte: now }, deletedAt: { not: null } },
+      data: { updatedBy: 'system' },
+    });
+
+    if (due.count === 0) {
+      return false;
+    }
+
+    const ownerships = await tx.membership.findMany({
+      where: { userId: user.id, role: 'owner', organization: { deletedAt: null } },
+      select: { organizationId: true },
+    });
+
+    for (const { organizationId } of ownerships) {
+      const others = { organizationId, userId: { not: user.id } };
+
+      if (await tx.membership.count({ where: { ...others, role: 'owner' } })) {
+        continue;
+      }
+
+      // 'admin' sorts before 'member'
+      const successor = await tx.membership.findFirst({
+        where: others,
+        orderBy: [{ role: 'asc' }, { createdAt: 'asc' }],
+      });
+
+      if (successor) {
+        await tx.membership.update({
+          where: { id: successor.id },
+          data: { role: 'owner', updatedBy: 'system' },
+        });
+      } else {
+        await tx.organization.update({
+          where: { id: organizationId },
+          data: { deletedAt: now, deletedBy: 'system' },
+        });
+      }
+    }
+
+    await tx.securityEvent.updateMany({
+      where: { OR: [{ userId: user.id }, { email: user.email }] },
+      data: { userId: null, email: null, ipAddress: null, userAgent: null },
+    });
+    await tx.impersonationLog.updateMany({
+      where: { impersonatorId: user.id },
+      data: { ipAddress: null, userAgent: null },
+    });
+    await tx.impersonationLog.updateMany({
+      where: { createdBy: actor },
+      data: { createdBy: null },
+    });
+    await tx.example.updateMany({ where: { createdBy: actor }, data: { createdBy: null } });
+    await tx.example.updateMany({ where: { updatedBy: actor }, data: { updatedBy: null } });
+    await tx.example.updateMany({ where: { deletedBy: actor }, data: { deletedBy: null } });
+    await tx.user.delete({ where: { id: user.id } });
+
+    return true;
+  });
+}
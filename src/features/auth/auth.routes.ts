@@ -3,33 +3,162 @@ import { validate } from '@/shared/middlewares/validation.middleware';
 import {
   registerSchema,
   loginSchema,
+  requestMagicLinkSchema,
+  verifyMagicLinkSchema,
+  confirmLoginSchema,
+  reportSignInSchema,
   refreshTokenSchema,
   verifyEmailSchema,
+  resendVerificationSchema,
   forgotPasswordSchema,
   resetPasswordSchema,
+  changePasswordSchema,
+  updateProfileSchema,
+  requestEmailChangeSchema,
+  emailChangeTokenSchema,
+  confirmMfaSchema,
+  verifyMfaSchema,
+  disableMfaSchema,
+  revokeSessionSchema,
+  deleteAccountSchema,
 } from '@/features/auth/auth.schema';
 import {
   register,
   login,
+  requestMagicLink,
+  verifyMagicLink,
+  confirmLogin,
+  reportSignIn,
   refresh,
   logout,
   verifyEmail,
+  resendVerification,
   forgotPassword,
   resetPassword,
+  changePassword,
+  requestEmailChange,
+  confirmEmailChange,
+  cancelEmailChange,
   me,
+  updateMe,
+  exportMe,
+  deleteMe,
+  setupMfa,
+  confirmMfa,
+  verifyMfa,
+  disableMfa,
+  listSessions,
+  revokeSession,
+  revokeOtherSessions,
+  listSecurityEvents,
+  csrfToken,
 } from '@/features/auth/auth.controller';
-import { authenticate } from '@/shared/middlewares/auth.middleware';
+import {
+  authenticate,
+  forbidApiKey,
+  forbidImpersonation,
+} from '@/shared/middlewares/auth.middleware';
+import { emailRateLimitMiddleware } from '@/shared/middlewares/security.middleware';
 
 const router = Router();
 
 router.post('/register', validate(registerSchema), register);
 router.post('/login', validate(loginSchema), login);
+router.post('/login/confirm', validate(confirmLoginSchema), confirmLogin);
+router.post(
+  '/magic-link',
+  emailRateLimitMiddleware(),
+  validate(requestMagicLinkSchema),
+  requestMagicLink
+);
+router.post('/magic-link/verify', validate(verifyMagicLinkSchema), verifyMagicLink);
 router.post('/refresh', validate(refreshTokenSchema), refresh);
+router.get('/csrf-token', csrfToken);
 router.post('/verify-email', validate(verifyEmailSchema), verifyEmail);
+router.post(
+  '/resend-verification',
+  emailRateLimitMiddleware(),
+  validate(resendVerificationSchema),
+  resendVerification
+);
 router.post('/forgot-password', validate(forgotPasswordSchema), forgotPassword);
 router.post('/reset-password', validate(resetPasswordSchema), resetPassword);
+router.post('/mfa/verify', validate(verifyMfaSchema), verifyMfa);
+router.post('/email-change/confirm', validate(emailChangeTokenSchema), confirmEmailChange);
+router.post('/email-change/cancel', validate(emailChangeTokenSchema), cancelEmailChange);
+router.post('/sessions/report', validate(reportSignInSchema), reportSignIn);
 
-router.post('/logout', authenticate, logout);
+router.post('/logout', authenticate, forbidApiKey, logout);
 router.get('/me', authenticate, me);
+router.patch(
+  '/me',
+  authenticate,
+  forbidApiKey,
+  forbidImpersonation,
+  validate(updateProfileSchema),
+  updateMe
+);
+router.post('/me/export', authenticate, forbidApiKey, forbidImpersonation, exportMe);
+router.delete(
+  '/me',
+  authenticate,
+  forbidApiKey,
+  forbidImpersonation,
+  validate(deleteAccountSchema),
+  deleteMe
+);
+router.post(
+  '/change-password',
+  authenticate,
+  forbidApiKey,
+  forbidImpersonation,
+  validate(changePasswordSchema),
+  changePassword
+);
+router.post(
+  '/email-change',
+  authenticate,
+  forbidApiKey,
+  forbidImpersonation,
+  emailRateLimitMiddleware(),
+  validate(requestEmailChangeSchema),
+  requestEmailChange
+);
+
+router.get('/sessions', authenticate, forbidApiKey, listSessions);
+router.post(
+  '/sessions/revoke-others',
+  authenticate,
+  forbidApiKey,
+  forbidImpersonation,
+  revokeOtherSessions
+);
+router.get('/security-events', authenticate, forbidApiKey, listSecurityEvents);
+router.delete(
+  '/sessions/:id',
+  authenticate,
+  forbidApiKey,
+  forbidImpersonation,
+  validate(revokeSessionSchema),
+  revokeSession
+);
+
+router.post('/mfa/setup', authenticate, forbidApiKey, forbidImpersonation, setupMfa);
+router.post(
+  '/mfa/confirm',
+  authenticate,
+  forbidApiKey,
+  forbidImpersonation,
+  validate(confirmMfaSchema),
+  confirmMfa
+);
+router.post(
+  '/mfa/disable',
+  authenticate,
+  forbidApiKey,
+  forbidImpersonation,
+  validate(disableMfaSchema),
+  disableMfa
+);
 
 export default router;
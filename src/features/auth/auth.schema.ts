@@ -1,10 +1,36 @@
 import { z } from 'zod';
+import { config } from '@/config';
+
+// Length is checked up front; the full policy (character classes, personal info,
+// history, breached passwords) is enforced by the service
+export const passwordSchema = z
+  .string()
+  .min(
+    config.auth.passwordMinLength,
+    `Password must be at least ${config.auth.passwordMinLength} characters`
+  )
+  .max(
+    config.auth.passwordMaxLength,
+    `Password must be at most ${config.auth.passwordMaxLength} characters`
+  );
+
+/**
+ * Check an IANA time zone name (e.g. "Europe/Berlin") against the runtime's tz database
+ */
+function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
 
 export const registerSchema = {
   body: z.object({
     name: z.string().min(2, 'Name must be at least 2 characters'),
     email: z.string().email('Invalid email address'),
-    password: z.string().min(12, 'Password must be at least 12 characters'),
+    password: passwordSchema,
   }),
 };
 
@@ -16,9 +42,12 @@ export const loginSchema = {
 };
 
 export const refreshTokenSchema = {
-  body: z.object({
-    refreshToken: z.string().min(1, 'Refresh token is required'),
-  }),
+  body: z
+    .object({
+      // Optional in the body: cookie transport sends it as a cookie
+      refreshToken: z.string().min(1, 'Refresh token is required').optional(),
+    })
+    .default({}),
 };
 
 export const verifyEmailSchema = {
@@ -27,6 +56,36 @@ export const verifyEmailSchema = {
   }),
 };
 
+export const resendVerificationSchema = {
+  body: z.object({
+    email: z.string().email('Invalid email address'),
+  }),
+};
+
+export const requestMagicLinkSchema = {
+  body: z.object({
+    email: z.string().email('Invalid email address'),
+  }),
+};
+
+export const verifyMagicLinkSchema = {
+  body: z.object({
+    token: z.string().min(1, 'Magic link token is required'),
+  }),
+};
+
+export const confirmLoginSchema = {
+  body: z.object({
+    token: z.string().min(1, 'Confirmation token is required'),
+  }),
+};
+
+export const reportSignInSchema = {
+  body: z.object({
+    token: z.string().min(1, 'Report token is required'),
+  }),
+};
+
 export const forgotPasswordSchema = {
   body: z.object({
     email: z.string().email('Invalid email address'),
@@ -36,6 +95,102 @@ export const forgotPasswordSchema = {
 export const resetPasswordSchema = {
   body: z.object({
     token: z.string().min(1, 'Reset token is required'),
-    password: z.string().min(12, 'Password must be at least 12 characters'),
+    password: passwordSchema,
+  }),
+};
+
+export const updateProfileSchema = {
+  body: z
+    .object({
+      name: z.string().min(2, 'Name must be at least 2 characters').max(100).optional(),
+      locale: z
+        .string()
+        .regex(/^[a-z]{2,3}(-[A-Z]{2})?$/, 'Locale must look like "en" or "en-US"')
+        .nullable()
+        .optional(),
+      timezone: z
+        .string()
+        .refine(isValidTimeZone, 'Timezone must be an IANA name like "Europe/Berlin"')
+        .nullable()
+        .optional(),
+      avatarUrl: z
+        .string()
+        .url('Invalid URL')
+        .max(2048)
+        .refine((url) => url.startsWith('https://'), 'Avatar URL must use https')
+        .nullable()
+        .optional(),
+    })
+    .refine((data) => Object.keys(data).length > 0, {
+      message: 'Provide at least one field to update',
+    }),
+};
+
+export const changePasswordSchema = {
+  body: z
+    .object({
+      currentPassword: z.string().min(1, 'Current password is required'),
+      newPassword: passwordSchema,
+    })
+    .refine((data) => data.currentPassword !== data.newPassword, {
+      message: 'New password must be different from the current password',
+      path: ['newPassword'],
+    }),
+};
+
+export const requestEmailChangeSchema = {
+  body: z.object({
+    newEmail: z.string().email('Invalid email address'),
+    password: z.string().min(1, 'Password is required'),
+  }),
+};
+
+export const emailChangeTokenSchema = {
+  body: z.object({
+    token: z.string().min(1, 'Token is required'),
+  }),
+};
+
+export const confirmMfaSchema = {
+  body: z.object({
+    code: z.string().regex(/^\d{6}$/, 'Code must be 6 digits'),
+  }),
+};
+
+export const verifyMfaSchema = {
+  body: z
+    .object({
+      mfaToken: z.string().min(1, 'MFA token is required'),
+      code: z
+        .string()
+        .regex(/^\d{6}$/, 'Code must be 6 digits')
+        .optional(),
+      recoveryCode: z.string().min(1, 'Recovery code is required').optional(),
+    })
+    .refine((data) => Boolean(data.code) !== Boolean(data.recoveryCode), {
+      message: 'Provide either a code or a recovery code',
+      path: ['code'],
+    }),
+};
+
+export const disableMfaSchema = {
+  body: z.object({
+    password: z.string().min(1, 'Password is required').optional(),
+    code: z
+      .string()
+      .regex(/^\d{6}$/, 'Code must be 6 digits')
+      .optional(),
+  }),
+};
+
+export const deleteAccountSchema = {
+  body: z.object({
+    password: z.string().min(1, 'Password is required').optional(),
+  }),
+};
+
+export const revokeSessionSchema = {
+  params: z.object({
+    id: z.string().regex(/^\d+$/, 'ID must be a number'),
   }),
 };
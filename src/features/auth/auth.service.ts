@@ -1,39 +1,82 @@
-import jwt, { SignOptions } from 'jsonwebtoken';
-import { addMinutes, addDays, isAfter } from 'date-fns';
+import crypto from 'crypto';
+import { SignOptions } from 'jsonwebtoken';
+import { addMinutes, addDays, subDays, subMinutes, isAfter } from 'date-fns';
 import { config } from '@/config';
 import { sendEmail } from '@/shared/utils/mailer';
+import { logger } from '@/shared/utils/logger';
+import { signJwt, verifyJwt } from '@/shared/utils/jwt';
+import { generateTotpSecret, verifyTotp, buildTotpUri } from '@/shared/utils/totp';
+import { invalidateSessionState, invalidateUserSessionStates } from '@/shared/utils/sessionState';
+import { assertPasswordPolicy } from '@/shared/utils/passwordPolicy';
+import { assessLoginRisk, userAgentFamily, LoginRisk } from '@/shared/utils/loginRisk';
+import { recordSecurityEvent, SecurityEventContext } from '@/shared/utils/securityEvents';
 import {
   hashPassword,
   verifyPassword,
   generateRandomToken,
   hashToken,
 } from '@/shared/utils/crypto';
+import { Prisma } from '@prisma/client';
+import type { User, UserSession } from '@prisma/client';
 import * as authRepository from '@/features/auth/auth.repository';
 import {
   UserSessionPayload,
   AuthTokens,
   LoginInput,
+  LoginResult,
+  LoginConfirmationRequired,
+  ConfirmLoginInput,
+  ReportSignInInput,
+  MfaChallengePayload,
+  MfaSetupResult,
+  ConfirmMfaInput,
+  VerifyMfaInput,
+  DisableMfaInput,
   RegisterInput,
   RefreshTokenInput,
   VerifyEmailInput,
+  RequestMagicLinkInput,
+  VerifyMagicLinkInput,
+  ResendVerificationInput,
   ForgotPasswordInput,
   ResetPasswordInput,
+  ChangePasswordInput,
+  ChangePasswordResult,
+  StartImpersonationInput,
+  ImpersonationResult,
+  RequestEmailChangeInput,
+  EmailChangeTokenInput,
+  UpdateProfileInput,
+  SessionSummary,
+  ListSecurityEventsOptions,
+  SecurityEventSummary,
+  DeleteAccountInput,
+  AccountDeletionResult,
+  AccountExport,
 } from '@/features/auth/auth.types';
+import type { PaginatedResult } from '@/shared/types/pagination.types';
 import {
   UnauthorizedError,
   ValidationError,
   ForbiddenError,
   NotFoundError,
   ConflictError,
+  BadRequestError,
 } from '@/shared/errors';
 
+const MFA_CHALLENGE_PURPOSE = 'mfa_challenge';
+const MFA_CHALLENGE_AUDIENCE = `${config.jwt.audience}:mfa`;
+
 // Dummy hash for timing attack mitigation
 const DUMMY_HASH =
   '$argon2id$v=19$m=65536,t=3,p=4$eprA2z2fyrvIF8a5ZMzbSg$/XUlFrh99IiT3TZRtL/0deGSKGIxKVB7GeEvM0a81GA';
 
-function generateAccessToken(payload: UserSessionPayload): string {
-  return jwt.sign(payload, config.jwt.secret, {
-    expiresIn: config.jwt.accessExpiration as SignOptions['expiresIn'],
+function generateAccessToken(
+  payload: UserSessionPayload,
+  expiresIn: SignOptions['expiresIn'] = config.jwt.accessExpiration as SignOptions['expiresIn']
+): string {
+  return signJwt(payload, {
+    expiresIn,
     issuer: config.jwt.issuer,
     audience: config.jwt.audience,
   });
@@ -43,15 +86,384 @@ function generateRefreshToken(): string {
   return generateRandomToken();
 }
 
+function generateMfaChallengeToken(userId: number): string {
+  const payload: MfaChallengePayload = { userId, purpose: MFA_CHALLENGE_PURPOSE };
+
+  return signJwt(payload, {
+    expiresIn: `${config.auth.mfaChallengeExpiresMinutes}m`,
+    issuer: config.jwt.issuer,
+    audience: MFA_CHALLENGE_AUDIENCE,
+  });
+}
+
+function verifyMfaChallengeToken(token: string): MfaChallengePayload {
+  try {
+    const payload = verifyJwt(token, {
+      issuer: config.jwt.issuer,
+      audience: MFA_CHALLENGE_AUDIENCE,
+    }) as MfaChallengePayload;
+
+    if (payload.purpose !== MFA_CHALLENGE_PURPOSE) {
+      throw new Error('Unexpected token purpose');
+    }
+
+    return payload;
+  } catch {
+    throw new UnauthorizedError('Invalid or expired MFA challenge');
+  }
+}
+
+function generateRecoveryCode(): string {
+  const code = crypto.randomBytes(5).toString('hex');
+  return `${code.slice(0, 5)}-${code.slice(5)}`;
+}
+
+/**
+ * Hashes a new password must not match: the current password and the recent history
+ */
+async function getPreviousPasswordHashes(user: User): Promise<string[]> {
+  if (config.auth.passwordHistorySize <= 0) {
+    return [];
+  }
+
+  const history = await authRepository.findPasswordHistory(
+    user.id,
+    config.auth.passwordHistorySize
+  );
+
+  return user.password
+    ? [user.password, ...history.filter((hash) => hash !== user.password)]
+    : history;
+}
+
+/**
+ * Record a new password in the history, along with the one it replaces (passwords set
+ * before the history existed are not in it yet)
+ */
+async function rememberPassword(
+  userId: number,
+  hashedPassword: string,
+  replacedHash: string | null = null
+): Promise<void> {
+  if (config.auth.passwordHistorySize > 0) {
+    await authRepository.recordPasswordHistory(
+      userId,
+      hashedPassword,
+      config.auth.passwordHistorySize,
+      replacedHash
+    );
+  }
+}
+
+function normalizeRecoveryCode(code: string): string {
+  return code.trim().toLowerCase();
+}
+
+async function recordFailedLogin(user: User, client: SignInClient, reason: string): Promise<void> {
+  const attempts = user.failedLoginAttempts + 1;
+  let lockedUntil = null;
+
+  if (attempts >= config.auth.maxLoginAttempts) {
+    lockedUntil = addMinutes(new Date(), config.auth.lockDurationMinutes);
+  }
+
+  await authRepository.updateUserLoginStats(user.id, {
+    failedLoginAttempts: attempts,
+    lockedUntil: lockedUntil,
+  });
+
+  await recordSecurityEvent({
+    type: 'login_failed',
+    userId: user.id,
+    email: user.email,
+    context: client,
+    metadata: { reason, failedAttempts: attempts },
+  });
+
+  if (lockedUntil) {
+    await recordSecurityEvent({
+      type: 'account_locked',
+      userId: user.id,
+      email: user.email,
+      context: client,
+      metadata: { lockedUntil: lockedUntil.toISOString(), failedAttempts: attempts },
+    });
+  }
+}
+
+/**
+ * Deleted by the user and still inside the grace period, where signing in restores the account
+ */
+function isPendingDeletion(user: User): boolean {
+  return user.deletedAt !== null && user.purgeAt !== null && isAfter(user.purgeAt, new Date());
+}
+
+function assertAccountUsable(user: User): void {
+  if (user.deletedAt && !isPendingDeletion(user)) {
+    throw new UnauthorizedError('Invalid credentials'); // Mask deleted users
+  }
+
+  if (!user.isActive) {
+    throw new ForbiddenError('Account is inactive');
+  }
+
+  if (user.lockedUntil && isAfter(user.lockedUntil, new Date())) {
+    throw new ForbiddenError(`Account locked until ${user.lockedUntil.toISOString()}`);
+  }
+
+  if (config.auth.requireVerifiedEmailForLogin && !user.emailVerifiedAt) {
+    throw new ForbiddenError('Email address is not verified');
+  }
+}
+
+/**
+ * Account checks of a sign-in; a blocked account is recorded as a failed sign-in
+ */
+export async function assertSignInAllowed(user: User, client: SignInClient): Promise<void> {
+  try {
+    assertAccountUsable(user);
+  } catch (error) {
+    await recordSecurityEvent({
+      type: 'login_failed',
+      userId: user.id,
+      email: user.email,
+      context: client,
+      metadata: { reason: 'account_unavailable', message: (error as Error).message },
+    });
+    throw error;
+  }
+}
+
+async function handleRefreshTokenReuse(
+  session: UserSession & { user: User },
+  input: RefreshTokenInput
+): Promise<void> {
+  const revokedCount = await authRepository.revokeSessionFamily(session.familyId);
+  invalidateUserSessionStates(session.userId);
+
+  await recordSecurityEvent({
+    type: 'refresh_token_reused',
+    userId: session.userId,
+    context: input,
+    metadata: { sessionId: session.id, familyId: session.familyId, revokedCount },
+  });
+
+  logger.warn(
+    {
+      event: 'refresh_token_reuse',
+      userId: session.userId,
+      sessionId: session.id,
+      familyId: session.familyId,
+      revokedCount,
+      userAgent: input.userAgent,
+      ipAddress: input.ipAddress,
+    },
+    'Refresh token reuse detected, session family revoked'
+  );
+
+  await sendEmail(
+    session.user.email,
+    'Security alert: your session was revoked',
+    'A previously used sign-in token for your account was presented again, which can mean it was stolen. ' +
+      'We signed out the affected device. If you did not expect this, change your password.'
+  );
+}
+
+async function buildSessionPayload(userId: number, sessionId: number): Promise<UserSessionPayload> {
+  const { roles, permissions } = await authRepository.findUserAuthorization(userId);
+
+  return { userId, sessionId, roles, permissions };
+}
+
+type SignInClient = { userAgent?: string; ipAddress?: string; requestId?: string };
+
+/**
+ * Compare a sign-in with the user's recent sessions
+ */
+async function assessSignIn(userId: number, client: SignInClient): Promise<LoginRisk> {
+  const previous = await authRepository.findRecentSignIns(
+    userId,
+    subDays(new Date(), config.auth.loginRiskLookbackDays)
+  );
+
+  return assessLoginRisk(client, previous, config.auth.loginTravelWindowMinutes);
+}
+
+function describeSignIn(client: SignInClient): string {
+  return [
+    `Device: ${userAgentFamily(client.userAgent)}`,
+    `IP address: ${client.ipAddress ?? 'unknown'}`,
+    `Time: ${new Date().toISOString()}`,
+  ].join('\n');
+}
+
+/**
+ * Hold back the tokens of a high-risk sign-in and email a link to confirm it
+ */
+async function requireLoginConfirmation(
+  user: User,
+  client: SignInClient,
+  risk: LoginRisk
+): Promise<LoginConfirmationRequired> {
+  const token = generateRandomToken();
+
+  await authRepository.createLoginConfirmationToken({
+    userId: user.id,
+    tokenHash: await hashToken(token),
+    expiresAt: addMinutes(new Date(), config.auth.loginConfirmationExpiresMinutes),
+  });
+
+  logger.warn(
+    {
+      event: 'sign_in_confirmation_required',
+      userId: user.id,
+      reasons: risk.reasons,
+      userAgent: client.userAgent,
+      ipAddress: client.ipAddress,
+    },
+    'High-risk sign-in held until confirmed by email'
+  );
+
+  const confirmUrl = `${config.app.url}/confirm-sign-in?token=${token}`;
+
+  await sendEmail(
+    user.email,
+    'Confirm your sign-in',
+    `We held back a sign-in to your account because it came from an unfamiliar device or location.\n\n` +
+      `${describeSignIn(client)}\n\n` +
+      `If this was you, confirm it here: ${confirmUrl}\n` +
+      `The link expires in ${config.auth.loginConfirmationExpiresMinutes} minutes. ` +
+      'If this was not you, change your password.'
+  );
+
+  return { confirmationRequired: true };
+}
+
+/**
+ * Signing in during the grace period of a self-service deletion keeps the account
+ */
+async function cancelAccountDeletion(user: User, client: SignInClient): Promise<void> {
+  await authRepository.cancelAccountDeletion(user.id);
+
+  await recordSecurityEvent({
+    type: 'account_deletion_cancelled',
+    userId: user.id,
+    email: user.email,
+    context: client,
+  });
+
+  await sendEmail(
+    user.email,
+    'Account deletion cancelled',
+    'You signed in to your account, so it is no longer scheduled for deletion.'
+  );
+}
+
+/**
+ * Create the session and its tokens. Unfamiliar sign-ins are logged and, when enabled,
+ * announced by email with a link that signs the new session out.
+ */
+async function createSessionTokens(
+  user: User,
+  client: SignInClient,
+  risk: LoginRisk,
+  notify: boolean
+): Promise<AuthTokens> {
+  if (user.deletedAt) {
+    await cancelAccountDeletion(user, client);
+  }
+
+  // Reset login statistics on success...
+  await authRepository.updateUserLoginStats(user.id, {
+    failedLoginAttempts: 0,
+    lockedUntil: null,
+    lastLoginAt: new Date(),
+  });
+
+  const reportToken =
+    notify && config.auth.loginAlerts && risk.reasons.length > 0 ? generateRandomToken() : null;
+
+  // Create the session and tokens...
+  const refreshToken = generateRefreshToken();
+  const refreshTokenHash = await hashToken(refreshToken);
+  const expiresAt = addDays(new Date(), config.auth.refreshTokenExpiresDays);
+
+  const session = await authRepository.createSession({
+    userId: user.id,
+    refreshTokenHash,
+    userAgent: client.userAgent,
+    ipAddress: client.ipAddress,
+    expiresAt,
+    riskReasons: risk.reasons,
+    reportTokenHash: reportToken ? await hashToken(reportToken) : undefined,
+  });
+
+  await recordSecurityEvent({
+    type: 'login_succeeded',
+    userId: user.id,
+    email: user.email,
+    context: client,
+    metadata: { sessionId: session.id, riskReasons: risk.reasons },
+  });
+
+  if (risk.reasons.length > 0) {
+    logger.info(
+      { event: 'unfamiliar_sign_in', userId: user.id, sessionId: session.id, ...risk },
+      'Sign-in from an unfamiliar device or network'
+    );
+  }
+
+  if (reportToken) {
+    const reportUrl = `${config.app.url}/report-sign-in?token=${reportToken}`;
+
+    await sendEmail(
+      user.email,
+      'New sign-in to your account',
+      `Your account was just signed in to from a new device or location.\n\n` +
+        `${describeSignIn(client)}\n\n` +
+        `If this was you, you can ignore this email. If this wasn't you, sign that device out here ` +
+        `and change your password: ${reportUrl}`
+    );
+  }
+
+  const accessToken = generateAccessToken(await buildSessionPayload(user.id, session.id));
+
+  return { accessToken, refreshToken };
+}
+
+/**
+ * Create a session for a fully authenticated user and issue its tokens.
+ * Every sign-in method must finish here. High-risk sign-ins wait for email
+ * confirmation instead when `AUTH_CONFIRM_HIGH_RISK_LOGIN` is enabled.
+ */
+async function issueTokens(
+  user: User,
+  client: SignInClient
+): Promise<AuthTokens | LoginConfirmationRequired> {
+  const risk = await assessSignIn(user.id, client);
+
+  if (risk.level === 'high' && config.auth.confirmHighRiskLogin) {
+    return requireLoginConfirmation(user, client, risk);
+  }
+
+  return createSessionTokens(user, client, risk, true);
+}
+
 export async function register(
   input: RegisterInput
 ): Promise<{ message: string; user: { id: number; email: string; name: string } }> {
+  if (config.auth.inviteOnly) {
+    throw new ForbiddenError('Registration is by invitation only');
+  }
+
   const existingUser = await authRepository.findUserByEmail(input.email);
 
   if (existingUser) {
     throw new ConflictError('Email already registered');
   }
 
+  await assertPasswordPolicy(input.password, { email: input.email, name: input.name });
+
   const hashedPassword = await hashPassword(input.password);
 
   const verificationToken = generateRandomToken();
@@ -62,8 +474,10 @@ export async function register(
     input,
     hashedPassword,
     verificationTokenHash,
-    tokenExpiresAt
+    tokenExpiresAt,
+    config.auth.defaultRole
   );
+  await rememberPassword(newUser.id, hashedPassword);
 
   const verifyUrl = `${config.app.url}/verify-email?token=${verificationToken}`;
 
@@ -83,7 +497,7 @@ export async function register(
   };
 }
 
-export async function login(input: LoginInput): Promise<AuthTokens> {
+export async function login(input: LoginInput): Promise<LoginResult> {
   const user = await authRepository.findUserByEmail(input.email);
 
   // Timing Mitigation: Always verify password, even if user not found
@@ -95,62 +509,165 @@ export async function login(input: LoginInput): Promise<AuthTokens> {
   if (!isValidPassword || !user) {
     if (user) {
       // Record failed attempt if user exists (even if we don't tell them)
-      const attempts = user.failedLoginAttempts + 1;
-      let lockedUntil = null;
-
-      if (attempts >= config.auth.maxLoginAttempts) {
-        lockedUntil = addMinutes(new Date(), config.auth.lockDurationMinutes);
-      }
-
-      await authRepository.updateUserLoginStats(user.id, {
-        failedLoginAttempts: attempts,
-        lockedUntil: lockedUntil,
+      await recordFailedLogin(user, input, 'invalid_password');
+    } else {
+      await recordSecurityEvent({
+        type: 'login_failed',
+        userId: null,
+        email: input.email,
+        context: input,
+        metadata: { reason: 'unknown_account' },
       });
     }
 
     throw new UnauthorizedError('Invalid credentials');
   }
 
-  // 2. Check Account Status (Only reachable if password and user are valid)
-  if (user.deletedAt) {
-    throw new UnauthorizedError('Invalid credentials'); // Mask deleted users
-  }
+  // 2. Check account status, then ask for the second factor or issue tokens
+  return completeSignIn(user, input);
+}
 
-  if (!user.isActive) {
-    throw new ForbiddenError('Account is inactive');
-  }
+/**
+ * Finish a sign-in once the first factor has been verified (password, external provider...):
+ * enforce the account checks, then either hold tokens back until the second factor is verified
+ * or create the session. `multiFactor` marks a first factor that already counts as two
+ * (a user-verified passkey), which skips the TOTP step.
+ */
+export async function completeSignIn(
+  user: User,
+  client: SignInClient,
+  options: { multiFactor?: boolean } = {}
+): Promise<LoginResult> {
+  await assertSignInAllowed(user, client);
 
-  if (user.lockedUntil && isAfter(user.lockedUntil, new Date())) {
-    throw new ForbiddenError(`Account locked until ${user.lockedUntil.toISOString()}`);
+  if (user.mfaEnabledAt && !options.multiFactor) {
+    return { mfaRequired: true, mfaToken: generateMfaChallengeToken(user.id) };
   }
 
-  // Reset login statistics on success...
-  await authRepository.updateUserLoginStats(user.id, {
-    failedLoginAttempts: 0,
-    lockedUntil: null,
-    lastLoginAt: new Date(),
-  });
+  return issueTokens(user, client);
+}
 
-  // Create the session and tokens...
-  const refreshToken = generateRefreshToken();
-  const refreshTokenHash = await hashToken(refreshToken);
-  const expiresAt = addDays(new Date(), config.auth.refreshTokenExpiresDays);
+/**
+ * Email a single-use sign-in link (passwordless login)
+ */
+export async function requestMagicLink(input: RequestMagicLinkInput): Promise<void> {
+  const user = await authRepository.findUserByEmail(input.email);
 
-  const session = await authRepository.createSession({
+  if (!user || (user.deletedAt && !isPendingDeletion(user))) {
+    // Timing Mitigation: Simulate work to prevent enumeration
+    await verifyPassword('dummy', DUMMY_HASH);
+    return;
+  }
+
+  const token = generateRandomToken();
+  const tokenHash = await hashToken(token);
+  const expiresAt = addMinutes(new Date(), config.auth.magicLinkExpiresMinutes);
+
+  await authRepository.createMagicLinkToken({
     userId: user.id,
-    refreshTokenHash,
-    userAgent: input.userAgent,
-    ipAddress: input.ipAddress,
+    tokenHash,
     expiresAt,
   });
 
-  const accessToken = generateAccessToken({
-    userId: user.id,
-    sessionId: session.id,
-    role: 'user',
+  const magicLinkUrl = `${config.app.url}/magic-link?token=${token}`;
+
+  await sendEmail(
+    user.email,
+    'Your sign-in link',
+    `Click here to sign in: ${magicLinkUrl}\n\nThe link expires in ${config.auth.magicLinkExpiresMinutes} minutes and can only be used once.`
+  );
+}
+
+/**
+ * Sign in with a magic link. Subject to the same account checks and MFA step as a password login.
+ */
+export async function verifyMagicLink(input: VerifyMagicLinkInput): Promise<LoginResult> {
+  const tokenHash = await hashToken(input.token);
+
+  const tokenRecord = await authRepository.findMagicLinkToken(tokenHash);
+
+  if (!tokenRecord || tokenRecord.usedAt || isAfter(new Date(), tokenRecord.expiresAt)) {
+    throw new UnauthorizedError('Invalid or expired magic link');
+  }
+
+  const { user } = tokenRecord;
+
+  // The link was delivered to the inbox, so it proves ownership of the address
+  await assertSignInAllowed(
+    { ...user, emailVerifiedAt: user.emailVerifiedAt ?? new Date() },
+    input
+  );
+
+  const consumed = await authRepository.consumeMagicLinkToken(tokenRecord.id, user.id);
+
+  if (!consumed) {
+    throw new UnauthorizedError('Invalid or expired magic link');
+  }
+
+  if (user.mfaEnabledAt) {
+    return { mfaRequired: true, mfaToken: generateMfaChallengeToken(user.id) };
+  }
+
+  return issueTokens(user, input);
+}
+
+/**
+ * Complete a high-risk sign-in from the link in the confirmation email.
+ * The link proves access to the inbox, so the session is created without another risk check.
+ */
+export async function confirmLogin(input: ConfirmLoginInput): Promise<AuthTokens> {
+  const tokenHash = await hashToken(input.token);
+
+  const tokenRecord = await authRepository.findLoginConfirmationToken(tokenHash);
+
+  if (!tokenRecord || tokenRecord.usedAt || isAfter(new Date(), tokenRecord.expiresAt)) {
+    throw new UnauthorizedError('Invalid or expired confirmation link');
+  }
+
+  await assertSignInAllowed(tokenRecord.user, input);
+
+  const consumed = await authRepository.consumeLoginConfirmationToken(tokenRecord.id);
+
+  if (!consumed) {
+    throw new UnauthorizedError('Invalid or expired confirmation link');
+  }
+
+  const risk = await assessSignIn(tokenRecord.user.id, input);
+
+  return createSessionTokens(tokenRecord.user, input, risk, false);
+}
+
+/**
+ * Sign out the session a "new sign-in" notice was sent for ("this wasn't me" link),
+ * including the sessions its refresh token was rotated into
+ */
+export async function reportSignIn(input: ReportSignInInput): Promise<void> {
+  const session = await authRepository.findSessionByReportTokenHash(await hashToken(input.token));
+
+  if (!session) {
+    throw new NotFoundError('Invalid sign-in report link');
+  }
+
+  const revokedCount = await authRepository.revokeSessionFamily(session.familyId);
+  invalidateUserSessionStates(session.userId);
+
+  await recordSecurityEvent({
+    type: 'sign_in_reported',
+    userId: session.userId,
+    context: input,
+    metadata: { sessionId: session.id, familyId: session.familyId, revokedCount },
   });
 
-  return { accessToken, refreshToken };
+  logger.warn(
+    {
+      event: 'sign_in_reported',
+      userId: session.userId,
+      sessionId: session.id,
+      familyId: session.familyId,
+      revokedCount,
+    },
+    'Sign-in reported as not made by the user, session family revoked'
+  );
 }
 
 export async function refresh(input: RefreshTokenInput): Promise<AuthTokens> {
@@ -162,6 +679,12 @@ export async function refresh(input: RefreshTokenInput): Promise<AuthTokens> {
     throw new UnauthorizedError('Invalid refresh token');
   }
 
+  // An already-rotated token means it was copied: treat the whole family as compromised
+  if (session.rotatedAt) {
+    await handleRefreshTokenReuse(session, input);
+    throw new UnauthorizedError('Refresh token reuse detected');
+  }
+
   if (isAfter(new Date(), session.expiresAt)) {
     throw new UnauthorizedError('Session expired');
   }
@@ -170,29 +693,138 @@ export async function refresh(input: RefreshTokenInput): Promise<AuthTokens> {
     throw new UnauthorizedError('Session revoked');
   }
 
+  if (!session.user.isActive || session.user.deletedAt) {
+    throw new UnauthorizedError('Session revoked');
+  }
+
   const newRefreshToken = generateRefreshToken();
   const newRefreshTokenHash = await hashToken(newRefreshToken);
   const newExpiresAt = addDays(new Date(), config.auth.refreshTokenExpiresDays);
 
   const newSession = await authRepository.rotateSession(session.id, {
     userId: session.userId,
+    familyId: session.familyId,
     refreshTokenHash: newRefreshTokenHash,
     userAgent: input.userAgent || session.userAgent || undefined,
     ipAddress: input.ipAddress || session.ipAddress || undefined,
     expiresAt: newExpiresAt,
   });
 
-  const accessToken = generateAccessToken({
+  invalidateSessionState(session.id);
+
+  if (!newSession) {
+    throw new UnauthorizedError('Session revoked');
+  }
+
+  await recordSecurityEvent({
+    type: 'token_refreshed',
     userId: session.userId,
-    sessionId: newSession.id,
-    role: 'user',
+    context: input,
+    metadata: { sessionId: newSession.id, previousSessionId: session.id },
   });
 
+  const accessToken = generateAccessToken(await buildSessionPayload(session.userId, newSession.id));
+
   return { accessToken, refreshToken: newRefreshToken };
 }
 
-export async function logout(encodedUser: UserSessionPayload): Promise<void> {
+export async function logout(
+  encodedUser: UserSessionPayload,
+  context: SecurityEventContext = {}
+): Promise<void> {
   await authRepository.revokeSession(encodedUser.sessionId);
+  invalidateSessionState(encodedUser.sessionId);
+
+  await recordSecurityEvent({
+    type: 'logout',
+    userId: encodedUser.userId,
+    context,
+    metadata: { sessionId: encodedUser.sessionId },
+  });
+}
+
+export async function listSessions(encodedUser: UserSessionPayload): Promise<SessionSummary[]> {
+  const sessions = await authRepository.findActiveSessionsByUserId(encodedUser.userId);
+
+  return sessions.map((session) => ({
+    id: session.id,
+    userAgent: session.userAgent,
+    ipAddress: session.ipAddress,
+    createdAt: session.createdAt,
+    lastUsedAt: session.lastUsedAt,
+    expiresAt: session.expiresAt,
+    current: session.id === encodedUser.sessionId,
+    riskReasons: session.riskReasons,
+  }));
+}
+
+/**
+ * The signed-in user's security event history (sign-ins, password changes...)
+ */
+export async function listSecurityEvents(
+  userId: number,
+  options: ListSecurityEventsOptions
+): Promise<PaginatedResult<SecurityEventSummary>> {
+  return authRepository.findSecurityEventsByUserId(userId, options);
+}
+
+export async function revokeUserSession(
+  encodedUser: UserSessionPayload,
+  sessionId: number
+): Promise<void> {
+  const revoked = await authRepository.revokeUserSession(encodedUser.userId, sessionId);
+
+  if (!revoked) {
+    throw NotFoundError.resource('Session', sessionId);
+  }
+
+  invalidateSessionState(sessionId);
+}
+
+export async function revokeOtherSessions(
+  encodedUser: UserSessionPayload
+): Promise<{ revokedCount: number }> {
+  const revokedCount = await authRepository.revokeOtherSessions(
+    encodedUser.userId,
+    encodedUser.sessionId
+  );
+  invalidateUserSessionStates(encodedUser.userId);
+
+  return { revokedCount };
+}
+
+/**
+ * Start a session in which an administrator acts as another user.
+ * The session's refresh token is discarded, so the access token cannot be refreshed
+ * and the session ends when it expires.
+ */
+export async function startImpersonation(
+  input: StartImpersonationInput
+): Promise<ImpersonationResult> {
+  const expiresAt = addMinutes(new Date(), config.auth.impersonationExpiresMinutes);
+
+  const session = await authRepository.createImpersonationSession({
+    impersonatorId: input.impersonatorId,
+    targetUserId: input.targetUserId,
+    refreshTokenHash: await hashToken(generateRefreshToken()),
+    reason: input.reason,
+    userAgent: input.userAgent,
+    ipAddress: input.ipAddress,
+    expiresAt,
+  });
+
+  const payload = await buildSessionPayload(input.targetUserId, session.id);
+  const accessToken = generateAccessToken(
+    { ...payload, impersonatorId: input.impersonatorId },
+    `${config.auth.impersonationExpiresMinutes}m`
+  );
+
+  logger.info(
+    { impersonatorId: input.impersonatorId, userId: input.targetUserId, sessionId: session.id },
+    'Impersonation session started'
+  );
+
+  return { accessToken, expiresAt };
 }
 
 export async function verifyEmail(input: VerifyEmailInput): Promise<void> {
@@ -213,6 +845,50 @@ export async function verifyEmail(input: VerifyEmailInput): Promise<void> {
   }
 
   await authRepository.verifyEmail(tokenRecord.userId, tokenRecord.id);
+  invalidateUserSessionStates(tokenRecord.userId);
+
+  await recordSecurityEvent({ type: 'email_verified', userId: tokenRecord.userId, context: input });
+}
+
+export async function resendVerification(input: ResendVerificationInput): Promise<void> {
+  const user = await authRepository.findUserByEmail(input.email);
+
+  if (!user || user.deletedAt || user.emailVerifiedAt) {
+    // Timing Mitigation: Simulate work to prevent enumeration
+    await verifyPassword('dummy', DUMMY_HASH);
+    return;
+  }
+
+  const token = generateRandomToken();
+  const tokenHash = await hashToken(token);
+  const expiresAt = addMinutes(new Date(), config.auth.emailTokenExpiresMinutes);
+
+  await authRepository.replaceEmailVerificationToken({
+    userId: user.id,
+    tokenHash,
+    expiresAt,
+  });
+
+  const verifyUrl = `${config.app.url}/verify-email?token=${token}`;
+
+  await sendEmail(
+    user.email,
+    'Verify your email',
+    `Please verify your email by clicking: ${verifyUrl}`
+  );
+}
+
+/**
+ * Strip credentials and MFA state so `me` and profile updates share one shape
+ */
+function toProfile(user: User) {
+  const {
+    password: _password,
+    mfaSecret: _mfaSecret,
+    mfaLastUsedStep: _mfaLastUsedStep,
+    ...profile
+  } = user;
+  return profile;
 }
 
 export async function getProfile(userId: number) {
@@ -222,8 +898,142 @@ export async function getProfile(userId: number) {
     throw new NotFoundError('User not found');
   }
 
-  const { password: _password, ...profile } = user;
-  return profile;
+  return toProfile(user);
+}
+
+/**
+ * Update the profile; changes made while impersonating are recorded as the impersonator's
+ */
+export async function updateProfile(encodedUser: UserSessionPayload, input: UpdateProfileInput) {
+  const user = await authRepository.findUserById(encodedUser.userId);
+
+  if (!user || user.deletedAt) {
+    throw new NotFoundError('User not found');
+  }
+
+  const updatedUser = await authRepository.updateUserProfile(
+    user.id,
+    input,
+    String(encodedUser.impersonatorId ?? encodedUser.userId)
+  );
+
+  return toProfile(updatedUser);
+}
+
+/**
+ * Copy of the personal data held about the user (GDPR data export)
+ */
+export async function exportAccountData(
+  userId: number,
+  context: SecurityEventContext = {}
+): Promise<AccountExport> {
+  const data = await authRepository.findAccountExportData(userId);
+
+  if (!data) {
+    throw new NotFoundError('User not found');
+  }
+
+  await recordSecurityEvent({ type: 'account_data_exported', userId, context });
+
+  return { exportedAt: new Date(), ...data };
+}
+
+/**
+ * Whether the session was signed in to (by any method) within the last minutes
+ */
+async function isRecentSignIn(sessionId: number): Promise<boolean> {
+  const signedInAt = await authRepository.findSessionSignedInAt(sessionId);
+
+  return (
+    signedInAt !== null &&
+    isAfter(signedInAt, subMinutes(new Date(), config.auth.recentSignInMinutes))
+  );
+}
+
+/**
+ * Delete the account on the user's own request. It is soft deleted and signed out everywhere
+ * right away, then purged once the grace period ends unless the user signs in again before then.
+ *
+ * The user confirms with the current password. Accounts without one (social, passkey or
+ * magic link sign-in) confirm by having signed in recently instead.
+ *
+ * @throws ValidationError without the password when the account has one
+ * @throws ForbiddenError for accounts without password when the sign-in is not recent
+ * @throws BadRequestError while the user is the only owner of an organization
+ */
+export async function deleteAccount(
+  encodedUser: UserSessionPayload,
+  input: DeleteAccountInput
+): Promise<AccountDeletionResult> {
+  const user = await authRepository.findUserById(encodedUser.userId);
+
+  if (!user || user.deletedAt) {
+    throw new NotFoundError('User not found');
+  }
+
+  if (user.password) {
+    if (!input.password) {
+      throw ValidationError.field('password', 'Password is required');
+    }
+
+    if (!(await verifyPassword(input.password, user.password))) {
+      throw new UnauthorizedError('Invalid password');
+    }
+  } else if (!(await isRecentSignIn(encodedUser.sessionId))) {
+    throw new ForbiddenError('Sign in again to delete your account');
+  }
+
+  const ownedOrganizations = await authRepository.findSolelyOwnedOrganizations(user.id);
+
+  if (ownedOrganizations.length > 0) {
+    const names = ownedOrganizations.map((organization) => organization.name).join(', ');
+    throw new BadRequestError(
+      `Transfer the ownership of your organizations or delete them first: ${names}`
+    );
+  }
+
+  const purgeAt = addDays(new Date(), config.auth.accountDeletionGraceDays);
+
+  const revokedCount = await authRepository.scheduleAccountDeletion(user.id, purgeAt);
+  invalidateUserSessionStates(user.id);
+
+  await recordSecurityEvent({
+    type: 'account_deletion_requested',
+    userId: user.id,
+    context: input,
+    metadata: { purgeAt: purgeAt.toISOString(), revokedCount },
+  });
+
+  await sendEmail(
+    user.email,
+    'Your account will be deleted',
+    `Your account has been deleted and all devices were signed out. ` +
+      `Its data will be permanently erased on ${purgeAt.toISOString()}. ` +
+      'Changed your mind? Sign in before then to keep your account.'
+  );
+
+  return { purgeAt };
+}
+
+/**
+ * Permanently delete the accounts whose deletion grace period has ended.
+ * Meant to run on a schedule (`pnpm accounts:purge`).
+ *
+ * @returns Number of accounts purged
+ */
+export async function purgeDeletedAccounts(now: Date = new Date()): Promise<number> {
+  const accounts = await authRepository.findAccountsDueForPurge(now);
+  let purged = 0;
+
+  for (const account of accounts) {
+    // Skipped when the user signed in since the lookup
+    if (await authRepository.purgeAccount(account, now)) {
+      purged++;
+      logger.info({ event: 'account_purged', userId: account.id }, 'Deleted account purged');
+    }
+  }
+
+  return purged;
 }
 
 export async function forgotPassword(input: ForgotPasswordInput): Promise<void> {
@@ -235,6 +1045,20 @@ export async function forgotPassword(input: ForgotPasswordInput): Promise<void>
     return;
   }
 
+  await sendPasswordResetLink(user);
+
+  await recordSecurityEvent({
+    type: 'password_reset_requested',
+    userId: user.id,
+    email: user.email,
+    context: input,
+  });
+}
+
+/**
+ * Issue a password reset token and email the reset link to the user
+ */
+export async function sendPasswordResetLink(user: Pick<User, 'id' | 'email'>): Promise<void> {
   const token = generateRandomToken();
   const tokenHash = await hashToken(token);
   const expiresAt = addMinutes(new Date(), config.auth.passwordResetTokenExpiresMinutes);
@@ -267,9 +1091,23 @@ export async function resetPassword(input: ResetPasswordInput): Promise<void> {
     throw new ValidationError('Invalid or expired reset token');
   }
 
+  await assertPasswordPolicy(input.password, {
+    email: tokenRecord.user.email,
+    name: tokenRecord.user.name,
+    previousHashes: await getPreviousPasswordHashes(tokenRecord.user),
+  });
+
   const hashedPassword = await hashPassword(input.password);
 
   await authRepository.resetPassword(tokenRecord.user.id, tokenRecord.id, hashedPassword);
+  await rememberPassword(tokenRecord.user.id, hashedPassword, tokenRecord.user.password);
+  invalidateUserSessionStates(tokenRecord.user.id);
+
+  await recordSecurityEvent({
+    type: 'password_reset',
+    userId: tokenRecord.user.id,
+    context: input,
+  });
 
   await sendEmail(
     tokenRecord.user.email,
@@ -277,3 +1115,316 @@ export async function resetPassword(input: ResetPasswordInput): Promise<void> {
     'Your password has been successfully changed.'
   );
 }
+
+/**
+ * Change the password of a signed-in user.
+ * Other sessions are revoked; the current one is kept and gets a fresh access token,
+ * since tokens issued before the change are no longer accepted.
+ */
+export async function changePassword(
+  encodedUser: UserSessionPayload,
+  input: ChangePasswordInput
+): Promise<ChangePasswordResult> {
+  const user = await authRepository.findUserById(encodedUser.userId);
+
+  if (!user) {
+    throw new NotFoundError('User not found');
+  }
+
+  const isValidPassword = user.password
+    ? await verifyPassword(input.currentPassword, user.password)
+    : false;
+
+  if (!isValidPassword) {
+    throw new UnauthorizedError('Invalid current password');
+  }
+
+  await assertPasswordPolicy(
+    input.newPassword,
+    {
+      email: user.email,
+      name: user.name,
+      previousHashes: await getPreviousPasswordHashes(user),
+    },
+    'newPassword'
+  );
+
+  const hashedPassword = await hashPassword(input.newPassword);
+
+  const revokedCount = await authRepository.changePassword(
+    user.id,
+    encodedUser.sessionId,
+    hashedPassword
+  );
+  await rememberPassword(user.id, hashedPassword, user.password);
+  invalidateUserSessionStates(user.id);
+
+  await recordSecurityEvent({
+    type: 'password_changed',
+    userId: user.id,
+    context: input,
+    metadata: { sessionId: encodedUser.sessionId, revokedCount },
+  });
+
+  await sendEmail(user.email, 'Password Changed', 'Your password has been successfully changed.');
+
+  const accessToken = generateAccessToken(
+    await buildSessionPayload(user.id, encodedUser.sessionId)
+  );
+
+  return { accessToken, revokedCount };
+}
+
+/**
+ * Start an email change: the new address gets a confirmation link and the old
+ * address gets a notice with a link to cancel the change.
+ */
+export async function requestEmailChange(
+  userId: number,
+  input: RequestEmailChangeInput
+): Promise<void> {
+  const user = await authRepository.findUserById(userId);
+
+  if (!user) {
+    throw new NotFoundError('User not found');
+  }
+
+  const isValidPassword = user.password
+    ? await verifyPassword(input.password, user.password)
+    : false;
+
+  if (!isValidPassword) {
+    throw new UnauthorizedError('Invalid password');
+  }
+
+  if (input.newEmail === user.email) {
+    throw ValidationError.field('newEmail', 'New email must be different from the current email');
+  }
+
+  if (await authRepository.findUserByEmail(input.newEmail)) {
+    throw new ConflictError('Email already registered');
+  }
+
+  const token = generateRandomToken();
+  const cancelToken = generateRandomToken();
+  const expiresAt = addMinutes(new Date(), config.auth.emailTokenExpiresMinutes);
+
+  await authRepository.createEmailChangeToken({
+    userId: user.id,
+    newEmail: input.newEmail,
+    tokenHash: await hashToken(token),
+    cancelTokenHash: await hashToken(cancelToken),
+    expiresAt,
+  });
+
+  const confirmUrl = `${config.app.url}/confirm-email-change?token=${token}`;
+  const cancelUrl = `${config.app.url}/cancel-email-change?token=${cancelToken}`;
+
+  await sendEmail(
+    input.newEmail,
+    'Confirm your new email',
+    `Confirm this address for your account by clicking: ${confirmUrl}`
+  );
+
+  await sendEmail(
+    user.email,
+    'Email change requested',
+    `A request was made to change your account email to ${input.newEmail}. ` +
+      `If this was not you, cancel it here and change your password: ${cancelUrl}`
+  );
+}
+
+export async function confirmEmailChange(input: EmailChangeTokenInput): Promise<void> {
+  const tokenHash = await hashToken(input.token);
+
+  const tokenRecord = await authRepository.findEmailChangeToken(tokenHash);
+
+  if (!tokenRecord) {
+    throw new NotFoundError('Invalid email change token');
+  }
+
+  if (tokenRecord.usedAt || tokenRecord.cancelledAt || isAfter(new Date(), tokenRecord.expiresAt)) {
+    throw new ValidationError('Invalid or expired email change token');
+  }
+
+  try {
+    await authRepository.confirmEmailChange(
+      tokenRecord.userId,
+      tokenRecord.id,
+      tokenRecord.newEmail
+    );
+  } catch (error) {
+    // The address was registered by someone else after the request was made
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      throw new ConflictError('Email already registered');
+    }
+    throw error;
+  }
+
+  invalidateUserSessionStates(tokenRecord.userId);
+
+  await sendEmail(
+    tokenRecord.user.email,
+    'Email address changed',
+    `Your account email has been changed to ${tokenRecord.newEmail}.`
+  );
+}
+
+export async function cancelEmailChange(input: EmailChangeTokenInput): Promise<void> {
+  const cancelTokenHash = await hashToken(input.token);
+
+  const tokenRecord = await authRepository.findEmailChangeTokenByCancelHash(cancelTokenHash);
+
+  if (!tokenRecord) {
+    throw new NotFoundError('Invalid email change token');
+  }
+
+  if (tokenRecord.usedAt) {
+    throw new ValidationError('Email change already confirmed');
+  }
+
+  if (!tokenRecord.cancelledAt) {
+    await authRepository.cancelEmailChange(tokenRecord.id);
+  }
+}
+
+export async function setupMfa(userId: number): Promise<MfaSetupResult> {
+  const user = await authRepository.findUserById(userId);
+
+  if (!user) {
+    throw new NotFoundError('User not found');
+  }
+
+  if (user.mfaEnabledAt) {
+    throw new ConflictError('Two-factor authentication is already enabled');
+  }
+
+  const secret = generateTotpSecret();
+
+  await authRepository.setPendingMfaSecret(user.id, secret);
+
+  return {
+    secret,
+    provisioningUri: buildTotpUri(secret, user.email, config.auth.mfaIssuer),
+  };
+}
+
+export async function confirmMfa(
+  userId: number,
+  input: ConfirmMfaInput
+): Promise<{ recoveryCodes: string[] }> {
+  const user = await authRepository.findUserById(userId);
+
+  if (!user) {
+    throw new NotFoundError('User not found');
+  }
+
+  if (user.mfaEnabledAt) {
+    throw new ConflictError('Two-factor authentication is already enabled');
+  }
+
+  if (!user.mfaSecret) {
+    throw new BadRequestError('Two-factor authentication setup has not been started');
+  }
+
+  const step = verifyTotp(user.mfaSecret, input.code);
+
+  if (step === null) {
+    throw ValidationError.field('code', 'Invalid verification code');
+  }
+
+  const recoveryCodes = Array.from({ length: config.auth.mfaRecoveryCodeCount }, () =>
+    generateRecoveryCode()
+  );
+  const recoveryCodeHashes = await Promise.all(recoveryCodes.map((code) => hashToken(code)));
+
+  await authRepository.enableMfa(user.id, recoveryCodeHashes, step);
+
+  await sendEmail(
+    user.email,
+    'Two-factor authentication enabled',
+    'Two-factor authentication has been enabled on your account.'
+  );
+
+  return { recoveryCodes };
+}
+
+export async function verifyMfa(
+  input: VerifyMfaInput
+): Promise<AuthTokens | LoginConfirmationRequired> {
+  const { userId } = verifyMfaChallengeToken(input.mfaToken);
+
+  const user = await authRepository.findUserById(userId);
+
+  if (!user || !user.mfaEnabledAt || !user.mfaSecret) {
+    throw new UnauthorizedError('Invalid or expired MFA challenge');
+  }
+
+  await assertSignInAllowed(user, input);
+
+  let isValid = false;
+
+  if (input.code) {
+    const step = verifyTotp(user.mfaSecret, input.code);
+    // Each time step may only be used once to prevent code replay
+    isValid = step !== null && (await authRepository.claimMfaStep(user.id, step));
+  } else if (input.recoveryCode) {
+    const codeHash = await hashToken(normalizeRecoveryCode(input.recoveryCode));
+    isValid = await authRepository.useMfaRecoveryCode(user.id, codeHash);
+  }
+
+  if (!isValid) {
+    await recordFailedLogin(user, input, 'invalid_mfa_code');
+    throw new UnauthorizedError('Invalid verification code');
+  }
+
+  return issueTokens(user, input);
+}
+
+/**
+ * Turn off two-factor authentication. The user confirms with the current password, or with a
+ * current authenticator code when the account has no password (social, passkey or magic link
+ * sign-in).
+ *
+ * @throws ValidationError without the password, or without the code for accounts without password
+ */
+export async function disableMfa(userId: number, input: DisableMfaInput): Promise<void> {
+  const user = await authRepository.findUserById(userId);
+
+  if (!user) {
+    throw new NotFoundError('User not found');
+  }
+
+  if (!user.mfaEnabledAt) {
+    throw new BadRequestError('Two-factor authentication is not enabled');
+  }
+
+  if (user.password) {
+    if (!input.password) {
+      throw ValidationError.field('password', 'Password is required');
+    }
+
+    if (!(await verifyPassword(input.password, user.password))) {
+      throw new UnauthorizedError('Invalid password');
+    }
+  } else {
+    if (!input.code) {
+      throw ValidationError.field('code', 'Code is required');
+    }
+
+    const step = user.mfaSecret ? verifyTotp(user.mfaSecret, input.code) : null;
+
+    // Each time step may only be used once to prevent code replay
+    if (step === null || !(await authRepository.claimMfaStep(user.id, step))) {
+      throw new UnauthorizedError('Invalid verification code');
+    }
+  }
+
+  await authRepository.disableMfa(user.id);
+
+  await sendEmail(
+    user.email,
+    'Two-factor authentication disabled',
+    'Two-factor authentication has been disabled on your account. If this was not you, reset your password immediately.'
+  );
+}
@@ -9,25 +9,107 @@ export interface LoginInput {
   password: string;
   userAgent?: string;
   ipAddress?: string;
+  requestId?: string;
 }
 
 export interface RefreshTokenInput {
   refreshToken: string;
   userAgent?: string;
   ipAddress?: string;
+  requestId?: string;
 }
 
 export interface VerifyEmailInput {
   token: string;
+  userAgent?: string;
+  ipAddress?: string;
+  requestId?: string;
+}
+
+export interface ResendVerificationInput {
+  email: string;
+}
+
+export interface RequestMagicLinkInput {
+  email: string;
+}
+
+export interface VerifyMagicLinkInput {
+  token: string;
+  userAgent?: string;
+  ipAddress?: string;
+  requestId?: string;
+}
+
+export interface ConfirmLoginInput {
+  token: string;
+  userAgent?: string;
+  ipAddress?: string;
+  requestId?: string;
+}
+
+export interface ReportSignInInput {
+  token: string;
+  userAgent?: string;
+  ipAddress?: string;
+  requestId?: string;
 }
 
 export interface ForgotPasswordInput {
   email: string;
+  userAgent?: string;
+  ipAddress?: string;
+  requestId?: string;
 }
 
 export interface ResetPasswordInput {
   token: string;
   password: string;
+  userAgent?: string;
+  ipAddress?: string;
+  requestId?: string;
+}
+
+export interface UpdateProfileInput {
+  name?: string;
+  locale?: string | null;
+  timezone?: string | null;
+  avatarUrl?: string | null;
+}
+
+export interface ChangePasswordInput {
+  currentPassword: string;
+  newPassword: string;
+  userAgent?: string;
+  ipAddress?: string;
+  requestId?: string;
+}
+
+export interface ChangePasswordResult {
+  accessToken: string;
+  revokedCount: number;
+}
+
+export interface StartImpersonationInput {
+  impersonatorId: number;
+  targetUserId: number;
+  reason?: string;
+  userAgent?: string;
+  ipAddress?: string;
+}
+
+export interface ImpersonationResult {
+  accessToken: string;
+  expiresAt: Date;
+}
+
+export interface RequestEmailChangeInput {
+  newEmail: string;
+  password: string;
+}
+
+export interface EmailChangeTokenInput {
+  token: string;
 }
 
 export interface AuthTokens {
@@ -35,22 +117,192 @@ export interface AuthTokens {
   refreshToken: string;
 }
 
+export interface MfaChallenge {
+  mfaRequired: true;
+  mfaToken: string;
+}
+
+/**
+ * A high-risk login waiting for confirmation from a link emailed to the user
+ */
+export interface LoginConfirmationRequired {
+  confirmationRequired: true;
+}
+
+export type LoginResult = AuthTokens | MfaChallenge | LoginConfirmationRequired;
+
+export interface MfaChallengePayload {
+  userId: number;
+  purpose: 'mfa_challenge';
+}
+
+export interface MfaSetupResult {
+  secret: string;
+  provisioningUri: string;
+}
+
+export interface ConfirmMfaInput {
+  code: string;
+}
+
+export interface VerifyMfaInput {
+  mfaToken: string;
+  code?: string;
+  recoveryCode?: string;
+  userAgent?: string;
+  ipAddress?: string;
+  requestId?: string;
+}
+
+export interface DisableMfaInput {
+  /**
+   * Required for accounts that have a password
+   */
+  password?: string;
+  /**
+   * Current authenticator code, required for accounts without password
+   */
+  code?: string;
+}
+
+export interface SessionSummary {
+  id: number;
+  userAgent: string | null;
+  ipAddress: string | null;
+  createdAt: Date;
+  lastUsedAt: Date | null;
+  expiresAt: Date;
+  current: boolean;
+  /**
+   * Why the sign-in that created the session was considered unfamiliar
+   */
+  riskReasons: string[];
+}
+
+export interface ListSecurityEventsOptions {
+  page: number;
+  perPage: number;
+}
+
+/**
+ * Entry of the user's own security event history
+ */
+export interface SecurityEventSummary {
+  id: number;
+  type: string;
+  ipAddress: string | null;
+  userAgent: string | null;
+  requestId: string | null;
+  metadata: unknown;
+  createdAt: Date;
+}
+
+export interface DeleteAccountInput {
+  /**
+   * Required for accounts that have a password
+   */
+  password?: string;
+  userAgent?: string;
+  ipAddress?: string;
+  requestId?: string;
+}
+
+export interface AccountDeletionResult {
+  /**
+   * When the account is purged unless the user signs in again before then
+   */
+  purgeAt: Date;
+}
+
+/**
+ * Copy of the personal data held about a user (GDPR data export).
+ * Secrets (password, MFA secret, token and key hashes) are left out.
+ */
+export interface AccountExport {
+  exportedAt: Date;
+  user: {
+    id: number;
+    name: string;
+    email: string;
+    isActive: boolean;
+    emailVerifiedAt: Date | null;
+    lastLoginAt: Date | null;
+    passwordChangedAt: Date | null;
+    mfaEnabledAt: Date | null;
+    locale: string | null;
+    timezone: string | null;
+    avatarUrl: string | null;
+    createdAt: Date;
+    updatedAt: Date;
+    roles: string[];
+  };
+  sessions: Omit<SessionSummary, 'current'>[];
+  identities: {
+    provider: string;
+    email: string | null;
+    lastLoginAt: Date | null;
+    createdAt: Date;
+  }[];
+  apiKeys: {
+    name: string;
+    prefix: string;
+    scopes: string[];
+    expiresAt: Date | null;
+    lastUsedAt: Date | null;
+    lastUsedIp: string | null;
+    revokedAt: Date | null;
+    createdAt: Date;
+  }[];
+  passkeys: {
+    name: string;
+    transports: string[];
+    backedUp: boolean;
+    lastUsedAt: Date | null;
+    createdAt: Date;
+  }[];
+  securityEvents: Omit<SecurityEventSummary, 'id'>[];
+  organizations: {
+    id: number;
+    name: string;
+    role: string;
+    joinedAt: Date;
+  }[];
+  examples: {
+    id: number;
+    organizationId: number;
+    name: string;
+    description: string | null;
+    createdAt: Date;
+    updatedAt: Date;
+  }[];
+}
+
 export interface UserSessionPayload {
   userId: number;
   sessionId: number;
-  role?: string; // Future proofing
+  roles?: string[];
+  permissions?: string[];
+  impersonatorId?: number;
+  apiKeyId?: number;
 }
 
 export interface JWTPayload {
   userId: number;
   sessionId: number;
-  role?: string;
+  roles?: string[];
+  permissions?: string[];
+  impersonatorId?: number;
   iat?: number;
   exp?: number;
   aud?: string;
   iss?: string;
 }
 
+export interface UserAuthorization {
+  roles: string[];
+  permissions: string[];
+}
+
 export interface AuthenticatedUser {
   id: number;
   email: string;
@@ -8,19 +8,31 @@ import exampleRoutes from '@/features/example/example.routes';
 import { PaginatedResult } from '@/features/example/example.types';
 import * as exampleService from '@/features/example/example.service';
 import { errorHandler } from '@/shared/middlewares/error.middleware';
-import { AppError } from '@/shared/errors';
+import { AppError, ForbiddenError } from '@/shared/errors';
+import { getSessionState, SessionState } from '@/shared/utils/sessionState';
+import { getMembershipRole } from '@/shared/utils/organizationAccess';
 
 // Mock Service Layer
 vi.mock('@/features/example/example.service');
 
-// Mock Auth Middleware Module
-vi.mock('@/shared/middlewares/auth.middleware', () => ({
+const { mockPermissions } = vi.hoisted(() => ({
+  mockPermissions: ['examples:read', 'examples:create', 'examples:update', 'examples:delete'],
+}));
+
+// Mock Auth Middleware Module (keep the real authorize)
+vi.mock('@/shared/middlewares/auth.middleware', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/shared/middlewares/auth.middleware')>()),
   authenticate: (req: Request, res: Response, next: NextFunction) => {
-    req.user = { userId: 1, role: 'user', sessionId: 1 };
+    req.user = { userId: 1, sessionId: 1, roles: ['user'], permissions: [...mockPermissions] };
     next();
   },
 }));
 
+// Session state backs the email verification check
+vi.mock('@/shared/utils/sessionState');
+// Membership is looked up by the organization middleware
+vi.mock('@/shared/utils/organizationAccess');
+
 const app = express();
 app.use(express.json());
 
@@ -42,6 +54,10 @@ app.use((req: Request, res: Response, next: NextFunction) => {
 app.use('/api/v1/examples', exampleRoutes);
 app.use(errorHandler);
 
+const ORGANIZATION_ID = 3;
+const TENANT = { 'X-Organization-Id': String(ORGANIZATION_ID) };
+const ACTOR = { organizationId: ORGANIZATION_ID, userId: 1, role: 'member', auditId: '1' };
+
 const mockExample = {
   id: 1,
   name: 'Test Example',
@@ -53,6 +69,10 @@ const mockExample = {
 describe('Example Feature Integration (Route/Controller)', () => {
   beforeEach(() => {
     vi.resetAllMocks();
+    vi.mocked(getSessionState).mockResolvedValue({
+      userEmailVerifiedAt: new Date(),
+    } as SessionState);
+    vi.mocked(getMembershipRole).mockResolvedValue('member');
   });
 
   describe('GET /api/v1/examples', () => {
@@ -69,13 +89,13 @@ describe('Example Feature Integration (Route/Controller)', () => {
         },
       } as unknown as PaginatedResult<Example>);
 
-      const res = await request(app).get('/api/v1/examples');
+      const res = await request(app).get('/api/v1/examples').set(TENANT);
 
       expect(res.status).toBe(200);
       expect(res.body.data).toHaveLength(1);
       expect(res.body.meta).toBeDefined();
       expect(res.body.meta.total).toBe(1);
-      expect(exampleService.getAllExamples).toHaveBeenCalledWith({ page: 1, perPage: 15 });
+      expect(exampleService.getAllExamples).toHaveBeenCalledWith(ACTOR, { page: 1, perPage: 15 });
     });
 
     it('should handle pagination query params', async () => {
@@ -91,10 +111,10 @@ describe('Example Feature Integration (Route/Controller)', () => {
         },
       } as unknown as PaginatedResult<Example>);
 
-      const res = await request(app).get('/api/v1/examples?page=2&per_page=10');
+      const res = await request(app).get('/api/v1/examples?page=2&per_page=10').set(TENANT);
 
       expect(res.status).toBe(200);
-      expect(exampleService.getAllExamples).toHaveBeenCalledWith({ page: 2, perPage: 10 });
+      expect(exampleService.getAllExamples).toHaveBeenCalledWith(ACTOR, { page: 2, perPage: 10 });
     });
   });
 
@@ -102,7 +122,7 @@ describe('Example Feature Integration (Route/Controller)', () => {
     it('should return example by id', async () => {
       vi.mocked(exampleService.getExampleById).mockResolvedValue(mockExample as Example);
 
-      const res = await request(app).get('/api/v1/examples/1');
+      const res = await request(app).get('/api/v1/examples/1').set(TENANT);
 
       expect(res.status).toBe(200);
       expect(res.body.data.id).toBe(1);
@@ -111,7 +131,7 @@ describe('Example Feature Integration (Route/Controller)', () => {
     it('should return 404 if service throws AppError', async () => {
       vi.mocked(exampleService.getExampleById).mockRejectedValue(new AppError('Not found', 404));
 
-      const res = await request(app).get('/api/v1/examples/999');
+      const res = await request(app).get('/api/v1/examples/999').set(TENANT);
 
       expect(res.status).toBe(404);
     });
@@ -121,17 +141,24 @@ describe('Example Feature Integration (Route/Controller)', () => {
     it('should create example', async () => {
       vi.mocked(exampleService.createExample).mockResolvedValue(mockExample as Example);
 
-      const res = await request(app).post('/api/v1/examples').send({
+      const res = await request(app).post('/api/v1/examples').set(TENANT).send({
         name: 'New Example',
         description: 'Desc',
       });
 
       expect(res.status).toBe(201);
       expect(res.body.data.name).toBe('Test Example');
+      expect(exampleService.createExample).toHaveBeenCalledWith(ACTOR, {
+        name: 'New Example',
+        description: 'Desc',
+      });
     });
 
     it('should fail validation on missing name', async () => {
-      const res = await request(app).post('/api/v1/examples').send({ description: 'No name' });
+      const res = await request(app)
+        .post('/api/v1/examples')
+        .set(TENANT)
+        .send({ description: 'No name' });
       expect(res.status).toBe(422);
     });
   });
@@ -140,7 +167,10 @@ describe('Example Feature Integration (Route/Controller)', () => {
     it('should update example', async () => {
       vi.mocked(exampleService.updateExample).mockResolvedValue(mockExample as Example);
 
-      const res = await request(app).put('/api/v1/examples/1').send({ name: 'Updated' });
+      const res = await request(app)
+        .put('/api/v1/examples/1')
+        .set(TENANT)
+        .send({ name: 'Updated' });
 
       expect(res.status).toBe(200);
     });
@@ -150,9 +180,107 @@ describe('Example Feature Integration (Route/Controller)', () => {
     it('should delete example', async () => {
       vi.mocked(exampleService.deleteExample).mockResolvedValue(undefined);
 
-      const res = await request(app).delete('/api/v1/examples/1');
+      const res = await request(app).delete('/api/v1/examples/1').set(TENANT);
 
       expect(res.status).toBe(200);
     });
+
+    it('should return 403 when the session lacks the delete permission', async () => {
+      const granted = mockPermissions.splice(mockPermissions.indexOf('examples:delete'), 1);
+
+      const res = await request(app).delete('/api/v1/examples/1').set(TENANT);
+
+      mockPermissions.push(...granted);
+
+      expect(res.status).toBe(403);
+      expect(res.body.error.code).toBe('AUTH_ACCESS_DENIED');
+      expect(exampleService.deleteExample).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Email verification', () => {
+    it('should return 403 when the email address is not verified', async () => {
+      vi.mocked(getSessionState).mockResolvedValue({
+        userEmailVerifiedAt: null,
+      } as SessionState);
+
+      const res = await request(app).get('/api/v1/examples').set(TENANT);
+
+      expect(res.status).toBe(403);
+      expect(exampleService.getAllExamples).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Organization scoping', () => {
+    it('should return 400 without an X-Organization-Id header', async () => {
+      const res = await request(app).get('/api/v1/examples');
+
+      expect(res.status).toBe(400);
+      expect(exampleService.getAllExamples).not.toHaveBeenCalled();
+    });
+
+    it('should return 400 for a malformed X-Organization-Id header', async () => {
+      const res = await request(app).get('/api/v1/examples').set('X-Organization-Id', 'abc');
+
+      expect(res.status).toBe(400);
+    });
+
+    it('should return 403 for an organization the user is not a member of', async () => {
+      vi.mocked(getMembershipRole).mockResolvedValue(null);
+
+      const res = await request(app).delete('/api/v1/examples/1').set('X-Organization-Id', '4');
+
+      expect(res.status).toBe(403);
+      expect(getMembershipRole).toHaveBeenCalledWith(4, 1);
+      expect(exampleService.deleteExample).not.toHaveBeenCalled();
+    });
+
+    it('should pass the organization and the acting user to every operation', async () => {
+      vi.mocked(exampleService.updateExample).mockResolvedValue(mockExample as Example);
+      vi.mocked(exampleService.deleteExample).mockResolvedValue(undefined);
+
+      await request(app).put('/api/v1/examples/1').set(TENANT).send({ name: 'Updated' });
+      await request(app).delete('/api/v1/examples/1').set(TENANT);
+
+      expect(exampleService.updateExample).toHaveBeenCalledWith(ACTOR, 1, { name: 'Updated' });
+      expect(exampleService.deleteExample).toHaveBeenCalledWith(ACTOR, 1);
+    });
+  });
+
+  describe('Sharing', () => {
+    it('should share an example with a member', async () => {
+      vi.mocked(exampleService.shareExample).mockResolvedValue([]);
+
+      const res = await request(app)
+        .put('/api/v1/examples/1/shares/5')
+        .set(TENANT)
+        .send({ permission: 'write' });
+
+      expect(res.status).toBe(200);
+      expect(exampleService.shareExample).toHaveBeenCalledWith(ACTOR, 1, 5, {
+        permission: 'write',
+      });
+    });
+
+    it('should reject unknown permissions', async () => {
+      const res = await request(app)
+        .put('/api/v1/examples/1/shares/5')
+        .set(TENANT)
+        .send({ permission: 'owner' });
+
+      expect(res.status).toBe(422);
+      expect(exampleService.shareExample).not.toHaveBeenCalled();
+    });
+
+    it('should return 403 when the user may not manage the example', async () => {
+      vi.mocked(exampleService.unshareExample).mockRejectedValue(
+        new ForbiddenError('Insufficient permission for this example')
+      );
+
+      const res = await request(app).delete('/api/v1/examples/1/shares/5').set(TENANT);
+
+      expect(res.status).toBe(403);
+      expect(exampleService.unshareExample).toHaveBeenCalledWith(ACTOR, 1, 5);
+    });
   });
 });
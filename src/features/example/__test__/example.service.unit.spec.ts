@@ -5,8 +5,8 @@
  */
 
 import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { NotFoundError } from '@/shared/errors';
-import type { Example } from '@/features/example/example.types';
+import { BadRequestError, ForbiddenError, NotFoundError, ValidationError } from '@/shared/errors';
+import type { Example, ExampleActor } from '@/features/example/example.types';
 
 // Mock the repository
 vi.mock('@/features/example/example.repository', () => ({
@@ -15,24 +15,63 @@ vi.mock('@/features/example/example.repository', () => ({
   create: vi.fn(),
   update: vi.fn(),
   softDelete: vi.fn(),
+  findSharePermission: vi.fn(),
+  findShares: vi.fn(),
+  upsertShare: vi.fn(),
+  removeShare: vi.fn(),
+}));
+
+vi.mock('@/shared/utils/organizationAccess', () => ({
+  getMembershipRole: vi.fn(),
 }));
 
 // Import after mocking
 import * as exampleRepository from '@/features/example/example.repository';
+import { getMembershipRole } from '@/shared/utils/organizationAccess';
 import {
   getAllExamples,
   getExampleById,
   createExample,
   updateExample,
   deleteExample,
+  shareExample,
+  unshareExample,
 } from '@/features/example/example.service';
 
+const ORGANIZATION_ID = 3;
+const OWNER_ID = 7;
+const MEMBER_ID = 8;
+
+const owner: ExampleActor = {
+  organizationId: ORGANIZATION_ID,
+  userId: OWNER_ID,
+  role: 'member',
+  auditId: String(OWNER_ID),
+};
+
+const member: ExampleActor = {
+  organizationId: ORGANIZATION_ID,
+  userId: MEMBER_ID,
+  role: 'member',
+  auditId: String(MEMBER_ID),
+};
+
+const admin: ExampleActor = { ...member, role: 'admin' };
+
+const serviceClient: ExampleActor = {
+  organizationId: ORGANIZATION_ID,
+  userId: null,
+  auditId: 'client:reporting',
+};
+
 // Mock example data
 const mockExample: Example = {
   id: 1,
+  organizationId: ORGANIZATION_ID,
+  ownerId: OWNER_ID,
   name: 'Test Example',
   description: 'Test description',
-  createdBy: 'user',
+  createdBy: String(OWNER_ID),
   updatedBy: null,
   deletedBy: null,
   createdAt: new Date('2026-01-15T00:00:00Z'),
@@ -43,6 +82,7 @@ const mockExample: Example = {
 describe('Example Service', () => {
   beforeEach(() => {
     vi.clearAllMocks();
+    vi.mocked(exampleRepository.findSharePermission).mockResolvedValue(null);
   });
 
   describe('getAllExamples', () => {
@@ -60,9 +100,14 @@ describe('Example Service', () => {
       };
       vi.mocked(exampleRepository.findAll).mockResolvedValue(paginatedResult);
 
-      const result = await getAllExamples({ page: 1, perPage: 15 });
+      const result = await getAllExamples(member, { page: 1, perPage: 15 });
 
-      expect(exampleRepository.findAll).toHaveBeenCalledWith({ page: 1, perPage: 15 });
+      expect(exampleRepository.findAll).toHaveBeenCalledWith({
+        organizationId: ORGANIZATION_ID,
+        visibleToUserId: MEMBER_ID,
+        page: 1,
+        perPage: 15,
+      });
       expect(result).toEqual(paginatedResult);
     });
 
@@ -80,38 +125,76 @@ describe('Example Service', () => {
       };
       vi.mocked(exampleRepository.findAll).mockResolvedValue(emptyResult);
 
-      const result = await getAllExamples({ page: 1, perPage: 15 });
+      const result = await getAllExamples(member, { page: 1, perPage: 15 });
 
       expect(result).toEqual(emptyResult);
     });
+
+    it.each([
+      ['organization admins', admin],
+      ['service clients', serviceClient],
+    ])('should list every example for %s', async (_name, actor) => {
+      vi.mocked(exampleRepository.findAll).mockResolvedValue({
+        data: [],
+        meta: { total: 0, per_page: 15, current_page: 1, last_page: 0, from: 0, to: 0 },
+      });
+
+      await getAllExamples(actor, { page: 1, perPage: 15 });
+
+      expect(vi.mocked(exampleRepository.findAll).mock.calls[0][0].visibleToUserId).toBeUndefined();
+    });
   });
 
   describe('getExampleById', () => {
-    it('should return example when found', async () => {
+    it('should return example to its owner', async () => {
       vi.mocked(exampleRepository.findById).mockResolvedValue(mockExample);
 
-      const result = await getExampleById(1);
+      const result = await getExampleById(owner, 1);
 
-      expect(exampleRepository.findById).toHaveBeenCalledWith(1);
+      expect(exampleRepository.findById).toHaveBeenCalledWith(ORGANIZATION_ID, 1);
       expect(result).toEqual(mockExample);
     });
 
     it('should throw NotFoundError when not found', async () => {
       vi.mocked(exampleRepository.findById).mockResolvedValue(null);
 
-      await expect(getExampleById(999)).rejects.toThrow(NotFoundError);
+      await expect(getExampleById(owner, 999)).rejects.toThrow(NotFoundError);
+    });
+
+    it('should not reveal examples that were not shared with the user', async () => {
+      vi.mocked(exampleRepository.findById).mockResolvedValue(mockExample);
+
+      await expect(getExampleById(member, 1)).rejects.toThrow(NotFoundError);
+      expect(exampleRepository.findSharePermission).toHaveBeenCalledWith(1, MEMBER_ID);
+    });
+
+    it('should return examples shared with the user', async () => {
+      vi.mocked(exampleRepository.findById).mockResolvedValue(mockExample);
+      vi.mocked(exampleRepository.findSharePermission).mockResolvedValue('read');
+
+      await expect(getExampleById(member, 1)).resolves.toEqual(mockExample);
+    });
+
+    it('should return examples without owner to every member', async () => {
+      vi.mocked(exampleRepository.findById).mockResolvedValue({ ...mockExample, ownerId: null });
+
+      await expect(getExampleById(member, 1)).resolves.toMatchObject({ id: 1 });
     });
   });
 
   describe('createExample', () => {
-    it('should create example with required fields', async () => {
+    it('should make the user the owner', async () => {
       const input = { name: 'New Example' };
       const created = { ...mockExample, name: 'New Example' };
       vi.mocked(exampleRepository.create).mockResolvedValue(created);
 
-      const result = await createExample(input);
+      const result = await createExample(owner, input);
 
-      expect(exampleRepository.create).toHaveBeenCalledWith(input, 'user');
+      expect(exampleRepository.create).toHaveBeenCalledWith(
+        ORGANIZATION_ID,
+        { ...input, ownerId: OWNER_ID },
+        String(OWNER_ID)
+      );
       expect(result.name).toBe('New Example');
     });
 
@@ -120,49 +203,183 @@ describe('Example Service', () => {
       const created = { ...mockExample, ...input };
       vi.mocked(exampleRepository.create).mockResolvedValue(created);
 
-      const result = await createExample(input, 'admin');
+      const result = await createExample(admin, input);
+
+      expect(exampleRepository.create).toHaveBeenCalledWith(
+        ORGANIZATION_ID,
+        { ...input, ownerId: MEMBER_ID },
+        String(MEMBER_ID)
+      );
+      expect(result.description).toBe('A description');
+    });
 
-      expect(exampleRepository.create).toHaveBeenCalledWith(input, 'admin');
+    it('should create examples of service clients without owner', async () => {
+      const input = { name: 'With Desc', description: 'A description' };
+      vi.mocked(exampleRepository.create).mockResolvedValue({
+        ...mockExample,
+        ...input,
+        ownerId: null,
+      });
+
+      const result = await createExample(serviceClient, input);
+
+      expect(exampleRepository.create).toHaveBeenCalledWith(
+        ORGANIZATION_ID,
+        { ...input, ownerId: null },
+        'client:reporting'
+      );
       expect(result.description).toBe('A description');
     });
   });
 
   describe('updateExample', () => {
     it('should update example when found', async () => {
-      const updated = { ...mockExample, name: 'Updated Name', updatedBy: 'user' };
+      const updated = { ...mockExample, name: 'Updated Name', updatedBy: String(OWNER_ID) };
       vi.mocked(exampleRepository.findById).mockResolvedValue(mockExample);
       vi.mocked(exampleRepository.update).mockResolvedValue(updated);
 
-      const result = await updateExample(1, { name: 'Updated Name' });
+      const result = await updateExample(owner, 1, { name: 'Updated Name' });
 
-      expect(exampleRepository.update).toHaveBeenCalledWith(1, { name: 'Updated Name' }, 'user');
+      expect(exampleRepository.update).toHaveBeenCalledWith(
+        ORGANIZATION_ID,
+        1,
+        { name: 'Updated Name' },
+        String(OWNER_ID)
+      );
       expect(result.name).toBe('Updated Name');
     });
 
     it('should throw NotFoundError when example not found', async () => {
       vi.mocked(exampleRepository.findById).mockResolvedValue(null);
 
-      await expect(updateExample(999, { name: 'New' })).rejects.toThrow(NotFoundError);
+      await expect(updateExample(owner, 999, { name: 'New' })).rejects.toThrow(NotFoundError);
+      expect(exampleRepository.update).not.toHaveBeenCalled();
+    });
+
+    it('should let users with write access update the example', async () => {
+      vi.mocked(exampleRepository.findById).mockResolvedValue(mockExample);
+      vi.mocked(exampleRepository.findSharePermission).mockResolvedValue('write');
+      vi.mocked(exampleRepository.update).mockResolvedValue(mockExample);
+
+      await updateExample(member, 1, { name: 'New' });
+
+      expect(exampleRepository.update).toHaveBeenCalled();
+    });
+
+    it('should throw ForbiddenError for read access', async () => {
+      vi.mocked(exampleRepository.findById).mockResolvedValue(mockExample);
+      vi.mocked(exampleRepository.findSharePermission).mockResolvedValue('read');
+
+      await expect(updateExample(member, 1, { name: 'New' })).rejects.toThrow(ForbiddenError);
       expect(exampleRepository.update).not.toHaveBeenCalled();
     });
   });
 
   describe('deleteExample', () => {
     it('should soft delete example when found', async () => {
-      const deleted = { ...mockExample, deletedAt: new Date(), deletedBy: 'user' };
+      const deleted = { ...mockExample, deletedAt: new Date(), deletedBy: String(OWNER_ID) };
       vi.mocked(exampleRepository.findById).mockResolvedValue(mockExample);
       vi.mocked(exampleRepository.softDelete).mockResolvedValue(deleted);
 
-      await deleteExample(1);
+      await deleteExample(owner, 1);
 
-      expect(exampleRepository.softDelete).toHaveBeenCalledWith(1, 'user');
+      expect(exampleRepository.softDelete).toHaveBeenCalledWith(
+        ORGANIZATION_ID,
+        1,
+        String(OWNER_ID)
+      );
     });
 
     it('should throw NotFoundError when example not found', async () => {
       vi.mocked(exampleRepository.findById).mockResolvedValue(null);
 
-      await expect(deleteExample(999)).rejects.toThrow(NotFoundError);
+      await expect(deleteExample(owner, 999)).rejects.toThrow(NotFoundError);
       expect(exampleRepository.softDelete).not.toHaveBeenCalled();
     });
+
+    it('should let every member delete examples without owner', async () => {
+      vi.mocked(exampleRepository.findById).mockResolvedValue({ ...mockExample, ownerId: null });
+      vi.mocked(exampleRepository.softDelete).mockResolvedValue(mockExample);
+
+      await deleteExample(member, 1);
+
+      expect(exampleRepository.softDelete).toHaveBeenCalledWith(
+        ORGANIZATION_ID,
+        1,
+        String(MEMBER_ID)
+      );
+    });
+
+    it('should let organization admins delete examples of others', async () => {
+      vi.mocked(exampleRepository.findById).mockResolvedValue(mockExample);
+      vi.mocked(exampleRepository.softDelete).mockResolvedValue(mockExample);
+
+      await deleteExample(admin, 1);
+
+      expect(exampleRepository.findSharePermission).not.toHaveBeenCalled();
+      expect(exampleRepository.softDelete).toHaveBeenCalled();
+    });
+
+    it('should not let users with write access delete the example', async () => {
+      vi.mocked(exampleRepository.findById).mockResolvedValue(mockExample);
+      vi.mocked(exampleRepository.findSharePermission).mockResolvedValue('write');
+
+      await expect(deleteExample(member, 1)).rejects.toThrow(ForbiddenError);
+      expect(exampleRepository.softDelete).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('shareExample', () => {
+    beforeEach(() => {
+      vi.mocked(exampleRepository.findById).mockResolvedValue(mockExample);
+      vi.mocked(getMembershipRole).mockResolvedValue('member');
+      vi.mocked(exampleRepository.findShares).mockResolvedValue([]);
+    });
+
+    it('should share the example with a member', async () => {
+      await shareExample(owner, 1, MEMBER_ID, { permission: 'write' });
+
+      expect(getMembershipRole).toHaveBeenCalledWith(ORGANIZATION_ID, MEMBER_ID);
+      expect(exampleRepository.upsertShare).toHaveBeenCalledWith(
+        1,
+        MEMBER_ID,
+        'write',
+        String(OWNER_ID)
+      );
+    });
+
+    it('should only let the owner and organization admins share', async () => {
+      vi.mocked(exampleRepository.findSharePermission).mockResolvedValue('write');
+
+      await expect(shareExample(member, 1, 9, { permission: 'read' })).rejects.toThrow(
+        ForbiddenError
+      );
+      expect(exampleRepository.upsertShare).not.toHaveBeenCalled();
+    });
+
+    it('should reject sharing with the owner', async () => {
+      await expect(shareExample(admin, 1, OWNER_ID, { permission: 'read' })).rejects.toThrow(
+        BadRequestError
+      );
+    });
+
+    it('should reject users outside the organization', async () => {
+      vi.mocked(getMembershipRole).mockResolvedValue(null);
+
+      await expect(shareExample(owner, 1, 99, { permission: 'read' })).rejects.toThrow(
+        ValidationError
+      );
+      expect(exampleRepository.upsertShare).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('unshareExample', () => {
+    it('should throw NotFoundError when the example was not shared with the user', async () => {
+      vi.mocked(exampleRepository.findById).mockResolvedValue(mockExample);
+      vi.mocked(exampleRepository.removeShare).mockResolvedValue(false);
+
+      await expect(unshareExample(owner, 1, MEMBER_ID)).rejects.toThrow(NotFoundError);
+      expect(exampleRepository.removeShare).toHaveBeenCalledWith(1, MEMBER_ID);
+    });
   });
 });
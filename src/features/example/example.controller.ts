@@ -9,8 +9,38 @@ import {
   createExample,
   updateExample,
   deleteExample,
+  listShares,
+  shareExample,
+  unshareExample,
 } from '@/features/example/example.service';
+import type { ExampleActor } from '@/features/example/example.types';
 import { sendOk, sendCreated, getRequestId } from '@/shared/utils/apiResponse';
+import { ForbiddenError, UnauthorizedError } from '@/shared/errors';
+
+/**
+ * Signed-in user or service client acting in the organization resolved by requireOrganization
+ */
+function getActor(req: Request): ExampleActor {
+  if (!req.organization) {
+    throw new ForbiddenError('Organization not resolved');
+  }
+
+  const { organizationId, role } = req.organization;
+
+  if (req.user) {
+    return { organizationId, role, userId: req.user.userId, auditId: String(req.user.userId) };
+  }
+
+  if (req.serviceClient) {
+    return { organizationId, userId: null, auditId: `client:${req.serviceClient.clientId}` };
+  }
+
+  throw new UnauthorizedError('Not authenticated');
+}
+
+function getExampleId(req: Request): number {
+  return parseInt(req.params.id as string, 10);
+}
 
 export async function index(req: Request, res: Response, next: NextFunction): Promise<void> {
   try {
@@ -19,7 +49,7 @@ export async function index(req: Request, res: Response, next: NextFunction): Pr
 
     req.log.info({ page, perPage }, 'Getting all examples');
 
-    const result = await getAllExamples({ page, perPage });
+    const result = await getAllExamples(getActor(req), { page, perPage });
 
     sendOk(res, result.data, {
       meta: result.meta as unknown as Record<string, unknown>,
@@ -32,10 +62,10 @@ export async function index(req: Request, res: Response, next: NextFunction): Pr
 
 export async function show(req: Request, res: Response, next: NextFunction): Promise<void> {
   try {
-    const id = parseInt(req.params.id as string, 10);
+    const id = getExampleId(req);
     req.log.info({ exampleId: id }, 'Getting example by ID');
 
-    const example = await getExampleById(id);
+    const example = await getExampleById(getActor(req), id);
 
     sendOk(res, example, { requestId: getRequestId(req) });
   } catch (error) {
@@ -47,7 +77,7 @@ export async function create(req: Request, res: Response, next: NextFunction): P
   try {
     req.log.info({ body: req.body }, 'Creating new example');
 
-    const example = await createExample(req.body);
+    const example = await createExample(getActor(req), req.body);
 
     sendCreated(res, example, { requestId: getRequestId(req) });
   } catch (error) {
@@ -57,10 +87,10 @@ export async function create(req: Request, res: Response, next: NextFunction): P
 
 export async function update(req: Request, res: Response, next: NextFunction): Promise<void> {
   try {
-    const id = parseInt(req.params.id as string, 10);
+    const id = getExampleId(req);
     req.log.info({ exampleId: id, body: req.body }, 'Updating example');
 
-    const example = await updateExample(id, req.body);
+    const example = await updateExample(getActor(req), id, req.body);
 
     sendOk(res, example, { requestId: getRequestId(req) });
   } catch (error) {
@@ -70,10 +100,46 @@ export async function update(req: Request, res: Response, next: NextFunction): P
 
 export async function destroy(req: Request, res: Response, next: NextFunction): Promise<void> {
   try {
-    const id = parseInt(req.params.id as string, 10);
+    const id = getExampleId(req);
     req.log.info({ exampleId: id }, 'Deleting example');
 
-    await deleteExample(id);
+    await deleteExample(getActor(req), id);
+
+    sendOk(res, null, { requestId: getRequestId(req) });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function shares(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const result = await listShares(getActor(req), getExampleId(req));
+
+    sendOk(res, result, { requestId: getRequestId(req) });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function share(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const userId = parseInt(req.params.userId as string, 10);
+    req.log.info({ exampleId: getExampleId(req), userId }, 'Sharing example');
+
+    const result = await shareExample(getActor(req), getExampleId(req), userId, req.body);
+
+    sendOk(res, result, { requestId: getRequestId(req) });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function unshare(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const userId = parseInt(req.params.userId as string, 10);
+    req.log.info({ exampleId: getExampleId(req), userId }, 'Unsharing example');
+
+    await unshareExample(getActor(req), getExampleId(req), userId);
 
     sendOk(res, null, { requestId: getRequestId(req) });
   } catch (error) {
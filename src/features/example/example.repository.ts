@@ -1,18 +1,40 @@
 /**
  * Example Repository
  *
- * Database operations for the Example model using Prisma.
+ * Database operations for the Example model and its shares using Prisma. Every
+ * query is scoped to an organization, so an ID from another organization behaves
+ * as unknown.
  */
 
+import { Prisma } from '@prisma/client';
 import prisma from '@/shared/utils/prisma';
 import type {
   Example,
   CreateExampleInput,
   UpdateExampleInput,
   ExampleId,
+  ExampleShareSummary,
+  SharePermission,
 } from '@/features/example/example.types';
 
-export async function findAll(options: { page: number; perPage: number }): Promise<{
+/**
+ * Examples a user can see: their own, those shared with them and those without an owner
+ */
+function visibleTo(userId: number): Prisma.ExampleWhereInput {
+  return {
+    OR: [{ ownerId: userId }, { ownerId: null }, { shares: { some: { userId } } }],
+  };
+}
+
+/**
+ * List examples of an organization, only those visible to `visibleToUserId` when set
+ */
+export async function findAll(options: {
+  organizationId: number;
+  visibleToUserId?: number;
+  page: number;
+  perPage: number;
+}): Promise<{
   data: Example[];
   meta: {
     total: number;
@@ -23,19 +45,18 @@ export async function findAll(options: { page: number; perPage: number }): Promi
     to: number;
   };
 }> {
-  const { page, perPage } = options;
+  const { organizationId, visibleToUserId, page, perPage } = options;
   const skip = (page - 1) * perPage;
+  const where: Prisma.ExampleWhereInput = {
+    organizationId,
+    deletedAt: null,
+    ...(visibleToUserId !== undefined && visibleTo(visibleToUserId)),
+  };
 
   const [total, data] = await Promise.all([
-    prisma.example.count({
-      where: {
-        deletedAt: null,
-      },
-    }),
+    prisma.example.count({ where }),
     prisma.example.findMany({
-      where: {
-        deletedAt: null,
-      },
+      where,
       orderBy: {
         createdAt: 'desc',
       },
@@ -59,18 +80,25 @@ export async function findAll(options: { page: number; perPage: number }): Promi
   };
 }
 
-export async function findById(id: ExampleId): Promise<Example | null> {
+export async function findById(organizationId: number, id: ExampleId): Promise<Example | null> {
   return prisma.example.findFirst({
     where: {
       id,
+      organizationId,
       deletedAt: null,
     },
   });
 }
 
-export async function create(data: CreateExampleInput, createdBy?: string): Promise<Example> {
+export async function create(
+  organizationId: number,
+  data: CreateExampleInput & { ownerId: number | null },
+  createdBy?: string
+): Promise<Example> {
   return prisma.example.create({
     data: {
+      organizationId,
+      ownerId: data.ownerId,
       name: data.name,
       description: data.description ?? null,
       createdBy: createdBy ?? null,
@@ -79,12 +107,13 @@ export async function create(data: CreateExampleInput, createdBy?: string): Prom
 }
 
 export async function update(
+  organizationId: number,
   id: ExampleId,
   data: UpdateExampleInput,
   updatedBy?: string
 ): Promise<Example> {
   return prisma.example.update({
-    where: { id },
+    where: { id, organizationId, deletedAt: null },
     data: {
       ...data,
       updatedBy: updatedBy ?? null,
@@ -92,9 +121,13 @@ export async function update(
   });
 }
 
-export async function softDelete(id: ExampleId, deletedBy?: string): Promise<Example> {
+export async function softDelete(
+  organizationId: number,
+  id: ExampleId,
+  deletedBy?: string
+): Promise<Example> {
   return prisma.example.update({
-    where: { id },
+    where: { id, organizationId, deletedAt: null },
     data: {
       deletedAt: new Date(),
       deletedBy: deletedBy ?? null,
@@ -102,9 +135,68 @@ export async function softDelete(id: ExampleId, deletedBy?: string): Promise<Exa
   });
 }
 
-export async function exists(id: ExampleId): Promise<boolean> {
+export async function exists(organizationId: number, id: ExampleId): Promise<boolean> {
   const count = await prisma.example.count({
-    where: { id },
+    where: { id, organizationId },
   });
   return count > 0;
 }
+
+export async function findSharePermission(
+  exampleId: ExampleId,
+  userId: number
+): Promise<SharePermission | null> {
+  const share = await prisma.exampleShare.findUnique({
+    where: { exampleId_userId: { exampleId, userId } },
+    select: { permission: true },
+  });
+
+  return (share?.permission as SharePermission | undefined) ?? null;
+}
+
+export async function findShares(exampleId: ExampleId): Promise<ExampleShareSummary[]> {
+  const shares = await prisma.exampleShare.findMany({
+    where: { exampleId },
+    select: {
+      permission: true,
+      createdAt: true,
+      user: { select: { id: true, name: true, email: true } },
+    },
+    orderBy: { createdAt: 'asc' },
+  });
+
+  return shares.map(({ permission, createdAt, user }) => ({
+    userId: user.id,
+    name: user.name,
+    email: user.email,
+    permission: permission as SharePermission,
+    createdAt,
+  }));
+}
+
+/**
+ * Share an example with a user, or change the permission of an existing share
+ */
+export async function upsertShare(
+  exampleId: ExampleId,
+  userId: number,
+  permission: SharePermission,
+  actor: string
+): Promise<void> {
+  await prisma.exampleShare.upsert({
+    where: { exampleId_userId: { exampleId, userId } },
+    create: { exampleId, userId, permission, createdBy: actor },
+    update: { permission, updatedBy: actor },
+  });
+}
+
+/**
+ * @returns False if the example was not shared with the user
+ */
+export async function removeShare(exampleId: ExampleId, userId: number): Promise<boolean> {
+  const result = await prisma.exampleShare.deleteMany({
+    where: { exampleId, userId },
+  });
+
+  return result.count > 0;
+}
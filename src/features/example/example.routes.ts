@@ -9,29 +9,64 @@ import {
   updateExampleSchema,
   getExampleSchema,
   deleteExampleSchema,
+  shareExampleSchema,
+  unshareExampleSchema,
 } from '@/features/example/example.schema';
-import { index, show, create, update, destroy } from '@/features/example/example.controller';
+import {
+  index,
+  show,
+  create,
+  update,
+  destroy,
+  shares,
+  share,
+  unshare,
+} from '@/features/example/example.controller';
 
-import { authenticate } from '@/shared/middlewares/auth.middleware';
+import {
+  authenticate,
+  authorize,
+  requireVerifiedEmail,
+} from '@/shared/middlewares/auth.middleware';
+import { requireOrganization } from '@/shared/middlewares/organization.middleware';
 
 const router = Router();
 
-// Apply authentication to all example routes
-router.use(authenticate);
+// Apply authentication, email verification and the organization to all example routes
+router.use(authenticate, requireVerifiedEmail, requireOrganization);
 
 // GET /examples - Get all examples
-router.get('/', index);
+router.get('/', authorize('examples:read'), index);
 
 // GET /examples/:id - Get example by ID
-router.get('/:id', validate(getExampleSchema), show);
+router.get('/:id', authorize('examples:read'), validate(getExampleSchema), show);
 
 // POST /examples - Create new example
-router.post('/', validate(createExampleSchema), create);
+router.post('/', authorize('examples:create'), validate(createExampleSchema), create);
 
 // PUT /examples/:id - Update example
-router.put('/:id', validate(updateExampleSchema), update);
+router.put('/:id', authorize('examples:update'), validate(updateExampleSchema), update);
 
 // DELETE /examples/:id - Delete example
-router.delete('/:id', validate(deleteExampleSchema), destroy);
+router.delete('/:id', authorize('examples:delete'), validate(deleteExampleSchema), destroy);
+
+// GET /examples/:id/shares - List who the example is shared with (owner, organization admins)
+router.get('/:id/shares', authorize('examples:read'), validate(getExampleSchema), shares);
+
+// PUT /examples/:id/shares/:userId - Share with a member { permission } (owner, organization admins)
+router.put(
+  '/:id/shares/:userId',
+  authorize('examples:update'),
+  validate(shareExampleSchema),
+  share
+);
+
+// DELETE /examples/:id/shares/:userId - Stop sharing with a member (owner, organization admins)
+router.delete(
+  '/:id/shares/:userId',
+  authorize('examples:update'),
+  validate(unshareExampleSchema),
+  unshare
+);
 
 export default router;
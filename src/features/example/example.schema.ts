@@ -3,6 +3,7 @@
  */
 
 import { z } from 'zod';
+import { SHARE_PERMISSIONS } from '@/features/example/example.types';
 
 export const createExampleSchema = {
   body: z.object({
@@ -32,3 +33,20 @@ export const deleteExampleSchema = {
     id: z.string().regex(/^\d+$/, 'ID must be a number'),
   }),
 };
+
+export const shareExampleSchema = {
+  params: z.object({
+    id: z.string().regex(/^\d+$/, 'ID must be a number'),
+    userId: z.string().regex(/^\d+$/, 'User ID must be a number'),
+  }),
+  body: z.object({
+    permission: z.enum(SHARE_PERMISSIONS),
+  }),
+};
+
+export const unshareExampleSchema = {
+  params: z.object({
+    id: z.string().regex(/^\d+$/, 'ID must be a number'),
+    userId: z.string().regex(/^\d+$/, 'User ID must be a number'),
+  }),
+};
@@ -1,57 +1,190 @@
 /**
  * Example Service
  *
- * Business logic for example CRUD operations.
+ * Business logic for example CRUD operations within an organization.
+ *
+ * Examples are owned by the user who created them. Owners, and the organization's
+ * owners and admins, have full access; other members only see the examples shared
+ * with them, reading or also updating them depending on the share. Examples without
+ * an owner (created before ownership existed or by service clients, or whose owner
+ * was deleted) belong to the organization as a whole: every member has full access,
+ * as before ownership existed. Service clients act on the whole organization.
+ *
+ * Examples a user cannot see respond as unknown (404); visible examples the user may
+ * not change respond with 403.
  */
 
+import { logger } from '@/shared/utils/logger';
+import { getMembershipRole } from '@/shared/utils/organizationAccess';
 import * as exampleRepository from '@/features/example/example.repository';
 import type {
   Example,
+  ExampleAccess,
+  ExampleActor,
   ExampleId,
+  ExampleShareSummary,
   CreateExampleInput,
   UpdateExampleInput,
+  ShareExampleInput,
   PaginatedResult,
 } from '@/features/example/example.types';
-import { NotFoundError } from '@/shared/errors';
+import type { OrganizationRole } from '@/shared/types/organization';
+import { BadRequestError, ForbiddenError, NotFoundError, ValidationError } from '@/shared/errors';
+
+const ACCESS_LEVELS: ExampleAccess[] = ['read', 'write', 'manage'];
+
+const MANAGER_ROLES: OrganizationRole[] = ['owner', 'admin'];
 
-export async function getAllExamples(options: {
-  page: number;
-  perPage: number;
-}): Promise<PaginatedResult<Example>> {
-  return exampleRepository.findAll(options);
+/**
+ * Whether the actor has full access to every example of the organization
+ */
+function isManager(actor: ExampleActor): boolean {
+  return actor.userId === null || (!!actor.role && MANAGER_ROLES.includes(actor.role));
 }
 
-export async function getExampleById(id: ExampleId): Promise<Example> {
-  const example = await exampleRepository.findById(id);
+/**
+ * Access of the actor to an example, or null if they cannot see it
+ */
+async function getAccess(actor: ExampleActor, example: Example): Promise<ExampleAccess | null> {
+  if (isManager(actor) || example.ownerId === null || example.ownerId === actor.userId) {
+    return 'manage';
+  }
+
+  return exampleRepository.findSharePermission(example.id, actor.userId!);
+}
 
-  if (!example) {
+/**
+ * Example the actor has at least the given access to
+ *
+ * @throws NotFoundError if the example does not exist or the actor cannot see it
+ * @throws ForbiddenError if the actor's access is insufficient
+ */
+async function findAccessibleExample(
+  actor: ExampleActor,
+  id: ExampleId,
+  required: ExampleAccess
+): Promise<Example> {
+  const example = await exampleRepository.findById(actor.organizationId, id);
+  const access = example && (await getAccess(actor, example));
+
+  if (!example || !access) {
     throw NotFoundError.resource('Example', id);
   }
 
+  if (ACCESS_LEVELS.indexOf(access) < ACCESS_LEVELS.indexOf(required)) {
+    throw new ForbiddenError('Insufficient permission for this example');
+  }
+
   return example;
 }
 
+export async function getAllExamples(
+  actor: ExampleActor,
+  options: { page: number; perPage: number }
+): Promise<PaginatedResult<Example>> {
+  return exampleRepository.findAll({
+    organizationId: actor.organizationId,
+    visibleToUserId: isManager(actor) ? undefined : actor.userId!,
+    ...options,
+  });
+}
+
+export async function getExampleById(actor: ExampleActor, id: ExampleId): Promise<Example> {
+  return findAccessibleExample(actor, id, 'read');
+}
+
+/**
+ * Create an example owned by the acting user (service clients create examples without owner)
+ */
 export async function createExample(
-  input: CreateExampleInput,
-  createdBy: string = 'user'
+  actor: ExampleActor,
+  input: CreateExampleInput
 ): Promise<Example> {
-  return exampleRepository.create(input, createdBy);
+  return exampleRepository.create(
+    actor.organizationId,
+    { ...input, ownerId: actor.userId },
+    actor.auditId
+  );
 }
 
+/**
+ * @throws ForbiddenError unless the actor manages the example or it was shared with write access
+ */
 export async function updateExample(
+  actor: ExampleActor,
   id: ExampleId,
-  input: UpdateExampleInput,
-  updatedBy: string = 'user'
+  input: UpdateExampleInput
 ): Promise<Example> {
-  // Check if exists
-  await getExampleById(id);
+  await findAccessibleExample(actor, id, 'write');
 
-  return exampleRepository.update(id, input, updatedBy);
+  return exampleRepository.update(actor.organizationId, id, input, actor.auditId);
 }
 
-export async function deleteExample(id: ExampleId, deletedBy: string = 'user'): Promise<void> {
-  // Check if exists
-  await getExampleById(id);
+/**
+ * @throws ForbiddenError unless the actor owns the example or is an organization owner or admin
+ */
+export async function deleteExample(actor: ExampleActor, id: ExampleId): Promise<void> {
+  await findAccessibleExample(actor, id, 'manage');
+
+  await exampleRepository.softDelete(actor.organizationId, id, actor.auditId);
+}
+
+export async function listShares(
+  actor: ExampleActor,
+  id: ExampleId
+): Promise<ExampleShareSummary[]> {
+  await findAccessibleExample(actor, id, 'manage');
+
+  return exampleRepository.findShares(id);
+}
+
+/**
+ * Share an example with another member of the organization, or change the share's permission
+ *
+ * @throws ForbiddenError unless the actor owns the example or is an organization owner or admin
+ * @throws BadRequestError when sharing with the example's owner
+ * @throws ValidationError if the user is not a member of the organization
+ */
+export async function shareExample(
+  actor: ExampleActor,
+  id: ExampleId,
+  userId: number,
+  input: ShareExampleInput
+): Promise<ExampleShareSummary[]> {
+  const example = await findAccessibleExample(actor, id, 'manage');
+
+  if (example.ownerId === userId) {
+    throw new BadRequestError('The owner already has full access');
+  }
+
+  if (!(await getMembershipRole(actor.organizationId, userId))) {
+    throw ValidationError.field('userId', 'User is not a member of this organization');
+  }
+
+  await exampleRepository.upsertShare(id, userId, input.permission, actor.auditId);
+
+  logger.info(
+    { actor: actor.auditId, exampleId: id, userId, permission: input.permission },
+    'Example shared'
+  );
+
+  return exampleRepository.findShares(id);
+}
+
+/**
+ * @throws ForbiddenError unless the actor owns the example or is an organization owner or admin
+ * @throws NotFoundError if the example was not shared with the user
+ */
+export async function unshareExample(
+  actor: ExampleActor,
+  id: ExampleId,
+  userId: number
+): Promise<void> {
+  await findAccessibleExample(actor, id, 'manage');
+
+  if (!(await exampleRepository.removeShare(id, userId))) {
+    throw NotFoundError.resource('Share', userId);
+  }
 
-  await exampleRepository.softDelete(id, deletedBy);
+  logger.info({ actor: actor.auditId, exampleId: id, userId }, 'Example unshared');
 }
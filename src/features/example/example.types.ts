@@ -2,11 +2,35 @@
  * Example Types
  */
 
+import type { OrganizationRole } from '@/shared/types/organization';
+
 // Use Prisma's generated type for the model
 export type { Example } from '@prisma/client';
 
 export type ExampleId = number;
 
+export type SharePermission = 'read' | 'write';
+
+export const SHARE_PERMISSIONS: SharePermission[] = ['read', 'write'];
+
+/**
+ * Access to one example, from least to most: `manage` also deletes it and manages its shares
+ */
+export type ExampleAccess = SharePermission | 'manage';
+
+/**
+ * Who acts on examples, within the organization resolved by requireOrganization
+ */
+export interface ExampleActor {
+  organizationId: number;
+  /** Signed-in user, null for service clients */
+  userId: number | null;
+  /** Role in the organization, unset for service clients */
+  role?: OrganizationRole;
+  /** Recorded in the audit columns: the user ID, or `client:<clientId>` for service clients */
+  auditId: string;
+}
+
 export interface CreateExampleInput {
   name: string;
   description?: string | null;
@@ -17,4 +41,16 @@ export interface UpdateExampleInput {
   description?: string | null;
 }
 
+export interface ShareExampleInput {
+  permission: SharePermission;
+}
+
+export interface ExampleShareSummary {
+  userId: number;
+  name: string;
+  email: string;
+  permission: SharePermission;
+  createdAt: Date;
+}
+
 export type { PaginationOptions, PaginatedResult } from '@/shared/types/pagination.types';
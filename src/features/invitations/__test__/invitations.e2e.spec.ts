@@ -0,0 +1,151 @@
+import 'dotenv/config';
+import request from 'supertest';
+import express, { Request, Response, NextFunction } from 'express';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('@/shared/utils/logger', () => ({
+  logger: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+    child: vi.fn().mockReturnThis(),
+  },
+}));
+
+vi.mock('@/shared/utils/mailer', () => ({
+  sendEmail: vi.fn(),
+}));
+
+// Import implementations after mocks
+import pino from 'pino';
+import { prisma } from '@/shared/utils/prisma';
+import { sendEmail } from '@/shared/utils/mailer';
+import { acceptRouter } from '@/features/invitations/invitations.routes';
+import {
+  createInvitation,
+  resendInvitation,
+  revokeInvitation,
+} from '@/features/invitations/invitations.service';
+import { login } from '@/features/auth/auth.service';
+
+// Setup Express App
+const app = express();
+app.use(express.json());
+app.use((req, _res, next) => {
+  req.log = pino({ level: 'silent' });
+  next();
+});
+app.use('/api/v1/auth/invitations', acceptRouter);
+
+interface HttpError extends Error {
+  statusCode?: number;
+}
+
+app.use((err: HttpError, req: Request, res: Response, _next: NextFunction) => {
+  res.status(err.statusCode || 500).json({
+    success: false,
+    error: { message: err.message || 'Internal Server Error' },
+  });
+});
+
+const PASSWORD = 'correct-horse-battery-41';
+
+function getEmailedToken(): string {
+  const body = vi.mocked(sendEmail).mock.lastCall![2];
+  return new URL(body.match(/https?:\/\/\S+/)![0]).searchParams.get('token')!;
+}
+
+describe('Invitations Feature E2E', () => {
+  let adminId: number;
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+
+    // Clean Database
+    await prisma.invitation.deleteMany();
+    await prisma.userRole.deleteMany();
+    await prisma.passwordHistory.deleteMany();
+    await prisma.securityEvent.deleteMany();
+    await prisma.userSession.deleteMany();
+    await prisma.user.deleteMany();
+
+    await prisma.role.upsert({ where: { name: 'user' }, update: {}, create: { name: 'user' } });
+
+    const admin = await prisma.user.create({
+      data: { email: 'admin@example.com', name: 'Admin', password: 'unused' },
+    });
+    adminId = admin.id;
+  });
+
+  it('should create a verified account with the intended role', async () => {
+    const invitation = await createInvitation(
+      { email: 'new.hire@example.com', name: 'New Hire', role: 'user' },
+      adminId
+    );
+
+    const res = await request(app)
+      .post('/api/v1/auth/invitations/accept')
+      .send({ token: getEmailedToken(), password: PASSWORD });
+
+    expect(res.status).toBe(201);
+
+    const user = await prisma.user.findUniqueOrThrow({
+      where: { email: 'new.hire@example.com' },
+      include: { roles: { include: { role: true } } },
+    });
+    expect(user.name).toBe('New Hire');
+    expect(user.emailVerifiedAt).not.toBeNull();
+    expect(user.roles.map((userRole) => userRole.role.name)).toEqual(['user']);
+
+    const stored = await prisma.invitation.findUniqueOrThrow({ where: { id: invitation.id } });
+    expect(stored.acceptedAt).not.toBeNull();
+
+    const tokens = await login({ email: 'new.hire@example.com', password: PASSWORD });
+    expect(tokens).toHaveProperty('accessToken');
+  });
+
+  it('should only accept the link once', async () => {
+    await createInvitation({ email: 'new.hire@example.com' }, adminId);
+    const token = getEmailedToken();
+
+    await request(app).post('/api/v1/auth/invitations/accept').send({ token, password: PASSWORD });
+    const replay = await request(app)
+      .post('/api/v1/auth/invitations/accept')
+      .send({ token, password: PASSWORD });
+
+    expect(replay.status).toBe(422);
+    expect(await prisma.user.count({ where: { email: 'new.hire@example.com' } })).toBe(1);
+  });
+
+  it('should invalidate the previous link when resending', async () => {
+    const invitation = await createInvitation({ email: 'new.hire@example.com' }, adminId);
+    const previous = getEmailedToken();
+
+    await resendInvitation(invitation.id, adminId);
+
+    const stale = await request(app)
+      .post('/api/v1/auth/invitations/accept')
+      .send({ token: previous, password: PASSWORD });
+    const current = await request(app)
+      .post('/api/v1/auth/invitations/accept')
+      .send({ token: getEmailedToken(), password: PASSWORD });
+
+    expect(stale.status).toBe(404);
+    expect(current.status).toBe(201);
+  });
+
+  it('should not accept a revoked invitation', async () => {
+    const invitation = await createInvitation({ email: 'new.hire@example.com' }, adminId);
+    const token = getEmailedToken();
+
+    await revokeInvitation(invitation.id, adminId);
+
+    const res = await request(app)
+      .post('/api/v1/auth/invitations/accept')
+      .send({ token, password: PASSWORD });
+
+    expect(res.status).toBe(422);
+    expect(await prisma.user.count({ where: { email: 'new.hire@example.com' } })).toBe(0);
+  });
+});
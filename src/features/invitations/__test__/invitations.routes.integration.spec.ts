@@ -0,0 +1,244 @@
+import 'dotenv/config';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import request from 'supertest';
+import express from 'express';
+import jwt from 'jsonwebtoken';
+import pino from 'pino';
+import invitationRoutes, { acceptRouter } from '@/features/invitations/invitations.routes';
+import type { InvitationSummary } from '@/features/invitations/invitations.types';
+import * as invitationsService from '@/features/invitations/invitations.service';
+import { errorHandler } from '@/shared/middlewares/error.middleware';
+import { getSessionState } from '@/shared/utils/sessionState';
+import { BadRequestError, ConflictError, NotFoundError } from '@/shared/errors';
+import { config } from '@/config';
+
+// Mock Service Layer
+vi.mock('@/features/invitations/invitations.service');
+// Session state is read from the database by the authenticate middleware
+vi.mock('@/shared/utils/sessionState');
+
+const app = express();
+app.use(express.json());
+app.use((req, _res, next) => {
+  req.log = pino({ level: 'silent' });
+  next();
+});
+app.use('/api/v1/admin/invitations', invitationRoutes);
+app.use('/api/v1/auth/invitations', acceptRouter);
+app.use(errorHandler);
+
+const adminToken = jwt.sign(
+  { userId: 1, sessionId: 2, roles: ['admin'], permissions: [] },
+  config.jwt.secret
+);
+const userToken = jwt.sign(
+  { userId: 1, sessionId: 2, roles: ['user'], permissions: [] },
+  config.jwt.secret
+);
+
+const mockInvitation: InvitationSummary = {
+  id: 7,
+  email: 'new.hire@example.com',
+  name: 'New Hire',
+  role: 'user',
+  invitedBy: { id: 1, email: 'admin@example.com', name: 'Admin' },
+  status: 'pending',
+  expiresAt: new Date('2026-10-26T00:00:00Z'),
+  acceptedAt: null,
+  revokedAt: null,
+  createdAt: new Date('2026-10-19T00:00:00Z'),
+};
+
+describe('Invitations Feature Integration (Route/Controller)', () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+    vi.mocked(getSessionState).mockResolvedValue({
+      sessionId: 2,
+      userId: 1,
+      expiresAt: new Date(Date.now() + 1000 * 60 * 60),
+      revokedAt: null,
+      userIsActive: true,
+      userDeletedAt: null,
+      userEmailVerifiedAt: new Date(),
+      passwordChangedAt: null,
+    });
+  });
+
+  describe('GET /api/v1/admin/invitations', () => {
+    it('should list invitations filtered by status', async () => {
+      vi.mocked(invitationsService.listInvitations).mockResolvedValue({
+        data: [mockInvitation],
+        meta: { total: 1, per_page: 15, current_page: 1, last_page: 1, from: 1, to: 1 },
+      });
+
+      const res = await request(app)
+        .get('/api/v1/admin/invitations?status=pending')
+        .set('Authorization', `Bearer ${adminToken}`);
+
+      expect(res.status).toBe(200);
+      expect(res.body.data[0]).toMatchObject({ id: 7, status: 'pending' });
+      expect(res.body.meta.total).toBe(1);
+      expect(invitationsService.listInvitations).toHaveBeenCalledWith({
+        page: 1,
+        perPage: 15,
+        status: 'pending',
+      });
+    });
+
+    it('should return 422 for an unknown status', async () => {
+      const res = await request(app)
+        .get('/api/v1/admin/invitations?status=sent')
+        .set('Authorization', `Bearer ${adminToken}`);
+
+      expect(res.status).toBe(422);
+      expect(invitationsService.listInvitations).not.toHaveBeenCalled();
+    });
+
+    it('should return 403 for non-admin users', async () => {
+      const res = await request(app)
+        .get('/api/v1/admin/invitations')
+        .set('Authorization', `Bearer ${userToken}`);
+
+      expect(res.status).toBe(403);
+    });
+
+    it('should return 401 without a token', async () => {
+      const res = await request(app).get('/api/v1/admin/invitations');
+
+      expect(res.status).toBe(401);
+    });
+  });
+
+  describe('POST /api/v1/admin/invitations', () => {
+    it('should invite someone', async () => {
+      vi.mocked(invitationsService.createInvitation).mockResolvedValue(mockInvitation);
+
+      const res = await request(app)
+        .post('/api/v1/admin/invitations')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ email: 'new.hire@example.com', name: 'New Hire', role: 'user' });
+
+      expect(res.status).toBe(201);
+      expect(res.body.data.email).toBe('new.hire@example.com');
+      expect(invitationsService.createInvitation).toHaveBeenCalledWith(
+        { email: 'new.hire@example.com', name: 'New Hire', role: 'user' },
+        1
+      );
+    });
+
+    it('should return 422 for an invalid email', async () => {
+      const res = await request(app)
+        .post('/api/v1/admin/invitations')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ email: 'not-an-email' });
+
+      expect(res.status).toBe(422);
+      expect(invitationsService.createInvitation).not.toHaveBeenCalled();
+    });
+
+    it('should return 409 when the address is already registered', async () => {
+      vi.mocked(invitationsService.createInvitation).mockRejectedValue(
+        new ConflictError('Email already registered')
+      );
+
+      const res = await request(app)
+        .post('/api/v1/admin/invitations')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ email: 'taken@example.com' });
+
+      expect(res.status).toBe(409);
+    });
+  });
+
+  describe('POST /api/v1/admin/invitations/:id/resend', () => {
+    it('should resend the invitation', async () => {
+      vi.mocked(invitationsService.resendInvitation).mockResolvedValue(mockInvitation);
+
+      const res = await request(app)
+        .post('/api/v1/admin/invitations/7/resend')
+        .set('Authorization', `Bearer ${adminToken}`);
+
+      expect(res.status).toBe(200);
+      expect(invitationsService.resendInvitation).toHaveBeenCalledWith(7, 1);
+    });
+
+    it('should return 400 for an accepted invitation', async () => {
+      vi.mocked(invitationsService.resendInvitation).mockRejectedValue(
+        new BadRequestError('Invitation has been accepted')
+      );
+
+      const res = await request(app)
+        .post('/api/v1/admin/invitations/7/resend')
+        .set('Authorization', `Bearer ${adminToken}`);
+
+      expect(res.status).toBe(400);
+      expect(res.body.error.message).toBe('Invitation has been accepted');
+    });
+  });
+
+  describe('DELETE /api/v1/admin/invitations/:id', () => {
+    it('should revoke the invitation', async () => {
+      vi.mocked(invitationsService.revokeInvitation).mockResolvedValue(undefined);
+
+      const res = await request(app)
+        .delete('/api/v1/admin/invitations/7')
+        .set('Authorization', `Bearer ${adminToken}`);
+
+      expect(res.status).toBe(200);
+      expect(invitationsService.revokeInvitation).toHaveBeenCalledWith(7, 1);
+    });
+
+    it('should return 404 for an unknown invitation', async () => {
+      vi.mocked(invitationsService.revokeInvitation).mockRejectedValue(
+        NotFoundError.resource('Invitation', 99)
+      );
+
+      const res = await request(app)
+        .delete('/api/v1/admin/invitations/99')
+        .set('Authorization', `Bearer ${adminToken}`);
+
+      expect(res.status).toBe(404);
+    });
+  });
+
+  describe('POST /api/v1/auth/invitations/accept', () => {
+    it('should create the account without authentication', async () => {
+      vi.mocked(invitationsService.acceptInvitation).mockResolvedValue({
+        message: 'Invitation accepted. You can now sign in.',
+        user: { id: 12, email: 'new.hire@example.com', name: 'New Hire' },
+      });
+
+      const res = await request(app)
+        .post('/api/v1/auth/invitations/accept')
+        .send({ token: 'invitation-token', password: 'Password123!' });
+
+      expect(res.status).toBe(201);
+      expect(res.body.data.user.id).toBe(12);
+      expect(invitationsService.acceptInvitation).toHaveBeenCalledWith({
+        token: 'invitation-token',
+        password: 'Password123!',
+      });
+    });
+
+    it('should return 422 for a weak password', async () => {
+      const res = await request(app)
+        .post('/api/v1/auth/invitations/accept')
+        .send({ token: 'invitation-token', password: 'short' });
+
+      expect(res.status).toBe(422);
+      expect(invitationsService.acceptInvitation).not.toHaveBeenCalled();
+    });
+
+    it('should return 404 for an unknown token', async () => {
+      vi.mocked(invitationsService.acceptInvitation).mockRejectedValue(
+        new NotFoundError('Invalid or expired invitation')
+      );
+
+      const res = await request(app)
+        .post('/api/v1/auth/invitations/accept')
+        .send({ token: 'unknown', password: 'Password123!' });
+
+      expect(res.status).toBe(404);
+    });
+  });
+});
@@ -0,0 +1,318 @@
+/**
+ * Invitation Service Unit Tests
+ *
+ * Tests the service layer with mocked repository.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import crypto from 'crypto';
+import { addDays, subDays } from 'date-fns';
+import argon2 from 'argon2';
+import { Prisma } from '@prisma/client';
+import type { Role, User } from '@prisma/client';
+import { config } from '@/config';
+import { BadRequestError, ConflictError, NotFoundError, ValidationError } from '@/shared/errors';
+import type { InvitationRecord } from '@/features/invitations/invitations.repository';
+
+// Mock the repository
+vi.mock('@/features/invitations/invitations.repository', () => ({
+  findAll: vi.fn(),
+  findById: vi.fn(),
+  findByTokenHash: vi.fn(),
+  findPendingByEmail: vi.fn(),
+  findUserByEmail: vi.fn(),
+  findRoleByName: vi.fn(),
+  create: vi.fn(),
+  renew: vi.fn(),
+  revoke: vi.fn(),
+  accept: vi.fn(),
+}));
+
+vi.mock('@/shared/utils/mailer', () => ({
+  sendEmail: vi.fn(),
+}));
+
+// Import after mocking
+import * as invitationsRepository from '@/features/invitations/invitations.repository';
+import { sendEmail } from '@/shared/utils/mailer';
+import {
+  listInvitations,
+  createInvitation,
+  resendInvitation,
+  revokeInvitation,
+  acceptInvitation,
+} from '@/features/invitations/invitations.service';
+
+const ADMIN_ID = 1;
+const PASSWORD = 'correct-horse-battery-41';
+
+function sha256(value: string) {
+  return crypto.createHash('sha256').update(value).digest('hex');
+}
+
+function mockInvitation(overrides: Partial<InvitationRecord> = {}): InvitationRecord {
+  return {
+    id: 7,
+    email: 'new.hire@example.com',
+    name: 'New Hire',
+    tokenHash: sha256('invitation-token'),
+    roleId: 2,
+    invitedById: ADMIN_ID,
+    expiresAt: addDays(new Date(), 7),
+    acceptedAt: null,
+    revokedAt: null,
+    createdBy: String(ADMIN_ID),
+    updatedBy: null,
+    deletedBy: null,
+    createdAt: new Date('2026-10-19T00:00:00Z'),
+    updatedAt: new Date('2026-10-19T00:00:00Z'),
+    deletedAt: null,
+    role: { name: 'user' },
+    invitedBy: { id: ADMIN_ID, email: 'admin@example.com', name: 'Admin' },
+    ...overrides,
+  };
+}
+
+/**
+ * Token from the link in the last email sent
+ */
+function getEmailedToken(): string {
+  const body = vi.mocked(sendEmail).mock.lastCall![2];
+  return new URL(body.match(/https?:\/\/\S+/)![0]).searchParams.get('token')!;
+}
+
+describe('InvitationService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('listInvitations', () => {
+    it('should derive the status of each invitation', async () => {
+      vi.mocked(invitationsRepository.findAll).mockResolvedValue({
+        data: [
+          mockInvitation({ id: 1 }),
+          mockInvitation({ id: 2, acceptedAt: new Date() }),
+          mockInvitation({ id: 3, revokedAt: new Date() }),
+          mockInvitation({ id: 4, expiresAt: subDays(new Date(), 1) }),
+        ],
+        meta: { total: 4, per_page: 15, current_page: 1, last_page: 1, from: 1, to: 4 },
+      });
+
+      const result = await listInvitations({ page: 1, perPage: 15 });
+
+      expect(result.data.map((invitation) => invitation.status)).toEqual([
+        'pending',
+        'accepted',
+        'revoked',
+        'expired',
+      ]);
+      expect(result.data[0]).toMatchObject({ role: 'user', invitedBy: { id: ADMIN_ID } });
+      expect(result.data[0]).not.toHaveProperty('tokenHash');
+    });
+  });
+
+  describe('createInvitation', () => {
+    beforeEach(() => {
+      vi.mocked(invitationsRepository.findUserByEmail).mockResolvedValue(null);
+      vi.mocked(invitationsRepository.findPendingByEmail).mockResolvedValue(null);
+      vi.mocked(invitationsRepository.findRoleByName).mockResolvedValue({
+        id: 2,
+        name: 'user',
+      } as Role);
+    });
+
+    it('should store the token hash and email the link', async () => {
+      vi.mocked(invitationsRepository.create).mockResolvedValue(mockInvitation());
+
+      const result = await createInvitation(
+        { email: 'new.hire@example.com', name: 'New Hire' },
+        ADMIN_ID
+      );
+
+      expect(result.status).toBe('pending');
+      expect(invitationsRepository.findRoleByName).toHaveBeenCalledWith(config.auth.defaultRole);
+
+      const token = getEmailedToken();
+      const expiresAt = vi.mocked(invitationsRepository.create).mock.calls[0][0].expiresAt;
+      expect(invitationsRepository.create).toHaveBeenCalledWith({
+        email: 'new.hire@example.com',
+        name: 'New Hire',
+        tokenHash: sha256(token),
+        roleId: 2,
+        invitedById: ADMIN_ID,
+        expiresAt: expect.any(Date),
+      });
+      expect(expiresAt.getTime()).toBeGreaterThan(
+        addDays(new Date(), config.auth.invitationExpiresDays).getTime() - 60_000
+      );
+      expect(sendEmail).toHaveBeenCalledWith(
+        'new.hire@example.com',
+        "You're invited",
+        expect.stringContaining('/accept-invitation?token=')
+      );
+    });
+
+    it('should reject an address that is already registered', async () => {
+      vi.mocked(invitationsRepository.findUserByEmail).mockResolvedValue({ id: 5 } as User);
+
+      await expect(createInvitation({ email: 'taken@example.com' }, ADMIN_ID)).rejects.toThrow(
+        ConflictError
+      );
+      expect(invitationsRepository.create).not.toHaveBeenCalled();
+    });
+
+    it('should reject a second pending invitation for the same address', async () => {
+      vi.mocked(invitationsRepository.findPendingByEmail).mockResolvedValue(mockInvitation());
+
+      await expect(createInvitation({ email: 'new.hire@example.com' }, ADMIN_ID)).rejects.toThrow(
+        'A pending invitation for this email address already exists'
+      );
+    });
+
+    it('should reject an unknown role', async () => {
+      vi.mocked(invitationsRepository.findRoleByName).mockResolvedValue(null);
+
+      await expect(
+        createInvitation({ email: 'new.hire@example.com', role: 'superuser' }, ADMIN_ID)
+      ).rejects.toMatchObject({ details: { role: 'Unknown role: superuser' } });
+      expect(invitationsRepository.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('resendInvitation', () => {
+    it('should email a new link with a fresh expiry', async () => {
+      vi.mocked(invitationsRepository.findById).mockResolvedValue(
+        mockInvitation({ expiresAt: subDays(new Date(), 1) })
+      );
+      vi.mocked(invitationsRepository.renew).mockResolvedValue(mockInvitation());
+
+      const result = await resendInvitation(7, ADMIN_ID);
+
+      expect(result.status).toBe('pending');
+      expect(invitationsRepository.renew).toHaveBeenCalledWith(
+        7,
+        { tokenHash: sha256(getEmailedToken()), expiresAt: expect.any(Date) },
+        String(ADMIN_ID)
+      );
+    });
+
+    it('should not resend an accepted invitation', async () => {
+      vi.mocked(invitationsRepository.findById).mockResolvedValue(
+        mockInvitation({ acceptedAt: new Date() })
+      );
+      vi.mocked(invitationsRepository.renew).mockResolvedValue(null);
+
+      await expect(resendInvitation(7, ADMIN_ID)).rejects.toThrow(BadRequestError);
+      expect(sendEmail).not.toHaveBeenCalled();
+    });
+
+    it('should throw NotFoundError for an unknown invitation', async () => {
+      vi.mocked(invitationsRepository.findById).mockResolvedValue(null);
+
+      await expect(resendInvitation(99, ADMIN_ID)).rejects.toThrow(NotFoundError);
+    });
+  });
+
+  describe('revokeInvitation', () => {
+    it('should revoke a pending invitation', async () => {
+      vi.mocked(invitationsRepository.revoke).mockResolvedValue(true);
+
+      await revokeInvitation(7, ADMIN_ID);
+
+      expect(invitationsRepository.revoke).toHaveBeenCalledWith(7, String(ADMIN_ID));
+    });
+
+    it('should throw NotFoundError when nothing was revoked', async () => {
+      vi.mocked(invitationsRepository.revoke).mockResolvedValue(false);
+
+      await expect(revokeInvitation(7, ADMIN_ID)).rejects.toThrow(NotFoundError);
+    });
+  });
+
+  describe('acceptInvitation', () => {
+    beforeEach(() => {
+      vi.mocked(invitationsRepository.findByTokenHash).mockResolvedValue(mockInvitation());
+      vi.mocked(invitationsRepository.findUserByEmail).mockResolvedValue(null);
+    });
+
+    it('should create the account with a hashed password', async () => {
+      vi.mocked(invitationsRepository.accept).mockResolvedValue({
+        id: 12,
+        email: 'new.hire@example.com',
+        name: 'New Hire',
+      } as User);
+
+      const result = await acceptInvitation({ token: 'invitation-token', password: PASSWORD });
+
+      expect(result.user).toEqual({ id: 12, email: 'new.hire@example.com', name: 'New Hire' });
+      expect(invitationsRepository.findByTokenHash).toHaveBeenCalledWith(
+        sha256('invitation-token')
+      );
+
+      const [invitation, data] = vi.mocked(invitationsRepository.accept).mock.calls[0];
+      expect(invitation.id).toBe(7);
+      expect(data).toMatchObject({
+        name: 'New Hire',
+        rememberPassword: config.auth.passwordHistorySize > 0,
+      });
+      expect(await argon2.verify(data.hashedPassword, PASSWORD)).toBe(true);
+    });
+
+    it('should let the user choose another name', async () => {
+      vi.mocked(invitationsRepository.accept).mockResolvedValue({ id: 12 } as User);
+
+      await acceptInvitation({ token: 'invitation-token', name: 'Preferred', password: PASSWORD });
+
+      expect(vi.mocked(invitationsRepository.accept).mock.calls[0][1].name).toBe('Preferred');
+    });
+
+    it('should reject an unknown token', async () => {
+      vi.mocked(invitationsRepository.findByTokenHash).mockResolvedValue(null);
+
+      await expect(acceptInvitation({ token: 'unknown', password: PASSWORD })).rejects.toThrow(
+        NotFoundError
+      );
+    });
+
+    it.each([
+      ['accepted', { acceptedAt: new Date() }],
+      ['revoked', { revokedAt: new Date() }],
+      ['expired', { expiresAt: subDays(new Date(), 1) }],
+    ])('should reject an %s invitation', async (_status, overrides) => {
+      vi.mocked(invitationsRepository.findByTokenHash).mockResolvedValue(mockInvitation(overrides));
+
+      await expect(
+        acceptInvitation({ token: 'invitation-token', password: PASSWORD })
+      ).rejects.toThrow(ValidationError);
+      expect(invitationsRepository.accept).not.toHaveBeenCalled();
+    });
+
+    it('should enforce the password policy', async () => {
+      await expect(
+        acceptInvitation({ token: 'invitation-token', password: 'new.hire-password' })
+      ).rejects.toThrow(ValidationError);
+      expect(invitationsRepository.accept).not.toHaveBeenCalled();
+    });
+
+    it('should reject the link once it was used concurrently', async () => {
+      vi.mocked(invitationsRepository.accept).mockResolvedValue(null);
+
+      await expect(
+        acceptInvitation({ token: 'invitation-token', password: PASSWORD })
+      ).rejects.toThrow('Invalid or expired invitation');
+    });
+
+    it('should return 409 when the address was registered concurrently', async () => {
+      vi.mocked(invitationsRepository.accept).mockRejectedValue(
+        new Prisma.PrismaClientKnownRequestError('Unique constraint failed', {
+          code: 'P2002',
+          clientVersion: 'test',
+        })
+      );
+
+      await expect(
+        acceptInvitation({ token: 'invitation-token', password: PASSWORD })
+      ).rejects.toThrow(ConflictError);
+    });
+  });
+});
@@ -0,0 +1,93 @@
+/**
+ * Invitation Controller
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import {
+  listInvitations,
+  createInvitation,
+  resendInvitation,
+  revokeInvitation,
+  acceptInvitation,
+} from '@/features/invitations/invitations.service';
+import { INVITATION_STATUSES, InvitationStatus } from '@/features/invitations/invitations.types';
+import { sendOk, sendCreated, getRequestId } from '@/shared/utils/apiResponse';
+import { UnauthorizedError, ValidationError } from '@/shared/errors';
+
+const MAX_PER_PAGE = 100;
+
+function getActorId(req: Request): number {
+  if (!req.user) {
+    throw new UnauthorizedError('User not authenticated');
+  }
+
+  return req.user.userId;
+}
+
+export async function index(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const page = parseInt(req.query.page as string, 10) || 1;
+    const perPage = Math.min(parseInt(req.query.per_page as string, 10) || 15, MAX_PER_PAGE);
+    const status = typeof req.query.status === 'string' ? req.query.status : undefined;
+
+    if (status && !INVITATION_STATUSES.includes(status as InvitationStatus)) {
+      throw ValidationError.field('status', `Must be one of: ${INVITATION_STATUSES.join(', ')}`);
+    }
+
+    const result = await listInvitations({
+      page,
+      perPage,
+      status: status as InvitationStatus | undefined,
+    });
+
+    sendOk(res, result.data, {
+      meta: result.meta as unknown as Record<string, unknown>,
+      requestId: getRequestId(req),
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function create(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const invitation = await createInvitation(req.body, getActorId(req));
+
+    sendCreated(res, invitation, { requestId: getRequestId(req) });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function resend(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const invitation = await resendInvitation(
+      parseInt(req.params.id as string, 10),
+      getActorId(req)
+    );
+
+    sendOk(res, invitation, { requestId: getRequestId(req) });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function destroy(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    await revokeInvitation(parseInt(req.params.id as string, 10), getActorId(req));
+
+    sendOk(res, null, { requestId: getRequestId(req) });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function accept(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const result = await acceptInvitation(req.body);
+
+    sendCreated(res, result, { requestId: getRequestId(req) });
+  } catch (error) {
+    next(error);
+  }
+}
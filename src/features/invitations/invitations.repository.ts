@@ -0,0 +1,208 @@
+/**
+ * Invitation Repository
+ *
+ * Database operations for admin invitations using Prisma.
+ */
+
+import { Prisma } from '@prisma/client';
+import type { Role, User } from '@prisma/client';
+import { prisma } from '@/shared/utils/prisma';
+import type {
+  InvitationStatus,
+  ListInvitationsOptions,
+  PaginatedResult,
+} from '@/features/invitations/invitations.types';
+
+const INVITATION_INCLUDE = {
+  include: {
+    role: { select: { name: true } },
+    invitedBy: { select: { id: true, email: true, name: true } },
+  },
+} satisfies Prisma.InvitationDefaultArgs;
+
+export type InvitationRecord = Prisma.InvitationGetPayload<typeof INVITATION_INCLUDE>;
+
+function buildStatusFilter(status: InvitationStatus | undefined): Prisma.InvitationWhereInput {
+  const now = new Date();
+
+  switch (status) {
+    case 'pending':
+      return { acceptedAt: null, revokedAt: null, expiresAt: { gt: now } };
+    case 'accepted':
+      return { acceptedAt: { not: null } };
+    case 'revoked':
+      return { acceptedAt: null, revokedAt: { not: null } };
+    case 'expired':
+      return { acceptedAt: null, revokedAt: null, expiresAt: { lte: now } };
+    default:
+      return {};
+  }
+}
+
+export async function findAll(
+  options: ListInvitationsOptions
+): Promise<PaginatedResult<InvitationRecord>> {
+  const { page, perPage, status } = options;
+  const skip = (page - 1) * perPage;
+  const where: Prisma.InvitationWhereInput = { deletedAt: null, ...buildStatusFilter(status) };
+
+  const [total, data] = await Promise.all([
+    prisma.invitation.count({ where }),
+    prisma.invitation.findMany({
+      where,
+      ...INVITATION_INCLUDE,
+      orderBy: { createdAt: 'desc' },
+      skip,
+      take: perPage,
+    }),
+  ]);
+
+  return {
+    data,
+    meta: {
+      total,
+      per_page: perPage,
+      current_page: page,
+      last_page: Math.ceil(total / perPage),
+      from: skip + 1,
+      to: skip + data.length,
+    },
+  };
+}
+
+export async function findById(id: number): Promise<InvitationRecord | null> {
+  return prisma.invitation.findFirst({
+    where: { id, deletedAt: null },
+    ...INVITATION_INCLUDE,
+  });
+}
+
+export async function findByTokenHash(tokenHash: string): Promise<InvitationRecord | null> {
+  return prisma.invitation.findFirst({
+    where: { tokenHash, deletedAt: null },
+    ...INVITATION_INCLUDE,
+  });
+}
+
+/**
+ * Invitation for the address that can still be accepted, if any
+ */
+export async function findPendingByEmail(email: string): Promise<InvitationRecord | null> {
+  return prisma.invitation.findFirst({
+    where: { email, deletedAt: null, ...buildStatusFilter('pending') },
+    ...INVITATION_INCLUDE,
+  });
+}
+
+export async function findUserByEmail(email: string): Promise<User | null> {
+  return prisma.user.findUnique({
+    where: { email },
+  });
+}
+
+export async function findRoleByName(name: string): Promise<Role | null> {
+  return prisma.role.findFirst({
+    where: { name, deletedAt: null },
+  });
+}
+
+export async function create(data: {
+  email: string;
+  name?: string;
+  tokenHash: string;
+  roleId: number;
+  invitedById: number;
+  expiresAt: Date;
+}): Promise<InvitationRecord> {
+  return prisma.invitation.create({
+    data: {
+      ...data,
+      createdBy: String(data.invitedById),
+    },
+    ...INVITATION_INCLUDE,
+  });
+}
+
+/**
+ * Replace the token of an invitation that can still be accepted and extend its expiry
+ *
+ * @returns The updated invitation, or null if it was accepted or revoked in the meantime
+ */
+export async function renew(
+  id: number,
+  data: { tokenHash: string; expiresAt: Date },
+  updatedBy: string
+): Promise<InvitationRecord | null> {
+  const result = await prisma.invitation.updateMany({
+    where: { id, acceptedAt: null, revokedAt: null, deletedAt: null },
+    data: { ...data, updatedBy },
+  });
+
+  return result.count > 0 ? findById(id) : null;
+}
+
+/**
+ * @returns False if the invitation does not exist, was already accepted or revoked
+ */
+export async function revoke(id: number, updatedBy: string): Promise<boolean> {
+  const result = await prisma.invitation.updateMany({
+    where: { id, acceptedAt: null, revokedAt: null, deletedAt: null },
+    data: { revokedAt: new Date(), updatedBy },
+  });
+
+  return result.count > 0;
+}
+
+/**
+ * Mark the invitation accepted and create the invited user with a verified email address
+ * and the intended role, in one transaction
+ *
+ * @returns The new user, or null if the invitation was used, revoked or expired in the meantime
+ */
+export async function accept(
+  invitation: Pick<InvitationRecord, 'id' | 'email' | 'roleId'>,
+  data: { name: string; hashedPassword: string; rememberPassword: boolean }
+): Promise<User | null> {
+  return prisma.$transaction(async (tx) => {
+    const now = new Date();
+    const claimed = await tx.invitation.updateMany({
+      where: {
+        id: invitation.id,
+        acceptedAt: null,
+        revokedAt: null,
+        expiresAt: { gt: now },
+      },
+      data: { acceptedAt: now },
+    });
+
+    if (claimed.count === 0) {
+      return null;
+    }
+
+    const user = await tx.user.create({
+      data: {
+        name: data.name,
+        email: invitation.email,
+        password: data.hashedPassword,
+        isActive: true,
+        emailVerifiedAt: now,
+        createdBy: `invitation:${invitation.id}`,
+      },
+    });
+
+    await tx.userRole.create({
+      data: {
+        userId: user.id,
+        roleId: invitation.roleId,
+      },
+    });
+
+    if (data.rememberPassword) {
+      await tx.passwordHistory.create({
+        data: { userId: user.id, passwordHash: data.hashedPassword },
+      });
+    }
+
+    return user;
+  });
+}
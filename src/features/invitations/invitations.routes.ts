@@ -0,0 +1,48 @@
+/**
+ * Invitation Routes
+ */
+
+import { Router } from 'express';
+import { validate } from '@/shared/middlewares/validation.middleware';
+import {
+  acceptInvitationSchema,
+  createInvitationSchema,
+  invitationIdSchema,
+} from '@/features/invitations/invitations.schema';
+import {
+  index,
+  create,
+  resend,
+  destroy,
+  accept,
+} from '@/features/invitations/invitations.controller';
+import { authenticate, forbidApiKey, requireRole } from '@/shared/middlewares/auth.middleware';
+
+/**
+ * Invitation management, mounted under /admin/invitations
+ */
+const router = Router();
+
+router.use(authenticate, forbidApiKey, requireRole('admin'));
+
+// GET /admin/invitations - List invitations (status filter)
+router.get('/', index);
+
+// POST /admin/invitations - Invite someone by email
+router.post('/', validate(createInvitationSchema), create);
+
+// POST /admin/invitations/:id/resend - Email a new link with a fresh expiry
+router.post('/:id/resend', validate(invitationIdSchema), resend);
+
+// DELETE /admin/invitations/:id - Revoke a pending invitation
+router.delete('/:id', validate(invitationIdSchema), destroy);
+
+/**
+ * Accepting an invitation, mounted under /auth/invitations
+ */
+export const acceptRouter = Router();
+
+// POST /auth/invitations/accept - Create the account from the emailed link
+acceptRouter.post('/accept', validate(acceptInvitationSchema), accept);
+
+export default router;
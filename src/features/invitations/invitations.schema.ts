@@ -0,0 +1,28 @@
+/**
+ * Invitation Validation Schemas
+ */
+
+import { z } from 'zod';
+import { passwordSchema } from '@/features/auth/auth.schema';
+
+export const createInvitationSchema = {
+  body: z.object({
+    email: z.string().email('Invalid email address'),
+    name: z.string().trim().min(2, 'Name must be at least 2 characters').optional(),
+    role: z.string().trim().min(1).optional(),
+  }),
+};
+
+export const invitationIdSchema = {
+  params: z.object({
+    id: z.string().regex(/^\d+$/, 'ID must be a number'),
+  }),
+};
+
+export const acceptInvitationSchema = {
+  body: z.object({
+    token: z.string().min(1, 'Invitation token is required'),
+    name: z.string().trim().min(2, 'Name must be at least 2 characters').optional(),
+    password: passwordSchema,
+  }),
+};
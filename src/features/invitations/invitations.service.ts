@@ -0,0 +1,229 @@
+/**
+ * Invitation Service
+ *
+ * Administrators invite people by email, which is how users join when public
+ * registration is disabled (`AUTH_INVITE_ONLY`). The emailed link carries a
+ * single-use token and only its hash is stored. Accepting the invitation creates
+ * the account with the intended role and a verified email address, since the
+ * link proves access to the inbox.
+ */
+
+import { addDays, isAfter } from 'date-fns';
+import { Prisma } from '@prisma/client';
+import type { User } from '@prisma/client';
+import { config } from '@/config';
+import { logger } from '@/shared/utils/logger';
+import { sendEmail } from '@/shared/utils/mailer';
+import { assertPasswordPolicy } from '@/shared/utils/passwordPolicy';
+import { generateRandomToken, hashPassword, hashToken } from '@/shared/utils/crypto';
+import * as invitationsRepository from '@/features/invitations/invitations.repository';
+import type { InvitationRecord } from '@/features/invitations/invitations.repository';
+import type {
+  AcceptInvitationInput,
+  AcceptInvitationResult,
+  CreateInvitationInput,
+  InvitationStatus,
+  InvitationSummary,
+  ListInvitationsOptions,
+  PaginatedResult,
+} from '@/features/invitations/invitations.types';
+import { BadRequestError, ConflictError, NotFoundError, ValidationError } from '@/shared/errors';
+
+function getStatus(invitation: InvitationRecord): InvitationStatus {
+  if (invitation.acceptedAt) {
+    return 'accepted';
+  }
+
+  if (invitation.revokedAt) {
+    return 'revoked';
+  }
+
+  return isAfter(new Date(), invitation.expiresAt) ? 'expired' : 'pending';
+}
+
+function toSummary(invitation: InvitationRecord): InvitationSummary {
+  return {
+    id: invitation.id,
+    email: invitation.email,
+    name: invitation.name,
+    role: invitation.role.name,
+    invitedBy: invitation.invitedBy,
+    status: getStatus(invitation),
+    expiresAt: invitation.expiresAt,
+    acceptedAt: invitation.acceptedAt,
+    revokedAt: invitation.revokedAt,
+    createdAt: invitation.createdAt,
+  };
+}
+
+async function sendInvitationEmail(invitation: InvitationRecord, token: string): Promise<void> {
+  const acceptUrl = `${config.app.url}/accept-invitation?token=${token}`;
+
+  await sendEmail(
+    invitation.email,
+    "You're invited",
+    `${invitation.invitedBy.name} invited you to create an account.\n\n` +
+      `Accept the invitation and choose a password here: ${acceptUrl}\n` +
+      `The link expires on ${invitation.expiresAt.toISOString()} and can only be used once.`
+  );
+}
+
+/**
+ * New single-use token and its expiry
+ */
+async function generateInvitationToken() {
+  const token = generateRandomToken();
+
+  return {
+    token,
+    tokenHash: await hashToken(token),
+    expiresAt: addDays(new Date(), config.auth.invitationExpiresDays),
+  };
+}
+
+export async function listInvitations(
+  options: ListInvitationsOptions
+): Promise<PaginatedResult<InvitationSummary>> {
+  const result = await invitationsRepository.findAll(options);
+
+  return { data: result.data.map(toSummary), meta: result.meta };
+}
+
+/**
+ * Invite someone by email
+ *
+ * @throws ConflictError if the address is registered or already has a pending invitation
+ * @throws ValidationError if the role does not exist
+ */
+export async function createInvitation(
+  input: CreateInvitationInput,
+  actorId: number
+): Promise<InvitationSummary> {
+  if (await invitationsRepository.findUserByEmail(input.email)) {
+    throw new ConflictError('Email already registered');
+  }
+
+  if (await invitationsRepository.findPendingByEmail(input.email)) {
+    throw new ConflictError('A pending invitation for this email address already exists');
+  }
+
+  const roleName = input.role ?? config.auth.defaultRole;
+  const role = await invitationsRepository.findRoleByName(roleName);
+
+  if (!role) {
+    throw ValidationError.field('role', `Unknown role: ${roleName}`);
+  }
+
+  const { token, tokenHash, expiresAt } = await generateInvitationToken();
+
+  const invitation = await invitationsRepository.create({
+    email: input.email,
+    name: input.name,
+    tokenHash,
+    roleId: role.id,
+    invitedById: actorId,
+    expiresAt,
+  });
+
+  await sendInvitationEmail(invitation, token);
+
+  logger.info({ actorId, invitationId: invitation.id, role: role.name }, 'Invitation sent');
+
+  return toSummary(invitation);
+}
+
+/**
+ * Send a new link (the previous one stops working) with a fresh expiry, also for expired invitations
+ *
+ * @throws BadRequestError if the invitation was accepted or revoked
+ */
+export async function resendInvitation(id: number, actorId: number): Promise<InvitationSummary> {
+  const existing = await invitationsRepository.findById(id);
+
+  if (!existing) {
+    throw NotFoundError.resource('Invitation', id);
+  }
+
+  const { token, tokenHash, expiresAt } = await generateInvitationToken();
+  const invitation = await invitationsRepository.renew(
+    id,
+    { tokenHash, expiresAt },
+    String(actorId)
+  );
+
+  if (!invitation) {
+    throw new BadRequestError(`Invitation has been ${getStatus(existing)}`);
+  }
+
+  await sendInvitationEmail(invitation, token);
+
+  logger.info({ actorId, invitationId: id }, 'Invitation resent');
+
+  return toSummary(invitation);
+}
+
+/**
+ * @throws NotFoundError if the invitation does not exist, was accepted or is already revoked
+ */
+export async function revokeInvitation(id: number, actorId: number): Promise<void> {
+  const revoked = await invitationsRepository.revoke(id, String(actorId));
+
+  if (!revoked) {
+    throw NotFoundError.resource('Invitation', id);
+  }
+
+  logger.info({ actorId, invitationId: id }, 'Invitation revoked');
+}
+
+/**
+ * Create the invited user's account from the emailed link
+ */
+export async function acceptInvitation(
+  input: AcceptInvitationInput
+): Promise<AcceptInvitationResult> {
+  const invitation = await invitationsRepository.findByTokenHash(await hashToken(input.token));
+
+  if (!invitation) {
+    throw new NotFoundError('Invalid or expired invitation');
+  }
+
+  if (getStatus(invitation) !== 'pending') {
+    throw new ValidationError('Invalid or expired invitation');
+  }
+
+  if (await invitationsRepository.findUserByEmail(invitation.email)) {
+    throw new ConflictError('Email already registered');
+  }
+
+  const name = input.name ?? invitation.name ?? invitation.email.split('@')[0];
+
+  await assertPasswordPolicy(input.password, { email: invitation.email, name });
+
+  const hashedPassword = await hashPassword(input.password);
+
+  let user: User | null;
+  try {
+    user = await invitationsRepository.accept(invitation, {
+      name,
+      hashedPassword,
+      rememberPassword: config.auth.passwordHistorySize > 0,
+    });
+  } catch (error) {
+    // The address was registered concurrently
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      throw new ConflictError('Email already registered');
+    }
+    throw error;
+  }
+
+  if (!user) {
+    throw new ValidationError('Invalid or expired invitation');
+  }
+
+  logger.info({ userId: user.id, invitationId: invitation.id }, 'Invitation accepted');
+
+  return {
+    message: 'Invitation accepted. You can now sign in.',
+    user: { id: user.id, email: user.email, name: user.name },
+  };
+}
@@ -0,0 +1,57 @@
+/**
+ * Invitation Types
+ */
+
+import type { Invitation, User } from '@prisma/client';
+
+export type InvitationStatus = 'pending' | 'accepted' | 'revoked' | 'expired';
+
+export const INVITATION_STATUSES: InvitationStatus[] = [
+  'pending',
+  'accepted',
+  'revoked',
+  'expired',
+];
+
+export interface ListInvitationsOptions {
+  page: number;
+  perPage: number;
+  status?: InvitationStatus;
+}
+
+/**
+ * Invitation as shown to administrators (the token is only ever sent by email)
+ */
+export type InvitationSummary = Pick<
+  Invitation,
+  'id' | 'email' | 'name' | 'expiresAt' | 'acceptedAt' | 'revokedAt' | 'createdAt'
+> & {
+  role: string;
+  invitedBy: Pick<User, 'id' | 'email' | 'name'>;
+  status: InvitationStatus;
+};
+
+export interface CreateInvitationInput {
+  email: string;
+  name?: string;
+  /**
+   * Role the user gets on accepting; defaults to `AUTH_DEFAULT_ROLE`
+   */
+  role?: string;
+}
+
+export interface AcceptInvitationInput {
+  token: string;
+  /**
+   * Overrides the name given by the inviter
+   */
+  name?: string;
+  password: string;
+}
+
+export interface AcceptInvitationResult {
+  message: string;
+  user: Pick<User, 'id' | 'email' | 'name'>;
+}
+
+export type { PaginatedResult } from '@/shared/types/pagination.types';
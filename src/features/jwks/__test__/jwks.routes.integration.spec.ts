@@ -0,0 +1,32 @@
+/**
+ * JWKS Routes Integration Tests
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import request from 'supertest';
+
+// Mock Prisma to avoid database dependency
+vi.mock('@/shared/utils/prisma', () => ({
+  default: {},
+  prisma: {},
+}));
+
+// Import after mocking
+import app from '@/app';
+
+describe('JWKS Routes', () => {
+  describe('GET /.well-known/jwks.json', () => {
+    it('should return a plain JWK Set', async () => {
+      const response = await request(app).get('/.well-known/jwks.json');
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual({ keys: [] });
+    });
+
+    it('should be cacheable by verifiers', async () => {
+      const response = await request(app).get('/.well-known/jwks.json');
+
+      expect(response.headers['cache-control']).toContain('max-age=');
+    });
+  });
+});
@@ -0,0 +1,111 @@
+/**
+ * JWKS Service Unit Tests
+ */
+
+import { describe, it, expect, vi, beforeAll, afterAll } from 'vitest';
+import crypto from 'crypto';
+import fs from 'fs';
+import jwt from 'jsonwebtoken';
+import { addDays, addMinutes } from 'date-fns';
+import { config } from '@/config';
+import { getJwks } from '@/features/jwks/jwks.service';
+import { signJwt, verifyJwt, JwtKeyFileEntry } from '@/shared/utils/jwt';
+
+// Sign with ES256 key pairs from a temporary keys file
+vi.mock('@/config', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('@/config')>();
+  const os = await import('os');
+  const path = await import('path');
+
+  return {
+    ...actual,
+    config: {
+      ...actual.config,
+      jwt: {
+        ...actual.config.jwt,
+        algorithm: 'ES256',
+        keysFile: path.join(os.tmpdir(), `jwt-keys-${process.pid}.json`),
+        keyGracePeriodMinutes: 60,
+      },
+    },
+  };
+});
+
+function createKey(kid: string, activatesAt: Date): JwtKeyFileEntry {
+  const { privateKey, publicKey } = crypto.generateKeyPairSync('ec', {
+    namedCurve: 'P-256',
+    publicKeyEncoding: { type: 'spki', format: 'pem' },
+    privateKeyEncoding: { type: 'pkcs8', format: 'pem' },
+  });
+
+  return { kid, alg: 'ES256', privateKey, publicKey, activatesAt: activatesAt.toISOString() };
+}
+
+describe('JWKS Service', () => {
+  const now = new Date();
+  const keys = [
+    createKey('retired', addDays(now, -2)),
+    createKey('previous', addDays(now, -1)),
+    createKey('current', addMinutes(now, -30)),
+    createKey('upcoming', addDays(now, 1)),
+  ];
+
+  beforeAll(() => {
+    fs.writeFileSync(config.jwt.keysFile, JSON.stringify({ keys }));
+  });
+
+  afterAll(() => {
+    fs.rmSync(config.jwt.keysFile, { force: true });
+  });
+
+  describe('getJwks', () => {
+    it('should publish the current, upcoming and in-grace keys only', () => {
+      const jwks = getJwks();
+
+      expect(jwks.keys.map((key) => key.kid)).toEqual(['previous', 'current', 'upcoming']);
+    });
+
+    it('should expose public key material only', () => {
+      const [key] = getJwks().keys;
+
+      expect(key).toMatchObject({ kty: 'EC', crv: 'P-256', alg: 'ES256', use: 'sig' });
+      expect(key).not.toHaveProperty('d');
+    });
+  });
+
+  describe('signing and verification', () => {
+    it('should sign with the newest active key', () => {
+      const token = signJwt({ userId: 1 });
+
+      expect(jwt.decode(token, { complete: true })?.header).toMatchObject({
+        alg: 'ES256',
+        kid: 'current',
+      });
+      expect(verifyJwt(token)).toMatchObject({ userId: 1 });
+    });
+
+    it('should still verify tokens from a key in its grace period', () => {
+      const token = jwt.sign({ userId: 1 }, keys[1].privateKey, {
+        algorithm: 'ES256',
+        keyid: 'previous',
+      });
+
+      expect(verifyJwt(token)).toMatchObject({ userId: 1 });
+    });
+
+    it('should reject tokens from a retired key', () => {
+      const token = jwt.sign({ userId: 1 }, keys[0].privateKey, {
+        algorithm: 'ES256',
+        keyid: 'retired',
+      });
+
+      expect(() => verifyJwt(token)).toThrow('Unknown signing key');
+    });
+
+    it('should reject HS256 tokens signed with the shared secret', () => {
+      const token = jwt.sign({ userId: 1 }, config.jwt.secret, { keyid: 'current' });
+
+      expect(() => verifyJwt(token)).toThrow();
+    });
+  });
+});
@@ -0,0 +1,24 @@
+/**
+ * JWKS Controller
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { getJwks } from '@/features/jwks/jwks.service';
+
+// Verifiers refetch on unknown kid, and upcoming keys are published before they sign
+const JWKS_CACHE_MAX_AGE_SECONDS = 300;
+
+/**
+ * Served as a plain JWK Set (RFC 7517) rather than the API envelope so standard
+ * JWT libraries can consume it directly
+ */
+export function index(req: Request, res: Response, next: NextFunction): void {
+  try {
+    const jwks = getJwks();
+
+    res.set('Cache-Control', `public, max-age=${JWKS_CACHE_MAX_AGE_SECONDS}`);
+    res.json(jwks);
+  } catch (error) {
+    next(error);
+  }
+}
@@ -0,0 +1,13 @@
+/**
+ * JWKS Routes
+ */
+
+import { Router } from 'express';
+import { index } from '@/features/jwks/jwks.controller';
+
+const router = Router();
+
+// GET /.well-known/jwks.json - Public keys for verifying access tokens
+router.get('/jwks.json', index);
+
+export default router;
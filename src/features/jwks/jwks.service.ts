@@ -0,0 +1,12 @@
+/**
+ * JWKS Service
+ */
+
+import { getPublicJwks, Jwk } from '@/shared/utils/jwt';
+
+/**
+ * Get the public keys that currently verify access tokens
+ */
+export function getJwks(): { keys: Jwk[] } {
+  return getPublicJwks();
+}
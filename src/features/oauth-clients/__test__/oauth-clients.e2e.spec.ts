@@ -0,0 +1,115 @@
+import 'dotenv/config';
+import request from 'supertest';
+import express, { Request, Response, NextFunction } from 'express';
+import { describe, it, expect, vi, beforeAll, beforeEach } from 'vitest';
+
+vi.mock('@/shared/utils/logger', () => ({
+  logger: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+    child: vi.fn().mockReturnThis(),
+  },
+}));
+
+// Import implementations after mocks
+import pino from 'pino';
+import { prisma } from '@/shared/utils/prisma';
+import { authenticate, authorize } from '@/shared/middlewares/auth.middleware';
+import { tokenRouter } from '@/features/oauth-clients/oauth-clients.routes';
+import { createClient, revokeClient } from '@/features/oauth-clients/oauth-clients.service';
+
+// Setup Express App with the token endpoint and routes guarded like the example feature
+const app = express();
+app.use(express.urlencoded({ extended: true }));
+app.use((req, _res, next) => {
+  req.log = pino({ level: 'silent' });
+  next();
+});
+app.use('/oauth', tokenRouter);
+app.get('/read', authenticate, authorize('examples:read'), (req, res) => {
+  res.json({ client: req.serviceClient });
+});
+app.get('/create', authenticate, authorize('examples:create'), (_req, res) => {
+  res.json({ ok: true });
+});
+
+interface HttpError extends Error {
+  statusCode?: number;
+}
+
+app.use((err: HttpError, req: Request, res: Response, _next: NextFunction) => {
+  res.status(err.statusCode || 500).json({
+    success: false,
+    error: { message: err.message || 'Internal Server Error' },
+  });
+});
+
+describe('OAuth Clients E2E', () => {
+  beforeAll(async () => {
+    for (const name of ['examples:read', 'examples:create']) {
+      await prisma.permission.upsert({ where: { name }, update: {}, create: { name } });
+    }
+  });
+
+  beforeEach(async () => {
+    await prisma.oAuthClient.deleteMany();
+  });
+
+  async function requestToken(clientId: string, clientSecret: string, scope?: string) {
+    return request(app)
+      .post('/oauth/token')
+      .auth(clientId, clientSecret)
+      .type('form')
+      .send({ grant_type: 'client_credentials', ...(scope && { scope }) });
+  }
+
+  it('should issue a client token that is limited to its scopes', async () => {
+    const client = await createClient({ name: 'Reporting', scopes: ['examples:read'] }, 1);
+
+    const tokenRes = await requestToken(client.clientId, client.clientSecret);
+
+    expect(tokenRes.status).toBe(200);
+    expect(tokenRes.body.scope).toBe('examples:read');
+
+    const token = tokenRes.body.access_token;
+    const read = await request(app).get('/read').set('Authorization', `Bearer ${token}`);
+    const create = await request(app).get('/create').set('Authorization', `Bearer ${token}`);
+
+    expect(read.status).toBe(200);
+    expect(read.body.client.clientId).toBe(client.clientId);
+    expect(create.status).toBe(403);
+
+    const stored = await prisma.oAuthClient.findUnique({ where: { clientId: client.clientId } });
+    expect(stored?.secretHash).not.toBe(client.clientSecret);
+    expect(stored?.lastUsedAt).not.toBeNull();
+  });
+
+  it('should reject a wrong secret and scopes beyond the client', async () => {
+    const client = await createClient({ name: 'Reporting', scopes: ['examples:read'] }, 1);
+
+    const wrongSecret = await requestToken(client.clientId, 'wrong-secret');
+    const wrongScope = await requestToken(client.clientId, client.clientSecret, 'examples:create');
+
+    expect(wrongSecret.status).toBe(401);
+    expect(wrongSecret.body.error).toBe('invalid_client');
+    expect(wrongScope.status).toBe(400);
+    expect(wrongScope.body.error).toBe('invalid_scope');
+  });
+
+  it('should stop accepting tokens once the client is revoked', async () => {
+    const client = await createClient({ name: 'Reporting', scopes: ['examples:read'] }, 1);
+    const tokenRes = await requestToken(client.clientId, client.clientSecret);
+
+    await revokeClient(client.id, 1);
+
+    const read = await request(app)
+      .get('/read')
+      .set('Authorization', `Bearer ${tokenRes.body.access_token}`);
+    const again = await requestToken(client.clientId, client.clientSecret);
+
+    expect(read.status).toBe(401);
+    expect(again.status).toBe(401);
+  });
+});
@@ -0,0 +1,226 @@
+import 'dotenv/config';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import request from 'supertest';
+import express from 'express';
+import jwt from 'jsonwebtoken';
+import pino from 'pino';
+import oauthClientRoutes, { tokenRouter } from '@/features/oauth-clients/oauth-clients.routes';
+import * as oauthClientsService from '@/features/oauth-clients/oauth-clients.service';
+import { authenticate, authorize, requireRole } from '@/shared/middlewares/auth.middleware';
+import { errorHandler } from '@/shared/middlewares/error.middleware';
+import { getClientState } from '@/shared/utils/clientState';
+import { getSessionState } from '@/shared/utils/sessionState';
+import { OAuthError } from '@/shared/errors';
+import { config } from '@/config';
+
+// Mock Service Layer
+vi.mock('@/features/oauth-clients/oauth-clients.service');
+// Client and session state are read from the database by the authenticate middleware
+vi.mock('@/shared/utils/clientState');
+vi.mock('@/shared/utils/sessionState');
+
+const app = express();
+app.use(express.json());
+app.use(express.urlencoded({ extended: true }));
+app.use((req, _res, next) => {
+  req.log = pino({ level: 'silent' });
+  next();
+});
+app.use('/api/v1/admin/oauth-clients', oauthClientRoutes);
+app.use('/oauth', tokenRouter);
+app.get('/protected', authenticate, authorize('examples:read'), (req, res) => {
+  res.json({ client: req.serviceClient, user: req.user });
+});
+app.get('/admin-only', authenticate, requireRole('admin'), (_req, res) => {
+  res.json({ ok: true });
+});
+app.use(errorHandler);
+
+const adminToken = jwt.sign(
+  { userId: 1, sessionId: 2, roles: ['admin'], permissions: [] },
+  config.jwt.secret
+);
+const clientToken = jwt.sign(
+  { clientId: 'svc_reporting', permissions: ['examples:read', 'examples:create'] },
+  config.jwt.secret
+);
+
+const clientState = {
+  clientId: 'svc_reporting',
+  scopes: ['examples:read'],
+  organizationId: null,
+  revokedAt: null,
+  deletedAt: null,
+};
+
+const tokenResponse = {
+  access_token: 'client-access-token',
+  token_type: 'Bearer' as const,
+  expires_in: 900,
+  scope: 'examples:read',
+};
+
+describe('OAuth Clients Feature Integration (Route/Controller)', () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+    vi.mocked(getClientState).mockResolvedValue(clientState);
+    vi.mocked(getSessionState).mockResolvedValue({
+      sessionId: 2,
+      userId: 1,
+      expiresAt: new Date(Date.now() + 1000 * 60 * 60),
+      revokedAt: null,
+      userIsActive: true,
+      userDeletedAt: null,
+      userEmailVerifiedAt: new Date(),
+      passwordChangedAt: null,
+    });
+  });
+
+  describe('POST /oauth/token', () => {
+    it('should accept client credentials in a form body', async () => {
+      vi.mocked(oauthClientsService.issueClientToken).mockResolvedValue(tokenResponse);
+
+      const res = await request(app).post('/oauth/token').type('form').send({
+        grant_type: 'client_credentials',
+        client_id: 'svc_reporting',
+        client_secret: 'secret',
+        scope: 'examples:read',
+      });
+
+      expect(res.status).toBe(200);
+      expect(res.body).toEqual(tokenResponse);
+      expect(res.headers['cache-control']).toBe('no-store');
+      expect(oauthClientsService.issueClientToken).toHaveBeenCalledWith({
+        grantType: 'client_credentials',
+        scope: 'examples:read',
+        clientId: 'svc_reporting',
+        clientSecret: 'secret',
+      });
+    });
+
+    it('should accept HTTP Basic client authentication', async () => {
+      vi.mocked(oauthClientsService.issueClientToken).mockResolvedValue(tokenResponse);
+
+      const res = await request(app)
+        .post('/oauth/token')
+        .auth('svc_reporting', 'se:cret')
+        .type('form')
+        .send({ grant_type: 'client_credentials' });
+
+      expect(res.status).toBe(200);
+      expect(oauthClientsService.issueClientToken).toHaveBeenCalledWith(
+        expect.objectContaining({ clientId: 'svc_reporting', clientSecret: 'se:cret' })
+      );
+    });
+
+    it('should respond with RFC 6749 errors', async () => {
+      vi.mocked(oauthClientsService.issueClientToken).mockRejectedValue(
+        new OAuthError('invalid_client', 'Client authentication failed')
+      );
+
+      const res = await request(app)
+        .post('/oauth/token')
+        .auth('svc_reporting', 'wrong')
+        .type('form')
+        .send({ grant_type: 'client_credentials' });
+
+      expect(res.status).toBe(401);
+      expect(res.body).toEqual({
+        error: 'invalid_client',
+        error_description: 'Client authentication failed',
+      });
+      expect(res.headers['www-authenticate']).toContain('Basic');
+    });
+  });
+
+  describe('Client access tokens', () => {
+    it('should authenticate the client and keep only scopes it is still allowed', async () => {
+      const res = await request(app)
+        .get('/protected')
+        .set('Authorization', `Bearer ${clientToken}`);
+
+      expect(res.status).toBe(200);
+      expect(res.body.user).toBeUndefined();
+      expect(res.body.client).toMatchObject({
+        clientId: 'svc_reporting',
+        permissions: ['examples:read'],
+      });
+      expect(getSessionState).not.toHaveBeenCalled();
+    });
+
+    it('should reject tokens of revoked clients', async () => {
+      vi.mocked(getClientState).mockResolvedValue({ ...clientState, revokedAt: new Date() });
+
+      const res = await request(app)
+        .get('/protected')
+        .set('Authorization', `Bearer ${clientToken}`);
+
+      expect(res.status).toBe(401);
+    });
+
+    it('should not satisfy role checks', async () => {
+      const res = await request(app)
+        .get('/admin-only')
+        .set('Authorization', `Bearer ${clientToken}`);
+
+      expect(res.status).toBe(401);
+    });
+  });
+
+  describe('Admin client management', () => {
+    it('should register a client and return its secret', async () => {
+      vi.mocked(oauthClientsService.createClient).mockResolvedValue({
+        id: 4,
+        clientId: 'svc_reporting',
+        name: 'Reporting',
+        scopes: ['examples:read'],
+        organizationId: null,
+        lastUsedAt: null,
+        revokedAt: null,
+        createdAt: new Date(),
+        clientSecret: 'secret',
+      });
+
+      const res = await request(app)
+        .post('/api/v1/admin/oauth-clients')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ name: 'Reporting', scopes: ['examples:read'] });
+
+      expect(res.status).toBe(201);
+      expect(res.body.data.clientSecret).toBe('secret');
+      expect(oauthClientsService.createClient).toHaveBeenCalledWith(
+        { name: 'Reporting', scopes: ['examples:read'] },
+        1
+      );
+    });
+
+    it('should return 422 without scopes', async () => {
+      const res = await request(app)
+        .post('/api/v1/admin/oauth-clients')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ name: 'Reporting', scopes: [] });
+
+      expect(res.status).toBe(422);
+    });
+
+    it('should revoke a client', async () => {
+      vi.mocked(oauthClientsService.revokeClient).mockResolvedValue(undefined);
+
+      const res = await request(app)
+        .delete('/api/v1/admin/oauth-clients/4')
+        .set('Authorization', `Bearer ${adminToken}`);
+
+      expect(res.status).toBe(200);
+      expect(oauthClientsService.revokeClient).toHaveBeenCalledWith(4, 1);
+    });
+
+    it('should not let service clients manage clients', async () => {
+      const res = await request(app)
+        .get('/api/v1/admin/oauth-clients')
+        .set('Authorization', `Bearer ${clientToken}`);
+
+      expect(res.status).toBe(401);
+      expect(oauthClientsService.listClients).not.toHaveBeenCalled();
+    });
+  });
+});
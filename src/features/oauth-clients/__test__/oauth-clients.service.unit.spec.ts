@@ -0,0 +1,224 @@
+/**
+ * OAuth Client Service Unit Tests
+ *
+ * Tests the service layer with mocked repository.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import crypto from 'crypto';
+import type { OAuthClient } from '@prisma/client';
+import { NotFoundError, OAuthError, ValidationError } from '@/shared/errors';
+import { verifyJwt } from '@/shared/utils/jwt';
+import type { OAuthClientSummary } from '@/features/oauth-clients/oauth-clients.types';
+
+// Mock the repository
+vi.mock('@/features/oauth-clients/oauth-clients.repository', () => ({
+  findAll: vi.fn(),
+  findByClientId: vi.fn(),
+  findPermissionNames: vi.fn(),
+  organizationExists: vi.fn(),
+  create: vi.fn(),
+  revoke: vi.fn(),
+  touch: vi.fn(),
+}));
+
+vi.mock('@/shared/utils/clientState', () => ({
+  invalidateClientState: vi.fn(),
+}));
+
+// Import after mocking
+import * as oauthClientsRepository from '@/features/oauth-clients/oauth-clients.repository';
+import { invalidateClientState } from '@/shared/utils/clientState';
+import {
+  listClients,
+  createClient,
+  revokeClient,
+  issueClientToken,
+} from '@/features/oauth-clients/oauth-clients.service';
+
+const ADMIN_ID = 1;
+const CLIENT_SECRET = 'client-secret';
+
+function sha256(value: string) {
+  return crypto.createHash('sha256').update(value).digest('hex');
+}
+
+const mockSummary: OAuthClientSummary = {
+  id: 4,
+  clientId: 'svc_reporting',
+  name: 'Reporting',
+  scopes: ['examples:read', 'examples:create'],
+  organizationId: null,
+  lastUsedAt: null,
+  revokedAt: null,
+  createdAt: new Date('2026-01-15T00:00:00Z'),
+};
+
+const mockClient = {
+  ...mockSummary,
+  secretHash: sha256(CLIENT_SECRET),
+  deletedAt: null,
+} as OAuthClient;
+
+async function expectOAuthError(promise: Promise<unknown>, error: string, statusCode: number) {
+  const rejection = await promise.catch((e: unknown) => e);
+
+  expect(rejection).toBeInstanceOf(OAuthError);
+  expect((rejection as OAuthError).error).toBe(error);
+  expect((rejection as OAuthError).statusCode).toBe(statusCode);
+}
+
+describe('OAuth Client Service', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(oauthClientsRepository.findByClientId).mockResolvedValue(mockClient);
+  });
+
+  describe('listClients', () => {
+    it('should list registered clients', async () => {
+      vi.mocked(oauthClientsRepository.findAll).mockResolvedValue([mockSummary]);
+
+      expect(await listClients()).toEqual([mockSummary]);
+    });
+  });
+
+  describe('createClient', () => {
+    it('should return the secret once and store only its hash', async () => {
+      vi.mocked(oauthClientsRepository.findPermissionNames).mockResolvedValue(['examples:read']);
+      vi.mocked(oauthClientsRepository.create).mockResolvedValue(mockSummary);
+
+      const result = await createClient({ name: 'Reporting', scopes: ['examples:read'] }, ADMIN_ID);
+
+      const stored = vi.mocked(oauthClientsRepository.create).mock.calls[0][0];
+      expect(stored.clientId).toMatch(/^svc_[0-9a-f]{24}$/);
+      expect(stored.secretHash).toBe(sha256(result.clientSecret));
+      expect(stored.createdBy).toBe('1');
+      expect(result.clientId).toBe('svc_reporting');
+    });
+
+    it('should reject scopes that are not permissions', async () => {
+      vi.mocked(oauthClientsRepository.findPermissionNames).mockResolvedValue(['examples:read']);
+
+      await expect(
+        createClient({ name: 'Reporting', scopes: ['examples:read', 'root'] }, ADMIN_ID)
+      ).rejects.toThrow(ValidationError);
+      expect(oauthClientsRepository.create).not.toHaveBeenCalled();
+    });
+
+    it('should bind the client to an existing organization', async () => {
+      vi.mocked(oauthClientsRepository.findPermissionNames).mockResolvedValue(['examples:read']);
+      vi.mocked(oauthClientsRepository.organizationExists).mockResolvedValue(true);
+      vi.mocked(oauthClientsRepository.create).mockResolvedValue({
+        ...mockSummary,
+        organizationId: 3,
+      });
+
+      await createClient(
+        { name: 'Reporting', scopes: ['examples:read'], organizationId: 3 },
+        ADMIN_ID
+      );
+
+      expect(oauthClientsRepository.organizationExists).toHaveBeenCalledWith(3);
+      expect(vi.mocked(oauthClientsRepository.create).mock.calls[0][0].organizationId).toBe(3);
+    });
+
+    it('should reject an unknown organization', async () => {
+      vi.mocked(oauthClientsRepository.findPermissionNames).mockResolvedValue(['examples:read']);
+      vi.mocked(oauthClientsRepository.organizationExists).mockResolvedValue(false);
+
+      await expect(
+        createClient({ name: 'Reporting', scopes: ['examples:read'], organizationId: 99 }, ADMIN_ID)
+      ).rejects.toMatchObject({ details: { organizationId: 'Organization not found' } });
+      expect(oauthClientsRepository.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('revokeClient', () => {
+    it('should revoke the client and drop its cached state', async () => {
+      vi.mocked(oauthClientsRepository.revoke).mockResolvedValue('svc_reporting');
+
+      await revokeClient(4, ADMIN_ID);
+
+      expect(oauthClientsRepository.revoke).toHaveBeenCalledWith(4, '1');
+      expect(invalidateClientState).toHaveBeenCalledWith('svc_reporting');
+    });
+
+    it('should throw NotFoundError for unknown or revoked clients', async () => {
+      vi.mocked(oauthClientsRepository.revoke).mockResolvedValue(null);
+
+      await expect(revokeClient(99, ADMIN_ID)).rejects.toThrow(NotFoundError);
+    });
+  });
+
+  describe('issueClientToken', () => {
+    const input = {
+      grantType: 'client_credentials',
+      clientId: 'svc_reporting',
+      clientSecret: CLIENT_SECRET,
+    };
+
+    it('should issue a token with all allowed scopes by default', async () => {
+      const result = await issueClientToken(input);
+
+      expect(result.token_type).toBe('Bearer');
+      expect(result.expires_in).toBe(15 * 60);
+      expect(result.scope).toBe('examples:read examples:create');
+
+      const payload = verifyJwt(result.access_token) as Record<string, unknown>;
+      expect(payload.clientId).toBe('svc_reporting');
+      expect(payload.sub).toBe('svc_reporting');
+      expect(payload.userId).toBeUndefined();
+      expect(payload.permissions).toEqual(['examples:read', 'examples:create']);
+      expect(oauthClientsRepository.touch).toHaveBeenCalledWith(4);
+    });
+
+    it('should narrow the token to the requested scopes', async () => {
+      const result = await issueClientToken({ ...input, scope: 'examples:read' });
+
+      expect(result.scope).toBe('examples:read');
+      expect((verifyJwt(result.access_token) as Record<string, unknown>).permissions).toEqual([
+        'examples:read',
+      ]);
+    });
+
+    it('should reject scopes the client is not allowed', async () => {
+      await expectOAuthError(
+        issueClientToken({ ...input, scope: 'examples:read examples:delete' }),
+        'invalid_scope',
+        400
+      );
+    });
+
+    it('should reject other grant types', async () => {
+      await expectOAuthError(
+        issueClientToken({ ...input, grantType: 'password' }),
+        'unsupported_grant_type',
+        400
+      );
+      await expectOAuthError(
+        issueClientToken({ ...input, grantType: undefined }),
+        'invalid_request',
+        400
+      );
+    });
+
+    it('should reject a wrong secret, unknown or revoked client', async () => {
+      await expectOAuthError(
+        issueClientToken({ ...input, clientSecret: 'wrong' }),
+        'invalid_client',
+        401
+      );
+
+      vi.mocked(oauthClientsRepository.findByClientId).mockResolvedValue({
+        ...mockClient,
+        revokedAt: new Date(),
+      });
+      await expectOAuthError(issueClientToken(input), 'invalid_client', 401);
+
+      vi.mocked(oauthClientsRepository.findByClientId).mockResolvedValue(null);
+      await expectOAuthError(issueClientToken(input), 'invalid_client', 401);
+
+      expect(oauthClientsRepository.touch).not.toHaveBeenCalled();
+    });
+  });
+});
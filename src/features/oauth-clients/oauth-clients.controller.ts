@@ -0,0 +1,126 @@
+/**
+ * OAuth Client Controller
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import {
+  listClients,
+  createClient,
+  revokeClient,
+  issueClientToken,
+} from '@/features/oauth-clients/oauth-clients.service';
+import { sendOk, sendCreated, getRequestId } from '@/shared/utils/apiResponse';
+import { OAuthError, UnauthorizedError } from '@/shared/errors';
+
+function getActorId(req: Request): number {
+  if (!req.user) {
+    throw new UnauthorizedError('User not authenticated');
+  }
+
+  return req.user.userId;
+}
+
+function getBodyString(req: Request, name: string): string | undefined {
+  const value = req.body?.[name];
+  return typeof value === 'string' && value ? value : undefined;
+}
+
+/**
+ * Client credentials from HTTP Basic authentication (RFC 6749 section 2.3.1) or the request body
+ */
+function getClientCredentials(req: Request): {
+  clientId?: string;
+  clientSecret?: string;
+  basic: boolean;
+} {
+  const authHeader = req.headers.authorization;
+
+  if (authHeader?.startsWith('Basic ')) {
+    const decoded = Buffer.from(authHeader.slice('Basic '.length), 'base64').toString('utf-8');
+    const separator = decoded.indexOf(':');
+
+    if (separator === -1) {
+      return { basic: true };
+    }
+
+    try {
+      return {
+        clientId: decodeURIComponent(decoded.slice(0, separator)),
+        clientSecret: decodeURIComponent(decoded.slice(separator + 1)),
+        basic: true,
+      };
+    } catch {
+      return { basic: true };
+    }
+  }
+
+  return {
+    clientId: getBodyString(req, 'client_id'),
+    clientSecret: getBodyString(req, 'client_secret'),
+    basic: false,
+  };
+}
+
+export async function index(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const clients = await listClients();
+
+    sendOk(res, clients, { requestId: getRequestId(req) });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function create(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const client = await createClient(req.body, getActorId(req));
+
+    sendCreated(res, client, { requestId: getRequestId(req) });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function destroy(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    await revokeClient(parseInt(req.params.id as string, 10), getActorId(req));
+
+    sendOk(res, null, { requestId: getRequestId(req) });
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Token endpoint: responds in the OAuth 2.0 format instead of the standard envelope
+ */
+export async function token(req: Request, res: Response, next: NextFunction): Promise<void> {
+  const credentials = getClientCredentials(req);
+
+  res.set({ 'Cache-Control': 'no-store', Pragma: 'no-cache' });
+
+  try {
+    const result = await issueClientToken({
+      grantType: getBodyString(req, 'grant_type'),
+      scope: getBodyString(req, 'scope'),
+      clientId: credentials.clientId,
+      clientSecret: credentials.clientSecret,
+    });
+
+    req.log.info({ clientId: credentials.clientId, scope: result.scope }, 'Issued client token');
+
+    res.json(result);
+  } catch (error) {
+    if (!(error instanceof OAuthError)) {
+      return next(error);
+    }
+
+    req.log.warn({ clientId: credentials.clientId, error: error.error }, 'Client token rejected');
+
+    if (error.error === 'invalid_client' && credentials.basic) {
+      res.set('WWW-Authenticate', 'Basic realm="oauth"');
+    }
+
+    res.status(error.statusCode).json({ error: error.error, error_description: error.message });
+  }
+}
@@ -0,0 +1,111 @@
+/**
+ * OAuth Client Repository
+ *
+ * Database operations for service clients using the client_credentials grant.
+ */
+
+import { prisma } from '@/shared/utils/prisma';
+import type { OAuthClient } from '@prisma/client';
+import type { OAuthClientSummary } from '@/features/oauth-clients/oauth-clients.types';
+
+const SUMMARY_SELECT = {
+  id: true,
+  clientId: true,
+  name: true,
+  scopes: true,
+  organizationId: true,
+  lastUsedAt: true,
+  revokedAt: true,
+  createdAt: true,
+} as const;
+
+export async function findAll(): Promise<OAuthClientSummary[]> {
+  return prisma.oAuthClient.findMany({
+    where: { deletedAt: null },
+    select: SUMMARY_SELECT,
+    orderBy: { createdAt: 'desc' },
+  });
+}
+
+export async function findByClientId(clientId: string): Promise<OAuthClient | null> {
+  return prisma.oAuthClient.findFirst({
+    where: {
+      clientId,
+      deletedAt: null,
+    },
+  });
+}
+
+export async function organizationExists(id: number): Promise<boolean> {
+  const count = await prisma.organization.count({
+    where: { id, deletedAt: null },
+  });
+
+  return count > 0;
+}
+
+/**
+ * Names of the given permissions that exist
+ */
+export async function findPermissionNames(names: string[]): Promise<string[]> {
+  const permissions = await prisma.permission.findMany({
+    where: {
+      name: { in: names },
+      deletedAt: null,
+    },
+    select: { name: true },
+  });
+
+  return permissions.map((permission) => permission.name);
+}
+
+export async function create(data: {
+  clientId: string;
+  name: string;
+  secretHash: string;
+  scopes: string[];
+  organizationId?: number;
+  createdBy: string;
+}): Promise<OAuthClientSummary> {
+  return prisma.oAuthClient.create({
+    data,
+    select: SUMMARY_SELECT,
+  });
+}
+
+/**
+ * Revoke a client
+ *
+ * @returns The revoked client's clientId, or null if it does not exist or is already revoked
+ */
+export async function revoke(id: number, actorId: string): Promise<string | null> {
+  const client = await prisma.oAuthClient.findFirst({
+    where: {
+      id,
+      revokedAt: null,
+      deletedAt: null,
+    },
+    select: { clientId: true },
+  });
+
+  if (!client) {
+    return null;
+  }
+
+  await prisma.oAuthClient.update({
+    where: { id },
+    data: {
+      revokedAt: new Date(),
+      updatedBy: actorId,
+    },
+  });
+
+  return client.clientId;
+}
+
+export async function touch(id: number): Promise<void> {
+  await prisma.oAuthClient.update({
+    where: { id },
+    data: { lastUsedAt: new Date() },
+  });
+}
@@ -0,0 +1,38 @@
+/**
+ * OAuth Client Routes
+ */
+
+import { Router } from 'express';
+import { validate } from '@/shared/middlewares/validation.middleware';
+import {
+  createOAuthClientSchema,
+  oauthClientIdSchema,
+} from '@/features/oauth-clients/oauth-clients.schema';
+import { index, create, destroy, token } from '@/features/oauth-clients/oauth-clients.controller';
+import { authenticate, forbidApiKey, requireRole } from '@/shared/middlewares/auth.middleware';
+
+/**
+ * Client registration, mounted under /admin/oauth-clients
+ */
+const router = Router();
+
+router.use(authenticate, forbidApiKey, requireRole('admin'));
+
+// GET /admin/oauth-clients - List registered clients
+router.get('/', index);
+
+// POST /admin/oauth-clients - Register a client (the secret is only returned in this response)
+router.post('/', validate(createOAuthClientSchema), create);
+
+// DELETE /admin/oauth-clients/:id - Revoke a client (its tokens stop working)
+router.delete('/:id', validate(oauthClientIdSchema), destroy);
+
+/**
+ * Token endpoint, mounted under /oauth
+ */
+export const tokenRouter = Router();
+
+// POST /oauth/token - client_credentials grant (form or JSON body, Basic or body client auth)
+tokenRouter.post('/token', token);
+
+export default router;
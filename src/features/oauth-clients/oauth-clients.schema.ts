@@ -0,0 +1,19 @@
+/**
+ * OAuth Client Validation Schemas
+ */
+
+import { z } from 'zod';
+
+export const createOAuthClientSchema = {
+  body: z.object({
+    name: z.string().trim().min(1, 'Name is required').max(100),
+    scopes: z.array(z.string().min(1)).min(1, 'At least one scope is required').max(100),
+    organizationId: z.number().int().positive().optional(),
+  }),
+};
+
+export const oauthClientIdSchema = {
+  params: z.object({
+    id: z.string().regex(/^\d+$/, 'ID must be a number'),
+  }),
+};
@@ -0,0 +1,152 @@
+/**
+ * OAuth Client Service
+ *
+ * Registered service clients authenticate with a client ID and secret at
+ * `POST /oauth/token` (client_credentials grant) and receive short-lived
+ * access tokens carrying a `clientId` instead of a user. The secret is shown
+ * once on registration and only its hash is stored.
+ */
+
+import crypto from 'crypto';
+import { config } from '@/config';
+import { logger } from '@/shared/utils/logger';
+import { signJwt } from '@/shared/utils/jwt';
+import { generateRandomToken, hashToken } from '@/shared/utils/crypto';
+import { invalidateClientState } from '@/shared/utils/clientState';
+import * as oauthClientsRepository from '@/features/oauth-clients/oauth-clients.repository';
+import type { ClientPayload } from '@/shared/types/auth';
+import type {
+  ClientCredentialsInput,
+  ClientCredentialsToken,
+  CreateOAuthClientInput,
+  CreatedOAuthClient,
+  OAuthClientSummary,
+} from '@/features/oauth-clients/oauth-clients.types';
+import { NotFoundError, OAuthError, ValidationError } from '@/shared/errors';
+
+const CLIENT_ID_PREFIX = 'svc_';
+
+/**
+ * Constant-time comparison of two hex digests
+ */
+function digestsMatch(a: string, b: string): boolean {
+  const left = Buffer.from(a, 'hex');
+  const right = Buffer.from(b, 'hex');
+
+  return left.length === right.length && crypto.timingSafeEqual(left, right);
+}
+
+export async function listClients(): Promise<OAuthClientSummary[]> {
+  return oauthClientsRepository.findAll();
+}
+
+/**
+ * Register a client allowed to request the given permissions as scopes, optionally bound to
+ * the organization whose data it may access
+ *
+ * @throws ValidationError if a scope is not an existing permission or the organization does not exist
+ */
+export async function createClient(
+  input: CreateOAuthClientInput,
+  actorId: number
+): Promise<CreatedOAuthClient> {
+  const scopes = [...new Set(input.scopes)];
+  const existing = await oauthClientsRepository.findPermissionNames(scopes);
+  const unknownScopes = scopes.filter((scope) => !existing.includes(scope));
+
+  if (unknownScopes.length > 0) {
+    throw ValidationError.field('scopes', `Unknown permissions: ${unknownScopes.join(', ')}`);
+  }
+
+  if (
+    input.organizationId !== undefined &&
+    !(await oauthClientsRepository.organizationExists(input.organizationId))
+  ) {
+    throw ValidationError.field('organizationId', 'Organization not found');
+  }
+
+  const clientSecret = generateRandomToken();
+
+  const client = await oauthClientsRepository.create({
+    clientId: `${CLIENT_ID_PREFIX}${crypto.randomBytes(12).toString('hex')}`,
+    name: input.name,
+    secretHash: await hashToken(clientSecret),
+    scopes,
+    organizationId: input.organizationId,
+    createdBy: String(actorId),
+  });
+
+  logger.info({ actorId, clientId: client.clientId, scopes }, 'OAuth client registered');
+
+  return { ...client, clientSecret };
+}
+
+/**
+ * @throws NotFoundError if the client does not exist or is already revoked
+ */
+export async function revokeClient(id: number, actorId: number): Promise<void> {
+  const clientId = await oauthClientsRepository.revoke(id, String(actorId));
+
+  if (!clientId) {
+    throw NotFoundError.resource('OAuth client', id);
+  }
+
+  invalidateClientState(clientId);
+
+  logger.info({ actorId, clientId }, 'OAuth client revoked');
+}
+
+/**
+ * Client credentials grant (RFC 6749 section 4.4)
+ *
+ * @throws OAuthError with the RFC error code on any failure
+ */
+export async function issueClientToken(
+  input: ClientCredentialsInput
+): Promise<ClientCredentialsToken> {
+  if (!input.grantType) {
+    throw new OAuthError('invalid_request', 'grant_type is required');
+  }
+
+  if (input.grantType !== 'client_credentials') {
+    throw new OAuthError('unsupported_grant_type', 'Only client_credentials is supported');
+  }
+
+  if (!input.clientId || !input.clientSecret) {
+    throw new OAuthError('invalid_client', 'Client authentication failed');
+  }
+
+  const client = await oauthClientsRepository.findByClientId(input.clientId);
+  const secretHash = await hashToken(input.clientSecret);
+
+  if (!client || client.revokedAt || !digestsMatch(secretHash, client.secretHash)) {
+    throw new OAuthError('invalid_client', 'Client authentication failed');
+  }
+
+  const requested = input.scope ? [...new Set(input.scope.split(' ').filter(Boolean))] : [];
+  const scopes = requested.length > 0 ? requested : client.scopes;
+  const notAllowed = scopes.filter((scope) => !client.scopes.includes(scope));
+
+  if (notAllowed.length > 0) {
+    throw new OAuthError('invalid_scope', `Scope not allowed: ${notAllowed.join(' ')}`);
+  }
+
+  const payload: ClientPayload = { clientId: client.clientId, permissions: scopes };
+  const expiresInSeconds = config.oauth.clientTokenExpiresMinutes * 60;
+
+  const accessToken = signJwt(payload, {
+    subject: client.clientId,
+    expiresIn: expiresInSeconds,
+    issuer: config.jwt.issuer,
+    audience: config.jwt.audience,
+  });
+
+  await oauthClientsRepository.touch(client.id);
+
+  return {
+    access_token: accessToken,
+    token_type: 'Bearer',
+    expires_in: expiresInSeconds,
+    scope: scopes.join(' '),
+  };
+}
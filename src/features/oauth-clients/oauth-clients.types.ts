@@ -0,0 +1,50 @@
+/**
+ * OAuth Client Types
+ */
+
+import type { OAuthClient } from '@prisma/client';
+
+/**
+ * Registered client as shown to administrators (the secret is only returned on creation)
+ */
+export type OAuthClientSummary = Pick<
+  OAuthClient,
+  | 'id'
+  | 'clientId'
+  | 'name'
+  | 'scopes'
+  | 'organizationId'
+  | 'lastUsedAt'
+  | 'revokedAt'
+  | 'createdAt'
+>;
+
+export interface CreateOAuthClientInput {
+  name: string;
+  scopes: string[];
+  /**
+   * Organization whose data the client works with (tenant-scoped routes reject unbound clients)
+   */
+  organizationId?: number;
+}
+
+export interface CreatedOAuthClient extends OAuthClientSummary {
+  clientSecret: string;
+}
+
+export interface ClientCredentialsInput {
+  grantType?: string;
+  scope?: string;
+  clientId?: string;
+  clientSecret?: string;
+}
+
+/**
+ * Token response (RFC 6749 section 5.1)
+ */
+export interface ClientCredentialsToken {
+  access_token: string;
+  token_type: 'Bearer';
+  expires_in: number;
+  scope: string;
+}
@@ -0,0 +1,167 @@
+/**
+ * Mock OpenID Connect Provider
+ *
+ * Minimal in-process OIDC server for tests: discovery, JWKS, an authorization
+ * endpoint that immediately redirects back with a code for the configured user,
+ * and a token endpoint that checks the client credentials and PKCE verifier.
+ * Listens on 127.0.0.1 with a random port, so no real network is involved.
+ */
+
+import crypto from 'crypto';
+import http from 'http';
+import { AddressInfo } from 'net';
+import express from 'express';
+import jwt from 'jsonwebtoken';
+
+export interface MockOidcUser {
+  sub: string;
+  email?: string;
+  email_verified?: boolean;
+  name?: string;
+}
+
+interface PendingCode {
+  user: MockOidcUser;
+  clientId: string;
+  redirectUri: string;
+  codeChallenge: string;
+  nonce?: string;
+}
+
+export interface MockOidcProvider {
+  issuer: string;
+  clientId: string;
+  clientSecret: string;
+  /**
+   * User that the authorization endpoint signs in
+   */
+  setUser(user: MockOidcUser): void;
+  /**
+   * Override claims of the next ID token (e.g. a wrong nonce)
+   */
+  overrideNextIdToken(claims: Record<string, unknown>): void;
+  /**
+   * Follow an authorization URL as the browser would and return the redirect parameters
+   */
+  authorize(authorizationUrl: string): Promise<{ code: string; state: string }>;
+  close(): Promise<void>;
+}
+
+export async function startMockOidcProvider(
+  clientId = 'mock-client',
+  clientSecret = 'mock-secret'
+): Promise<MockOidcProvider> {
+  const kid = 'mock-key';
+  const { privateKey, publicKey } = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+  const codes = new Map<string, PendingCode>();
+
+  let user: MockOidcUser = { sub: 'mock-user', email: 'mock@example.com', email_verified: true };
+  let idTokenOverrides: Record<string, unknown> = {};
+  let issuer = '';
+
+  const app = express();
+  app.use(express.urlencoded({ extended: false }));
+
+  app.get('/.well-known/openid-configuration', (_req, res) => {
+    res.json({
+      issuer,
+      authorization_endpoint: `${issuer}/authorize`,
+      token_endpoint: `${issuer}/token`,
+      jwks_uri: `${issuer}/jwks`,
+    });
+  });
+
+  app.get('/jwks', (_req, res) => {
+    res.json({ keys: [{ ...publicKey.export({ format: 'jwk' }), kid, alg: 'RS256', use: 'sig' }] });
+  });
+
+  app.get('/authorize', (req, res) => {
+    const query = req.query as Record<string, string>;
+
+    if (
+      query.client_id !== clientId ||
+      query.response_type !== 'code' ||
+      query.code_challenge_method !== 'S256'
+    ) {
+      res.status(400).json({ error: 'invalid_request' });
+      return;
+    }
+
+    const code = crypto.randomBytes(16).toString('hex');
+    codes.set(code, {
+      user,
+      clientId: query.client_id,
+      redirectUri: query.redirect_uri,
+      codeChallenge: query.code_challenge,
+      nonce: query.nonce,
+    });
+
+    const redirect = new URL(query.redirect_uri);
+    redirect.searchParams.set('code', code);
+    redirect.searchParams.set('state', query.state);
+    res.redirect(302, redirect.toString());
+  });
+
+  app.post('/token', (req, res) => {
+    const body = req.body as Record<string, string>;
+    const pending = codes.get(body.code);
+    codes.delete(body.code);
+
+    const verifierChallenge = crypto
+      .createHash('sha256')
+      .update(body.code_verifier ?? '')
+      .digest('base64url');
+
+    if (
+      !pending ||
+      body.grant_type !== 'authorization_code' ||
+      body.client_id !== pending.clientId ||
+      body.client_secret !== clientSecret ||
+      body.redirect_uri !== pending.redirectUri ||
+      verifierChallenge !== pending.codeChallenge
+    ) {
+      res.status(400).json({ error: 'invalid_grant' });
+      return;
+    }
+
+    const claims = { ...pending.user, iss: issuer, aud: clientId, nonce: pending.nonce };
+    const idToken = jwt.sign({ ...claims, ...idTokenOverrides }, privateKey, {
+      algorithm: 'RS256',
+      keyid: kid,
+      expiresIn: '5m',
+    });
+    idTokenOverrides = {};
+
+    res.json({ access_token: 'mock-access-token', token_type: 'Bearer', id_token: idToken });
+  });
+
+  const server = http.createServer(app);
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  issuer = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  return {
+    issuer,
+    clientId,
+    clientSecret,
+    setUser(nextUser) {
+      user = nextUser;
+    },
+    overrideNextIdToken(claims) {
+      idTokenOverrides = claims;
+    },
+    async authorize(authorizationUrl) {
+      const response = await fetch(authorizationUrl, { redirect: 'manual' });
+      const location = new URL(response.headers.get('location') ?? '');
+
+      return {
+        code: location.searchParams.get('code') ?? '',
+        state: location.searchParams.get('state') ?? '',
+      };
+    },
+    close() {
+      return new Promise((resolve, reject) =>
+        server.close((error) => (error ? reject(error) : resolve()))
+      );
+    },
+  };
+}
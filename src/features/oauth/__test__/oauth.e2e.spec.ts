@@ -0,0 +1,183 @@
+import 'dotenv/config';
+import request from 'supertest';
+import express, { Request, Response, NextFunction } from 'express';
+import { describe, it, expect, vi, beforeAll, afterAll, beforeEach } from 'vitest';
+
+vi.mock('@/shared/utils/logger', () => ({
+  logger: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+    child: vi.fn().mockReturnThis(),
+  },
+}));
+
+// Import implementations after mocks
+import { config } from '@/config';
+import oauthRoutes from '@/features/oauth/oauth.routes';
+import { prisma } from '@/shared/utils/prisma';
+import { startMockOidcProvider, MockOidcProvider } from './mockOidcProvider';
+
+// Setup Express App
+const app = express();
+app.use(express.json());
+app.use('/api/v1/auth/oauth', oauthRoutes);
+
+interface HttpError extends Error {
+  statusCode?: number;
+}
+
+app.use((err: HttpError, req: Request, res: Response, _next: NextFunction) => {
+  res.status(err.statusCode || 500).json({
+    success: false,
+    error: { message: err.message || 'Internal Server Error' },
+  });
+});
+
+describe('OAuth Feature E2E', () => {
+  let mock: MockOidcProvider;
+
+  /**
+   * Run the browser part of the flow and post the redirect parameters back
+   */
+  async function signIn() {
+    const start = await request(app).post('/api/v1/auth/oauth/oidc/authorize');
+    const { code, state } = await mock.authorize(start.body.data.authorizationUrl);
+
+    return request(app).post('/api/v1/auth/oauth/oidc/callback').send({ code, state });
+  }
+
+  beforeAll(async () => {
+    mock = await startMockOidcProvider();
+
+    // The provider is built from config on first use
+    config.oauth.oidc.issuer = mock.issuer;
+    config.oauth.oidc.clientId = mock.clientId;
+    config.oauth.oidc.clientSecret = mock.clientSecret;
+  });
+
+  afterAll(async () => {
+    await mock.close();
+  });
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+
+    // Clean Database
+    await prisma.oAuthState.deleteMany();
+    await prisma.userSession.deleteMany();
+    await prisma.userIdentity.deleteMany();
+    await prisma.user.deleteMany();
+  });
+
+  it('should list the configured provider', async () => {
+    const res = await request(app).get('/api/v1/auth/oauth/providers');
+
+    expect(res.status).toBe(200);
+    expect(res.body.data.providers).toEqual(['oidc']);
+  });
+
+  it('should create a verified user on first sign-in and reuse it afterwards', async () => {
+    mock.setUser({ sub: 'oidc-1', email: 'new@example.com', email_verified: true, name: 'New' });
+
+    const first = await signIn();
+
+    expect(first.status).toBe(200);
+    expect(first.body.data.accessToken).toBeDefined();
+    expect(first.body.data.refreshToken).toBeDefined();
+
+    const user = await prisma.user.findUnique({
+      where: { email: 'new@example.com' },
+      include: { identities: true },
+    });
+    expect(user?.password).toBeNull();
+    expect(user?.emailVerifiedAt).not.toBeNull();
+    expect(user?.identities).toHaveLength(1);
+    expect(user?.identities[0].subject).toBe('oidc-1');
+
+    const second = await signIn();
+
+    expect(second.status).toBe(200);
+    expect(await prisma.user.count()).toBe(1);
+    expect(await prisma.userSession.count({ where: { userId: user!.id } })).toBe(2);
+  });
+
+  it('should link to an existing verified account with the same email', async () => {
+    const existing = await prisma.user.create({
+      data: {
+        email: 'linked@example.com',
+        name: 'Linked',
+        password: 'hashed',
+        emailVerifiedAt: new Date(),
+      },
+    });
+    mock.setUser({ sub: 'oidc-2', email: 'linked@example.com', email_verified: true });
+
+    const res = await signIn();
+
+    expect(res.status).toBe(200);
+    expect(await prisma.user.count()).toBe(1);
+    expect(await prisma.userIdentity.count({ where: { userId: existing.id } })).toBe(1);
+    expect(await prisma.userSession.count({ where: { userId: existing.id } })).toBe(1);
+  });
+
+  it('should not link to an account whose email is not verified', async () => {
+    await prisma.user.create({
+      data: { email: 'unverified@example.com', name: 'Unverified', password: 'hashed' },
+    });
+    mock.setUser({ sub: 'oidc-3', email: 'unverified@example.com', email_verified: true });
+
+    const res = await signIn();
+
+    expect(res.status).toBe(409);
+    expect(await prisma.userIdentity.count()).toBe(0);
+  });
+
+  it('should not link to a deactivated account', async () => {
+    await prisma.user.create({
+      data: {
+        email: 'inactive@example.com',
+        name: 'Inactive',
+        password: 'hashed',
+        emailVerifiedAt: new Date(),
+        isActive: false,
+      },
+    });
+    mock.setUser({ sub: 'oidc-6', email: 'inactive@example.com', email_verified: true });
+
+    const res = await signIn();
+
+    expect(res.status).toBe(403);
+    expect(await prisma.userIdentity.count()).toBe(0);
+  });
+
+  it('should reject a reused or unknown state', async () => {
+    mock.setUser({ sub: 'oidc-4', email: 'state@example.com', email_verified: true });
+
+    const start = await request(app).post('/api/v1/auth/oauth/oidc/authorize');
+    const { code, state } = await mock.authorize(start.body.data.authorizationUrl);
+
+    const first = await request(app).post('/api/v1/auth/oauth/oidc/callback').send({ code, state });
+    const replay = await request(app)
+      .post('/api/v1/auth/oauth/oidc/callback')
+      .send({ code, state });
+    const forged = await request(app)
+      .post('/api/v1/auth/oauth/oidc/callback')
+      .send({ code, state: 'forged-state' });
+
+    expect(first.status).toBe(200);
+    expect(replay.status).toBe(401);
+    expect(forged.status).toBe(401);
+  });
+
+  it('should reject an ID token with a mismatched nonce', async () => {
+    mock.setUser({ sub: 'oidc-5', email: 'nonce@example.com', email_verified: true });
+    mock.overrideNextIdToken({ nonce: 'attacker-nonce' });
+
+    const res = await signIn();
+
+    expect(res.status).toBe(401);
+    expect(await prisma.user.count()).toBe(0);
+  });
+});
@@ -0,0 +1,202 @@
+/**
+ * OAuth Providers Integration Tests
+ *
+ * Runs the OIDC client against a local mock provider and the GitHub client against stubbed fetch.
+ */
+
+import { describe, it, expect, vi, beforeAll, afterAll, afterEach } from 'vitest';
+import crypto from 'crypto';
+import {
+  createOidcProvider,
+  createGitHubProvider,
+  getOAuthProvider,
+} from '@/features/oauth/oauth.providers';
+import type { OAuthProvider } from '@/features/oauth/oauth.types';
+import { startMockOidcProvider, MockOidcProvider } from './mockOidcProvider';
+
+const REDIRECT_URI = 'http://localhost:3000/oauth/callback/oidc';
+
+function createPkce() {
+  const codeVerifier = crypto.randomBytes(32).toString('hex');
+  const codeChallenge = crypto.createHash('sha256').update(codeVerifier).digest('base64url');
+
+  return { codeVerifier, codeChallenge };
+}
+
+describe('OAuth Providers', () => {
+  describe('OpenID Connect', () => {
+    let mock: MockOidcProvider;
+    let provider: OAuthProvider;
+
+    beforeAll(async () => {
+      mock = await startMockOidcProvider();
+      provider = createOidcProvider({
+        name: 'oidc',
+        issuer: mock.issuer,
+        clientId: mock.clientId,
+        clientSecret: mock.clientSecret,
+        redirectUri: REDIRECT_URI,
+        scopes: 'openid email profile',
+      });
+    });
+
+    afterAll(async () => {
+      await mock.close();
+    });
+
+    async function signIn(nonce = 'nonce-1') {
+      const { codeVerifier, codeChallenge } = createPkce();
+      const url = await provider.getAuthorizationUrl({ state: 'state-1', codeChallenge, nonce });
+      const { code, state } = await mock.authorize(url);
+
+      return { code, state, codeVerifier, url };
+    }
+
+    it('should build an authorization URL with state, nonce and PKCE', async () => {
+      const { url } = await signIn();
+      const params = new URL(url).searchParams;
+
+      expect(url.startsWith(`${mock.issuer}/authorize`)).toBe(true);
+      expect(params.get('client_id')).toBe(mock.clientId);
+      expect(params.get('redirect_uri')).toBe(REDIRECT_URI);
+      expect(params.get('state')).toBe('state-1');
+      expect(params.get('nonce')).toBe('nonce-1');
+      expect(params.get('code_challenge_method')).toBe('S256');
+    });
+
+    it('should exchange the code for a verified profile', async () => {
+      mock.setUser({
+        sub: 'user-42',
+        email: 'jane@example.com',
+        email_verified: true,
+        name: 'Jane',
+      });
+      const { code, state, codeVerifier } = await signIn();
+
+      const profile = await provider.exchangeCode({ code, codeVerifier, nonce: 'nonce-1' });
+
+      expect(state).toBe('state-1');
+      expect(profile).toEqual({
+        subject: 'user-42',
+        email: 'jane@example.com',
+        emailVerified: true,
+        name: 'Jane',
+      });
+    });
+
+    it('should reject a wrong PKCE code verifier', async () => {
+      const { code } = await signIn();
+
+      await expect(
+        provider.exchangeCode({ code, codeVerifier: 'wrong-verifier', nonce: 'nonce-1' })
+      ).rejects.toThrow('status 400');
+    });
+
+    it('should reject an ID token with a different nonce', async () => {
+      const { code, codeVerifier } = await signIn();
+
+      await expect(
+        provider.exchangeCode({ code, codeVerifier, nonce: 'another-nonce' })
+      ).rejects.toThrow('nonce');
+    });
+
+    it('should reject an ID token issued for another client', async () => {
+      mock.overrideNextIdToken({ aud: 'someone-else' });
+      const { code, codeVerifier } = await signIn();
+
+      await expect(provider.exchangeCode({ code, codeVerifier, nonce: 'nonce-1' })).rejects.toThrow(
+        'audience'
+      );
+    });
+
+    it('should not accept the same code twice', async () => {
+      const { code, codeVerifier } = await signIn();
+      await provider.exchangeCode({ code, codeVerifier, nonce: 'nonce-1' });
+
+      await expect(
+        provider.exchangeCode({ code, codeVerifier, nonce: 'nonce-1' })
+      ).rejects.toThrow();
+    });
+  });
+
+  describe('GitHub', () => {
+    const provider = createGitHubProvider({
+      clientId: 'github-client',
+      clientSecret: 'github-secret',
+      redirectUri: 'http://localhost:3000/oauth/callback/github',
+    });
+
+    function stubGitHub(emails: { email: string; primary: boolean; verified: boolean }[]) {
+      const fetchMock = vi.fn(async (url: string | URL | Request) => {
+        const body = String(url).endsWith('/access_token')
+          ? { access_token: 'gh-token' }
+          : String(url).endsWith('/user/emails')
+            ? emails
+            : { id: 7, login: 'octocat', name: null };
+
+        return new Response(JSON.stringify(body), { status: 200 });
+      });
+      vi.stubGlobal('fetch', fetchMock);
+
+      return fetchMock;
+    }
+
+    afterEach(() => {
+      vi.unstubAllGlobals();
+    });
+
+    it('should include PKCE parameters in the authorization URL', async () => {
+      const url = await provider.getAuthorizationUrl({
+        state: 'state-1',
+        codeChallenge: 'challenge',
+        nonce: 'unused',
+      });
+      const params = new URL(url).searchParams;
+
+      expect(url.startsWith('https://github.com/login/oauth/authorize')).toBe(true);
+      expect(params.get('code_challenge')).toBe('challenge');
+      expect(params.get('state')).toBe('state-1');
+    });
+
+    it('should use the primary verified email address', async () => {
+      const fetchMock = stubGitHub([
+        { email: 'old@example.com', primary: false, verified: true },
+        { email: 'octo@example.com', primary: true, verified: true },
+      ]);
+
+      const profile = await provider.exchangeCode({
+        code: 'code',
+        codeVerifier: 'verifier',
+        nonce: '',
+      });
+
+      expect(profile).toEqual({
+        subject: '7',
+        email: 'octo@example.com',
+        emailVerified: true,
+        name: 'octocat',
+      });
+      expect(fetchMock).toHaveBeenCalledTimes(3);
+    });
+
+    it('should not report an unverified primary email as verified', async () => {
+      stubGitHub([{ email: 'octo@example.com', primary: true, verified: false }]);
+
+      const profile = await provider.exchangeCode({
+        code: 'code',
+        codeVerifier: 'verifier',
+        nonce: '',
+      });
+
+      expect(profile.email).toBeNull();
+      expect(profile.emailVerified).toBe(false);
+    });
+  });
+
+  describe('getOAuthProvider', () => {
+    it('should return null for providers without credentials', () => {
+      expect(getOAuthProvider('google')).toBeNull();
+      expect(getOAuthProvider('unknown')).toBeNull();
+    });
+  });
+});
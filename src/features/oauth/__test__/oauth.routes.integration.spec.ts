@@ -0,0 +1,123 @@
+import 'dotenv/config';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import request from 'supertest';
+import express, { Request, Response, NextFunction } from 'express';
+import { Logger } from 'pino';
+import oauthRoutes from '@/features/oauth/oauth.routes';
+import * as oauthService from '@/features/oauth/oauth.service';
+import { errorHandler } from '@/shared/middlewares/error.middleware';
+import { NotFoundError, UnauthorizedError } from '@/shared/errors';
+
+// Mock Service Layer
+vi.mock('@/features/oauth/oauth.service');
+
+const app = express();
+app.use(express.json());
+
+// Mock Logger Middleware
+app.use((req: Request, res: Response, next: NextFunction) => {
+  (req as Request & { log: Partial<Logger> }).log = {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+    trace: vi.fn(),
+    fatal: vi.fn(),
+    level: 'info',
+    silent: vi.fn(),
+    child: vi.fn(),
+  } as unknown as Logger;
+  next();
+});
+app.use('/api/v1/auth/oauth', oauthRoutes);
+app.use(errorHandler);
+
+describe('OAuth Feature Integration (Route/Controller)', () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+  });
+
+  describe('GET /api/v1/auth/oauth/providers', () => {
+    it('should list the enabled providers', async () => {
+      vi.mocked(oauthService.listProviders).mockReturnValue(['github', 'oidc']);
+
+      const res = await request(app).get('/api/v1/auth/oauth/providers');
+
+      expect(res.status).toBe(200);
+      expect(res.body.data.providers).toEqual(['github', 'oidc']);
+    });
+  });
+
+  describe('POST /api/v1/auth/oauth/:provider/authorize', () => {
+    it('should return the authorization URL', async () => {
+      vi.mocked(oauthService.authorize).mockResolvedValue({
+        authorizationUrl: 'https://github.com/login/oauth/authorize?state=abc',
+      });
+
+      const res = await request(app).post('/api/v1/auth/oauth/github/authorize');
+
+      expect(res.status).toBe(200);
+      expect(res.body.data.authorizationUrl).toContain('github.com');
+      expect(oauthService.authorize).toHaveBeenCalledWith('github');
+    });
+
+    it('should return 404 for a disabled provider', async () => {
+      vi.mocked(oauthService.authorize).mockRejectedValue(
+        new NotFoundError("OAuth provider 'google' is not enabled")
+      );
+
+      const res = await request(app).post('/api/v1/auth/oauth/google/authorize');
+
+      expect(res.status).toBe(404);
+    });
+
+    it('should return 422 for an unknown provider name', async () => {
+      const res = await request(app).post('/api/v1/auth/oauth/facebook/authorize');
+
+      expect(res.status).toBe(422);
+      expect(oauthService.authorize).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('POST /api/v1/auth/oauth/:provider/callback', () => {
+    it('should sign in and return tokens', async () => {
+      vi.mocked(oauthService.callback).mockResolvedValue({
+        accessToken: 'access-token',
+        refreshToken: 'refresh-token',
+      });
+
+      const res = await request(app)
+        .post('/api/v1/auth/oauth/oidc/callback')
+        .set('User-Agent', 'vitest')
+        .send({ code: 'code', state: 'state' });
+
+      expect(res.status).toBe(200);
+      expect(res.body.data.accessToken).toBe('access-token');
+      expect(oauthService.callback).toHaveBeenCalledWith(
+        'oidc',
+        expect.objectContaining({ code: 'code', state: 'state', userAgent: 'vitest' })
+      );
+    });
+
+    it('should return 422 when code or state is missing', async () => {
+      const res = await request(app)
+        .post('/api/v1/auth/oauth/oidc/callback')
+        .send({ code: 'code' });
+
+      expect(res.status).toBe(422);
+      expect(oauthService.callback).not.toHaveBeenCalled();
+    });
+
+    it('should return 401 for an invalid state', async () => {
+      vi.mocked(oauthService.callback).mockRejectedValue(
+        new UnauthorizedError('Invalid or expired OAuth state')
+      );
+
+      const res = await request(app)
+        .post('/api/v1/auth/oauth/oidc/callback')
+        .send({ code: 'code', state: 'state' });
+
+      expect(res.status).toBe(401);
+    });
+  });
+});
@@ -0,0 +1,265 @@
+/**
+ * OAuth Service Unit Tests
+ *
+ * Tests the service layer with mocked repository and providers.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { Prisma } from '@prisma/client';
+import type { OAuthState, User, UserIdentity } from '@prisma/client';
+import { NotFoundError, UnauthorizedError, ConflictError, ForbiddenError } from '@/shared/errors';
+import { config } from '@/config';
+import type { OAuthProfile, OAuthProvider } from '@/features/oauth/oauth.types';
+
+// Mock the repository
+vi.mock('@/features/oauth/oauth.repository', () => ({
+  createState: vi.fn(),
+  consumeState: vi.fn(),
+  findIdentity: vi.fn(),
+  findUserByEmail: vi.fn(),
+  touchIdentity: vi.fn(),
+  linkIdentity: vi.fn(),
+  createUserWithIdentity: vi.fn(),
+}));
+
+vi.mock('@/features/oauth/oauth.providers', () => ({
+  getOAuthProvider: vi.fn(),
+  getEnabledOAuthProviders: vi.fn(),
+}));
+
+vi.mock('@/features/auth/auth.service', () => ({
+  assertSignInAllowed: vi.fn(),
+  completeSignIn: vi.fn(),
+}));
+
+// Import after mocking
+import * as oauthRepository from '@/features/oauth/oauth.repository';
+import { getOAuthProvider, getEnabledOAuthProviders } from '@/features/oauth/oauth.providers';
+import { assertSignInAllowed, completeSignIn } from '@/features/auth/auth.service';
+import { listProviders, authorize, callback } from '@/features/oauth/oauth.service';
+
+const mockUser = {
+  id: 1,
+  name: 'Jane Doe',
+  email: 'jane@example.com',
+  password: null,
+  isActive: true,
+  emailVerifiedAt: new Date('2026-01-15T00:00:00Z'),
+  deletedAt: null,
+} as User;
+
+const mockProfile: OAuthProfile = {
+  subject: 'provider-subject',
+  email: 'jane@example.com',
+  emailVerified: true,
+  name: 'Jane Doe',
+};
+
+const mockState = {
+  id: 1,
+  provider: 'oidc',
+  stateHash: 'hashed-state',
+  codeVerifier: 'stored-verifier',
+  nonce: 'stored-nonce',
+} as OAuthState;
+
+const loginResult = {
+  accessToken: 'access-token',
+  refreshToken: 'refresh-token',
+};
+
+const callbackInput = { code: 'code', state: 'state', userAgent: 'vitest', ipAddress: '127.0.0.1' };
+
+describe('OAuth Service', () => {
+  const provider = {
+    name: 'oidc',
+    getAuthorizationUrl: vi.fn(),
+    exchangeCode: vi.fn(),
+  } satisfies OAuthProvider;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(getOAuthProvider).mockReturnValue(provider);
+    vi.mocked(completeSignIn).mockResolvedValue(loginResult);
+    vi.mocked(assertSignInAllowed).mockResolvedValue();
+  });
+
+  describe('listProviders', () => {
+    it('should return the enabled providers', () => {
+      vi.mocked(getEnabledOAuthProviders).mockReturnValue(['github', 'oidc']);
+
+      expect(listProviders()).toEqual(['github', 'oidc']);
+    });
+  });
+
+  describe('authorize', () => {
+    it('should store the state and return the provider URL', async () => {
+      provider.getAuthorizationUrl.mockResolvedValue('https://idp.example.com/authorize?x=1');
+
+      const result = await authorize('oidc');
+
+      expect(result).toEqual({ authorizationUrl: 'https://idp.example.com/authorize?x=1' });
+
+      const stored = vi.mocked(oauthRepository.createState).mock.calls[0][0];
+      const request = provider.getAuthorizationUrl.mock.calls[0][0];
+
+      expect(stored.provider).toBe('oidc');
+      expect(stored.nonce).toBe(request.nonce);
+      // Only the hash of the state is stored, the verifier is sent as its S256 challenge
+      expect(stored.stateHash).not.toBe(request.state);
+      expect(request.codeChallenge).not.toBe(stored.codeVerifier);
+      expect(stored.expiresAt.getTime()).toBeGreaterThan(Date.now());
+    });
+
+    it('should throw NotFoundError for a disabled provider', async () => {
+      vi.mocked(getOAuthProvider).mockReturnValue(null);
+
+      await expect(authorize('google')).rejects.toThrow(NotFoundError);
+      expect(oauthRepository.createState).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('callback', () => {
+    beforeEach(() => {
+      vi.mocked(oauthRepository.consumeState).mockResolvedValue(mockState);
+      provider.exchangeCode.mockResolvedValue(mockProfile);
+    });
+
+    it('should reject an unknown or expired state', async () => {
+      vi.mocked(oauthRepository.consumeState).mockResolvedValue(null);
+
+      await expect(callback('oidc', callbackInput)).rejects.toThrow(
+        'Invalid or expired OAuth state'
+      );
+      expect(provider.exchangeCode).not.toHaveBeenCalled();
+    });
+
+    it('should exchange the code with the stored verifier and nonce', async () => {
+      vi.mocked(oauthRepository.findIdentity).mockResolvedValue({
+        id: 5,
+        user: mockUser,
+      } as UserIdentity & { user: User });
+
+      await callback('oidc', callbackInput);
+
+      expect(provider.exchangeCode).toHaveBeenCalledWith({
+        code: 'code',
+        codeVerifier: 'stored-verifier',
+        nonce: 'stored-nonce',
+      });
+    });
+
+    it('should hide provider errors behind UnauthorizedError', async () => {
+      provider.exchangeCode.mockRejectedValue(new Error('ID token nonce does not match'));
+
+      await expect(callback('oidc', callbackInput)).rejects.toThrow('OAuth sign-in failed');
+      expect(completeSignIn).not.toHaveBeenCalled();
+    });
+
+    it('should sign in the user of an existing identity', async () => {
+      vi.mocked(oauthRepository.findIdentity).mockResolvedValue({
+        id: 5,
+        user: mockUser,
+      } as UserIdentity & { user: User });
+
+      const result = await callback('oidc', callbackInput);
+
+      expect(result).toEqual(loginResult);
+      expect(oauthRepository.touchIdentity).toHaveBeenCalledWith(5);
+      expect(oauthRepository.linkIdentity).not.toHaveBeenCalled();
+      expect(completeSignIn).toHaveBeenCalledWith(mockUser, callbackInput);
+    });
+
+    it('should link the identity to a verified user with the same email', async () => {
+      vi.mocked(oauthRepository.findIdentity).mockResolvedValue(null);
+      vi.mocked(oauthRepository.findUserByEmail).mockResolvedValue(mockUser);
+
+      await callback('oidc', callbackInput);
+
+      expect(oauthRepository.linkIdentity).toHaveBeenCalledWith({
+        userId: 1,
+        provider: 'oidc',
+        subject: 'provider-subject',
+        email: 'jane@example.com',
+      });
+      expect(oauthRepository.createUserWithIdentity).not.toHaveBeenCalled();
+      expect(completeSignIn).toHaveBeenCalledWith(mockUser, callbackInput);
+    });
+
+    it('should not link to a user whose email is not verified', async () => {
+      vi.mocked(oauthRepository.findIdentity).mockResolvedValue(null);
+      vi.mocked(oauthRepository.findUserByEmail).mockResolvedValue({
+        ...mockUser,
+        emailVerifiedAt: null,
+      });
+
+      await expect(callback('oidc', callbackInput)).rejects.toThrow(ConflictError);
+      expect(oauthRepository.linkIdentity).not.toHaveBeenCalled();
+    });
+
+    it('should not link to a user whose account cannot sign in', async () => {
+      const inactiveUser = { ...mockUser, isActive: false };
+      vi.mocked(oauthRepository.findIdentity).mockResolvedValue(null);
+      vi.mocked(oauthRepository.findUserByEmail).mockResolvedValue(inactiveUser);
+      vi.mocked(assertSignInAllowed).mockRejectedValue(new ForbiddenError('Account is inactive'));
+
+      await expect(callback('oidc', callbackInput)).rejects.toThrow(ForbiddenError);
+      expect(assertSignInAllowed).toHaveBeenCalledWith(inactiveUser, callbackInput);
+      expect(oauthRepository.linkIdentity).not.toHaveBeenCalled();
+      expect(completeSignIn).not.toHaveBeenCalled();
+    });
+
+    it('should reject a profile without a verified email', async () => {
+      vi.mocked(oauthRepository.findIdentity).mockResolvedValue(null);
+      provider.exchangeCode.mockResolvedValue({ ...mockProfile, emailVerified: false });
+
+      await expect(callback('oidc', callbackInput)).rejects.toThrow(UnauthorizedError);
+      expect(oauthRepository.findUserByEmail).not.toHaveBeenCalled();
+    });
+
+    it('should create a new user for an unknown email', async () => {
+      vi.mocked(oauthRepository.findIdentity).mockResolvedValue(null);
+      vi.mocked(oauthRepository.findUserByEmail).mockResolvedValue(null);
+      vi.mocked(oauthRepository.createUserWithIdentity).mockResolvedValue(mockUser);
+
+      await callback('oidc', callbackInput);
+
+      expect(oauthRepository.createUserWithIdentity).toHaveBeenCalledWith(
+        {
+          name: 'Jane Doe',
+          email: 'jane@example.com',
+          provider: 'oidc',
+          subject: 'provider-subject',
+        },
+        'user'
+      );
+      expect(completeSignIn).toHaveBeenCalledWith(mockUser, callbackInput);
+    });
+
+    it('should not create a new user when registration is by invitation only', async () => {
+      vi.mocked(oauthRepository.findIdentity).mockResolvedValue(null);
+      vi.mocked(oauthRepository.findUserByEmail).mockResolvedValue(null);
+      config.auth.inviteOnly = true;
+
+      try {
+        await expect(callback('oidc', callbackInput)).rejects.toThrow(ForbiddenError);
+        expect(oauthRepository.createUserWithIdentity).not.toHaveBeenCalled();
+      } finally {
+        config.auth.inviteOnly = false;
+      }
+    });
+
+    it('should map a concurrent account creation to ConflictError', async () => {
+      vi.mocked(oauthRepository.findIdentity).mockResolvedValue(null);
+      vi.mocked(oauthRepository.findUserByEmail).mockResolvedValue(null);
+      vi.mocked(oauthRepository.createUserWithIdentity).mockRejectedValue(
+        new Prisma.PrismaClientKnownRequestError('Unique constraint failed', {
+          code: 'P2002',
+          clientVersion: 'test',
+        })
+      );
+
+      await expect(callback('oidc', callbackInput)).rejects.toThrow(ConflictError);
+    });
+  });
+});
@@ -0,0 +1,41 @@
+/**
+ * OAuth Controller
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { listProviders, authorize, callback } from '@/features/oauth/oauth.service';
+import { sendOk, getRequestId } from '@/shared/utils/apiResponse';
+import { deliverTokens } from '@/shared/utils/authCookies';
+
+export async function providers(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    sendOk(res, { providers: listProviders() }, { requestId: getRequestId(req) });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function start(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const result = await authorize(req.params.provider as string);
+
+    sendOk(res, result, { requestId: getRequestId(req) });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function finish(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const result = await callback(req.params.provider as string, {
+      ...req.body,
+      userAgent: req.headers['user-agent'],
+      ipAddress: req.ip,
+      requestId: getRequestId(req),
+    });
+
+    sendOk(res, deliverTokens(res, result), { requestId: getRequestId(req) });
+  } catch (error) {
+    next(error);
+  }
+}
@@ -0,0 +1,324 @@
+/**
+ * OAuth Providers
+ *
+ * Authorization code + PKCE clients for the supported sign-in providers.
+ * Google and generic OpenID Connect providers verify the ID token against the
+ * issuer's JWKS (including the nonce); GitHub is plain OAuth2 and reads the
+ * profile and verified email addresses from its API.
+ */
+
+import crypto, { KeyObject, webcrypto } from 'crypto';
+import jwt from 'jsonwebtoken';
+import { config } from '@/config';
+import { OAUTH_PROVIDER_NAMES } from '@/features/oauth/oauth.types';
+import type { OAuthProvider, OAuthProviderName, OAuthProfile } from '@/features/oauth/oauth.types';
+
+const HTTP_TIMEOUT_MS = 10000;
+const GOOGLE_ISSUER = 'https://accounts.google.com';
+const GITHUB_AUTHORIZE_URL = 'https://github.com/login/oauth/authorize';
+const GITHUB_TOKEN_URL = 'https://github.com/login/oauth/access_token';
+const GITHUB_API_URL = 'https://api.github.com';
+const GITHUB_SCOPES = 'read:user user:email';
+// GitHub's API rejects requests without a User-Agent
+const GITHUB_USER_AGENT = 'express-api-oauth';
+const ID_TOKEN_ALGORITHMS: jwt.Algorithm[] = ['RS256', 'ES256'];
+
+interface OidcDiscovery {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+}
+
+interface OidcJwk extends webcrypto.JsonWebKey {
+  kid?: string;
+}
+
+interface IdTokenClaims {
+  sub: string;
+  nonce?: string;
+  email?: string;
+  email_verified?: boolean | string;
+  name?: string;
+}
+
+export interface OidcProviderOptions {
+  name: OAuthProviderName;
+  issuer: string;
+  clientId: string;
+  clientSecret: string;
+  redirectUri: string;
+  scopes: string;
+}
+
+export interface GitHubProviderOptions {
+  clientId: string;
+  clientSecret: string;
+  redirectUri: string;
+  authorizeUrl?: string;
+  tokenUrl?: string;
+  apiUrl?: string;
+}
+
+/**
+ * Request a JSON document from a provider
+ *
+ * @throws Error if the request fails or times out
+ */
+async function fetchJson<T>(url: string, init: RequestInit = {}): Promise<T> {
+  const response = await fetch(url, {
+    ...init,
+    headers: { Accept: 'application/json', ...init.headers },
+    signal: AbortSignal.timeout(HTTP_TIMEOUT_MS),
+  });
+
+  if (!response.ok) {
+    throw new Error(`${init.method ?? 'GET'} ${url} failed with status ${response.status}`);
+  }
+
+  return (await response.json()) as T;
+}
+
+function buildUrl(base: string, params: Record<string, string>): string {
+  const url = new URL(base);
+
+  for (const [key, value] of Object.entries(params)) {
+    url.searchParams.set(key, value);
+  }
+
+  return url.toString();
+}
+
+/**
+ * OpenID Connect provider configured through the issuer's discovery document
+ */
+export function createOidcProvider(options: OidcProviderOptions): OAuthProvider {
+  let discovery: OidcDiscovery | null = null;
+  let keys: OidcJwk[] = [];
+
+  async function discover(): Promise<OidcDiscovery> {
+    if (discovery) {
+      return discovery;
+    }
+
+    const issuer = options.issuer.replace(/\/$/, '');
+    const document = await fetchJson<OidcDiscovery>(`${issuer}/.well-known/openid-configuration`);
+
+    if (document.issuer.replace(/\/$/, '') !== issuer) {
+      throw new Error(`Discovery document issuer ${document.issuer} does not match ${issuer}`);
+    }
+
+    discovery = document;
+    return discovery;
+  }
+
+  /**
+   * Find the key that signed an ID token, refreshing the JWKS once for unknown key IDs
+   */
+  async function getVerificationKey(kid: string | undefined): Promise<KeyObject> {
+    const { jwks_uri } = await discover();
+    const find = () => keys.find((key) => !kid || key.kid === kid);
+
+    if (!find()) {
+      keys = (await fetchJson<{ keys: OidcJwk[] }>(jwks_uri)).keys;
+    }
+
+    const jwk = find();
+
+    if (!jwk) {
+      throw new Error(`No signing key found for kid ${kid}`);
+    }
+
+    return crypto.createPublicKey({ key: jwk, format: 'jwk' });
+  }
+
+  return {
+    name: options.name,
+
+    async getAuthorizationUrl({ state, codeChallenge, nonce }) {
+      const { authorization_endpoint } = await discover();
+
+      return buildUrl(authorization_endpoint, {
+        response_type: 'code',
+        client_id: options.clientId,
+        redirect_uri: options.redirectUri,
+        scope: options.scopes,
+        state,
+        nonce,
+        code_challenge: codeChallenge,
+        code_challenge_method: 'S256',
+      });
+    },
+
+    async exchangeCode({ code, codeVerifier, nonce }): Promise<OAuthProfile> {
+      const { token_endpoint, issuer } = await discover();
+
+      const tokens = await fetchJson<{ id_token?: string }>(token_endpoint, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+        body: new URLSearchParams({
+          grant_type: 'authorization_code',
+          code,
+          redirect_uri: options.redirectUri,
+          client_id: options.clientId,
+          client_secret: options.clientSecret,
+          code_verifier: codeVerifier,
+        }),
+      });
+
+      if (!tokens.id_token) {
+        throw new Error('Token response did not include an ID token');
+      }
+
+      const kid = jwt.decode(tokens.id_token, { complete: true })?.header.kid;
+      const key = await getVerificationKey(kid);
+
+      const claims = jwt.verify(tokens.id_token, key, {
+        algorithms: ID_TOKEN_ALGORITHMS,
+        issuer,
+        audience: options.clientId,
+      }) as IdTokenClaims;
+
+      if (claims.nonce !== nonce) {
+        throw new Error('ID token nonce does not match the authorization request');
+      }
+
+      return {
+        subject: claims.sub,
+        email: claims.email ?? null,
+        emailVerified: claims.email_verified === true || claims.email_verified === 'true',
+        name: claims.name ?? null,
+      };
+    },
+  };
+}
+
+/**
+ * GitHub OAuth app (no ID token: the profile comes from the REST API)
+ */
+export function createGitHubProvider(options: GitHubProviderOptions): OAuthProvider {
+  const authorizeUrl = options.authorizeUrl ?? GITHUB_AUTHORIZE_URL;
+  const tokenUrl = options.tokenUrl ?? GITHUB_TOKEN_URL;
+  const apiUrl = options.apiUrl ?? GITHUB_API_URL;
+
+  return {
+    name: 'github',
+
+    async getAuthorizationUrl({ state, codeChallenge }) {
+      return buildUrl(authorizeUrl, {
+        client_id: options.clientId,
+        redirect_uri: options.redirectUri,
+        scope: GITHUB_SCOPES,
+        state,
+        code_challenge: codeChallenge,
+        code_challenge_method: 'S256',
+      });
+    },
+
+    async exchangeCode({ code, codeVerifier }): Promise<OAuthProfile> {
+      const tokens = await fetchJson<{ access_token?: string; error?: string }>(tokenUrl, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+        body: new URLSearchParams({
+          code,
+          redirect_uri: options.redirectUri,
+          client_id: options.clientId,
+          client_secret: options.clientSecret,
+          code_verifier: codeVerifier,
+        }),
+      });
+
+      if (!tokens.access_token) {
+        throw new Error(`GitHub token exchange failed: ${tokens.error ?? 'no access token'}`);
+      }
+
+      const headers = {
+        Authorization: `Bearer ${tokens.access_token}`,
+        'User-Agent': GITHUB_USER_AGENT,
+      };
+
+      const [user, emails] = await Promise.all([
+        fetchJson<{ id: number; login: string; name: string | null }>(`${apiUrl}/user`, {
+          headers,
+        }),
+        fetchJson<{ email: string; primary: boolean; verified: boolean }[]>(
+          `${apiUrl}/user/emails`,
+          { headers }
+        ),
+      ]);
+
+      const primary = emails.find((email) => email.primary && email.verified);
+
+      return {
+        subject: String(user.id),
+        email: primary?.email ?? null,
+        emailVerified: Boolean(primary),
+        name: user.name ?? user.login,
+      };
+    },
+  };
+}
+
+const providers = new Map<OAuthProviderName, OAuthProvider>();
+
+function buildProvider(name: OAuthProviderName): OAuthProvider | null {
+  const redirectUri = `${config.oauth.redirectBaseUrl}/${name}`;
+
+  switch (name) {
+    case 'google': {
+      const { clientId, clientSecret } = config.oauth.google;
+
+      return clientId
+        ? createOidcProvider({
+            name,
+            issuer: GOOGLE_ISSUER,
+            clientId,
+            clientSecret,
+            redirectUri,
+            scopes: 'openid email profile',
+          })
+        : null;
+    }
+    case 'github': {
+      const { clientId, clientSecret } = config.oauth.github;
+
+      return clientId ? createGitHubProvider({ clientId, clientSecret, redirectUri }) : null;
+    }
+    case 'oidc': {
+      const { issuer, clientId, clientSecret, scopes } = config.oauth.oidc;
+
+      return issuer && clientId
+        ? createOidcProvider({ name, issuer, clientId, clientSecret, redirectUri, scopes })
+        : null;
+    }
+    default:
+      return null;
+  }
+}
+
+/**
+ * Get a configured provider by name (providers without a client ID are disabled)
+ */
+export function getOAuthProvider(name: string): OAuthProvider | null {
+  const providerName = name as OAuthProviderName;
+  const cached = providers.get(providerName);
+
+  if (cached) {
+    return cached;
+  }
+
+  const provider = buildProvider(providerName);
+
+  if (provider) {
+    providers.set(providerName, provider);
+  }
+
+  return provider;
+}
+
+/**
+ * Names of the providers that are configured
+ */
+export function getEnabledOAuthProviders(): OAuthProviderName[] {
+  return OAUTH_PROVIDER_NAMES.filter((name) => getOAuthProvider(name) !== null);
+}
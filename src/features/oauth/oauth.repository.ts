@@ -0,0 +1,141 @@
+/**
+ * OAuth Repository
+ *
+ * Database operations for authorization requests and linked provider identities.
+ */
+
+import { prisma } from '@/shared/utils/prisma';
+import type { OAuthState, User, UserIdentity } from '@prisma/client';
+
+export async function createState(data: {
+  provider: string;
+  stateHash: string;
+  codeVerifier: string;
+  nonce: string;
+  expiresAt: Date;
+}): Promise<OAuthState> {
+  return prisma.oAuthState.create({
+    data,
+  });
+}
+
+/**
+ * Mark an authorization request as used and return it.
+ * Returns null if it is unknown, expired, for another provider or already used.
+ */
+export async function consumeState(
+  stateHash: string,
+  provider: string
+): Promise<OAuthState | null> {
+  const result = await prisma.oAuthState.updateMany({
+    where: {
+      stateHash,
+      provider,
+      usedAt: null,
+      expiresAt: { gt: new Date() },
+    },
+    data: { usedAt: new Date() },
+  });
+
+  if (result.count === 0) {
+    return null;
+  }
+
+  return prisma.oAuthState.findUnique({
+    where: { stateHash },
+  });
+}
+
+export async function findIdentity(
+  provider: string,
+  subject: string
+): Promise<(UserIdentity & { user: User }) | null> {
+  return prisma.userIdentity.findFirst({
+    where: {
+      provider,
+      subject,
+      deletedAt: null,
+    },
+    include: {
+      user: true,
+    },
+  });
+}
+
+export async function findUserByEmail(email: string): Promise<User | null> {
+  return prisma.user.findUnique({
+    where: { email },
+  });
+}
+
+export async function touchIdentity(id: number): Promise<void> {
+  await prisma.userIdentity.update({
+    where: { id },
+    data: { lastLoginAt: new Date() },
+  });
+}
+
+export async function linkIdentity(data: {
+  userId: number;
+  provider: string;
+  subject: string;
+  email: string | null;
+}): Promise<UserIdentity> {
+  return prisma.userIdentity.create({
+    data: {
+      ...data,
+      lastLoginAt: new Date(),
+      createdBy: `oauth:${data.provider}`,
+    },
+  });
+}
+
+/**
+ * Create a passwordless user whose email was verified by the provider, with the default role
+ */
+export async function createUserWithIdentity(
+  data: {
+    name: string;
+    email: string;
+    provider: string;
+    subject: string;
+  },
+  defaultRole?: string
+): Promise<User> {
+  return prisma.$transaction(async (tx) => {
+    const user = await tx.user.create({
+      data: {
+        name: data.name,
+        email: data.email,
+        password: null,
+        isActive: true,
+        emailVerifiedAt: new Date(),
+        createdBy: `oauth:${data.provider}`,
+      },
+    });
+
+    const role = defaultRole ? await tx.role.findUnique({ where: { name: defaultRole } }) : null;
+
+    if (role && !role.deletedAt) {
+      await tx.userRole.create({
+        data: {
+          userId: user.id,
+          roleId: role.id,
+        },
+      });
+    }
+
+    await tx.userIdentity.create({
+      data: {
+        userId: user.id,
+        provider: data.provider,
+        subject: data.subject,
+        email: data.email,
+        lastLoginAt: new Date(),
+        createdBy: `oauth:${data.provider}`,
+      },
+    });
+
+    return user;
+  });
+}
@@ -0,0 +1,21 @@
+/**
+ * OAuth Routes
+ */
+
+import { Router } from 'express';
+import { validate } from '@/shared/middlewares/validation.middleware';
+import { authorizeSchema, callbackSchema } from '@/features/oauth/oauth.schema';
+import { providers, start, finish } from '@/features/oauth/oauth.controller';
+
+const router = Router();
+
+// GET /auth/oauth/providers - List enabled providers
+router.get('/providers', providers);
+
+// POST /auth/oauth/:provider/authorize - Get the provider URL to redirect the user to
+router.post('/:provider/authorize', validate(authorizeSchema), start);
+
+// POST /auth/oauth/:provider/callback - Exchange the code + state from the redirect for tokens
+router.post('/:provider/callback', validate(callbackSchema), finish);
+
+export default router;
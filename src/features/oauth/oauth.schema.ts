@@ -0,0 +1,22 @@
+/**
+ * OAuth Validation Schemas
+ */
+
+import { z } from 'zod';
+import { OAUTH_PROVIDER_NAMES } from '@/features/oauth/oauth.types';
+
+const providerParams = z.object({
+  provider: z.enum(OAUTH_PROVIDER_NAMES),
+});
+
+export const authorizeSchema = {
+  params: providerParams,
+};
+
+export const callbackSchema = {
+  params: providerParams,
+  body: z.object({
+    code: z.string().min(1, 'Authorization code is required'),
+    state: z.string().min(1, 'State is required'),
+  }),
+};
@@ -0,0 +1,179 @@
+/**
+ * OAuth Service
+ *
+ * Social / OpenID Connect sign-in using the authorization code flow with PKCE.
+ * The callback resolves the provider identity to a local user (linking by
+ * verified email or creating a passwordless account) and then signs in
+ * exactly like a password login.
+ */
+
+import crypto from 'crypto';
+import { addMinutes } from 'date-fns';
+import { Prisma } from '@prisma/client';
+import type { User } from '@prisma/client';
+import { config } from '@/config';
+import { logger } from '@/shared/utils/logger';
+import { generateRandomToken, hashToken } from '@/shared/utils/crypto';
+import * as oauthRepository from '@/features/oauth/oauth.repository';
+import { getOAuthProvider, getEnabledOAuthProviders } from '@/features/oauth/oauth.providers';
+import { assertSignInAllowed, completeSignIn } from '@/features/auth/auth.service';
+import type { LoginResult } from '@/features/auth/auth.types';
+import type {
+  OAuthAuthorizeResult,
+  OAuthCallbackInput,
+  OAuthProfile,
+  OAuthProvider,
+  OAuthProviderName,
+} from '@/features/oauth/oauth.types';
+import { NotFoundError, UnauthorizedError, ConflictError, ForbiddenError } from '@/shared/errors';
+
+function getProvider(name: string): OAuthProvider {
+  const provider = getOAuthProvider(name);
+
+  if (!provider) {
+    throw new NotFoundError(`OAuth provider '${name}' is not enabled`);
+  }
+
+  return provider;
+}
+
+/**
+ * PKCE S256 code challenge for a code verifier
+ */
+function toCodeChallenge(codeVerifier: string): string {
+  return crypto.createHash('sha256').update(codeVerifier).digest('base64url');
+}
+
+/**
+ * Find the local user for a provider identity, linking or creating one on first sign-in
+ */
+async function resolveUser(
+  provider: OAuthProviderName,
+  profile: OAuthProfile,
+  client: OAuthCallbackInput
+): Promise<User> {
+  const identity = await oauthRepository.findIdentity(provider, profile.subject);
+
+  if (identity) {
+    await oauthRepository.touchIdentity(identity.id);
+    return identity.user;
+  }
+
+  if (!profile.email || !profile.emailVerified) {
+    throw new UnauthorizedError('The provider did not return a verified email address');
+  }
+
+  const existingUser = await oauthRepository.findUserByEmail(profile.email);
+
+  if (existingUser) {
+    // Linking to an unverified account would hand it to whoever registered the address first
+    if (!existingUser.emailVerifiedAt) {
+      throw new ConflictError(
+        'An account with this email address exists but is not verified. Verify it, then sign in again.'
+      );
+    }
+
+    // A deleted, inactive or locked account must not gain a new way to sign in
+    await assertSignInAllowed(existingUser, client);
+
+    await oauthRepository.linkIdentity({
+      userId: existingUser.id,
+      provider,
+      subject: profile.subject,
+      email: profile.email,
+    });
+
+    logger.info(
+      { userId: existingUser.id, provider },
+      'Linked provider identity by verified email'
+    );
+
+    return existingUser;
+  }
+
+  if (config.auth.inviteOnly) {
+    throw new ForbiddenError('Registration is by invitation only');
+  }
+
+  try {
+    return await oauthRepository.createUserWithIdentity(
+      {
+        name: profile.name || profile.email.split('@')[0],
+        email: profile.email,
+        provider,
+        subject: profile.subject,
+      },
+      config.auth.defaultRole
+    );
+  } catch (error) {
+    // A concurrent sign-in created the account or identity first
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      throw new ConflictError('Account already exists, please sign in again');
+    }
+    throw error;
+  }
+}
+
+export function listProviders(): OAuthProviderName[] {
+  return getEnabledOAuthProviders();
+}
+
+/**
+ * Start a sign-in: store the state, PKCE verifier and nonce, and build the provider URL
+ */
+export async function authorize(providerName: string): Promise<OAuthAuthorizeResult> {
+  const provider = getProvider(providerName);
+
+  const state = generateRandomToken();
+  const codeVerifier = generateRandomToken();
+  const nonce = generateRandomToken();
+
+  await oauthRepository.createState({
+    provider: provider.name,
+    stateHash: await hashToken(state),
+    codeVerifier,
+    nonce,
+    expiresAt: addMinutes(new Date(), config.oauth.stateExpiresMinutes),
+  });
+
+  const authorizationUrl = await provider.getAuthorizationUrl({
+    state,
+    codeChallenge: toCodeChallenge(codeVerifier),
+    nonce,
+  });
+
+  return { authorizationUrl };
+}
+
+/**
+ * Complete a sign-in from the provider redirect (code + state)
+ */
+export async function callback(
+  providerName: string,
+  input: OAuthCallbackInput
+): Promise<LoginResult> {
+  const provider = getProvider(providerName);
+
+  const state = await oauthRepository.consumeState(await hashToken(input.state), provider.name);
+
+  if (!state) {
+    throw new UnauthorizedError('Invalid or expired OAuth state');
+  }
+
+  let profile: OAuthProfile;
+
+  try {
+    profile = await provider.exchangeCode({
+      code: input.code,
+      codeVerifier: state.codeVerifier,
+      nonce: state.nonce,
+    });
+  } catch (error) {
+    logger.warn({ err: error, provider: provider.name }, 'OAuth code exchange failed');
+    throw new UnauthorizedError('OAuth sign-in failed');
+  }
+
+  const user = await resolveUser(provider.name, profile, input);
+
+  return completeSignIn(user, input);
+}
@@ -0,0 +1,50 @@
+/**
+ * OAuth Types
+ */
+
+export type OAuthProviderName = 'google' | 'github' | 'oidc';
+
+export const OAUTH_PROVIDER_NAMES: OAuthProviderName[] = ['google', 'github', 'oidc'];
+
+/**
+ * Identity returned by a provider after a successful code exchange
+ */
+export interface OAuthProfile {
+  subject: string;
+  email: string | null;
+  emailVerified: boolean;
+  name: string | null;
+}
+
+export interface AuthorizationRequest {
+  state: string;
+  codeChallenge: string;
+  nonce: string;
+}
+
+export interface CodeExchange {
+  code: string;
+  codeVerifier: string;
+  nonce: string;
+}
+
+/**
+ * A sign-in provider using the authorization code flow with PKCE
+ */
+export interface OAuthProvider {
+  name: OAuthProviderName;
+  getAuthorizationUrl(request: AuthorizationRequest): Promise<string>;
+  exchangeCode(exchange: CodeExchange): Promise<OAuthProfile>;
+}
+
+export interface OAuthAuthorizeResult {
+  authorizationUrl: string;
+}
+
+export interface OAuthCallbackInput {
+  code: string;
+  state: string;
+  userAgent?: string;
+  ipAddress?: string;
+  requestId?: string;
+}
@@ -0,0 +1,275 @@
+import 'dotenv/config';
+import request from 'supertest';
+import express from 'express';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import jwt from 'jsonwebtoken';
+import { addDays } from 'date-fns';
+
+vi.mock('@/shared/utils/logger', () => ({
+  logger: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+    child: vi.fn().mockReturnThis(),
+  },
+}));
+
+// Import implementations after mocks
+import pino from 'pino';
+import { prisma } from '@/shared/utils/prisma';
+import exampleRoutes from '@/features/example/example.routes';
+import organizationRoutes from '@/features/organizations/organizations.routes';
+import { errorHandler } from '@/shared/middlewares/error.middleware';
+
+// Setup Express App
+const app = express();
+app.use(express.json());
+app.use((req, _res, next) => {
+  req.log = pino({ level: 'silent' });
+  next();
+});
+app.use('/api/v1/examples', exampleRoutes);
+app.use('/api/v1/organizations', organizationRoutes);
+app.use(errorHandler);
+
+const JWT_SECRET = process.env.JWT_SECRET || 'dev_secret_do_not_use';
+const EXAMPLE_PERMISSIONS = [
+  'examples:read',
+  'examples:create',
+  'examples:update',
+  'examples:delete',
+];
+
+/**
+ * Verified user with a session, and an access token for it
+ */
+async function createUserWithToken(email: string) {
+  const user = await prisma.user.create({
+    data: { name: email.split('@')[0], email, password: 'hash', emailVerifiedAt: new Date() },
+  });
+  const session = await prisma.userSession.create({
+    data: { userId: user.id, refreshTokenHash: 'hash', expiresAt: addDays(new Date(), 1) },
+  });
+  const token = jwt.sign(
+    { userId: user.id, sessionId: session.id, roles: ['user'], permissions: EXAMPLE_PERMISSIONS },
+    JWT_SECRET
+  );
+
+  return { userId: user.id, token };
+}
+
+describe('Organizations Feature E2E', () => {
+  let alice: { userId: number; token: string };
+  let bob: { userId: number; token: string };
+  let aliceOrganizationId: number;
+  let bobOrganizationId: number;
+
+  beforeEach(async () => {
+    // Clean Database
+    await prisma.example.deleteMany();
+    await prisma.organization.deleteMany();
+    await prisma.userSession.deleteMany();
+    await prisma.user.deleteMany({
+      where: { email: { in: ['alice@example.com', 'bob@example.com'] } },
+    });
+
+    alice = await createUserWithToken('alice@example.com');
+    bob = await createUserWithToken('bob@example.com');
+
+    const aliceRes = await request(app)
+      .post('/api/v1/organizations')
+      .set('Authorization', `Bearer ${alice.token}`)
+      .send({ name: 'Alice Inc.' });
+    aliceOrganizationId = aliceRes.body.data.id;
+
+    const bobRes = await request(app)
+      .post('/api/v1/organizations')
+      .set('Authorization', `Bearer ${bob.token}`)
+      .send({ name: 'Bob Ltd.' });
+    bobOrganizationId = bobRes.body.data.id;
+  });
+
+  describe('Tenant isolation', () => {
+    let exampleId: number;
+
+    beforeEach(async () => {
+      const res = await request(app)
+        .post('/api/v1/examples')
+        .set('Authorization', `Bearer ${alice.token}`)
+        .set('X-Organization-Id', String(aliceOrganizationId))
+        .send({ name: 'Alice Example' });
+      exampleId = res.body.data.id;
+    });
+
+    it("should not list another organization's examples", async () => {
+      const res = await request(app)
+        .get('/api/v1/examples')
+        .set('Authorization', `Bearer ${bob.token}`)
+        .set('X-Organization-Id', String(bobOrganizationId));
+
+      expect(res.status).toBe(200);
+      expect(res.body.data).toHaveLength(0);
+    });
+
+    it("should not read, update or delete another organization's examples", async () => {
+      const auth = (req: request.Test) =>
+        req
+          .set('Authorization', `Bearer ${bob.token}`)
+          .set('X-Organization-Id', String(bobOrganizationId));
+
+      expect((await auth(request(app).get(`/api/v1/examples/${exampleId}`))).status).toBe(404);
+      expect(
+        (await auth(request(app).put(`/api/v1/examples/${exampleId}`).send({ name: 'Bob' }))).status
+      ).toBe(404);
+      expect((await auth(request(app).delete(`/api/v1/examples/${exampleId}`))).status).toBe(404);
+
+      const stored = await prisma.example.findUnique({ where: { id: exampleId } });
+      expect(stored).toMatchObject({ name: 'Alice Example', deletedAt: null });
+    });
+
+    it('should reject organizations the user is not a member of', async () => {
+      const res = await request(app)
+        .get('/api/v1/examples')
+        .set('Authorization', `Bearer ${bob.token}`)
+        .set('X-Organization-Id', String(aliceOrganizationId));
+
+      expect(res.status).toBe(403);
+    });
+
+    it('should give new members access to examples shared with them', async () => {
+      const addRes = await request(app)
+        .post(`/api/v1/organizations/${aliceOrganizationId}/members`)
+        .set('Authorization', `Bearer ${alice.token}`)
+        .send({ email: 'bob@example.com' });
+      expect(addRes.status).toBe(201);
+
+      await request(app)
+        .put(`/api/v1/examples/${exampleId}/shares/${bob.userId}`)
+        .set('Authorization', `Bearer ${alice.token}`)
+        .set('X-Organization-Id', String(aliceOrganizationId))
+        .send({ permission: 'read' });
+
+      const res = await request(app)
+        .get(`/api/v1/examples/${exampleId}`)
+        .set('Authorization', `Bearer ${bob.token}`)
+        .set('X-Organization-Id', String(aliceOrganizationId));
+
+      expect(res.status).toBe(200);
+      expect(res.body.data.name).toBe('Alice Example');
+    });
+  });
+
+  describe('Example ownership', () => {
+    let exampleId: number;
+
+    const asBob = (req: request.Test) =>
+      req
+        .set('Authorization', `Bearer ${bob.token}`)
+        .set('X-Organization-Id', String(aliceOrganizationId));
+
+    const shareWithBob = (permission: string) =>
+      request(app)
+        .put(`/api/v1/examples/${exampleId}/shares/${bob.userId}`)
+        .set('Authorization', `Bearer ${alice.token}`)
+        .set('X-Organization-Id', String(aliceOrganizationId))
+        .send({ permission });
+
+    beforeEach(async () => {
+      await request(app)
+        .post(`/api/v1/organizations/${aliceOrganizationId}/members`)
+        .set('Authorization', `Bearer ${alice.token}`)
+        .send({ email: 'bob@example.com' });
+
+      const res = await request(app)
+        .post('/api/v1/examples')
+        .set('Authorization', `Bearer ${alice.token}`)
+        .set('X-Organization-Id', String(aliceOrganizationId))
+        .send({ name: 'Private' });
+      exampleId = res.body.data.id;
+    });
+
+    it('should record the owner and the acting user', async () => {
+      const stored = await prisma.example.findUniqueOrThrow({ where: { id: exampleId } });
+
+      expect(stored).toMatchObject({ ownerId: alice.userId, createdBy: String(alice.userId) });
+    });
+
+    it('should hide examples that were not shared', async () => {
+      const list = await asBob(request(app).get('/api/v1/examples'));
+      expect(list.body.data).toHaveLength(0);
+
+      expect((await asBob(request(app).get(`/api/v1/examples/${exampleId}`))).status).toBe(404);
+    });
+
+    it('should apply the permission of the share', async () => {
+      expect((await shareWithBob('read')).status).toBe(200);
+
+      expect((await asBob(request(app).get('/api/v1/examples'))).body.data).toHaveLength(1);
+      expect(
+        (await asBob(request(app).put(`/api/v1/examples/${exampleId}`).send({ name: 'Bob' })))
+          .status
+      ).toBe(403);
+
+      await shareWithBob('write');
+
+      const update = await asBob(
+        request(app).put(`/api/v1/examples/${exampleId}`).send({ name: 'Edited' })
+      );
+      expect(update.status).toBe(200);
+      expect(await prisma.example.findUniqueOrThrow({ where: { id: exampleId } })).toMatchObject({
+        name: 'Edited',
+        updatedBy: String(bob.userId),
+      });
+
+      expect((await asBob(request(app).delete(`/api/v1/examples/${exampleId}`))).status).toBe(403);
+    });
+
+    it('should let organization owners delete examples of members', async () => {
+      const created = await asBob(request(app).post('/api/v1/examples').send({ name: "Bob's" }));
+
+      const res = await request(app)
+        .delete(`/api/v1/examples/${created.body.data.id}`)
+        .set('Authorization', `Bearer ${alice.token}`)
+        .set('X-Organization-Id', String(aliceOrganizationId));
+
+      expect(res.status).toBe(200);
+      expect(
+        await prisma.example.findUniqueOrThrow({ where: { id: created.body.data.id } })
+      ).toMatchObject({ deletedBy: String(alice.userId) });
+    });
+  });
+
+  describe('Membership', () => {
+    it('should keep at least one owner', async () => {
+      const res = await request(app)
+        .delete(`/api/v1/organizations/${aliceOrganizationId}/members/${alice.userId}`)
+        .set('Authorization', `Bearer ${alice.token}`);
+
+      expect(res.status).toBe(400);
+    });
+
+    it('should let members leave but not manage others', async () => {
+      await request(app)
+        .post(`/api/v1/organizations/${aliceOrganizationId}/members`)
+        .set('Authorization', `Bearer ${alice.token}`)
+        .send({ email: 'bob@example.com' });
+
+      const promote = await request(app)
+        .patch(`/api/v1/organizations/${aliceOrganizationId}/members/${bob.userId}`)
+        .set('Authorization', `Bearer ${bob.token}`)
+        .send({ role: 'owner' });
+      expect(promote.status).toBe(403);
+
+      const leave = await request(app)
+        .delete(`/api/v1/organizations/${aliceOrganizationId}/members/${bob.userId}`)
+        .set('Authorization', `Bearer ${bob.token}`);
+      expect(leave.status).toBe(200);
+
+      const list = await request(app)
+        .get('/api/v1/organizations')
+        .set('Authorization', `Bearer ${bob.token}`);
+      expect(list.body.data.map((org: { id: number }) => org.id)).toEqual([bobOrganizationId]);
+    });
+  });
+});
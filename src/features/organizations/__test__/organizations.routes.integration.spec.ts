@@ -0,0 +1,203 @@
+import 'dotenv/config';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import request from 'supertest';
+import express, { Request, Response, NextFunction } from 'express';
+import { Logger } from 'pino';
+import organizationRoutes from '@/features/organizations/organizations.routes';
+import type {
+  MemberSummary,
+  OrganizationSummary,
+} from '@/features/organizations/organizations.types';
+import * as organizationsService from '@/features/organizations/organizations.service';
+import { errorHandler } from '@/shared/middlewares/error.middleware';
+import { ForbiddenError, NotFoundError } from '@/shared/errors';
+import type { UserSessionPayload } from '@/shared/types/auth';
+import { getSessionState, SessionState } from '@/shared/utils/sessionState';
+
+// Mock Service Layer
+vi.mock('@/features/organizations/organizations.service');
+
+const { mockUser } = vi.hoisted(() => ({
+  mockUser: {} as Partial<UserSessionPayload>,
+}));
+
+// Mock Auth Middleware Module (keep the real guards)
+vi.mock('@/shared/middlewares/auth.middleware', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/shared/middlewares/auth.middleware')>()),
+  authenticate: (req: Request, res: Response, next: NextFunction) => {
+    req.user = { userId: 1, sessionId: 2, roles: ['user'], permissions: [], ...mockUser };
+    next();
+  },
+}));
+
+// Session state backs the email verification check
+vi.mock('@/shared/utils/sessionState');
+
+const app = express();
+app.use(express.json());
+
+// Mock Logger Middleware
+app.use((req: Request, res: Response, next: NextFunction) => {
+  (req as Request & { log: Partial<Logger> }).log = {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+    trace: vi.fn(),
+    fatal: vi.fn(),
+    level: 'info',
+    silent: vi.fn(),
+    child: vi.fn(),
+  } as unknown as Logger;
+  next();
+});
+app.use('/api/v1/organizations', organizationRoutes);
+app.use(errorHandler);
+
+const mockOrganization: OrganizationSummary = {
+  id: 3,
+  name: 'Acme',
+  role: 'owner',
+  createdAt: new Date('2026-10-19T00:00:00Z'),
+};
+
+const mockMember: MemberSummary = {
+  userId: 5,
+  name: 'Member',
+  email: 'member@example.com',
+  role: 'member',
+  joinedAt: new Date('2026-10-19T00:00:00Z'),
+};
+
+describe('Organizations Feature Integration (Route/Controller)', () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+    for (const key of Object.keys(mockUser)) {
+      delete mockUser[key as keyof UserSessionPayload];
+    }
+    vi.mocked(getSessionState).mockResolvedValue({
+      userEmailVerifiedAt: new Date(),
+    } as SessionState);
+  });
+
+  describe('GET /api/v1/organizations', () => {
+    it("should list the user's organizations", async () => {
+      vi.mocked(organizationsService.listOrganizations).mockResolvedValue([mockOrganization]);
+
+      const res = await request(app).get('/api/v1/organizations');
+
+      expect(res.status).toBe(200);
+      expect(res.body.data[0]).toMatchObject({ id: 3, name: 'Acme', role: 'owner' });
+      expect(organizationsService.listOrganizations).toHaveBeenCalledWith(1);
+    });
+
+    it('should reject API keys', async () => {
+      mockUser.apiKeyId = 9;
+
+      const res = await request(app).get('/api/v1/organizations');
+
+      expect(res.status).toBe(403);
+      expect(organizationsService.listOrganizations).not.toHaveBeenCalled();
+    });
+
+    it('should require a verified email address', async () => {
+      vi.mocked(getSessionState).mockResolvedValue({ userEmailVerifiedAt: null } as SessionState);
+
+      const res = await request(app).get('/api/v1/organizations');
+
+      expect(res.status).toBe(403);
+    });
+  });
+
+  describe('POST /api/v1/organizations', () => {
+    it('should create an organization', async () => {
+      vi.mocked(organizationsService.createOrganization).mockResolvedValue(mockOrganization);
+
+      const res = await request(app).post('/api/v1/organizations').send({ name: 'Acme' });
+
+      expect(res.status).toBe(201);
+      expect(organizationsService.createOrganization).toHaveBeenCalledWith(1, { name: 'Acme' });
+    });
+
+    it('should validate the name', async () => {
+      const res = await request(app).post('/api/v1/organizations').send({ name: 'A' });
+
+      expect(res.status).toBe(422);
+      expect(organizationsService.createOrganization).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('GET /api/v1/organizations/:id', () => {
+    it('should return 404 for organizations the user is not a member of', async () => {
+      vi.mocked(organizationsService.getOrganization).mockRejectedValue(
+        NotFoundError.resource('Organization', 3)
+      );
+
+      const res = await request(app).get('/api/v1/organizations/3');
+
+      expect(res.status).toBe(404);
+      expect(organizationsService.getOrganization).toHaveBeenCalledWith(1, 3);
+    });
+  });
+
+  describe('DELETE /api/v1/organizations/:id', () => {
+    it('should return 403 for insufficient roles', async () => {
+      vi.mocked(organizationsService.deleteOrganization).mockRejectedValue(
+        new ForbiddenError('Insufficient organization role')
+      );
+
+      const res = await request(app).delete('/api/v1/organizations/3');
+
+      expect(res.status).toBe(403);
+    });
+  });
+
+  describe('Members', () => {
+    it('should add a member by email', async () => {
+      vi.mocked(organizationsService.addMember).mockResolvedValue(mockMember);
+
+      const res = await request(app)
+        .post('/api/v1/organizations/3/members')
+        .send({ email: 'member@example.com', role: 'member' });
+
+      expect(res.status).toBe(201);
+      expect(res.body.data).toMatchObject({ userId: 5, role: 'member' });
+      expect(organizationsService.addMember).toHaveBeenCalledWith(1, 3, {
+        email: 'member@example.com',
+        role: 'member',
+      });
+    });
+
+    it('should reject unknown roles', async () => {
+      const res = await request(app)
+        .post('/api/v1/organizations/3/members')
+        .send({ email: 'member@example.com', role: 'superuser' });
+
+      expect(res.status).toBe(422);
+      expect(organizationsService.addMember).not.toHaveBeenCalled();
+    });
+
+    it("should change a member's role", async () => {
+      vi.mocked(organizationsService.updateMember).mockResolvedValue({
+        ...mockMember,
+        role: 'admin',
+      });
+
+      const res = await request(app)
+        .patch('/api/v1/organizations/3/members/5')
+        .send({ role: 'admin' });
+
+      expect(res.status).toBe(200);
+      expect(organizationsService.updateMember).toHaveBeenCalledWith(1, 3, 5, { role: 'admin' });
+    });
+
+    it('should remove a member', async () => {
+      vi.mocked(organizationsService.removeMember).mockResolvedValue();
+
+      const res = await request(app).delete('/api/v1/organizations/3/members/5');
+
+      expect(res.status).toBe(200);
+      expect(organizationsService.removeMember).toHaveBeenCalledWith(1, 3, 5);
+    });
+  });
+});
@@ -0,0 +1,265 @@
+/**
+ * Organization Service Unit Tests
+ *
+ * Tests the service layer with mocked repository.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { Prisma } from '@prisma/client';
+import type { Organization, User } from '@prisma/client';
+import { BadRequestError, ConflictError, ForbiddenError, NotFoundError } from '@/shared/errors';
+import type { MemberSummary } from '@/features/organizations/organizations.types';
+
+// Mock the repository
+vi.mock('@/features/organizations/organizations.repository', () => ({
+  findForUser: vi.fn(),
+  findById: vi.fn(),
+  create: vi.fn(),
+  update: vi.fn(),
+  softDelete: vi.fn(),
+  findMembers: vi.fn(),
+  findUserByEmail: vi.fn(),
+  findMemberRole: vi.fn(),
+  countOwners: vi.fn(),
+  addMember: vi.fn(),
+  updateMemberRole: vi.fn(),
+  removeMember: vi.fn(),
+}));
+
+vi.mock('@/shared/utils/organizationAccess', () => ({
+  getMembershipRole: vi.fn(),
+}));
+
+// Import after mocking
+import * as organizationsRepository from '@/features/organizations/organizations.repository';
+import { getMembershipRole } from '@/shared/utils/organizationAccess';
+import {
+  createOrganization,
+  getOrganization,
+  updateOrganization,
+  deleteOrganization,
+  addMember,
+  updateMember,
+  removeMember,
+} from '@/features/organizations/organizations.service';
+
+const USER_ID = 1;
+const MEMBER_ID = 2;
+const ORGANIZATION_ID = 3;
+
+const mockOrganization = {
+  id: ORGANIZATION_ID,
+  name: 'Acme',
+  createdBy: String(USER_ID),
+  updatedBy: null,
+  deletedBy: null,
+  createdAt: new Date('2026-10-19T00:00:00Z'),
+  updatedAt: new Date('2026-10-19T00:00:00Z'),
+  deletedAt: null,
+} as Organization;
+
+const mockMember: MemberSummary = {
+  userId: MEMBER_ID,
+  name: 'Member',
+  email: 'member@example.com',
+  role: 'member',
+  joinedAt: new Date('2026-10-19T00:00:00Z'),
+};
+
+describe('OrganizationService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('createOrganization', () => {
+    it('should make the user the owner', async () => {
+      vi.mocked(organizationsRepository.create).mockResolvedValue(mockOrganization);
+
+      const result = await createOrganization(USER_ID, { name: 'Acme' });
+
+      expect(result).toMatchObject({ id: ORGANIZATION_ID, name: 'Acme', role: 'owner' });
+      expect(organizationsRepository.create).toHaveBeenCalledWith('Acme', USER_ID);
+    });
+  });
+
+  describe('getOrganization', () => {
+    it("should include the user's role", async () => {
+      vi.mocked(getMembershipRole).mockResolvedValue('admin');
+      vi.mocked(organizationsRepository.findById).mockResolvedValue(mockOrganization);
+
+      const result = await getOrganization(USER_ID, ORGANIZATION_ID);
+
+      expect(result.role).toBe('admin');
+      expect(getMembershipRole).toHaveBeenCalledWith(ORGANIZATION_ID, USER_ID);
+    });
+
+    it('should not reveal organizations the user is not a member of', async () => {
+      vi.mocked(getMembershipRole).mockResolvedValue(null);
+
+      await expect(getOrganization(USER_ID, ORGANIZATION_ID)).rejects.toThrow(NotFoundError);
+      expect(organizationsRepository.findById).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('updateOrganization', () => {
+    it('should let admins rename the organization', async () => {
+      vi.mocked(getMembershipRole).mockResolvedValue('admin');
+      vi.mocked(organizationsRepository.update).mockResolvedValue({
+        ...mockOrganization,
+        name: 'Acme Corp',
+      });
+
+      const result = await updateOrganization(USER_ID, ORGANIZATION_ID, { name: 'Acme Corp' });
+
+      expect(result.name).toBe('Acme Corp');
+      expect(organizationsRepository.update).toHaveBeenCalledWith(
+        ORGANIZATION_ID,
+        { name: 'Acme Corp' },
+        String(USER_ID)
+      );
+    });
+
+    it('should reject members', async () => {
+      vi.mocked(getMembershipRole).mockResolvedValue('member');
+
+      await expect(
+        updateOrganization(USER_ID, ORGANIZATION_ID, { name: 'Acme Corp' })
+      ).rejects.toThrow(ForbiddenError);
+      expect(organizationsRepository.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('deleteOrganization', () => {
+    it('should only let owners delete the organization', async () => {
+      vi.mocked(getMembershipRole).mockResolvedValue('admin');
+
+      await expect(deleteOrganization(USER_ID, ORGANIZATION_ID)).rejects.toThrow(ForbiddenError);
+      expect(organizationsRepository.softDelete).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('addMember', () => {
+    beforeEach(() => {
+      vi.mocked(getMembershipRole).mockResolvedValue('admin');
+      vi.mocked(organizationsRepository.findUserByEmail).mockResolvedValue({
+        id: MEMBER_ID,
+      } as User);
+    });
+
+    it('should add the user as a member by default', async () => {
+      vi.mocked(organizationsRepository.addMember).mockResolvedValue(mockMember);
+
+      const result = await addMember(USER_ID, ORGANIZATION_ID, { email: 'member@example.com' });
+
+      expect(result).toEqual(mockMember);
+      expect(organizationsRepository.addMember).toHaveBeenCalledWith(
+        ORGANIZATION_ID,
+        MEMBER_ID,
+        'member',
+        String(USER_ID)
+      );
+    });
+
+    it('should not let admins add owners', async () => {
+      await expect(
+        addMember(USER_ID, ORGANIZATION_ID, { email: 'member@example.com', role: 'owner' })
+      ).rejects.toThrow('Only owners can add owners');
+    });
+
+    it('should throw NotFoundError for an unknown email address', async () => {
+      vi.mocked(organizationsRepository.findUserByEmail).mockResolvedValue(null);
+
+      await expect(
+        addMember(USER_ID, ORGANIZATION_ID, { email: 'nobody@example.com' })
+      ).rejects.toThrow(NotFoundError);
+    });
+
+    it('should return 409 for an existing member', async () => {
+      vi.mocked(organizationsRepository.addMember).mockRejectedValue(
+        new Prisma.PrismaClientKnownRequestError('Unique constraint failed', {
+          code: 'P2002',
+          clientVersion: 'test',
+        })
+      );
+
+      await expect(
+        addMember(USER_ID, ORGANIZATION_ID, { email: 'member@example.com' })
+      ).rejects.toThrow(ConflictError);
+    });
+  });
+
+  describe('updateMember', () => {
+    beforeEach(() => {
+      vi.mocked(getMembershipRole).mockResolvedValue('owner');
+    });
+
+    it("should change the member's role", async () => {
+      vi.mocked(organizationsRepository.findMemberRole).mockResolvedValue('member');
+      vi.mocked(organizationsRepository.updateMemberRole).mockResolvedValue({
+        ...mockMember,
+        role: 'admin',
+      });
+
+      const result = await updateMember(USER_ID, ORGANIZATION_ID, MEMBER_ID, { role: 'admin' });
+
+      expect(result.role).toBe('admin');
+    });
+
+    it('should not demote the only owner', async () => {
+      vi.mocked(organizationsRepository.findMemberRole).mockResolvedValue('owner');
+      vi.mocked(organizationsRepository.countOwners).mockResolvedValue(1);
+
+      await expect(
+        updateMember(USER_ID, ORGANIZATION_ID, USER_ID, { role: 'member' })
+      ).rejects.toThrow(BadRequestError);
+      expect(organizationsRepository.updateMemberRole).not.toHaveBeenCalled();
+    });
+
+    it('should throw NotFoundError for a non-member', async () => {
+      vi.mocked(organizationsRepository.findMemberRole).mockResolvedValue(null);
+
+      await expect(updateMember(USER_ID, ORGANIZATION_ID, 99, { role: 'admin' })).rejects.toThrow(
+        NotFoundError
+      );
+    });
+  });
+
+  describe('removeMember', () => {
+    it('should let members leave the organization', async () => {
+      vi.mocked(getMembershipRole).mockResolvedValue('member');
+      vi.mocked(organizationsRepository.findMemberRole).mockResolvedValue('member');
+
+      await removeMember(MEMBER_ID, ORGANIZATION_ID, MEMBER_ID);
+
+      expect(organizationsRepository.removeMember).toHaveBeenCalledWith(ORGANIZATION_ID, MEMBER_ID);
+    });
+
+    it('should not let members remove others', async () => {
+      vi.mocked(getMembershipRole).mockResolvedValue('member');
+
+      await expect(removeMember(MEMBER_ID, ORGANIZATION_ID, USER_ID)).rejects.toThrow(
+        ForbiddenError
+      );
+    });
+
+    it('should not let admins remove owners', async () => {
+      vi.mocked(getMembershipRole).mockResolvedValue('admin');
+      vi.mocked(organizationsRepository.findMemberRole).mockResolvedValue('owner');
+
+      await expect(removeMember(MEMBER_ID, ORGANIZATION_ID, USER_ID)).rejects.toThrow(
+        'Only owners can remove owners'
+      );
+    });
+
+    it('should not let the only owner leave', async () => {
+      vi.mocked(getMembershipRole).mockResolvedValue('owner');
+      vi.mocked(organizationsRepository.findMemberRole).mockResolvedValue('owner');
+      vi.mocked(organizationsRepository.countOwners).mockResolvedValue(1);
+
+      await expect(removeMember(USER_ID, ORGANIZATION_ID, USER_ID)).rejects.toThrow(
+        'An organization needs at least one owner'
+      );
+      expect(organizationsRepository.removeMember).not.toHaveBeenCalled();
+    });
+  });
+});
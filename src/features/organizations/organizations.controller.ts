@@ -0,0 +1,129 @@
+/**
+ * Organization Controller
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import {
+  listOrganizations,
+  createOrganization,
+  getOrganization,
+  updateOrganization,
+  deleteOrganization,
+  listMembers,
+  addMember as addMemberService,
+  updateMember as updateMemberService,
+  removeMember as removeMemberService,
+} from '@/features/organizations/organizations.service';
+import { sendOk, sendCreated, getRequestId } from '@/shared/utils/apiResponse';
+import { UnauthorizedError } from '@/shared/errors';
+
+function getUserId(req: Request): number {
+  if (!req.user) {
+    throw new UnauthorizedError('User not authenticated');
+  }
+
+  return req.user.userId;
+}
+
+function getOrganizationId(req: Request): number {
+  return parseInt(req.params.id as string, 10);
+}
+
+function getMemberId(req: Request): number {
+  return parseInt(req.params.userId as string, 10);
+}
+
+export async function index(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const organizations = await listOrganizations(getUserId(req));
+
+    sendOk(res, organizations, { requestId: getRequestId(req) });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function create(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const organization = await createOrganization(getUserId(req), req.body);
+
+    sendCreated(res, organization, { requestId: getRequestId(req) });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function show(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const organization = await getOrganization(getUserId(req), getOrganizationId(req));
+
+    sendOk(res, organization, { requestId: getRequestId(req) });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function update(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const organization = await updateOrganization(getUserId(req), getOrganizationId(req), req.body);
+
+    sendOk(res, organization, { requestId: getRequestId(req) });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function destroy(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    await deleteOrganization(getUserId(req), getOrganizationId(req));
+
+    sendOk(res, null, { requestId: getRequestId(req) });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function members(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const result = await listMembers(getUserId(req), getOrganizationId(req));
+
+    sendOk(res, result, { requestId: getRequestId(req) });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function addMember(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const member = await addMemberService(getUserId(req), getOrganizationId(req), req.body);
+
+    sendCreated(res, member, { requestId: getRequestId(req) });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function updateMember(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const member = await updateMemberService(
+      getUserId(req),
+      getOrganizationId(req),
+      getMemberId(req),
+      req.body
+    );
+
+    sendOk(res, member, { requestId: getRequestId(req) });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function removeMember(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    await removeMemberService(getUserId(req), getOrganizationId(req), getMemberId(req));
+
+    sendOk(res, null, { requestId: getRequestId(req) });
+  } catch (error) {
+    next(error);
+  }
+}
@@ -0,0 +1,164 @@
+/**
+ * Organization Repository
+ *
+ * Database operations for organizations and their memberships using Prisma.
+ */
+
+import { Prisma } from '@prisma/client';
+import type { Organization, User } from '@prisma/client';
+import { prisma } from '@/shared/utils/prisma';
+import type {
+  MemberSummary,
+  OrganizationRole,
+  OrganizationSummary,
+} from '@/features/organizations/organizations.types';
+
+const MEMBER_SELECT = {
+  role: true,
+  createdAt: true,
+  user: { select: { id: true, name: true, email: true } },
+} satisfies Prisma.MembershipSelect;
+
+function toMemberSummary(
+  membership: Prisma.MembershipGetPayload<{ select: typeof MEMBER_SELECT }>
+): MemberSummary {
+  return {
+    userId: membership.user.id,
+    name: membership.user.name,
+    email: membership.user.email,
+    role: membership.role as OrganizationRole,
+    joinedAt: membership.createdAt,
+  };
+}
+
+export async function findForUser(userId: number): Promise<OrganizationSummary[]> {
+  const memberships = await prisma.membership.findMany({
+    where: { userId, organization: { deletedAt: null } },
+    select: {
+      role: true,
+      organization: { select: { id: true, name: true, createdAt: true } },
+    },
+    orderBy: { organization: { name: 'asc' } },
+  });
+
+  return memberships.map(({ role, organization }) => ({
+    ...organization,
+    role: role as OrganizationRole,
+  }));
+}
+
+export async function findById(id: number): Promise<Organization | null> {
+  return prisma.organization.findFirst({
+    where: { id, deletedAt: null },
+  });
+}
+
+/**
+ * Create an organization with its creator as the first owner
+ */
+export async function create(name: string, ownerId: number): Promise<Organization> {
+  return prisma.organization.create({
+    data: {
+      name,
+      createdBy: String(ownerId),
+      memberships: {
+        create: { userId: ownerId, role: 'owner', createdBy: String(ownerId) },
+      },
+    },
+  });
+}
+
+export async function update(
+  id: number,
+  data: { name: string },
+  updatedBy: string
+): Promise<Organization> {
+  return prisma.organization.update({
+    where: { id },
+    data: { ...data, updatedBy },
+  });
+}
+
+export async function softDelete(id: number, deletedBy: string): Promise<void> {
+  await prisma.organization.update({
+    where: { id },
+    data: { deletedAt: new Date(), deletedBy },
+  });
+}
+
+export async function findMembers(organizationId: number): Promise<MemberSummary[]> {
+  const memberships = await prisma.membership.findMany({
+    where: { organizationId },
+    select: MEMBER_SELECT,
+    orderBy: { createdAt: 'asc' },
+  });
+
+  return memberships.map(toMemberSummary);
+}
+
+export async function findUserByEmail(email: string): Promise<User | null> {
+  return prisma.user.findFirst({
+    where: { email, deletedAt: null },
+  });
+}
+
+export async function findMemberRole(
+  organizationId: number,
+  userId: number
+): Promise<OrganizationRole | null> {
+  const membership = await prisma.membership.findUnique({
+    where: { organizationId_userId: { organizationId, userId } },
+    select: { role: true },
+  });
+
+  return (membership?.role as OrganizationRole | undefined) ?? null;
+}
+
+export async function countOwners(organizationId: number): Promise<number> {
+  return prisma.membership.count({
+    where: { organizationId, role: 'owner' },
+  });
+}
+
+export async function addMember(
+  organizationId: number,
+  userId: number,
+  role: OrganizationRole,
+  createdBy: string
+): Promise<MemberSummary> {
+  const membership = await prisma.membership.create({
+    data: { organizationId, userId, role, createdBy },
+    select: MEMBER_SELECT,
+  });
+
+  return toMemberSummary(membership);
+}
+
+export async function updateMemberRole(
+  organizationId: number,
+  userId: number,
+  role: OrganizationRole,
+  updatedBy: string
+): Promise<MemberSummary> {
+  const membership = await prisma.membership.update({
+    where: { organizationId_userId: { organizationId, userId } },
+    data: { role, updatedBy },
+    select: MEMBER_SELECT,
+  });
+
+  return toMemberSummary(membership);
+}
+
+/**
+ * Remove a member along with the shares of the organization's examples they received
+ */
+export async function removeMember(organizationId: number, userId: number): Promise<void> {
+  await prisma.$transaction([
+    prisma.exampleShare.deleteMany({
+      where: { userId, example: { organizationId } },
+    }),
+    prisma.membership.delete({
+      where: { organizationId_userId: { organizationId, userId } },
+    }),
+  ]);
+}
@@ -0,0 +1,64 @@
+/**
+ * Organization Routes
+ */
+
+import { Router } from 'express';
+import { validate } from '@/shared/middlewares/validation.middleware';
+import {
+  addMemberSchema,
+  createOrganizationSchema,
+  memberIdSchema,
+  organizationIdSchema,
+  updateMemberSchema,
+  updateOrganizationSchema,
+} from '@/features/organizations/organizations.schema';
+import {
+  index,
+  create,
+  show,
+  update,
+  destroy,
+  members,
+  addMember,
+  updateMember,
+  removeMember,
+} from '@/features/organizations/organizations.controller';
+import {
+  authenticate,
+  forbidApiKey,
+  requireVerifiedEmail,
+} from '@/shared/middlewares/auth.middleware';
+
+const router = Router();
+
+// Organizations and their members are managed from a signed-in session, not with an API key
+router.use(authenticate, forbidApiKey, requireVerifiedEmail);
+
+// GET /organizations - List the user's organizations with their role
+router.get('/', index);
+
+// POST /organizations - Create an organization (the user becomes its owner)
+router.post('/', validate(createOrganizationSchema), create);
+
+// GET /organizations/:id - Get an organization (members)
+router.get('/:id', validate(organizationIdSchema), show);
+
+// PATCH /organizations/:id - Rename an organization (owners and admins)
+router.patch('/:id', validate(updateOrganizationSchema), update);
+
+// DELETE /organizations/:id - Delete an organization and its data (owners)
+router.delete('/:id', validate(organizationIdSchema), destroy);
+
+// GET /organizations/:id/members - List members (members)
+router.get('/:id/members', validate(organizationIdSchema), members);
+
+// POST /organizations/:id/members - Add a registered user by email (owners and admins)
+router.post('/:id/members', validate(addMemberSchema), addMember);
+
+// PATCH /organizations/:id/members/:userId - Change a member's role (owners)
+router.patch('/:id/members/:userId', validate(updateMemberSchema), updateMember);
+
+// DELETE /organizations/:id/members/:userId - Remove a member or leave (owners and admins, or oneself)
+router.delete('/:id/members/:userId', validate(memberIdSchema), removeMember);
+
+export default router;
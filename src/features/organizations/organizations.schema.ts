@@ -0,0 +1,52 @@
+/**
+ * Organization Validation Schemas
+ */
+
+import { z } from 'zod';
+import { ORGANIZATION_ROLES } from '@/features/organizations/organizations.types';
+
+const organizationRoleSchema = z.enum(ORGANIZATION_ROLES);
+
+const organizationIdParams = z.object({
+  id: z.string().regex(/^\d+$/, 'ID must be a number'),
+});
+
+const memberParams = organizationIdParams.extend({
+  userId: z.string().regex(/^\d+$/, 'User ID must be a number'),
+});
+
+export const organizationIdSchema = {
+  params: organizationIdParams,
+};
+
+export const createOrganizationSchema = {
+  body: z.object({
+    name: z.string().trim().min(2, 'Name must be at least 2 characters').max(100),
+  }),
+};
+
+export const updateOrganizationSchema = {
+  params: organizationIdParams,
+  body: z.object({
+    name: z.string().trim().min(2, 'Name must be at least 2 characters').max(100),
+  }),
+};
+
+export const addMemberSchema = {
+  params: organizationIdParams,
+  body: z.object({
+    email: z.string().email('Invalid email address'),
+    role: organizationRoleSchema.optional(),
+  }),
+};
+
+export const updateMemberSchema = {
+  params: memberParams,
+  body: z.object({
+    role: organizationRoleSchema,
+  }),
+};
+
+export const memberIdSchema = {
+  params: memberParams,
+};
@@ -0,0 +1,251 @@
+/**
+ * Organization Service
+ *
+ * Organizations are the tenants of the API: tenant-scoped data such as examples
+ * belongs to exactly one organization and is only reachable by its members.
+ * Each member has a role within the organization, independent of their global
+ * roles. Owners manage everything, admins manage members and settings, and
+ * members use the organization's data. Every organization keeps at least one owner.
+ */
+
+import { Prisma } from '@prisma/client';
+import { logger } from '@/shared/utils/logger';
+import { getMembershipRole } from '@/shared/utils/organizationAccess';
+import * as organizationsRepository from '@/features/organizations/organizations.repository';
+import type {
+  AddMemberInput,
+  CreateOrganizationInput,
+  MemberSummary,
+  OrganizationRole,
+  OrganizationSummary,
+  UpdateMemberInput,
+  UpdateOrganizationInput,
+} from '@/features/organizations/organizations.types';
+import { BadRequestError, ConflictError, ForbiddenError, NotFoundError } from '@/shared/errors';
+
+const MANAGER_ROLES: OrganizationRole[] = ['owner', 'admin'];
+
+/**
+ * Role of the acting user, requiring one of the given roles when any are listed
+ *
+ * @throws NotFoundError if the user is not a member (the organization's existence is not revealed)
+ * @throws ForbiddenError if the user's role is not one of the given roles
+ */
+async function requireMembership(
+  organizationId: number,
+  userId: number,
+  roles?: OrganizationRole[]
+): Promise<OrganizationRole> {
+  const role = await getMembershipRole(organizationId, userId);
+
+  if (!role) {
+    throw NotFoundError.resource('Organization', organizationId);
+  }
+
+  if (roles && !roles.includes(role)) {
+    throw new ForbiddenError('Insufficient organization role');
+  }
+
+  return role;
+}
+
+/**
+ * @throws BadRequestError if the member is the organization's only owner
+ */
+async function assertNotLastOwner(organizationId: number, role: OrganizationRole): Promise<void> {
+  if (role === 'owner' && (await organizationsRepository.countOwners(organizationId)) <= 1) {
+    throw new BadRequestError('An organization needs at least one owner');
+  }
+}
+
+export async function listOrganizations(userId: number): Promise<OrganizationSummary[]> {
+  return organizationsRepository.findForUser(userId);
+}
+
+/**
+ * Create an organization with the user as its owner
+ */
+export async function createOrganization(
+  userId: number,
+  input: CreateOrganizationInput
+): Promise<OrganizationSummary> {
+  const organization = await organizationsRepository.create(input.name, userId);
+
+  logger.info({ userId, organizationId: organization.id }, 'Organization created');
+
+  return {
+    id: organization.id,
+    name: organization.name,
+    role: 'owner',
+    createdAt: organization.createdAt,
+  };
+}
+
+export async function getOrganization(
+  userId: number,
+  organizationId: number
+): Promise<OrganizationSummary> {
+  const role = await requireMembership(organizationId, userId);
+  const organization = await organizationsRepository.findById(organizationId);
+
+  if (!organization) {
+    throw NotFoundError.resource('Organization', organizationId);
+  }
+
+  return { id: organization.id, name: organization.name, role, createdAt: organization.createdAt };
+}
+
+/**
+ * @throws ForbiddenError unless the user is an owner or admin
+ */
+export async function updateOrganization(
+  userId: number,
+  organizationId: number,
+  input: UpdateOrganizationInput
+): Promise<OrganizationSummary> {
+  const role = await requireMembership(organizationId, userId, MANAGER_ROLES);
+  const organization = await organizationsRepository.update(
+    organizationId,
+    { name: input.name },
+    String(userId)
+  );
+
+  return { id: organization.id, name: organization.name, role, createdAt: organization.createdAt };
+}
+
+/**
+ * Soft delete the organization: its data becomes unreachable for every member
+ *
+ * @throws ForbiddenError unless the user is an owner
+ */
+export async function deleteOrganization(userId: number, organizationId: number): Promise<void> {
+  await requireMembership(organizationId, userId, ['owner']);
+  await organizationsRepository.softDelete(organizationId, String(userId));
+
+  logger.info({ userId, organizationId }, 'Organization deleted');
+}
+
+export async function listMembers(
+  userId: number,
+  organizationId: number
+): Promise<MemberSummary[]> {
+  await requireMembership(organizationId, userId);
+
+  return organizationsRepository.findMembers(organizationId);
+}
+
+/**
+ * Add a registered user to the organization
+ *
+ * @throws ForbiddenError unless the user is an owner or admin, and only owners can add owners
+ * @throws NotFoundError if no account uses the email address
+ * @throws ConflictError if the account is already a member
+ */
+export async function addMember(
+  userId: number,
+  organizationId: number,
+  input: AddMemberInput
+): Promise<MemberSummary> {
+  const actorRole = await requireMembership(organizationId, userId, MANAGER_ROLES);
+  const role = input.role ?? 'member';
+
+  if (role === 'owner' && actorRole !== 'owner') {
+    throw new ForbiddenError('Only owners can add owners');
+  }
+
+  const user = await organizationsRepository.findUserByEmail(input.email);
+
+  if (!user) {
+    throw new NotFoundError('User not found');
+  }
+
+  try {
+    const member = await organizationsRepository.addMember(
+      organizationId,
+      user.id,
+      role,
+      String(userId)
+    );
+
+    logger.info({ userId, organizationId, memberId: user.id, role }, 'Organization member added');
+
+    return member;
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      throw new ConflictError('User is already a member of this organization');
+    }
+    throw error;
+  }
+}
+
+/**
+ * Change a member's role
+ *
+ * @throws ForbiddenError unless the user is an owner
+ * @throws BadRequestError when demoting the only owner
+ */
+export async function updateMember(
+  userId: number,
+  organizationId: number,
+  memberId: number,
+  input: UpdateMemberInput
+): Promise<MemberSummary> {
+  await requireMembership(organizationId, userId, ['owner']);
+
+  const currentRole = await organizationsRepository.findMemberRole(organizationId, memberId);
+
+  if (!currentRole) {
+    throw NotFoundError.resource('Member', memberId);
+  }
+
+  if (input.role !== 'owner') {
+    await assertNotLastOwner(organizationId, currentRole);
+  }
+
+  const member = await organizationsRepository.updateMemberRole(
+    organizationId,
+    memberId,
+    input.role,
+    String(userId)
+  );
+
+  logger.info(
+    { userId, organizationId, memberId, role: input.role },
+    'Organization member role changed'
+  );
+
+  return member;
+}
+
+/**
+ * Remove a member, or leave the organization when removing oneself
+ *
+ * @throws ForbiddenError unless the user is an owner or admin, and admins cannot remove owners
+ * @throws BadRequestError when removing the only owner
+ */
+export async function removeMember(
+  userId: number,
+  organizationId: number,
+  memberId: number
+): Promise<void> {
+  const actorRole = await requireMembership(
+    organizationId,
+    userId,
+    memberId === userId ? undefined : MANAGER_ROLES
+  );
+
+  const role = await organizationsRepository.findMemberRole(organizationId, memberId);
+
+  if (!role) {
+    throw NotFoundError.resource('Member', memberId);
+  }
+
+  if (role === 'owner' && actorRole !== 'owner') {
+    throw new ForbiddenError('Only owners can remove owners');
+  }
+
+  await assertNotLastOwner(organizationId, role);
+  await organizationsRepository.removeMember(organizationId, memberId);
+
+  logger.info({ userId, organizationId, memberId }, 'Organization member removed');
+}
@@ -0,0 +1,44 @@
+/**
+ * Organization Types
+ */
+
+import type { OrganizationRole } from '@/shared/types/organization';
+
+export type { OrganizationRole } from '@/shared/types/organization';
+
+export const ORGANIZATION_ROLES: OrganizationRole[] = ['owner', 'admin', 'member'];
+
+/**
+ * Organization as shown to one of its members, with their role
+ */
+export interface OrganizationSummary {
+  id: number;
+  name: string;
+  role: OrganizationRole;
+  createdAt: Date;
+}
+
+export interface MemberSummary {
+  userId: number;
+  name: string;
+  email: string;
+  role: OrganizationRole;
+  joinedAt: Date;
+}
+
+export interface CreateOrganizationInput {
+  name: string;
+}
+
+export interface UpdateOrganizationInput {
+  name: string;
+}
+
+export interface AddMemberInput {
+  email: string;
+  role?: OrganizationRole;
+}
+
+export interface UpdateMemberInput {
+  role: OrganizationRole;
+}
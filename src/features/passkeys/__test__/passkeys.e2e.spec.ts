@@ -0,0 +1,179 @@
+import 'dotenv/config';
+import request from 'supertest';
+import express, { Request, Response, NextFunction } from 'express';
+import pino from 'pino';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('@/shared/utils/logger', () => ({
+  logger: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+    child: vi.fn().mockReturnThis(),
+  },
+}));
+
+// Import implementations after mocks
+import { config } from '@/config';
+import passkeyRoutes from '@/features/passkeys/passkeys.routes';
+import { login } from '@/features/auth/auth.service';
+import { prisma } from '@/shared/utils/prisma';
+import { hashPassword } from '@/shared/utils/crypto';
+import { SoftwareAuthenticator } from './softwareAuthenticator';
+
+// Setup Express App
+const app = express();
+app.use(express.json());
+app.use((req, _res, next) => {
+  req.log = pino({ level: 'silent' });
+  next();
+});
+app.use('/api/v1/auth/passkeys', passkeyRoutes);
+
+interface HttpError extends Error {
+  statusCode?: number;
+}
+
+app.use((err: HttpError, req: Request, res: Response, _next: NextFunction) => {
+  res.status(err.statusCode || 500).json({
+    success: false,
+    error: { message: err.message || 'Internal Server Error' },
+  });
+});
+
+describe('Passkeys Feature E2E', () => {
+  let userId: number;
+  let accessToken: string;
+
+  async function registerPasskey(authenticator: SoftwareAuthenticator) {
+    const options = await request(app)
+      .post('/api/v1/auth/passkeys/register/options')
+      .set('Authorization', `Bearer ${accessToken}`);
+
+    return request(app)
+      .post('/api/v1/auth/passkeys/register')
+      .set('Authorization', `Bearer ${accessToken}`)
+      .send({ name: 'Laptop', credential: authenticator.createCredential(options.body.data) });
+  }
+
+  async function signIn(authenticator: SoftwareAuthenticator) {
+    const options = await request(app).post('/api/v1/auth/passkeys/login/options');
+
+    return request(app)
+      .post('/api/v1/auth/passkeys/login')
+      .send({ credential: authenticator.getAssertion(options.body.data) });
+  }
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+
+    // Clean Database
+    await prisma.webAuthnChallenge.deleteMany();
+    await prisma.webAuthnCredential.deleteMany();
+    await prisma.securityEvent.deleteMany();
+    await prisma.userSession.deleteMany();
+    await prisma.user.deleteMany();
+
+    const user = await prisma.user.create({
+      data: {
+        email: 'passkey@example.com',
+        name: 'Passkey User',
+        password: await hashPassword('Password123!'),
+        emailVerifiedAt: new Date(),
+      },
+    });
+    userId = user.id;
+
+    const tokens = await login({ email: 'passkey@example.com', password: 'Password123!' });
+    accessToken = (tokens as { accessToken: string }).accessToken;
+  });
+
+  it('should register a passkey and sign in with it', async () => {
+    const authenticator = new SoftwareAuthenticator({ origin: config.webauthn.origins[0] });
+
+    const registered = await registerPasskey(authenticator);
+
+    expect(registered.status).toBe(201);
+    expect(registered.body.data).toMatchObject({ name: 'Laptop', backedUp: true });
+
+    const list = await request(app)
+      .get('/api/v1/auth/passkeys')
+      .set('Authorization', `Bearer ${accessToken}`);
+    expect(list.body.data).toHaveLength(1);
+
+    const signedIn = await signIn(authenticator);
+
+    expect(signedIn.status).toBe(200);
+    expect(signedIn.body.data.accessToken).toBeDefined();
+    expect(signedIn.body.data.refreshToken).toBeDefined();
+
+    const credential = await prisma.webAuthnCredential.findFirstOrThrow({ where: { userId } });
+    expect(credential.signCount).toBe(2n);
+    expect(credential.lastUsedAt).not.toBeNull();
+    expect(await prisma.userSession.count({ where: { userId } })).toBe(2);
+  });
+
+  it('should skip the TOTP step for a user-verified passkey', async () => {
+    await prisma.user.update({
+      where: { id: userId },
+      data: { mfaEnabledAt: new Date(), mfaSecret: 'JBSWY3DPEHPK3PXP' },
+    });
+    const verified = new SoftwareAuthenticator({ origin: config.webauthn.origins[0] });
+    const unverified = new SoftwareAuthenticator({
+      origin: config.webauthn.origins[0],
+      userVerification: false,
+    });
+    await registerPasskey(verified);
+    await registerPasskey(unverified);
+
+    const withVerification = await signIn(verified);
+    const withoutVerification = await signIn(unverified);
+
+    expect(withVerification.body.data.accessToken).toBeDefined();
+    expect(withoutVerification.body.data).toMatchObject({ mfaRequired: true });
+  });
+
+  it('should reject a cloned authenticator and record it', async () => {
+    const authenticator = new SoftwareAuthenticator({ origin: config.webauthn.origins[0] });
+    await registerPasskey(authenticator);
+    await prisma.webAuthnCredential.updateMany({ where: { userId }, data: { signCount: 50n } });
+
+    const res = await signIn(authenticator);
+
+    expect(res.status).toBe(401);
+    expect(
+      await prisma.securityEvent.count({ where: { userId, type: 'passkey_clone_detected' } })
+    ).toBe(1);
+  });
+
+  it('should not accept a challenge twice', async () => {
+    const authenticator = new SoftwareAuthenticator({ origin: config.webauthn.origins[0] });
+    await registerPasskey(authenticator);
+    const options = await request(app).post('/api/v1/auth/passkeys/login/options');
+    const assertion = authenticator.getAssertion(options.body.data);
+
+    const first = await request(app)
+      .post('/api/v1/auth/passkeys/login')
+      .send({ credential: assertion });
+    const replay = await request(app)
+      .post('/api/v1/auth/passkeys/login')
+      .send({ credential: assertion });
+
+    expect(first.status).toBe(200);
+    expect(replay.status).toBe(401);
+  });
+
+  it('should remove a passkey', async () => {
+    const authenticator = new SoftwareAuthenticator({ origin: config.webauthn.origins[0] });
+    const registered = await registerPasskey(authenticator);
+
+    const res = await request(app)
+      .delete(`/api/v1/auth/passkeys/${registered.body.data.id}`)
+      .set('Authorization', `Bearer ${accessToken}`);
+
+    expect(res.status).toBe(200);
+    expect(await prisma.webAuthnCredential.count()).toBe(0);
+    expect((await signIn(authenticator)).status).toBe(401);
+  });
+});
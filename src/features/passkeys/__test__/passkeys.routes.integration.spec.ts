@@ -0,0 +1,245 @@
+import 'dotenv/config';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import request from 'supertest';
+import express, { Request, Response, NextFunction } from 'express';
+import { Logger } from 'pino';
+import passkeyRoutes from '@/features/passkeys/passkeys.routes';
+import type { PasskeySummary } from '@/features/passkeys/passkeys.types';
+import * as passkeysService from '@/features/passkeys/passkeys.service';
+import { errorHandler } from '@/shared/middlewares/error.middleware';
+import { NotFoundError, UnauthorizedError } from '@/shared/errors';
+import type { UserSessionPayload } from '@/shared/types/auth';
+
+// Mock Service Layer
+vi.mock('@/features/passkeys/passkeys.service');
+
+const { mockUser } = vi.hoisted(() => ({
+  mockUser: {} as Partial<UserSessionPayload>,
+}));
+
+// Mock Auth Middleware Module (keep the real guards)
+vi.mock('@/shared/middlewares/auth.middleware', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/shared/middlewares/auth.middleware')>()),
+  authenticate: (req: Request, res: Response, next: NextFunction) => {
+    req.user = { userId: 1, sessionId: 2, roles: ['user'], permissions: [], ...mockUser };
+    next();
+  },
+}));
+
+const app = express();
+app.use(express.json());
+
+// Mock Logger Middleware
+app.use((req: Request, res: Response, next: NextFunction) => {
+  (req as Request & { log: Partial<Logger> }).log = {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+    trace: vi.fn(),
+    fatal: vi.fn(),
+    level: 'info',
+    silent: vi.fn(),
+    child: vi.fn(),
+  } as unknown as Logger;
+  next();
+});
+app.use('/api/v1/auth/passkeys', passkeyRoutes);
+app.use(errorHandler);
+
+const mockPasskey = {
+  id: 5,
+  name: 'Laptop',
+  transports: ['internal'],
+  aaguid: '00000000-0000-0000-0000-000000000000',
+  backedUp: true,
+  lastUsedAt: null,
+  createdAt: new Date('2026-01-15T00:00:00Z'),
+} as PasskeySummary;
+
+const registrationCredential = {
+  id: 'Y3JlZGVudGlhbA',
+  rawId: 'Y3JlZGVudGlhbA',
+  type: 'public-key',
+  response: {
+    clientDataJSON: 'eyJ0eXBlIjoid2ViYXV0aG4uY3JlYXRlIn0',
+    attestationObject: 'o2NmbXRkbm9uZQ',
+    transports: ['internal'],
+  },
+};
+
+const authenticationCredential = {
+  id: 'Y3JlZGVudGlhbA',
+  rawId: 'Y3JlZGVudGlhbA',
+  type: 'public-key',
+  response: {
+    clientDataJSON: 'eyJ0eXBlIjoid2ViYXV0aG4uZ2V0In0',
+    authenticatorData: 'SZYN5YgOjGh0NBcPZHZgW4_krrmihjLHmVzzuoMdl2M',
+    signature: 'MEUCIQ',
+    userHandle: 'MQ',
+  },
+};
+
+describe('Passkeys Feature Integration (Route/Controller)', () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+    for (const key of Object.keys(mockUser)) {
+      delete mockUser[key as keyof UserSessionPayload];
+    }
+  });
+
+  describe('GET /api/v1/auth/passkeys', () => {
+    it("should list the user's passkeys", async () => {
+      vi.mocked(passkeysService.listPasskeys).mockResolvedValue([mockPasskey]);
+
+      const res = await request(app).get('/api/v1/auth/passkeys');
+
+      expect(res.status).toBe(200);
+      expect(res.body.data[0]).toMatchObject({ id: 5, name: 'Laptop' });
+      expect(passkeysService.listPasskeys).toHaveBeenCalledWith(1);
+    });
+  });
+
+  describe('Registration', () => {
+    it('should return registration options', async () => {
+      vi.mocked(passkeysService.getRegistrationOptions).mockResolvedValue({
+        challenge: 'challenge',
+      } as Awaited<ReturnType<typeof passkeysService.getRegistrationOptions>>);
+
+      const res = await request(app).post('/api/v1/auth/passkeys/register/options');
+
+      expect(res.status).toBe(200);
+      expect(res.body.data.challenge).toBe('challenge');
+      expect(passkeysService.getRegistrationOptions).toHaveBeenCalledWith(1);
+    });
+
+    it('should register a passkey with the client details', async () => {
+      vi.mocked(passkeysService.registerPasskey).mockResolvedValue(mockPasskey);
+
+      const res = await request(app)
+        .post('/api/v1/auth/passkeys/register')
+        .set('User-Agent', 'TestAgent')
+        .send({ name: 'Laptop', credential: registrationCredential });
+
+      expect(res.status).toBe(201);
+      expect(passkeysService.registerPasskey).toHaveBeenCalledWith(
+        1,
+        expect.objectContaining({
+          name: 'Laptop',
+          credential: registrationCredential,
+          userAgent: 'TestAgent',
+        })
+      );
+    });
+
+    it('should return 422 for a malformed credential', async () => {
+      const res = await request(app)
+        .post('/api/v1/auth/passkeys/register')
+        .send({ credential: { ...registrationCredential, type: 'password' } });
+
+      expect(res.status).toBe(422);
+      expect(passkeysService.registerPasskey).not.toHaveBeenCalled();
+    });
+
+    it('should return 403 when authenticated with an API key', async () => {
+      mockUser.apiKeyId = 3;
+
+      const res = await request(app).post('/api/v1/auth/passkeys/register/options');
+
+      expect(res.status).toBe(403);
+      expect(passkeysService.getRegistrationOptions).not.toHaveBeenCalled();
+    });
+
+    it('should return 403 while impersonating', async () => {
+      mockUser.impersonatorId = 9;
+
+      const res = await request(app)
+        .post('/api/v1/auth/passkeys/register')
+        .send({ credential: registrationCredential });
+
+      expect(res.status).toBe(403);
+      expect(passkeysService.registerPasskey).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('DELETE /api/v1/auth/passkeys/:id', () => {
+    it('should remove a passkey', async () => {
+      vi.mocked(passkeysService.deletePasskey).mockResolvedValue(undefined);
+
+      const res = await request(app).delete('/api/v1/auth/passkeys/5');
+
+      expect(res.status).toBe(200);
+      expect(passkeysService.deletePasskey).toHaveBeenCalledWith(1, 5, expect.any(Object));
+    });
+
+    it('should return 404 for an unknown passkey', async () => {
+      vi.mocked(passkeysService.deletePasskey).mockRejectedValue(
+        NotFoundError.resource('Passkey', 99)
+      );
+
+      const res = await request(app).delete('/api/v1/auth/passkeys/99');
+
+      expect(res.status).toBe(404);
+    });
+  });
+
+  describe('Sign-in', () => {
+    it('should return authentication options without a session', async () => {
+      vi.mocked(passkeysService.getAuthenticationOptions).mockResolvedValue({
+        challenge: 'challenge',
+        rpId: 'localhost',
+        timeout: 300000,
+        userVerification: 'preferred',
+      });
+
+      const res = await request(app).post('/api/v1/auth/passkeys/login/options');
+
+      expect(res.status).toBe(200);
+      expect(res.body.data.rpId).toBe('localhost');
+    });
+
+    it('should exchange a signed challenge for tokens', async () => {
+      vi.mocked(passkeysService.loginWithPasskey).mockResolvedValue({
+        accessToken: 'access',
+        refreshToken: 'refresh',
+      });
+
+      const res = await request(app)
+        .post('/api/v1/auth/passkeys/login')
+        .send({ credential: authenticationCredential });
+
+      expect(res.status).toBe(200);
+      expect(res.body.data).toEqual({ accessToken: 'access', refreshToken: 'refresh' });
+      expect(passkeysService.loginWithPasskey).toHaveBeenCalledWith(
+        expect.objectContaining({ credential: authenticationCredential })
+      );
+    });
+
+    it('should return 401 for a passkey that does not verify', async () => {
+      vi.mocked(passkeysService.loginWithPasskey).mockRejectedValue(
+        new UnauthorizedError('Invalid passkey')
+      );
+
+      const res = await request(app)
+        .post('/api/v1/auth/passkeys/login')
+        .send({ credential: authenticationCredential });
+
+      expect(res.status).toBe(401);
+      expect(res.body.error.message).toBe('Invalid passkey');
+    });
+
+    it('should return 422 without a signature', async () => {
+      const res = await request(app)
+        .post('/api/v1/auth/passkeys/login')
+        .send({
+          credential: {
+            ...authenticationCredential,
+            response: { ...authenticationCredential.response, signature: undefined },
+          },
+        });
+
+      expect(res.status).toBe(422);
+      expect(passkeysService.loginWithPasskey).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,420 @@
+/**
+ * Passkey Service Unit Tests
+ *
+ * Tests the WebAuthn ceremonies with a mocked repository and a software authenticator.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { Prisma } from '@prisma/client';
+import type { User, WebAuthnCredential } from '@prisma/client';
+import { config } from '@/config';
+import { ConflictError, NotFoundError, UnauthorizedError, ValidationError } from '@/shared/errors';
+import { SoftwareAuthenticator } from '@/features/passkeys/__test__/softwareAuthenticator';
+import type { PasskeySummary } from '@/features/passkeys/passkeys.types';
+
+// Mock the repository
+vi.mock('@/features/passkeys/passkeys.repository', () => ({
+  findUserById: vi.fn(),
+  createChallenge: vi.fn(),
+  consumeChallenge: vi.fn(),
+  findCredentialsByUserId: vi.fn(),
+  findSummariesByUserId: vi.fn(),
+  findCredentialByCredentialId: vi.fn(),
+  createCredential: vi.fn(),
+  recordCredentialUse: vi.fn(),
+  deleteCredential: vi.fn(),
+}));
+
+vi.mock('@/features/auth/auth.service', () => ({
+  completeSignIn: vi.fn(),
+}));
+
+vi.mock('@/shared/utils/mailer', () => ({
+  sendEmail: vi.fn(),
+}));
+
+vi.mock('@/shared/utils/securityEvents', () => ({
+  recordSecurityEvent: vi.fn(),
+}));
+
+// Import after mocking
+import * as passkeysRepository from '@/features/passkeys/passkeys.repository';
+import { completeSignIn } from '@/features/auth/auth.service';
+import { sendEmail } from '@/shared/utils/mailer';
+import { recordSecurityEvent } from '@/shared/utils/securityEvents';
+import {
+  getRegistrationOptions,
+  registerPasskey,
+  deletePasskey,
+  getAuthenticationOptions,
+  loginWithPasskey,
+  toUserHandle,
+} from '@/features/passkeys/passkeys.service';
+
+const mockUser = {
+  id: 1,
+  name: 'Jane Doe',
+  email: 'jane@example.com',
+  isActive: true,
+  deletedAt: null,
+} as User;
+
+const mockSummary: PasskeySummary = {
+  id: 5,
+  name: 'Laptop',
+  transports: ['internal', 'hybrid'],
+  aaguid: '00000000-0000-0000-0000-000000000000',
+  backedUp: true,
+  lastUsedAt: null,
+  createdAt: new Date('2026-01-15T00:00:00Z'),
+};
+
+const origin = config.webauthn.origins[0];
+
+// Challenges as the database would hold them: hash -> purpose/user/used
+let challenges: Map<string, { purpose: string; userId: number | null; used: boolean }>;
+
+/**
+ * Register the authenticator's passkey and return the credential the repository would store
+ */
+async function register(authenticator: SoftwareAuthenticator): Promise<WebAuthnCredential> {
+  const options = await getRegistrationOptions(mockUser.id);
+  await registerPasskey(mockUser.id, {
+    name: 'Laptop',
+    credential: authenticator.createCredential(options),
+  });
+
+  const stored = vi.mocked(passkeysRepository.createCredential).mock.lastCall![0];
+
+  const credential = {
+    id: 5,
+    userId: stored.userId,
+    credentialId: stored.credentialId,
+    publicKey: new Uint8Array(stored.publicKey),
+    signCount: BigInt(stored.signCount),
+    transports: stored.transports,
+  } as WebAuthnCredential;
+
+  vi.mocked(passkeysRepository.findCredentialByCredentialId).mockResolvedValue({
+    ...credential,
+    user: mockUser,
+  });
+
+  return credential;
+}
+
+async function signIn(authenticator: SoftwareAuthenticator) {
+  const options = await getAuthenticationOptions();
+  return loginWithPasskey({
+    credential: authenticator.getAssertion(options),
+    ipAddress: '203.0.113.10',
+  });
+}
+
+describe('Passkey Service', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    challenges = new Map();
+
+    vi.mocked(passkeysRepository.findUserById).mockResolvedValue(mockUser);
+    vi.mocked(passkeysRepository.findCredentialsByUserId).mockResolvedValue([]);
+    vi.mocked(passkeysRepository.createCredential).mockResolvedValue(mockSummary);
+    vi.mocked(passkeysRepository.recordCredentialUse).mockResolvedValue(true);
+    vi.mocked(passkeysRepository.createChallenge).mockImplementation(async (data) => {
+      challenges.set(data.challengeHash, { ...data, used: false });
+    });
+    vi.mocked(passkeysRepository.consumeChallenge).mockImplementation(
+      async (challengeHash, purpose, userId) => {
+        const challenge = challenges.get(challengeHash);
+
+        if (!challenge || challenge.used || challenge.purpose !== purpose) {
+          return false;
+        }
+        if (challenge.userId !== userId) {
+          return false;
+        }
+
+        challenge.used = true;
+        return true;
+      }
+    );
+    vi.mocked(completeSignIn).mockResolvedValue({ accessToken: 'access', refreshToken: 'refresh' });
+  });
+
+  describe('getRegistrationOptions', () => {
+    it('should request a discoverable credential without attestation', async () => {
+      vi.mocked(passkeysRepository.findCredentialsByUserId).mockResolvedValue([
+        { credentialId: 'existing-id', transports: ['usb'] } as WebAuthnCredential,
+      ]);
+
+      const options = await getRegistrationOptions(1);
+
+      expect(options).toMatchObject({
+        rp: { id: config.webauthn.rpId },
+        user: { id: toUserHandle(1), name: 'jane@example.com', displayName: 'Jane Doe' },
+        attestation: 'none',
+        excludeCredentials: [{ type: 'public-key', id: 'existing-id', transports: ['usb'] }],
+        authenticatorSelection: { residentKey: 'required' },
+      });
+      expect(options.pubKeyCredParams.map((param) => param.alg)).toEqual([-7, -8, -257]);
+      expect(passkeysRepository.createChallenge).toHaveBeenCalledWith(
+        expect.objectContaining({ userId: 1, purpose: 'registration' })
+      );
+      // Only the hash of the challenge is stored
+      expect(challenges.has(options.challenge)).toBe(false);
+    });
+
+    it('should throw NotFoundError for an unknown user', async () => {
+      vi.mocked(passkeysRepository.findUserById).mockResolvedValue(null);
+
+      await expect(getRegistrationOptions(99)).rejects.toThrow(NotFoundError);
+    });
+  });
+
+  describe('registerPasskey', () => {
+    it.each(['ES256', 'EdDSA', 'RS256'] as const)(
+      'should store the public key and counter of a %s passkey',
+      async (algorithm) => {
+        const authenticator = new SoftwareAuthenticator({ origin, algorithm });
+
+        await register(authenticator);
+
+        expect(passkeysRepository.createCredential).toHaveBeenCalledWith(
+          expect.objectContaining({
+            userId: 1,
+            credentialId: authenticator.id,
+            signCount: 1,
+            transports: ['internal', 'hybrid'],
+            name: 'Laptop',
+            backedUp: true,
+          })
+        );
+        expect(recordSecurityEvent).toHaveBeenCalledWith(
+          expect.objectContaining({ type: 'passkey_registered', userId: 1 })
+        );
+        expect(sendEmail).toHaveBeenCalledWith(
+          'jane@example.com',
+          'Passkey added',
+          expect.any(String)
+        );
+      }
+    );
+
+    it('should reject a response without a matching challenge', async () => {
+      const authenticator = new SoftwareAuthenticator({ origin });
+      const options = await getRegistrationOptions(1);
+      challenges.clear();
+
+      await expect(
+        registerPasskey(1, { credential: authenticator.createCredential(options) })
+      ).rejects.toThrow(ValidationError);
+      expect(passkeysRepository.createCredential).not.toHaveBeenCalled();
+    });
+
+    it("should not accept another user's registration challenge", async () => {
+      const authenticator = new SoftwareAuthenticator({ origin });
+      const options = await getRegistrationOptions(1);
+
+      await expect(
+        registerPasskey(2, { credential: authenticator.createCredential(options) })
+      ).rejects.toThrow(ValidationError);
+    });
+
+    it('should reject a response from another origin', async () => {
+      const authenticator = new SoftwareAuthenticator({ origin: 'https://evil.example' });
+      const options = await getRegistrationOptions(1);
+
+      await expect(
+        registerPasskey(1, { credential: authenticator.createCredential(options) })
+      ).rejects.toMatchObject({ details: { credential: 'Origin not allowed' } });
+    });
+
+    it('should reject a credential created for another relying party', async () => {
+      const authenticator = new SoftwareAuthenticator({ origin });
+      const options = await getRegistrationOptions(1);
+
+      await expect(
+        registerPasskey(1, {
+          credential: authenticator.createCredential({
+            ...options,
+            rp: { ...options.rp, id: 'evil.example' },
+          }),
+        })
+      ).rejects.toThrow(ValidationError);
+    });
+
+    it('should throw ConflictError for a passkey that is already registered', async () => {
+      vi.mocked(passkeysRepository.createCredential).mockRejectedValue(
+        new Prisma.PrismaClientKnownRequestError('Unique constraint failed', {
+          code: 'P2002',
+          clientVersion: '7',
+        })
+      );
+      const authenticator = new SoftwareAuthenticator({ origin });
+      const options = await getRegistrationOptions(1);
+
+      await expect(
+        registerPasskey(1, { credential: authenticator.createCredential(options) })
+      ).rejects.toThrow(ConflictError);
+    });
+  });
+
+  describe('loginWithPasskey', () => {
+    it('should sign in through the session creation path, verified as multi-factor', async () => {
+      const authenticator = new SoftwareAuthenticator({ origin });
+      await register(authenticator);
+
+      const result = await signIn(authenticator);
+
+      expect(result).toEqual({ accessToken: 'access', refreshToken: 'refresh' });
+      expect(passkeysRepository.consumeChallenge).toHaveBeenLastCalledWith(
+        expect.any(String),
+        'authentication',
+        null
+      );
+      expect(passkeysRepository.recordCredentialUse).toHaveBeenCalledWith(5, 1n, {
+        signCount: 2,
+        backedUp: true,
+      });
+      expect(completeSignIn).toHaveBeenCalledWith(
+        mockUser,
+        expect.objectContaining({ ipAddress: '203.0.113.10' }),
+        { multiFactor: true }
+      );
+    });
+
+    it('should leave the second factor to TOTP without user verification', async () => {
+      const authenticator = new SoftwareAuthenticator({ origin, userVerification: false });
+      await register(authenticator);
+
+      await signIn(authenticator);
+
+      expect(completeSignIn).toHaveBeenCalledWith(mockUser, expect.anything(), {
+        multiFactor: false,
+      });
+    });
+
+    it('should accept authenticators without a signature counter', async () => {
+      const authenticator = new SoftwareAuthenticator({ origin, counter: false });
+      await register(authenticator);
+
+      await signIn(authenticator);
+      await signIn(authenticator);
+
+      expect(completeSignIn).toHaveBeenCalledTimes(2);
+    });
+
+    it('should reject a counter that did not increase as a cloned authenticator', async () => {
+      const authenticator = new SoftwareAuthenticator({ origin });
+      const credential = await register(authenticator);
+      vi.mocked(passkeysRepository.findCredentialByCredentialId).mockResolvedValue({
+        ...credential,
+        signCount: 10n,
+        user: mockUser,
+      });
+
+      await expect(signIn(authenticator)).rejects.toThrow(UnauthorizedError);
+
+      expect(recordSecurityEvent).toHaveBeenCalledWith(
+        expect.objectContaining({
+          type: 'passkey_clone_detected',
+          userId: 1,
+          metadata: expect.objectContaining({ storedSignCount: '10', signCount: 2 }),
+        })
+      );
+      expect(passkeysRepository.recordCredentialUse).not.toHaveBeenCalled();
+      expect(completeSignIn).not.toHaveBeenCalled();
+    });
+
+    it('should reject a concurrent assertion that lost the counter update', async () => {
+      const authenticator = new SoftwareAuthenticator({ origin });
+      await register(authenticator);
+      vi.mocked(passkeysRepository.recordCredentialUse).mockResolvedValue(false);
+
+      await expect(signIn(authenticator)).rejects.toThrow(UnauthorizedError);
+      expect(completeSignIn).not.toHaveBeenCalled();
+    });
+
+    it('should reject a signature from another key', async () => {
+      const authenticator = new SoftwareAuthenticator({ origin });
+      await register(authenticator);
+      const impostor = new SoftwareAuthenticator({ origin });
+      const options = await getAuthenticationOptions();
+      const assertion = impostor.getAssertion(options);
+
+      await expect(
+        loginWithPasskey({
+          credential: { ...assertion, id: authenticator.id, rawId: authenticator.id },
+        })
+      ).rejects.toThrow('Invalid passkey');
+
+      expect(recordSecurityEvent).toHaveBeenCalledWith(
+        expect.objectContaining({
+          type: 'login_failed',
+          metadata: expect.objectContaining({ reason: 'invalid_passkey' }),
+        })
+      );
+      expect(completeSignIn).not.toHaveBeenCalled();
+    });
+
+    it('should not accept a challenge twice', async () => {
+      const authenticator = new SoftwareAuthenticator({ origin });
+      await register(authenticator);
+      const options = await getAuthenticationOptions();
+      const assertion = authenticator.getAssertion(options);
+
+      await loginWithPasskey({ credential: assertion });
+
+      await expect(loginWithPasskey({ credential: assertion })).rejects.toThrow(
+        'Invalid or expired passkey challenge'
+      );
+    });
+
+    it('should not accept a registration challenge for sign-in', async () => {
+      const authenticator = new SoftwareAuthenticator({ origin });
+      await register(authenticator);
+      const registrationOptions = await getRegistrationOptions(1);
+
+      await expect(
+        loginWithPasskey({
+          credential: authenticator.getAssertion({
+            challenge: registrationOptions.challenge,
+            rpId: config.webauthn.rpId,
+            timeout: 60000,
+            userVerification: 'preferred',
+          }),
+        })
+      ).rejects.toThrow(UnauthorizedError);
+    });
+
+    it('should reject an unknown passkey or a user handle of another account', async () => {
+      const authenticator = new SoftwareAuthenticator({ origin });
+      await register(authenticator);
+
+      authenticator.userHandle = toUserHandle(2);
+      await expect(signIn(authenticator)).rejects.toThrow('Invalid passkey');
+
+      vi.mocked(passkeysRepository.findCredentialByCredentialId).mockResolvedValue(null);
+      await expect(signIn(authenticator)).rejects.toThrow('Invalid passkey');
+    });
+  });
+
+  describe('deletePasskey', () => {
+    it('should delete the passkey and record it', async () => {
+      vi.mocked(passkeysRepository.deleteCredential).mockResolvedValue(true);
+
+      await deletePasskey(1, 5, { ipAddress: '203.0.113.10' });
+
+      expect(passkeysRepository.deleteCredential).toHaveBeenCalledWith(1, 5);
+      expect(recordSecurityEvent).toHaveBeenCalledWith(
+        expect.objectContaining({ type: 'passkey_removed', userId: 1 })
+      );
+    });
+
+    it("should throw NotFoundError for another user's passkey", async () => {
+      vi.mocked(passkeysRepository.deleteCredential).mockResolvedValue(false);
+
+      await expect(deletePasskey(1, 5)).rejects.toThrow(NotFoundError);
+    });
+  });
+});
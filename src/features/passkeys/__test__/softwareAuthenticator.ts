@@ -0,0 +1,235 @@
+/**
+ * Software Authenticator
+ *
+ * In-memory WebAuthn authenticator for tests: creates a key pair on registration
+ * and answers `navigator.credentials.create()` / `get()` options the way a browser
+ * and a platform authenticator would (attestation "none", JSON encoding with
+ * base64url fields). No hardware or browser is involved.
+ */
+
+import crypto from 'crypto';
+import type {
+  AuthenticationResponse,
+  PasskeyAuthenticationOptions,
+  PasskeyRegistrationOptions,
+  RegistrationResponse,
+} from '@/features/passkeys/passkeys.types';
+
+export type SoftwareAuthenticatorAlgorithm = 'ES256' | 'EdDSA' | 'RS256';
+
+export interface SoftwareAuthenticatorOptions {
+  origin: string;
+  algorithm?: SoftwareAuthenticatorAlgorithm;
+  /**
+   * Whether the user verifies (PIN, biometrics); sets the UV flag
+   */
+  userVerification?: boolean;
+  /**
+   * Whether a signature counter is kept; synced passkeys always report 0
+   */
+  counter?: boolean;
+}
+
+const COSE_ALGORITHM_IDS: Record<SoftwareAuthenticatorAlgorithm, number> = {
+  ES256: -7,
+  EdDSA: -8,
+  RS256: -257,
+};
+
+type CborValue = number | string | Buffer | Map<CborValue, CborValue>;
+
+function encodeHead(majorType: number, length: number): Buffer {
+  if (length < 24) {
+    return Buffer.from([(majorType << 5) | length]);
+  }
+  if (length < 0x100) {
+    return Buffer.from([(majorType << 5) | 24, length]);
+  }
+  if (length < 0x10000) {
+    const head = Buffer.alloc(3);
+    head[0] = (majorType << 5) | 25;
+    head.writeUInt16BE(length, 1);
+    return head;
+  }
+
+  const head = Buffer.alloc(5);
+  head[0] = (majorType << 5) | 26;
+  head.writeUInt32BE(length, 1);
+  return head;
+}
+
+/**
+ * Minimal CBOR encoder for the values WebAuthn uses
+ */
+export function encodeCbor(value: CborValue): Buffer {
+  if (typeof value === 'number') {
+    return value >= 0 ? encodeHead(0, value) : encodeHead(1, -1 - value);
+  }
+  if (typeof value === 'string') {
+    const bytes = Buffer.from(value, 'utf8');
+    return Buffer.concat([encodeHead(3, bytes.length), bytes]);
+  }
+  if (Buffer.isBuffer(value)) {
+    return Buffer.concat([encodeHead(2, value.length), value]);
+  }
+
+  const entries = [...value.entries()].flatMap(([key, item]) => [
+    encodeCbor(key),
+    encodeCbor(item),
+  ]);
+  return Buffer.concat([encodeHead(5, value.size), ...entries]);
+}
+
+function sha256(data: Buffer | string): Buffer {
+  return crypto.createHash('sha256').update(data).digest();
+}
+
+export class SoftwareAuthenticator {
+  readonly credentialId = crypto.randomBytes(32);
+  readonly algorithm: SoftwareAuthenticatorAlgorithm;
+  origin: string;
+  userVerification: boolean;
+  signCount = 0;
+  userHandle: string | null = null;
+
+  private readonly counter: boolean;
+  private readonly keyPair: { publicKey: crypto.KeyObject; privateKey: crypto.KeyObject };
+
+  constructor(options: SoftwareAuthenticatorOptions) {
+    this.origin = options.origin;
+    this.algorithm = options.algorithm ?? 'ES256';
+    this.userVerification = options.userVerification ?? true;
+    this.counter = options.counter ?? true;
+
+    if (this.algorithm === 'ES256') {
+      this.keyPair = crypto.generateKeyPairSync('ec', { namedCurve: 'P-256' });
+    } else if (this.algorithm === 'EdDSA') {
+      this.keyPair = crypto.generateKeyPairSync('ed25519');
+    } else {
+      this.keyPair = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+    }
+  }
+
+  get id(): string {
+    return this.credentialId.toString('base64url');
+  }
+
+  private coseKey(): Buffer {
+    const jwk = this.keyPair.publicKey.export({ format: 'jwk' });
+    const alg = COSE_ALGORITHM_IDS[this.algorithm];
+    const key = (value?: string) => Buffer.from(value ?? '', 'base64url');
+
+    if (this.algorithm === 'ES256') {
+      return encodeCbor(
+        new Map<CborValue, CborValue>([
+          [1, 2],
+          [3, alg],
+          [-1, 1],
+          [-2, key(jwk.x)],
+          [-3, key(jwk.y)],
+        ])
+      );
+    }
+    if (this.algorithm === 'EdDSA') {
+      return encodeCbor(
+        new Map<CborValue, CborValue>([
+          [1, 1],
+          [3, alg],
+          [-1, 6],
+          [-2, key(jwk.x)],
+        ])
+      );
+    }
+
+    return encodeCbor(
+      new Map<CborValue, CborValue>([
+        [1, 3],
+        [3, alg],
+        [-1, key(jwk.n)],
+        [-2, key(jwk.e)],
+      ])
+    );
+  }
+
+  private authenticatorData(rpId: string, attestedCredential: boolean): Buffer {
+    if (this.counter) {
+      this.signCount++;
+    }
+
+    // UP, UV, backup eligible + backed up, attested credential data
+    const flags =
+      0x01 | (this.userVerification ? 0x04 : 0) | 0x18 | (attestedCredential ? 0x40 : 0);
+    const counter = Buffer.alloc(4);
+    counter.writeUInt32BE(this.signCount);
+
+    const parts = [sha256(rpId), Buffer.from([flags]), counter];
+
+    if (attestedCredential) {
+      const idLength = Buffer.alloc(2);
+      idLength.writeUInt16BE(this.credentialId.length);
+      parts.push(Buffer.alloc(16), idLength, this.credentialId, this.coseKey());
+    }
+
+    return Buffer.concat(parts);
+  }
+
+  private clientDataJSON(type: string, challenge: string): Buffer {
+    return Buffer.from(
+      JSON.stringify({ type, challenge, origin: this.origin, crossOrigin: false })
+    );
+  }
+
+  /**
+   * Answer `navigator.credentials.create()`
+   */
+  createCredential(options: PasskeyRegistrationOptions): RegistrationResponse {
+    this.userHandle = options.user.id;
+
+    const attestationObject = encodeCbor(
+      new Map<CborValue, CborValue>([
+        ['fmt', 'none'],
+        ['attStmt', new Map()],
+        ['authData', this.authenticatorData(options.rp.id, true)],
+      ])
+    );
+
+    return {
+      id: this.id,
+      rawId: this.id,
+      type: 'public-key',
+      response: {
+        clientDataJSON: this.clientDataJSON('webauthn.create', options.challenge).toString(
+          'base64url'
+        ),
+        attestationObject: attestationObject.toString('base64url'),
+        transports: ['internal', 'hybrid'],
+      },
+    };
+  }
+
+  /**
+   * Answer `navigator.credentials.get()`
+   */
+  getAssertion(options: PasskeyAuthenticationOptions): AuthenticationResponse {
+    const authenticatorData = this.authenticatorData(options.rpId, false);
+    const clientDataJSON = this.clientDataJSON('webauthn.get', options.challenge);
+    const signedData = Buffer.concat([authenticatorData, sha256(clientDataJSON)]);
+    const signature = crypto.sign(
+      this.algorithm === 'EdDSA' ? null : 'sha256',
+      signedData,
+      this.keyPair.privateKey
+    );
+
+    return {
+      id: this.id,
+      rawId: this.id,
+      type: 'public-key',
+      response: {
+        clientDataJSON: clientDataJSON.toString('base64url'),
+        authenticatorData: authenticatorData.toString('base64url'),
+        signature: signature.toString('base64url'),
+        userHandle: this.userHandle,
+      },
+    };
+  }
+}
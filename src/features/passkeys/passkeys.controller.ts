@@ -0,0 +1,115 @@
+/**
+ * Passkey Controller
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import {
+  listPasskeys,
+  getRegistrationOptions,
+  registerPasskey,
+  deletePasskey,
+  getAuthenticationOptions,
+  loginWithPasskey,
+} from '@/features/passkeys/passkeys.service';
+import { sendOk, sendCreated, getRequestId } from '@/shared/utils/apiResponse';
+import { deliverTokens } from '@/shared/utils/authCookies';
+import { UnauthorizedError } from '@/shared/errors';
+
+function getClientContext(req: Request) {
+  return {
+    userAgent: req.headers['user-agent'],
+    ipAddress: req.ip,
+    requestId: getRequestId(req),
+  };
+}
+
+export async function index(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    if (!req.user) {
+      throw new UnauthorizedError('User not authenticated');
+    }
+
+    const passkeys = await listPasskeys(req.user.userId);
+
+    sendOk(res, passkeys, { requestId: getRequestId(req) });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function registrationOptions(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    if (!req.user) {
+      throw new UnauthorizedError('User not authenticated');
+    }
+
+    const options = await getRegistrationOptions(req.user.userId);
+
+    sendOk(res, options, { requestId: getRequestId(req) });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function register(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    if (!req.user) {
+      throw new UnauthorizedError('User not authenticated');
+    }
+
+    const passkey = await registerPasskey(req.user.userId, {
+      ...req.body,
+      ...getClientContext(req),
+    });
+
+    sendCreated(res, passkey, { requestId: getRequestId(req) });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function destroy(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    if (!req.user) {
+      throw new UnauthorizedError('User not authenticated');
+    }
+
+    await deletePasskey(
+      req.user.userId,
+      parseInt(req.params.id as string, 10),
+      getClientContext(req)
+    );
+
+    sendOk(res, null, { requestId: getRequestId(req) });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function authenticationOptions(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const options = await getAuthenticationOptions();
+
+    sendOk(res, options, { requestId: getRequestId(req) });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function login(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const result = await loginWithPasskey({ ...req.body, ...getClientContext(req) });
+
+    sendOk(res, deliverTokens(res, result), { requestId: getRequestId(req) });
+  } catch (error) {
+    next(error);
+  }
+}
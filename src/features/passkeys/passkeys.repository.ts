@@ -0,0 +1,158 @@
+/**
+ * Passkey Repository
+ *
+ * Database operations for WebAuthn credentials and ceremony challenges.
+ */
+
+import { prisma } from '@/shared/utils/prisma';
+import type { User, WebAuthnCredential } from '@prisma/client';
+import type { PasskeyChallengePurpose, PasskeySummary } from '@/features/passkeys/passkeys.types';
+
+const SUMMARY_SELECT = {
+  id: true,
+  name: true,
+  transports: true,
+  aaguid: true,
+  backedUp: true,
+  lastUsedAt: true,
+  createdAt: true,
+} as const;
+
+export async function findUserById(id: number): Promise<User | null> {
+  return prisma.user.findUnique({
+    where: { id },
+  });
+}
+
+export async function createChallenge(data: {
+  userId: number | null;
+  purpose: PasskeyChallengePurpose;
+  challengeHash: string;
+  expiresAt: Date;
+}): Promise<void> {
+  await prisma.webAuthnChallenge.create({
+    data,
+  });
+}
+
+/**
+ * Mark a challenge as used
+ *
+ * @returns false if it is unknown, expired, for another purpose or user, or already used
+ */
+export async function consumeChallenge(
+  challengeHash: string,
+  purpose: PasskeyChallengePurpose,
+  userId: number | null
+): Promise<boolean> {
+  const result = await prisma.webAuthnChallenge.updateMany({
+    where: {
+      challengeHash,
+      purpose,
+      userId,
+      usedAt: null,
+      expiresAt: { gt: new Date() },
+    },
+    data: { usedAt: new Date() },
+  });
+
+  return result.count > 0;
+}
+
+export async function findCredentialsByUserId(userId: number): Promise<WebAuthnCredential[]> {
+  return prisma.webAuthnCredential.findMany({
+    where: {
+      userId,
+      deletedAt: null,
+    },
+    orderBy: { createdAt: 'asc' },
+  });
+}
+
+export async function findSummariesByUserId(userId: number): Promise<PasskeySummary[]> {
+  return prisma.webAuthnCredential.findMany({
+    where: {
+      userId,
+      deletedAt: null,
+    },
+    select: SUMMARY_SELECT,
+    orderBy: { createdAt: 'asc' },
+  });
+}
+
+export async function findCredentialByCredentialId(
+  credentialId: string
+): Promise<(WebAuthnCredential & { user: User }) | null> {
+  return prisma.webAuthnCredential.findFirst({
+    where: {
+      credentialId,
+      deletedAt: null,
+    },
+    include: {
+      user: true,
+    },
+  });
+}
+
+export async function createCredential(data: {
+  userId: number;
+  credentialId: string;
+  publicKey: Buffer;
+  signCount: number;
+  transports: string[];
+  name: string;
+  aaguid: string;
+  backedUp: boolean;
+}): Promise<PasskeySummary> {
+  return prisma.webAuthnCredential.create({
+    data: {
+      ...data,
+      publicKey: new Uint8Array(data.publicKey),
+      signCount: BigInt(data.signCount),
+      createdBy: String(data.userId),
+    },
+    select: SUMMARY_SELECT,
+  });
+}
+
+/**
+ * Store the signature counter of a successful assertion.
+ * The update is conditional on the previous counter so concurrent assertions cannot both succeed.
+ *
+ * @returns false if the counter changed in the meantime
+ */
+export async function recordCredentialUse(
+  id: number,
+  previousSignCount: bigint,
+  data: { signCount: number; backedUp: boolean }
+): Promise<boolean> {
+  const result = await prisma.webAuthnCredential.updateMany({
+    where: {
+      id,
+      signCount: previousSignCount,
+    },
+    data: {
+      signCount: BigInt(data.signCount),
+      backedUp: data.backedUp,
+      lastUsedAt: new Date(),
+    },
+  });
+
+  return result.count > 0;
+}
+
+/**
+ * Delete one of the user's passkeys
+ *
+ * @returns false if the passkey does not exist or belongs to someone else
+ */
+export async function deleteCredential(userId: number, id: number): Promise<boolean> {
+  const result = await prisma.webAuthnCredential.deleteMany({
+    where: {
+      id,
+      userId,
+    },
+  });
+
+  return result.count > 0;
+}
@@ -0,0 +1,49 @@
+/**
+ * Passkey Routes
+ */
+
+import { Router } from 'express';
+import { validate } from '@/shared/middlewares/validation.middleware';
+import {
+  registerPasskeySchema,
+  passkeyLoginSchema,
+  passkeyIdSchema,
+} from '@/features/passkeys/passkeys.schema';
+import {
+  index,
+  registrationOptions,
+  register,
+  destroy,
+  authenticationOptions,
+  login,
+} from '@/features/passkeys/passkeys.controller';
+import {
+  authenticate,
+  forbidApiKey,
+  forbidImpersonation,
+} from '@/shared/middlewares/auth.middleware';
+
+const router = Router();
+
+// POST /auth/passkeys/login/options - Get a challenge for navigator.credentials.get()
+router.post('/login/options', authenticationOptions);
+
+// POST /auth/passkeys/login - Sign in with the signed challenge
+router.post('/login', validate(passkeyLoginSchema), login);
+
+// Passkeys are managed from a signed-in session only: not with an API key, not while impersonating
+router.use(authenticate, forbidApiKey, forbidImpersonation);
+
+// GET /auth/passkeys - List the user's passkeys
+router.get('/', index);
+
+// POST /auth/passkeys/register/options - Get a challenge for navigator.credentials.create()
+router.post('/register/options', registrationOptions);
+
+// POST /auth/passkeys/register - Store the new passkey
+router.post('/register', validate(registerPasskeySchema), register);
+
+// DELETE /auth/passkeys/:id - Remove a passkey
+router.delete('/:id', validate(passkeyIdSchema), destroy);
+
+export default router;
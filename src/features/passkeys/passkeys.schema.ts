@@ -0,0 +1,45 @@
+/**
+ * Passkey Validation Schemas
+ */
+
+import { z } from 'zod';
+
+const base64url = z.string().regex(/^[A-Za-z0-9_-]+$/, 'Must be base64url encoded');
+
+export const registerPasskeySchema = {
+  body: z.object({
+    name: z.string().trim().min(1).max(100).optional(),
+    credential: z.object({
+      id: base64url,
+      rawId: base64url,
+      type: z.literal('public-key'),
+      response: z.object({
+        clientDataJSON: base64url,
+        attestationObject: base64url,
+        transports: z.array(z.string().max(32)).max(10).optional(),
+      }),
+    }),
+  }),
+};
+
+export const passkeyLoginSchema = {
+  body: z.object({
+    credential: z.object({
+      id: base64url,
+      rawId: base64url,
+      type: z.literal('public-key'),
+      response: z.object({
+        clientDataJSON: base64url,
+        authenticatorData: base64url,
+        signature: base64url,
+        userHandle: base64url.nullish(),
+      }),
+    }),
+  }),
+};
+
+export const passkeyIdSchema = {
+  params: z.object({
+    id: z.string().regex(/^\d+$/, 'ID must be a number'),
+  }),
+};
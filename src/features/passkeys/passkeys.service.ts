@@ -0,0 +1,333 @@
+/**
+ * Passkey Service
+ *
+ * WebAuthn registration and authentication ceremonies. Challenges are single use
+ * and stored hashed; credentials keep their public key and signature counter, and
+ * a counter that does not increase is treated as a cloned authenticator. A passkey
+ * sign-in ends in the same session creation path as a password login, with
+ * user verification counting as the second factor.
+ */
+
+import crypto from 'crypto';
+import { addMinutes } from 'date-fns';
+import { Prisma } from '@prisma/client';
+import { config } from '@/config';
+import { logger } from '@/shared/utils/logger';
+import { sendEmail } from '@/shared/utils/mailer';
+import { hashToken } from '@/shared/utils/crypto';
+import { recordSecurityEvent, SecurityEventContext } from '@/shared/utils/securityEvents';
+import {
+  SUPPORTED_COSE_ALGORITHMS,
+  WebAuthnError,
+  parseClientData,
+  verifyRegistrationResponse,
+  verifyAuthenticationResponse,
+} from '@/shared/utils/webauthn';
+import type {
+  ClientData,
+  VerifiedAuthentication,
+  VerifiedRegistration,
+} from '@/shared/utils/webauthn';
+import * as passkeysRepository from '@/features/passkeys/passkeys.repository';
+import { completeSignIn } from '@/features/auth/auth.service';
+import type { LoginResult } from '@/features/auth/auth.types';
+import type {
+  PasskeyAuthenticationOptions,
+  PasskeyChallengePurpose,
+  PasskeyLoginInput,
+  PasskeyRegistrationOptions,
+  PasskeySummary,
+  RegisterPasskeyInput,
+} from '@/features/passkeys/passkeys.types';
+import { ConflictError, NotFoundError, UnauthorizedError, ValidationError } from '@/shared/errors';
+
+const DEFAULT_PASSKEY_NAME = 'Passkey';
+
+/**
+ * WebAuthn user handle of an account: stable and free of personal data
+ */
+export function toUserHandle(userId: number): string {
+  return Buffer.from(String(userId)).toString('base64url');
+}
+
+async function createChallenge(
+  purpose: PasskeyChallengePurpose,
+  userId: number | null
+): Promise<string> {
+  const challenge = crypto.randomBytes(32).toString('base64url');
+
+  await passkeysRepository.createChallenge({
+    userId,
+    purpose,
+    challengeHash: await hashToken(challenge),
+    expiresAt: addMinutes(new Date(), config.webauthn.challengeExpiresMinutes),
+  });
+
+  return challenge;
+}
+
+function getCeremonyTimeout(): number {
+  return config.webauthn.challengeExpiresMinutes * 60 * 1000;
+}
+
+export async function listPasskeys(userId: number): Promise<PasskeySummary[]> {
+  return passkeysRepository.findSummariesByUserId(userId);
+}
+
+/**
+ * Start a registration: options for `navigator.credentials.create()`
+ */
+export async function getRegistrationOptions(userId: number): Promise<PasskeyRegistrationOptions> {
+  const user = await passkeysRepository.findUserById(userId);
+
+  if (!user) {
+    throw new NotFoundError('User not found');
+  }
+
+  const credentials = await passkeysRepository.findCredentialsByUserId(user.id);
+
+  return {
+    challenge: await createChallenge('registration', user.id),
+    rp: { id: config.webauthn.rpId, name: config.webauthn.rpName },
+    user: { id: toUserHandle(user.id), name: user.email, displayName: user.name },
+    pubKeyCredParams: SUPPORTED_COSE_ALGORITHMS.map((alg) => ({ type: 'public-key', alg })),
+    timeout: getCeremonyTimeout(),
+    attestation: 'none',
+    // Keeps an authenticator from registering twice
+    excludeCredentials: credentials.map((credential) => ({
+      type: 'public-key',
+      id: credential.credentialId,
+      transports: credential.transports,
+    })),
+    authenticatorSelection: {
+      residentKey: 'required',
+      requireResidentKey: true,
+      userVerification: 'preferred',
+    },
+  };
+}
+
+/**
+ * Finish a registration with the response of `navigator.credentials.create()`
+ *
+ * @throws ValidationError if the response does not verify or the challenge is unknown or expired
+ * @throws ConflictError if the passkey is already registered
+ */
+export async function registerPasskey(
+  userId: number,
+  input: RegisterPasskeyInput
+): Promise<PasskeySummary> {
+  const user = await passkeysRepository.findUserById(userId);
+
+  if (!user) {
+    throw new NotFoundError('User not found');
+  }
+
+  const { credential } = input;
+  let registration: VerifiedRegistration;
+
+  try {
+    const clientData = parseClientData(
+      credential.response.clientDataJSON,
+      'webauthn.create',
+      config.webauthn.origins
+    );
+
+    const consumed = await passkeysRepository.consumeChallenge(
+      await hashToken(clientData.challenge),
+      'registration',
+      userId
+    );
+
+    if (!consumed) {
+      throw new WebAuthnError('Invalid or expired passkey challenge');
+    }
+
+    registration = verifyRegistrationResponse(credential.response, config.webauthn.rpId);
+
+    if (registration.credentialId !== credential.rawId) {
+      throw new WebAuthnError('Credential ID does not match the authenticator data');
+    }
+  } catch (error) {
+    if (error instanceof WebAuthnError) {
+      throw ValidationError.field('credential', error.message);
+    }
+    throw error;
+  }
+
+  let passkey: PasskeySummary;
+
+  try {
+    passkey = await passkeysRepository.createCredential({
+      userId: user.id,
+      credentialId: registration.credentialId,
+      publicKey: registration.publicKey,
+      signCount: registration.signCount,
+      transports: credential.response.transports ?? [],
+      name: input.name ?? DEFAULT_PASSKEY_NAME,
+      aaguid: registration.aaguid,
+      backedUp: registration.backedUp,
+    });
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      throw new ConflictError('Passkey is already registered');
+    }
+    throw error;
+  }
+
+  await recordSecurityEvent({
+    type: 'passkey_registered',
+    userId,
+    context: input,
+    metadata: { passkeyId: passkey.id, aaguid: registration.aaguid },
+  });
+
+  await sendEmail(
+    user.email,
+    'Passkey added',
+    `A passkey ("${passkey.name}") was added to your account. If this was not you, remove it and change your password.`
+  );
+
+  return passkey;
+}
+
+/**
+ * @throws NotFoundError if the passkey does not exist or belongs to someone else
+ */
+export async function deletePasskey(
+  userId: number,
+  id: number,
+  context: SecurityEventContext = {}
+): Promise<void> {
+  const deleted = await passkeysRepository.deleteCredential(userId, id);
+
+  if (!deleted) {
+    throw NotFoundError.resource('Passkey', id);
+  }
+
+  await recordSecurityEvent({
+    type: 'passkey_removed',
+    userId,
+    context,
+    metadata: { passkeyId: id },
+  });
+}
+
+/**
+ * Start a sign-in: options for `navigator.credentials.get()`. Passkeys are discoverable,
+ * so no account (and no list of credentials that would reveal one) is needed.
+ */
+export async function getAuthenticationOptions(): Promise<PasskeyAuthenticationOptions> {
+  return {
+    challenge: await createChallenge('authentication', null),
+    rpId: config.webauthn.rpId,
+    timeout: getCeremonyTimeout(),
+    userVerification: 'preferred',
+  };
+}
+
+/**
+ * Sign in with the response of `navigator.credentials.get()`
+ *
+ * @throws UnauthorizedError if the response does not verify for a registered passkey
+ */
+export async function loginWithPasskey(input: PasskeyLoginInput): Promise<LoginResult> {
+  const { credential } = input;
+
+  let clientData: ClientData;
+
+  try {
+    clientData = parseClientData(
+      credential.response.clientDataJSON,
+      'webauthn.get',
+      config.webauthn.origins
+    );
+  } catch (error) {
+    if (error instanceof WebAuthnError) {
+      throw new UnauthorizedError(error.message);
+    }
+    throw error;
+  }
+
+  const consumed = await passkeysRepository.consumeChallenge(
+    await hashToken(clientData.challenge),
+    'authentication',
+    null
+  );
+
+  if (!consumed) {
+    throw new UnauthorizedError('Invalid or expired passkey challenge');
+  }
+
+  const stored = await passkeysRepository.findCredentialByCredentialId(credential.rawId);
+
+  if (
+    !stored ||
+    (credential.response.userHandle &&
+      credential.response.userHandle !== toUserHandle(stored.userId))
+  ) {
+    throw new UnauthorizedError('Invalid passkey');
+  }
+
+  const { user } = stored;
+  let assertion: VerifiedAuthentication;
+
+  try {
+    assertion = verifyAuthenticationResponse(
+      credential.response,
+      Buffer.from(stored.publicKey),
+      config.webauthn.rpId
+    );
+  } catch (error) {
+    if (error instanceof WebAuthnError) {
+      await recordSecurityEvent({
+        type: 'login_failed',
+        userId: user.id,
+        email: user.email,
+        context: input,
+        metadata: { reason: 'invalid_passkey', passkeyId: stored.id, message: error.message },
+      });
+      throw new UnauthorizedError('Invalid passkey');
+    }
+    throw error;
+  }
+
+  // Authenticators without a counter always report 0; any other counter must increase
+  const newCount = BigInt(assertion.signCount);
+  const counterRegressed = (newCount > 0n || stored.signCount > 0n) && newCount <= stored.signCount;
+
+  if (
+    counterRegressed ||
+    !(await passkeysRepository.recordCredentialUse(stored.id, stored.signCount, {
+      signCount: assertion.signCount,
+      backedUp: assertion.backedUp,
+    }))
+  ) {
+    logger.warn(
+      {
+        event: 'passkey_clone_detected',
+        userId: user.id,
+        passkeyId: stored.id,
+        storedSignCount: stored.signCount.toString(),
+        signCount: assertion.signCount,
+      },
+      'Passkey signature counter did not increase, possible cloned authenticator'
+    );
+
+    await recordSecurityEvent({
+      type: 'passkey_clone_detected',
+      userId: user.id,
+      email: user.email,
+      context: input,
+      metadata: {
+        passkeyId: stored.id,
+        storedSignCount: stored.signCount.toString(),
+        signCount: assertion.signCount,
+      },
+    });
+
+    throw new UnauthorizedError('Invalid passkey');
+  }
+
+  return completeSignIn(user, input, { multiFactor: assertion.userVerified });
+}
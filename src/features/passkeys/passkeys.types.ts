@@ -0,0 +1,83 @@
+/**
+ * Passkey Types
+ *
+ * Ceremony options and responses use the JSON form of the WebAuthn API
+ * (`PublicKeyCredential.parseCreationOptionsFromJSON()`, `credential.toJSON()`),
+ * with binary fields as base64url.
+ */
+
+import type { WebAuthnCredential } from '@prisma/client';
+import type { SecurityEventContext } from '@/shared/utils/securityEvents';
+
+export type PasskeyChallengePurpose = 'registration' | 'authentication';
+
+export interface PublicKeyCredentialDescriptor {
+  type: 'public-key';
+  id: string;
+  transports?: string[];
+}
+
+export interface PasskeyRegistrationOptions {
+  challenge: string;
+  rp: { id: string; name: string };
+  user: { id: string; name: string; displayName: string };
+  pubKeyCredParams: { type: 'public-key'; alg: number }[];
+  timeout: number;
+  attestation: 'none';
+  excludeCredentials: PublicKeyCredentialDescriptor[];
+  authenticatorSelection: {
+    residentKey: 'required';
+    requireResidentKey: true;
+    userVerification: 'preferred';
+  };
+}
+
+export interface PasskeyAuthenticationOptions {
+  challenge: string;
+  rpId: string;
+  timeout: number;
+  userVerification: 'preferred';
+}
+
+export interface RegistrationResponse {
+  id: string;
+  rawId: string;
+  type: 'public-key';
+  response: {
+    clientDataJSON: string;
+    attestationObject: string;
+    transports?: string[];
+  };
+}
+
+export interface AuthenticationResponse {
+  id: string;
+  rawId: string;
+  type: 'public-key';
+  response: {
+    clientDataJSON: string;
+    authenticatorData: string;
+    signature: string;
+    userHandle?: string | null;
+  };
+}
+
+export interface RegisterPasskeyInput extends SecurityEventContext {
+  name?: string;
+  credential: RegistrationResponse;
+}
+
+export interface PasskeyLoginInput {
+  credential: AuthenticationResponse;
+  userAgent?: string;
+  ipAddress?: string;
+  requestId?: string;
+}
+
+/**
+ * Passkey as shown to its owner
+ */
+export type PasskeySummary = Pick<
+  WebAuthnCredential,
+  'id' | 'name' | 'transports' | 'aaguid' | 'backedUp' | 'lastUsedAt' | 'createdAt'
+>;
@@ -10,6 +10,7 @@ import 'dotenv/config';
 import app from '@/app';
 import { config } from '@/config';
 import { logger } from '@/shared/utils/logger';
+import { assertJwtKeysConfigured } from '@/shared/utils/jwt';
 
 /**
  * Handle Uncaught Exceptions
@@ -29,6 +30,9 @@ process.on('unhandledRejection', (reason: unknown) => {
   process.exit(1);
 });
 
+// Refuse to start with RS256/ES256 configured but no usable signing key
+assertJwtKeysConfigured();
+
 /**
  * Start Server
  */
@@ -0,0 +1,29 @@
+/**
+ * OAuth Error (400/401)
+ *
+ * For OAuth 2.0 token endpoint errors, which clients expect in the RFC 6749
+ * format (`{ "error": "...", "error_description": "..." }`) rather than the
+ * standard error response.
+ */
+
+import { AppError } from '@/shared/errors/AppError';
+
+export type OAuthErrorCode =
+  | 'invalid_request'
+  | 'invalid_client'
+  | 'invalid_grant'
+  | 'invalid_scope'
+  | 'unauthorized_client'
+  | 'unsupported_grant_type';
+
+export class OAuthError extends AppError {
+  /**
+   * Error code from RFC 6749 section 5.2
+   */
+  public readonly error: OAuthErrorCode;
+
+  constructor(error: OAuthErrorCode, message: string) {
+    super(message, error === 'invalid_client' ? 401 : 400, `OAUTH_${error.toUpperCase()}`);
+    this.error = error;
+  }
+}
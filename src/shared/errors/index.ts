@@ -11,3 +11,4 @@ export { UnauthorizedError } from '@/shared/errors/UnauthorizedError';
 export { ForbiddenError } from '@/shared/errors/ForbiddenError';
 export { NotFoundError } from '@/shared/errors/NotFoundError';
 export { ConflictError } from '@/shared/errors/ConflictError';
+export { OAuthError, type OAuthErrorCode } from '@/shared/errors/OAuthError';
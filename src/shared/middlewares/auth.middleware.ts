@@ -1,30 +1,260 @@
 import { Request, Response, NextFunction } from 'express';
-import jwt from 'jsonwebtoken';
-import { UserSessionPayload } from '@/shared/types/auth';
-import { UnauthorizedError } from '@/shared/errors';
-
+import { isAfter } from 'date-fns';
+import { ClientPayload, UserSessionPayload } from '@/shared/types/auth';
+import { UnauthorizedError, ForbiddenError } from '@/shared/errors';
+import { getSessionState } from '@/shared/utils/sessionState';
+import { getClientState } from '@/shared/utils/clientState';
+import { resolveApiKey } from '@/shared/utils/apiKeys';
+import { verifyJwt } from '@/shared/utils/jwt';
+import { ACCESS_TOKEN_COOKIE, getCookie, isCookieTransport } from '@/shared/utils/authCookies';
 import { config } from '@/config';
 
 /**
- * Authentication Middleware
- * Verifies JWT Access Token and attaches payload to req.user
+ * Check that the session behind a verified token is still usable
+ *
+ * @returns Reason for rejection, or null if the session is valid
+ */
+async function getSessionRejection(payload: UserSessionPayload): Promise<string | null> {
+  const state = await getSessionState(payload.sessionId);
+
+  if (!state || state.userId !== payload.userId) {
+    return 'Session not found';
+  }
+
+  if (state.revokedAt || isAfter(new Date(), state.expiresAt)) {
+    return 'Session revoked';
+  }
+
+  if (!state.userIsActive || state.userDeletedAt) {
+    return 'Account is no longer active';
+  }
+
+  // Tokens issued before the last password change are no longer trusted (iat is in seconds)
+  if (
+    state.passwordChangedAt &&
+    (payload.iat ?? 0) < Math.floor(state.passwordChangedAt.getTime() / 1000)
+  ) {
+    return 'Token issued before password change';
+  }
+
+  return null;
+}
+
+/**
+ * Bearer token of the Authorization header, or the access token cookie of browser clients
  */
-export function authenticate(req: Request, res: Response, next: NextFunction) {
+function getAccessToken(req: Request): string | undefined {
   const authHeader = req.headers.authorization;
 
-  if (!authHeader?.startsWith('Bearer ')) {
+  if (authHeader?.startsWith('Bearer ')) {
+    return authHeader.split(' ')[1];
+  }
+
+  if (isCookieTransport() && config.cookies.accessToken) {
+    return getCookie(req, ACCESS_TOKEN_COOKIE);
+  }
+
+  return undefined;
+}
+
+function isClientPayload(payload: UserSessionPayload | ClientPayload): payload is ClientPayload {
+  return typeof (payload as ClientPayload).clientId === 'string';
+}
+
+/**
+ * Check that the OAuth client behind a client token is still registered
+ *
+ * @returns Permissions of the token the client is still allowed, or null if the client was revoked
+ */
+async function getClientPermissions(payload: ClientPayload): Promise<string[] | null> {
+  const state = await getClientState(payload.clientId);
+
+  if (!state || state.revokedAt || state.deletedAt) {
+    return null;
+  }
+
+  return (payload.permissions ?? []).filter((permission) => state.scopes.includes(permission));
+}
+
+/**
+ * Authentication Middleware
+ * Verifies JWT Access Token, checks its session is still active and attaches payload to req.user.
+ * The token comes from the Authorization header or, in cookie transport, the access token cookie.
+ * Requests with an X-API-Key header are authenticated with the personal API key instead, and
+ * client_credentials tokens of service clients are attached to req.serviceClient.
+ */
+export async function authenticate(req: Request, res: Response, next: NextFunction) {
+  const apiKey = req.headers['x-api-key'];
+
+  if (typeof apiKey === 'string' && apiKey) {
+    try {
+      req.user = await resolveApiKey(apiKey, req.ip);
+    } catch (error) {
+      return next(error);
+    }
+
+    req.log = req.log.child({ apiKeyId: req.user.apiKeyId });
+    return next();
+  }
+
+  const token = getAccessToken(req);
+
+  if (!token) {
     return next(new UnauthorizedError('Missing authentication token'));
   }
 
-  const token = authHeader.split(' ')[1];
+  let payload: UserSessionPayload | ClientPayload;
 
   try {
-    const payload = jwt.verify(token, config.jwt.secret, {
-      algorithms: ['HS256'],
-    }) as UserSessionPayload;
-    req.user = payload;
-    next();
+    payload = verifyJwt(token) as UserSessionPayload | ClientPayload;
   } catch {
     return next(new UnauthorizedError('Invalid token'));
   }
+
+  if (isClientPayload(payload)) {
+    try {
+      const permissions = await getClientPermissions(payload);
+
+      if (!permissions) {
+        return next(new UnauthorizedError('Client revoked'));
+      }
+
+      req.serviceClient = { ...payload, permissions };
+    } catch (error) {
+      return next(error);
+    }
+
+    req.log = req.log.child({ clientId: payload.clientId });
+    return next();
+  }
+
+  // Reject signed tokens that are not access tokens (e.g. MFA challenges)
+  if (typeof payload.userId !== 'number' || typeof payload.sessionId !== 'number') {
+    return next(new UnauthorizedError('Invalid token'));
+  }
+
+  try {
+    const rejection = await getSessionRejection(payload);
+
+    if (rejection) {
+      return next(new UnauthorizedError(rejection));
+    }
+  } catch (error) {
+    return next(error);
+  }
+
+  req.user = payload;
+
+  if (payload.impersonatorId) {
+    req.log = req.log.child({ impersonatorId: payload.impersonatorId });
+  }
+
+  next();
+}
+
+/**
+ * Verified Email Middleware
+ * Requires the authenticated user to have verified their email address (use after authenticate)
+ */
+export async function requireVerifiedEmail(req: Request, res: Response, next: NextFunction) {
+  // Service clients have no email address to verify
+  if (req.serviceClient) {
+    return next();
+  }
+
+  if (!req.user) {
+    return next(new UnauthorizedError('User not authenticated'));
+  }
+
+  // API key owners are checked for a verified address when the key is resolved
+  if (req.user.apiKeyId) {
+    return next();
+  }
+
+  try {
+    const state = await getSessionState(req.user.sessionId);
+
+    if (!state?.userEmailVerifiedAt) {
+      return next(new ForbiddenError('Email address is not verified'));
+    }
+  } catch (error) {
+    return next(error);
+  }
+
+  next();
+}
+
+/**
+ * Impersonation Guard
+ * Rejects impersonation tokens on sensitive account operations (use after authenticate)
+ */
+export function forbidImpersonation(req: Request, res: Response, next: NextFunction) {
+  if (!req.user) {
+    return next(new UnauthorizedError('User not authenticated'));
+  }
+
+  if (req.user.impersonatorId) {
+    return next(new ForbiddenError('Not allowed while impersonating a user'));
+  }
+
+  next();
+}
+
+/**
+ * API Key Guard
+ * Rejects API keys on endpoints that act on the current session or manage the account (use after authenticate)
+ */
+export function forbidApiKey(req: Request, res: Response, next: NextFunction) {
+  if (!req.user) {
+    return next(new UnauthorizedError('User not authenticated'));
+  }
+
+  if (req.user.apiKeyId) {
+    return next(new ForbiddenError('Not allowed with an API key'));
+  }
+
+  next();
+}
+
+/**
+ * Authorization Middleware
+ * Requires every listed permission on the authenticated user or client (use after authenticate)
+ */
+export function authorize(...permissions: string[]) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const principal = req.user ?? req.serviceClient;
+
+    if (!principal) {
+      return next(new UnauthorizedError('User not authenticated'));
+    }
+
+    const granted = principal.permissions ?? [];
+    const hasAll = permissions.every((permission) => granted.includes(permission));
+
+    if (!hasAll) {
+      return next(new ForbiddenError('Insufficient permissions'));
+    }
+
+    next();
+  };
+}
+
+/**
+ * Role Middleware
+ * Requires at least one of the listed roles on the authenticated session (use after authenticate)
+ */
+export function requireRole(...roles: string[]) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!req.user) {
+      return next(new UnauthorizedError('User not authenticated'));
+    }
+
+    const granted = req.user.roles ?? [];
+
+    if (!roles.some((role) => granted.includes(role))) {
+      return next(new ForbiddenError('Insufficient role'));
+    }
+
+    next();
+  };
 }
@@ -8,6 +8,7 @@
  * - Sensitive header redaction
  */
 
+import type { Request } from 'express';
 import pinoHttp from 'pino-http';
 import { logger } from '@/shared/utils/logger';
 
@@ -42,6 +43,17 @@ export const loggingMiddleware = pinoHttp({
   // Use existing request ID
   genReqId: (req) => req.id,
 
+  // Attribute requests made with an impersonation token, API key or service client
+  customProps: (req) => {
+    const { impersonatorId, apiKeyId } = (req as Request).user ?? {};
+    const clientId = (req as Request).serviceClient?.clientId;
+    return {
+      ...(impersonatorId ? { impersonatorId } : {}),
+      ...(apiKeyId ? { apiKeyId } : {}),
+      ...(clientId ? { clientId } : {}),
+    };
+  },
+
   // Custom request serializer - exclude sensitive headers
   serializers: {
     req: (req) => ({
@@ -0,0 +1,95 @@
+/**
+ * Organization Middleware
+ *
+ * Scopes a request to one organization (tenant). Feature repositories filter
+ * every query by the resolved organization, so members of one organization can
+ * never read or change another organization's data.
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { BadRequestError, ForbiddenError, UnauthorizedError } from '@/shared/errors';
+import { getClientState } from '@/shared/utils/clientState';
+import { getMembershipRole, isActiveOrganization } from '@/shared/utils/organizationAccess';
+import type { OrganizationContext } from '@/shared/types/organization';
+
+/**
+ * Header naming the organization a request acts in
+ */
+export const ORGANIZATION_HEADER = 'x-organization-id';
+
+/**
+ * Organization ID of the X-Organization-Id header
+ *
+ * @throws BadRequestError if the header is not a positive integer
+ */
+function getRequestedOrganizationId(req: Request): number | undefined {
+  const header = req.headers[ORGANIZATION_HEADER];
+
+  if (header === undefined || header === '') {
+    return undefined;
+  }
+
+  if (typeof header !== 'string' || !/^[1-9]\d*$/.test(header)) {
+    throw new BadRequestError('Invalid X-Organization-Id header');
+  }
+
+  return parseInt(header, 10);
+}
+
+/**
+ * Organization of a service client: the one it was registered for
+ */
+async function resolveClientOrganization(
+  clientId: string,
+  requestedId: number | undefined
+): Promise<OrganizationContext> {
+  const state = await getClientState(clientId);
+  const organizationId = state?.organizationId;
+
+  if (!organizationId || !(await isActiveOrganization(organizationId))) {
+    throw new ForbiddenError('Client is not registered for an organization');
+  }
+
+  if (requestedId !== undefined && requestedId !== organizationId) {
+    throw new ForbiddenError('Not a member of this organization');
+  }
+
+  return { organizationId };
+}
+
+/**
+ * Tenant Middleware
+ * Resolves the organization (tenant) of the request from the X-Organization-Id header and requires
+ * the authenticated user to be a member of it (use after authenticate). Service clients act in the
+ * organization they were registered for, so the header is optional for them.
+ */
+export async function requireOrganization(req: Request, res: Response, next: NextFunction) {
+  try {
+    const requestedId = getRequestedOrganizationId(req);
+
+    if (req.serviceClient) {
+      req.organization = await resolveClientOrganization(req.serviceClient.clientId, requestedId);
+    } else {
+      if (!req.user) {
+        return next(new UnauthorizedError('User not authenticated'));
+      }
+
+      if (requestedId === undefined) {
+        return next(new BadRequestError('X-Organization-Id header is required'));
+      }
+
+      const role = await getMembershipRole(requestedId, req.user.userId);
+
+      // Unknown and foreign organizations are indistinguishable
+      if (!role) {
+        return next(new ForbiddenError('Not a member of this organization'));
+      }
+
+      req.organization = { organizationId: requestedId, role };
+    }
+  } catch (error) {
+    return next(error);
+  }
+
+  next();
+}
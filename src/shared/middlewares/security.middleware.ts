@@ -11,7 +11,13 @@ import rateLimit from 'express-rate-limit';
 import hpp from 'hpp';
 import type { RequestHandler } from 'express';
 
-import { helmetConfig, corsConfig, rateLimitConfig, hppConfig } from '@/config/security';
+import {
+  helmetConfig,
+  corsConfig,
+  rateLimitConfig,
+  emailRateLimitConfig,
+  hppConfig,
+} from '@/config/security';
 
 /**
  * Helmet Middleware
@@ -45,6 +51,16 @@ export const corsMiddleware = cors(corsConfig);
  */
 export const rateLimitMiddleware = rateLimit(rateLimitConfig);
 
+/**
+ * Email Rate Limit Middleware
+ *
+ * Stricter limit for endpoints that send email. Each call creates a limiter
+ * with its own counter, so every route gets the full budget.
+ */
+export function emailRateLimitMiddleware(): RequestHandler {
+  return rateLimit(emailRateLimitConfig);
+}
+
 /**
  * HPP (HTTP Parameter Pollution) Middleware
  *
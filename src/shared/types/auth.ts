@@ -1,13 +1,35 @@
 export interface UserSessionPayload {
   userId: number;
   sessionId: number;
-  role?: string;
+  roles?: string[];
+  permissions?: string[];
+  /**
+   * Set when an administrator is acting as this user
+   */
+  impersonatorId?: number;
+  /**
+   * Set when the request was authenticated with a personal API key (there is no session, sessionId is 0)
+   */
+  apiKeyId?: number;
   iat?: number;
   exp?: number;
   aud?: string;
   iss?: string;
 }
 
+/**
+ * Access token payload of a service calling with the client_credentials grant (no user behind it)
+ */
+export interface ClientPayload {
+  clientId: string;
+  permissions?: string[];
+  iat?: number;
+  exp?: number;
+  aud?: string;
+  iss?: string;
+  sub?: string;
+}
+
 export interface AuthTokens {
   accessToken: string;
   refreshToken: string;
@@ -5,7 +5,8 @@
  */
 
 import { Logger } from 'pino';
-import { UserSessionPayload } from '@/shared/types/auth';
+import { ClientPayload, UserSessionPayload } from '@/shared/types/auth';
+import { OrganizationContext } from '@/shared/types/organization';
 
 declare global {
   namespace Express {
@@ -24,6 +25,16 @@ declare global {
        * Authenticated user session
        */
       user?: UserSessionPayload;
+
+      /**
+       * Authenticated service client (client_credentials access token), set instead of user
+       */
+      serviceClient?: ClientPayload;
+
+      /**
+       * Organization the request acts in (tenant), set by requireOrganization
+       */
+      organization?: OrganizationContext;
     }
   }
 }
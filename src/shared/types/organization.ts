@@ -0,0 +1,19 @@
+/**
+ * Organization Types
+ */
+
+/**
+ * Role of a member within an organization (independent of the global user roles)
+ */
+export type OrganizationRole = 'owner' | 'admin' | 'member';
+
+/**
+ * Organization a request acts in, resolved by the requireOrganization middleware
+ */
+export interface OrganizationContext {
+  organizationId: number;
+  /**
+   * Role of the authenticated user, unset for service clients registered for the organization
+   */
+  role?: OrganizationRole;
+}
@@ -0,0 +1,100 @@
+/**
+ * API Key Lookup
+ *
+ * Resolves a personal API key (`X-API-Key` header) to the same payload an
+ * access token carries. Keys are looked up by their SHA-256 hash and always
+ * reflect the owner's current roles: a scoped key only grants the scopes the
+ * user still holds, an unscoped key grants all of them.
+ */
+
+import { isAfter, differenceInMilliseconds } from 'date-fns';
+import { prisma } from '@/shared/utils/prisma';
+import { hashToken } from '@/shared/utils/crypto';
+import { UserSessionPayload } from '@/shared/types/auth';
+import { UnauthorizedError, ForbiddenError } from '@/shared/errors';
+
+/**
+ * Prefix of every generated key, so leaked keys are easy to recognise
+ */
+export const API_KEY_PREFIX = 'pak_';
+
+// Last-used tracking is refreshed at most this often to avoid a write per request
+const LAST_USED_UPDATE_INTERVAL_MS = 60 * 1000;
+
+/**
+ * Resolve an API key to its owner's roles and the permissions it grants
+ *
+ * @throws UnauthorizedError if the key is unknown, revoked or expired, or the account is unusable
+ * @throws ForbiddenError if the owner's email address is not verified
+ */
+export async function resolveApiKey(key: string, ipAddress?: string): Promise<UserSessionPayload> {
+  if (!key.startsWith(API_KEY_PREFIX)) {
+    throw new UnauthorizedError('Invalid API key');
+  }
+
+  const apiKey = await prisma.apiKey.findUnique({
+    where: { keyHash: await hashToken(key) },
+    include: {
+      user: {
+        include: {
+          roles: {
+            where: { role: { deletedAt: null } },
+            include: {
+              role: {
+                include: {
+                  permissions: {
+                    where: { permission: { deletedAt: null } },
+                    include: { permission: true },
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+  });
+
+  if (!apiKey || apiKey.deletedAt) {
+    throw new UnauthorizedError('Invalid API key');
+  }
+
+  if (apiKey.revokedAt) {
+    throw new UnauthorizedError('API key revoked');
+  }
+
+  if (apiKey.expiresAt && isAfter(new Date(), apiKey.expiresAt)) {
+    throw new UnauthorizedError('API key expired');
+  }
+
+  const { user } = apiKey;
+
+  if (!user.isActive || user.deletedAt) {
+    throw new UnauthorizedError('Account is no longer active');
+  }
+
+  if (!user.emailVerifiedAt) {
+    throw new ForbiddenError('Email address is not verified');
+  }
+
+  if (
+    !apiKey.lastUsedAt ||
+    differenceInMilliseconds(new Date(), apiKey.lastUsedAt) > LAST_USED_UPDATE_INTERVAL_MS
+  ) {
+    await prisma.apiKey.update({
+      where: { id: apiKey.id },
+      data: { lastUsedAt: new Date(), lastUsedIp: ipAddress },
+    });
+  }
+
+  const roles = user.roles.map((userRole) => userRole.role.name);
+  const granted = new Set(
+    user.roles.flatMap((userRole) =>
+      userRole.role.permissions.map((rolePermission) => rolePermission.permission.name)
+    )
+  );
+  const permissions =
+    apiKey.scopes.length > 0 ? apiKey.scopes.filter((scope) => granted.has(scope)) : [...granted];
+
+  return { userId: user.id, sessionId: 0, apiKeyId: apiKey.id, roles, permissions };
+}
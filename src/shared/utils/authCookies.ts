@@ -0,0 +1,137 @@
+/**
+ * Auth Cookies
+ *
+ * Cookie transport for browser clients (`AUTH_TOKEN_TRANSPORT=cookie`). The refresh
+ * token is kept in an HttpOnly cookie that is only sent to the refresh endpoint and,
+ * with `AUTH_ACCESS_TOKEN_COOKIE`, the access token in an HttpOnly cookie for the API.
+ * A readable CSRF token cookie goes with them for the double-submit check of the CSRF
+ * middleware. In the default body transport tokens are returned in the JSON response.
+ */
+
+import type { CookieOptions, Request, Response } from 'express';
+import { addDays } from 'date-fns';
+import { config } from '@/config';
+import { generateRandomToken } from '@/shared/utils/crypto';
+
+export const ACCESS_TOKEN_COOKIE = 'access_token';
+export const REFRESH_TOKEN_COOKIE = 'refresh_token';
+export const CSRF_TOKEN_COOKIE = 'csrf_token';
+export const CSRF_TOKEN_HEADER = 'X-CSRF-Token';
+
+const API_COOKIE_PATH = '/api/v1';
+const REFRESH_TOKEN_COOKIE_PATH = '/api/v1/auth/refresh';
+
+export function isCookieTransport(): boolean {
+  return config.cookies.tokenTransport === 'cookie';
+}
+
+/**
+ * Parse a Cookie request header into name/value pairs
+ */
+export function parseCookies(header?: string): Record<string, string> {
+  const cookies: Record<string, string> = {};
+
+  for (const pair of header?.split(';') ?? []) {
+    const index = pair.indexOf('=');
+
+    if (index === -1) {
+      continue;
+    }
+
+    const name = pair.slice(0, index).trim();
+    const value = pair.slice(index + 1).trim();
+
+    // Browsers send the cookie with the most specific path first; keep that one
+    if (name && !(name in cookies)) {
+      try {
+        cookies[name] = decodeURIComponent(value.replace(/^"(.*)"$/, '$1'));
+      } catch {
+        cookies[name] = value;
+      }
+    }
+  }
+
+  return cookies;
+}
+
+export function getCookie(req: Request, name: string): string | undefined {
+  return parseCookies(req.headers.cookie)[name] || undefined;
+}
+
+function cookieOptions(path: string, httpOnly: boolean, expires?: Date): CookieOptions {
+  return {
+    httpOnly,
+    secure: config.cookies.secure,
+    sameSite: config.cookies.sameSite,
+    domain: config.cookies.domain,
+    path,
+    expires,
+  };
+}
+
+function setCsrfTokenCookie(res: Response, csrfToken: string): string {
+  const expires = addDays(new Date(), config.auth.refreshTokenExpiresDays);
+
+  res.cookie(CSRF_TOKEN_COOKIE, csrfToken, cookieOptions('/', false, expires));
+
+  return csrfToken;
+}
+
+/**
+ * Current CSRF token of the browser, or a new one, (re)set as cookie
+ */
+export function issueCsrfToken(req: Request, res: Response): string {
+  return setCsrfTokenCookie(res, getCookie(req, CSRF_TOKEN_COOKIE) ?? generateRandomToken());
+}
+
+/**
+ * Hand issued tokens to the client. In cookie transport the refresh token (and, if
+ * enabled, the access token) is moved from the response body into HttpOnly cookies
+ * and the body gets a new CSRF token instead, so a token planted in the browser before
+ * the session was created or refreshed is never accepted. Results without tokens (MFA
+ * challenge, pending confirmation) are returned unchanged.
+ *
+ * @returns The response body
+ */
+export function deliverTokens<T extends object>(
+  res: Response,
+  result: T
+): Partial<T> & { csrfToken?: string } {
+  if (!isCookieTransport() || !('accessToken' in result)) {
+    return result;
+  }
+
+  const { accessToken, refreshToken, ...body } = result as T & {
+    accessToken: string;
+    refreshToken?: string;
+  };
+
+  if (refreshToken) {
+    const expires = addDays(new Date(), config.auth.refreshTokenExpiresDays);
+    res.cookie(
+      REFRESH_TOKEN_COOKIE,
+      refreshToken,
+      cookieOptions(REFRESH_TOKEN_COOKIE_PATH, true, expires)
+    );
+  }
+
+  if (config.cookies.accessToken) {
+    // A session cookie: an expired access token is simply refreshed
+    res.cookie(ACCESS_TOKEN_COOKIE, accessToken, cookieOptions(API_COOKIE_PATH, true));
+  }
+
+  return {
+    ...(config.cookies.accessToken ? {} : { accessToken }),
+    ...body,
+    csrfToken: setCsrfTokenCookie(res, generateRandomToken()),
+  } as Partial<T> & { csrfToken?: string };
+}
+
+/**
+ * Remove the auth cookies (logout)
+ */
+export function clearAuthCookies(res: Response): void {
+  res.clearCookie(ACCESS_TOKEN_COOKIE, cookieOptions(API_COOKIE_PATH, true));
+  res.clearCookie(REFRESH_TOKEN_COOKIE, cookieOptions(REFRESH_TOKEN_COOKIE_PATH, true));
+  res.clearCookie(CSRF_TOKEN_COOKIE, cookieOptions('/', false));
+}
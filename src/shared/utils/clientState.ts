@@ -0,0 +1,70 @@
+/**
+ * OAuth Client State Lookup
+ *
+ * Resolves whether the OAuth client behind a client_credentials access token
+ * is still registered and which scopes it is currently allowed. Cached
+ * in-process like session state, so revoking a client or narrowing its scopes
+ * applies within `AUTH_SESSION_CACHE_TTL_MS` on other instances.
+ */
+
+import { config } from '@/config';
+import { prisma } from '@/shared/utils/prisma';
+
+export interface ClientState {
+  clientId: string;
+  scopes: string[];
+  organizationId: number | null;
+  revokedAt: Date | null;
+  deletedAt: Date | null;
+}
+
+interface CacheEntry {
+  state: ClientState | null;
+  cachedAt: number;
+}
+
+const MAX_CACHE_ENTRIES = 10000;
+
+const cache = new Map<string, CacheEntry>();
+
+/**
+ * Get the state of a client, served from cache when fresh
+ */
+export async function getClientState(clientId: string): Promise<ClientState | null> {
+  const entry = cache.get(clientId);
+
+  if (entry && Date.now() - entry.cachedAt < config.auth.sessionCacheTtlMs) {
+    return entry.state;
+  }
+
+  const state = await prisma.oAuthClient.findUnique({
+    where: { clientId },
+    select: {
+      clientId: true,
+      scopes: true,
+      organizationId: true,
+      revokedAt: true,
+      deletedAt: true,
+    },
+  });
+
+  // Evict the oldest entry (Map keeps insertion order) to bound memory
+  if (cache.size >= MAX_CACHE_ENTRIES) {
+    const oldestKey = cache.keys().next().value;
+    if (oldestKey !== undefined) {
+      cache.delete(oldestKey);
+    }
+  }
+
+  cache.delete(clientId);
+  cache.set(clientId, { state, cachedAt: Date.now() });
+
+  return state;
+}
+
+/**
+ * Drop a client from the cache
+ */
+export function invalidateClientState(clientId: string): void {
+  cache.delete(clientId);
+}
@@ -0,0 +1,173 @@
+/**
+ * JWT Signing Utilities
+ *
+ * Signs and verifies tokens with either the shared secret (HS256) or a set of
+ * key pairs (RS256/ES256) identified by `kid`, loaded from `config.jwt.keysFile`.
+ *
+ * Rotation is scheduled through each key's `activatesAt`: the newest active key
+ * signs, keys not yet active are already published in the JWKS so verifiers can
+ * cache them, and a superseded key keeps verifying for the grace period so tokens
+ * issued just before a rotation stay valid.
+ */
+
+import crypto, { KeyObject, webcrypto } from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import jwt, { JwtPayload, SignOptions, VerifyOptions } from 'jsonwebtoken';
+import { addMinutes, isAfter } from 'date-fns';
+import { config } from '@/config';
+
+export type AsymmetricJwtAlgorithm = 'RS256' | 'ES256';
+
+/**
+ * Key as stored in the keys file (PEM encoded)
+ */
+export interface JwtKeyFileEntry {
+  kid: string;
+  alg: AsymmetricJwtAlgorithm;
+  privateKey: string;
+  publicKey: string;
+  activatesAt: string;
+}
+
+export interface JwtKeyFile {
+  keys: JwtKeyFileEntry[];
+}
+
+export interface Jwk extends webcrypto.JsonWebKey {
+  kid: string;
+  alg: AsymmetricJwtAlgorithm;
+  use: 'sig';
+}
+
+interface JwtKey {
+  kid: string;
+  alg: AsymmetricJwtAlgorithm;
+  privateKey: KeyObject;
+  publicKey: KeyObject;
+  activatesAt: Date;
+}
+
+let loadedKeys: JwtKey[] | null = null;
+
+/**
+ * Load key pairs from the keys file, ordered by activation time
+ */
+function loadKeys(): JwtKey[] {
+  if (loadedKeys) {
+    return loadedKeys;
+  }
+
+  const filePath = path.resolve(process.cwd(), config.jwt.keysFile);
+
+  if (!fs.existsSync(filePath)) {
+    throw new Error(`JWT keys file not found: ${config.jwt.keysFile}`);
+  }
+
+  const { keys } = JSON.parse(fs.readFileSync(filePath, 'utf-8')) as JwtKeyFile;
+
+  loadedKeys = keys
+    .map((key) => ({
+      kid: key.kid,
+      alg: key.alg,
+      privateKey: crypto.createPrivateKey(key.privateKey),
+      publicKey: crypto.createPublicKey(key.publicKey),
+      activatesAt: new Date(key.activatesAt),
+    }))
+    .sort((a, b) => a.activatesAt.getTime() - b.activatesAt.getTime());
+
+  return loadedKeys;
+}
+
+/**
+ * Get the newest active key for the configured algorithm
+ */
+function getSigningKey(now: Date = new Date()): JwtKey {
+  const activeKeys = loadKeys().filter(
+    (key) => key.alg === config.jwt.algorithm && !isAfter(key.activatesAt, now)
+  );
+  const signingKey = activeKeys[activeKeys.length - 1];
+
+  if (!signingKey) {
+    throw new Error(`No active ${config.jwt.algorithm} signing key in ${config.jwt.keysFile}`);
+  }
+
+  return signingKey;
+}
+
+/**
+ * Get every key that may verify a token right now: pending keys, the signing key
+ * and superseded keys whose successor activated less than the grace period ago
+ */
+function getVerificationKeys(now: Date = new Date()): JwtKey[] {
+  const keys = loadKeys();
+
+  return keys.filter((key, index) => {
+    const successor = keys[index + 1];
+
+    return (
+      !successor ||
+      isAfter(addMinutes(successor.activatesAt, config.jwt.keyGracePeriodMinutes), now)
+    );
+  });
+}
+
+/**
+ * Fail fast when asymmetric signing is configured without a usable key
+ */
+export function assertJwtKeysConfigured(): void {
+  if (config.jwt.algorithm !== 'HS256') {
+    getSigningKey();
+  }
+}
+
+/**
+ * Sign a token with the shared secret or the current signing key
+ */
+export function signJwt(payload: object, options: SignOptions = {}): string {
+  if (config.jwt.algorithm === 'HS256') {
+    return jwt.sign(payload, config.jwt.secret, { ...options, algorithm: 'HS256' });
+  }
+
+  const key = getSigningKey();
+
+  return jwt.sign(payload, key.privateKey, { ...options, algorithm: key.alg, keyid: key.kid });
+}
+
+/**
+ * Verify a token, pinning the algorithm to the one expected for its key
+ *
+ * @throws JsonWebTokenError if the token is invalid or signed by an unknown or retired key
+ */
+export function verifyJwt(token: string, options: VerifyOptions = {}): string | JwtPayload {
+  if (config.jwt.algorithm === 'HS256') {
+    return jwt.verify(token, config.jwt.secret, { ...options, algorithms: ['HS256'] });
+  }
+
+  const kid = jwt.decode(token, { complete: true })?.header.kid;
+  const key = kid ? getVerificationKeys().find((candidate) => candidate.kid === kid) : undefined;
+
+  if (!key) {
+    throw new jwt.JsonWebTokenError('Unknown signing key');
+  }
+
+  return jwt.verify(token, key.publicKey, { ...options, algorithms: [key.alg] });
+}
+
+/**
+ * Public keys for the JWKS endpoint (empty when signing with a shared secret)
+ */
+export function getPublicJwks(): { keys: Jwk[] } {
+  if (config.jwt.algorithm === 'HS256') {
+    return { keys: [] };
+  }
+
+  return {
+    keys: getVerificationKeys().map((key) => ({
+      ...key.publicKey.export({ format: 'jwk' }),
+      kid: key.kid,
+      alg: key.alg,
+      use: 'sig',
+    })),
+  };
+}
@@ -24,6 +24,7 @@ if (config.log.dir) {
 // Sensitive fields to redact
 const redactPaths = [
   'req.headers.authorization',
+  'req.headers["x-api-key"]',
   'req.headers.cookie',
   'req.body.password',
   'req.body.confirmPassword',
@@ -32,6 +33,8 @@ const redactPaths = [
   'req.body.accessToken',
   'req.body.secret',
   'req.body.apiKey',
+  'req.body.mfaToken',
+  'req.body.recoveryCode',
   '*.password',
   '*.token',
   '*.secret',
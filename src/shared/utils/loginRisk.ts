@@ -0,0 +1,169 @@
+/**
+ * Login Risk Assessment
+ *
+ * Compares a new sign-in with the user's recent sessions. Devices are compared by
+ * user agent family (browser and operating system, ignoring versions) and networks
+ * by IP subnet (/24 for IPv4, /48 for IPv6). Without a geolocation database,
+ * impossible travel is approximated as a sign-in from a different network region
+ * (/16 for IPv4, /32 for IPv6) shortly after the previous one.
+ */
+
+import net from 'net';
+import { differenceInMinutes } from 'date-fns';
+
+export type LoginRiskReason = 'new_device' | 'new_network' | 'impossible_travel';
+
+export type LoginRiskLevel = 'none' | 'medium' | 'high';
+
+export interface LoginRisk {
+  level: LoginRiskLevel;
+  reasons: LoginRiskReason[];
+}
+
+export interface SignInContext {
+  userAgent?: string | null;
+  ipAddress?: string | null;
+}
+
+export interface PreviousSignIn extends SignInContext {
+  createdAt: Date;
+}
+
+const BROWSERS: [RegExp, string][] = [
+  [/Edg(e|A|iOS)?\//, 'Edge'],
+  [/OPR\/|Opera/, 'Opera'],
+  [/Firefox\/|FxiOS/, 'Firefox'],
+  [/Chrome\/|CriOS/, 'Chrome'],
+  [/Safari\//, 'Safari'],
+  [/^curl\//, 'curl'],
+  [/PostmanRuntime/, 'Postman'],
+];
+
+// Checked in order: iOS and Android user agents also mention macOS and Linux
+const OPERATING_SYSTEMS: [RegExp, string][] = [
+  [/Windows/, 'Windows'],
+  [/iPhone|iPad|iPod/, 'iOS'],
+  [/Android/, 'Android'],
+  [/CrOS/, 'ChromeOS'],
+  [/Mac OS X|Macintosh/, 'macOS'],
+  [/Linux/, 'Linux'],
+];
+
+/**
+ * Browser and operating system of a user agent, e.g. "Firefox on Windows"
+ */
+export function userAgentFamily(userAgent?: string | null): string {
+  if (!userAgent) {
+    return 'Unknown device';
+  }
+
+  const browser = BROWSERS.find(([pattern]) => pattern.test(userAgent))?.[1] ?? 'Other client';
+  const os = OPERATING_SYSTEMS.find(([pattern]) => pattern.test(userAgent))?.[1];
+
+  return os ? `${browser} on ${os}` : browser;
+}
+
+/**
+ * Full-length groups of an IPv6 address (expands "::")
+ */
+function ipv6Groups(ip: string): string[] {
+  const [head, tail] = ip.split('::');
+  const headGroups = head ? head.split(':') : [];
+  const tailGroups = tail ? tail.split(':') : [];
+  const missing = 8 - headGroups.length - tailGroups.length;
+
+  return [...headGroups, ...Array<string>(Math.max(missing, 0)).fill('0'), ...tailGroups].map(
+    (group) => group.toLowerCase().padStart(4, '0')
+  );
+}
+
+/**
+ * Network prefix of an address, or null if it is not a valid IP
+ *
+ * @param ipv4Octets - Leading IPv4 octets to keep
+ * @param ipv6GroupCount - Leading IPv6 groups to keep
+ */
+function networkPrefix(
+  ipAddress: string | null | undefined,
+  ipv4Octets: number,
+  ipv6GroupCount: number
+): string | null {
+  // IPv4-mapped IPv6 addresses are reported like this behind dual-stack sockets
+  const ip = ipAddress?.replace(/^::ffff:(?=\d+\.\d+\.\d+\.\d+$)/i, '');
+
+  if (ip && net.isIPv4(ip)) {
+    const octets = ip.split('.').map((octet, index) => (index < ipv4Octets ? octet : '0'));
+    return `${octets.join('.')}/${ipv4Octets * 8}`;
+  }
+
+  if (ip && net.isIPv6(ip)) {
+    return `${ipv6Groups(ip).slice(0, ipv6GroupCount).join(':')}/${ipv6GroupCount * 16}`;
+  }
+
+  return null;
+}
+
+/**
+ * Subnet an address belongs to (/24 for IPv4, /48 for IPv6)
+ */
+export function ipSubnet(ipAddress?: string | null): string | null {
+  return networkPrefix(ipAddress, 3, 3);
+}
+
+/**
+ * Wider network region of an address (/16 for IPv4, /32 for IPv6)
+ */
+function ipRegion(ipAddress?: string | null): string | null {
+  return networkPrefix(ipAddress, 2, 2);
+}
+
+/**
+ * Assess a sign-in against the user's previous sign-ins
+ *
+ * A first sign-in has nothing to compare against and is never risky. A new device
+ * or network is medium risk; both together, or impossible travel, are high risk.
+ *
+ * @param travelWindowMinutes - How soon after the previous sign-in a change of region counts as impossible travel
+ */
+export function assessLoginRisk(
+  attempt: SignInContext,
+  previous: PreviousSignIn[],
+  travelWindowMinutes: number,
+  now: Date = new Date()
+): LoginRisk {
+  if (previous.length === 0) {
+    return { level: 'none', reasons: [] };
+  }
+
+  const reasons: LoginRiskReason[] = [];
+  const family = userAgentFamily(attempt.userAgent);
+
+  if (!previous.some((signIn) => userAgentFamily(signIn.userAgent) === family)) {
+    reasons.push('new_device');
+  }
+
+  const subnet = ipSubnet(attempt.ipAddress);
+
+  if (subnet && !previous.some((signIn) => ipSubnet(signIn.ipAddress) === subnet)) {
+    reasons.push('new_network');
+  }
+
+  const latest = previous.reduce((a, b) => (b.createdAt > a.createdAt ? b : a));
+  const region = ipRegion(attempt.ipAddress);
+  const latestRegion = ipRegion(latest.ipAddress);
+
+  if (
+    region &&
+    latestRegion &&
+    region !== latestRegion &&
+    differenceInMinutes(now, latest.createdAt) < travelWindowMinutes
+  ) {
+    reasons.push('impossible_travel');
+  }
+
+  const high =
+    reasons.includes('impossible_travel') ||
+    (reasons.includes('new_device') && reasons.includes('new_network'));
+
+  return { level: high ? 'high' : reasons.length > 0 ? 'medium' : 'none', reasons };
+}
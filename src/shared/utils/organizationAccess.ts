@@ -0,0 +1,40 @@
+/**
+ * Organization Access Lookup
+ *
+ * Resolves whether a user or service client may act in an organization. Not
+ * cached, unlike session state: removing a member must cut off their access to
+ * the organization's data on every instance right away.
+ */
+
+import { prisma } from '@/shared/utils/prisma';
+import type { OrganizationRole } from '@/shared/types/organization';
+
+/**
+ * Role of the user in the organization, or null if they are not a member or it was deleted
+ */
+export async function getMembershipRole(
+  organizationId: number,
+  userId: number
+): Promise<OrganizationRole | null> {
+  const membership = await prisma.membership.findUnique({
+    where: { organizationId_userId: { organizationId, userId } },
+    select: { role: true, organization: { select: { deletedAt: true } } },
+  });
+
+  if (!membership || membership.organization.deletedAt) {
+    return null;
+  }
+
+  return membership.role as OrganizationRole;
+}
+
+/**
+ * Whether the organization exists and was not deleted
+ */
+export async function isActiveOrganization(organizationId: number): Promise<boolean> {
+  const count = await prisma.organization.count({
+    where: { id: organizationId, deletedAt: null },
+  });
+
+  return count > 0;
+}
@@ -0,0 +1,183 @@
+/**
+ * Password Policy
+ *
+ * Central password rules driven by `config.auth`: length limits, required
+ * character classes, no email or name fragments, no reuse of recent passwords
+ * and no passwords from the breached-password list.
+ *
+ * The breached list is stored k-anonymity style like the Pwned Passwords range
+ * API: the SHA-1 of each password is split into a 5 character prefix, which names
+ * the file (`<dir>/<PREFIX>.txt`), and the remaining suffix, one per line
+ * (optionally followed by `:<count>`). Only the file of the candidate's prefix is
+ * read, so the check works offline and scales to the full Pwned Passwords dump.
+ */
+
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import { config } from '@/config';
+import { verifyPassword } from '@/shared/utils/crypto';
+import { ValidationError, ValidationDetails } from '@/shared/errors';
+
+export type PasswordRule =
+  | 'minLength'
+  | 'maxLength'
+  | 'lowercase'
+  | 'uppercase'
+  | 'digit'
+  | 'symbol'
+  | 'personalInfo'
+  | 'reused'
+  | 'breached';
+
+export type PasswordViolations = Partial<Record<PasswordRule, string>>;
+
+export interface PasswordContext {
+  email?: string;
+  name?: string | null;
+  /**
+   * Hashes of the current and recent passwords that may not be reused
+   */
+  previousHashes?: string[];
+}
+
+export const BREACHED_PREFIX_LENGTH = 5;
+
+// Email and name fragments shorter than this are too common to reject
+const MIN_PERSONAL_FRAGMENT_LENGTH = 3;
+
+/**
+ * Split a password into its breached-list prefix and suffix (uppercase SHA-1 hex)
+ */
+export function breachedHashParts(password: string): { prefix: string; suffix: string } {
+  const hash = crypto.createHash('sha1').update(password).digest('hex').toUpperCase();
+
+  return {
+    prefix: hash.slice(0, BREACHED_PREFIX_LENGTH),
+    suffix: hash.slice(BREACHED_PREFIX_LENGTH),
+  };
+}
+
+/**
+ * Check a password against the bundled breached-password prefix files
+ */
+export async function isBreachedPassword(password: string): Promise<boolean> {
+  const { prefix, suffix } = breachedHashParts(password);
+  const file = path.resolve(process.cwd(), config.auth.breachedPasswordsDir, `${prefix}.txt`);
+
+  let contents: string;
+
+  try {
+    contents = await fs.readFile(file, 'utf8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return false;
+    }
+    throw error;
+  }
+
+  return contents.split(/\r?\n/).some((line) => line.split(':')[0].trim().toUpperCase() === suffix);
+}
+
+/**
+ * Email local part and name words, lowercased, long enough to be meaningful
+ */
+function personalFragments(context: PasswordContext): string[] {
+  const fragments = [
+    context.email?.split('@')[0],
+    context.name,
+    ...(context.name?.split(/\s+/) ?? []),
+  ];
+
+  return fragments
+    .map((fragment) => fragment?.trim().toLowerCase() ?? '')
+    .filter((fragment) => fragment.length >= MIN_PERSONAL_FRAGMENT_LENGTH);
+}
+
+async function isReused(password: string, previousHashes: string[]): Promise<boolean> {
+  for (const hash of previousHashes) {
+    if (await verifyPassword(password, hash)) {
+      return true;
+    }
+  }
+
+  return false;
+}
+
+/**
+ * Evaluate a password against every rule of the policy
+ *
+ * @returns Message per violated rule (empty when the password is acceptable)
+ */
+export async function findPasswordViolations(
+  password: string,
+  context: PasswordContext = {}
+): Promise<PasswordViolations> {
+  const policy = config.auth;
+  const violations: PasswordViolations = {};
+
+  if (password.length < policy.passwordMinLength) {
+    violations.minLength = `Password must be at least ${policy.passwordMinLength} characters`;
+  }
+
+  // Nothing else is checked for oversized input, so it is never hashed
+  if (password.length > policy.passwordMaxLength) {
+    violations.maxLength = `Password must be at most ${policy.passwordMaxLength} characters`;
+    return violations;
+  }
+
+  if (policy.passwordRequireLowercase && !/[a-z]/.test(password)) {
+    violations.lowercase = 'Password must contain a lowercase letter';
+  }
+
+  if (policy.passwordRequireUppercase && !/[A-Z]/.test(password)) {
+    violations.uppercase = 'Password must contain an uppercase letter';
+  }
+
+  if (policy.passwordRequireDigit && !/\d/.test(password)) {
+    violations.digit = 'Password must contain a digit';
+  }
+
+  if (policy.passwordRequireSymbol && !/[^A-Za-z0-9]/.test(password)) {
+    violations.symbol = 'Password must contain a symbol';
+  }
+
+  const lowered = password.toLowerCase();
+
+  if (personalFragments(context).some((fragment) => lowered.includes(fragment))) {
+    violations.personalInfo = 'Password must not contain your email address or name';
+  }
+
+  if (policy.passwordBreachCheck && (await isBreachedPassword(password))) {
+    violations.breached = 'Password has appeared in a data breach, choose a different one';
+  }
+
+  if (context.previousHashes?.length && (await isReused(password, context.previousHashes))) {
+    violations.reused = `Password must not match any of your last ${policy.passwordHistorySize} passwords`;
+  }
+
+  return violations;
+}
+
+/**
+ * Enforce the password policy
+ *
+ * @param field - Request field the password came from, used as prefix of the detail keys
+ * @throws ValidationError with a `<field>.<rule>` detail per violated rule
+ */
+export async function assertPasswordPolicy(
+  password: string,
+  context: PasswordContext = {},
+  field: string = 'password'
+): Promise<void> {
+  const violations = await findPasswordViolations(password, context);
+  const details: ValidationDetails = {};
+
+  for (const [rule, message] of Object.entries(violations)) {
+    details[`${field}.${rule}`] = message;
+  }
+
+  if (Object.keys(details).length > 0) {
+    throw new ValidationError('Password does not meet the password policy', details);
+  }
+}
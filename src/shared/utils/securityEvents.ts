@@ -0,0 +1,80 @@
+/**
+ * Security Event Recording
+ *
+ * Persists an audit trail of authentication activity (sign-ins, lockouts, token
+ * refreshes, password, email and passkey changes) with the client's IP address, user agent
+ * and request ID, for incident response. Recording is best effort: a failed write
+ * is logged and never fails the request it belongs to.
+ */
+
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/shared/utils/prisma';
+import { logger } from '@/shared/utils/logger';
+
+export const SECURITY_EVENT_TYPES = [
+  'login_succeeded',
+  'login_failed',
+  'account_locked',
+  'logout',
+  'token_refreshed',
+  'refresh_token_reused',
+  'sign_in_reported',
+  'password_reset_requested',
+  'password_reset',
+  'password_changed',
+  'email_verified',
+  'passkey_registered',
+  'passkey_removed',
+  'passkey_clone_detected',
+  'account_data_exported',
+  'account_deletion_requested',
+  'account_deletion_cancelled',
+] as const;
+
+export type SecurityEventType = (typeof SECURITY_EVENT_TYPES)[number];
+
+/**
+ * Where a request came from
+ */
+export interface SecurityEventContext {
+  userAgent?: string | null;
+  ipAddress?: string | null;
+  requestId?: string;
+}
+
+export interface SecurityEventInput {
+  type: SecurityEventType;
+  /**
+   * Account the event belongs to; null for failed sign-ins with an unknown email address
+   */
+  userId: number | null;
+  /**
+   * Email address the request named, kept for events without an account
+   */
+  email?: string;
+  context?: SecurityEventContext;
+  metadata?: Prisma.InputJsonObject;
+}
+
+export async function recordSecurityEvent(event: SecurityEventInput): Promise<void> {
+  const { context = {} } = event;
+
+  try {
+    await prisma.securityEvent.create({
+      data: {
+        type: event.type,
+        userId: event.userId,
+        email: event.email,
+        ipAddress: context.ipAddress,
+        userAgent: context.userAgent,
+        requestId: context.requestId,
+        metadata: event.metadata,
+      },
+    });
+  } catch (error) {
+    logger.error(
+      { err: error, type: event.type, userId: event.userId },
+      'Failed to record security event'
+    );
+  }
+}
@@ -0,0 +1,109 @@
+/**
+ * Session State Lookup
+ *
+ * Resolves whether the session behind an access token is still usable.
+ * Results are cached in-process for a short TTL so authentication does not
+ * hit the database on every request; revocations made by this process
+ * invalidate the cache immediately.
+ */
+
+import { config } from '@/config';
+import { prisma } from '@/shared/utils/prisma';
+
+export interface SessionState {
+  sessionId: number;
+  userId: number;
+  expiresAt: Date;
+  revokedAt: Date | null;
+  userIsActive: boolean;
+  userDeletedAt: Date | null;
+  userEmailVerifiedAt: Date | null;
+  passwordChangedAt: Date | null;
+}
+
+interface CacheEntry {
+  state: SessionState | null;
+  cachedAt: number;
+}
+
+const MAX_CACHE_ENTRIES = 10000;
+
+const cache = new Map<number, CacheEntry>();
+
+async function loadSessionState(sessionId: number): Promise<SessionState | null> {
+  const session = await prisma.userSession.findFirst({
+    where: {
+      id: sessionId,
+      deletedAt: null,
+    },
+    include: {
+      user: {
+        select: {
+          isActive: true,
+          deletedAt: true,
+          emailVerifiedAt: true,
+          passwordChangedAt: true,
+        },
+      },
+    },
+  });
+
+  if (!session) {
+    return null;
+  }
+
+  return {
+    sessionId: session.id,
+    userId: session.userId,
+    expiresAt: session.expiresAt,
+    revokedAt: session.revokedAt,
+    userIsActive: session.user.isActive,
+    userDeletedAt: session.user.deletedAt,
+    userEmailVerifiedAt: session.user.emailVerifiedAt,
+    passwordChangedAt: session.user.passwordChangedAt,
+  };
+}
+
+/**
+ * Get the state of a session, served from cache when fresh
+ */
+export async function getSessionState(sessionId: number): Promise<SessionState | null> {
+  const entry = cache.get(sessionId);
+
+  if (entry && Date.now() - entry.cachedAt < config.auth.sessionCacheTtlMs) {
+    return entry.state;
+  }
+
+  const state = await loadSessionState(sessionId);
+
+  // Evict the oldest entry (Map keeps insertion order) to bound memory
+  if (cache.size >= MAX_CACHE_ENTRIES) {
+    const oldestKey = cache.keys().next().value;
+    if (oldestKey !== undefined) {
+      cache.delete(oldestKey);
+    }
+  }
+
+  cache.delete(sessionId);
+  cache.set(sessionId, { state, cachedAt: Date.now() });
+
+  return state;
+}
+
+/**
+ * Drop a single session from the cache
+ */
+export function invalidateSessionState(sessionId: number): void {
+  cache.delete(sessionId);
+}
+
+/**
+ * Drop every cached session belonging to a user
+ */
+export function invalidateUserSessionStates(userId: number): void {
+  for (const [sessionId, entry] of cache) {
+    if (entry.state?.userId === userId) {
+      cache.delete(sessionId);
+    }
+  }
+}
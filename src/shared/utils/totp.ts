@@ -0,0 +1,147 @@
+/**
+ * TOTP Utilities
+ *
+ * Time-based one-time passwords (RFC 6238) compatible with common authenticator apps.
+ * Uses HMAC-SHA1, 6 digits and a 30 second period.
+ */
+
+import crypto from 'crypto';
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+const SECRET_LENGTH_BYTES = 20;
+const PERIOD_SECONDS = 30;
+const DIGITS = 6;
+
+/**
+ * Encode a buffer as RFC 4648 base32 (no padding)
+ */
+function base32Encode(buffer: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+
+  for (const byte of buffer) {
+    value = (value << 8) | byte;
+    bits += 8;
+
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+
+  return output;
+}
+
+/**
+ * Decode an RFC 4648 base32 string (padding and case are ignored)
+ */
+function base32Decode(input: string): Buffer {
+  const cleaned = input.toUpperCase().replace(/=+$/, '');
+  const bytes: number[] = [];
+  let bits = 0;
+  let value = 0;
+
+  for (const char of cleaned) {
+    const index = BASE32_ALPHABET.indexOf(char);
+
+    if (index === -1) {
+      throw new Error('Invalid base32 character');
+    }
+
+    value = (value << 5) | index;
+    bits += 5;
+
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+
+  return Buffer.from(bytes);
+}
+
+/**
+ * Compute the HOTP value (RFC 4226) for a counter
+ */
+function hotp(key: Buffer, counter: number): string {
+  const message = Buffer.alloc(8);
+  message.writeBigUInt64BE(BigInt(counter));
+
+  const digest = crypto.createHmac('sha1', key).update(message).digest();
+  const offset = digest[digest.length - 1] & 0x0f;
+  const binary = digest.readUInt32BE(offset) & 0x7fffffff;
+
+  return (binary % 10 ** DIGITS).toString().padStart(DIGITS, '0');
+}
+
+/**
+ * Get the time step for a timestamp (milliseconds)
+ */
+export function getTotpStep(timestamp: number = Date.now()): number {
+  return Math.floor(timestamp / 1000 / PERIOD_SECONDS);
+}
+
+/**
+ * Generate a random base32 TOTP secret
+ */
+export function generateTotpSecret(): string {
+  return base32Encode(crypto.randomBytes(SECRET_LENGTH_BYTES));
+}
+
+/**
+ * Generate the TOTP code for a secret at a given time
+ */
+export function generateTotp(secret: string, timestamp: number = Date.now()): string {
+  return hotp(base32Decode(secret), getTotpStep(timestamp));
+}
+
+/**
+ * Verify a TOTP code, allowing for clock drift of `window` steps either side
+ *
+ * @returns The matched time step, or null if the code is invalid
+ */
+export function verifyTotp(
+  secret: string,
+  code: string,
+  options: { window?: number; timestamp?: number } = {}
+): number | null {
+  const { window = 1, timestamp = Date.now() } = options;
+
+  if (!/^\d{6}$/.test(code)) {
+    return null;
+  }
+
+  const key = base32Decode(secret);
+  const currentStep = getTotpStep(timestamp);
+
+  for (let step = currentStep - window; step <= currentStep + window; step++) {
+    const expected = hotp(key, step);
+
+    if (crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(code))) {
+      return step;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Build an otpauth:// provisioning URI for authenticator apps
+ */
+export function buildTotpUri(secret: string, accountName: string, issuer: string): string {
+  const label = encodeURIComponent(`${issuer}:${accountName}`);
+  const params = new URLSearchParams({
+    secret,
+    issuer,
+    algorithm: 'SHA1',
+    digits: String(DIGITS),
+    period: String(PERIOD_SECONDS),
+  });
+
+  return `otpauth://totp/${label}?${params.toString()}`;
+}
@@ -0,0 +1,397 @@
+/**
+ * WebAuthn Utilities
+ *
+ * Verification of passkey registration (attestation "none") and authentication
+ * responses (W3C Web Authentication Level 2). Supports ES256, EdDSA and RS256
+ * credential keys. Binary fields are exchanged as base64url, as in the JSON
+ * form of `PublicKeyCredential`.
+ */
+
+import crypto, { KeyObject } from 'crypto';
+
+export const COSE_ALGORITHMS = {
+  ES256: -7,
+  EdDSA: -8,
+  RS256: -257,
+} as const;
+
+// Order of preference announced to authenticators
+export const SUPPORTED_COSE_ALGORITHMS: number[] = [
+  COSE_ALGORITHMS.ES256,
+  COSE_ALGORITHMS.EdDSA,
+  COSE_ALGORITHMS.RS256,
+];
+
+const FLAG_USER_PRESENT = 0x01;
+const FLAG_USER_VERIFIED = 0x04;
+const FLAG_BACKUP_ELIGIBLE = 0x08;
+const FLAG_BACKED_UP = 0x10;
+const FLAG_ATTESTED_CREDENTIAL_DATA = 0x40;
+
+const RP_ID_HASH_LENGTH = 32;
+const AUTHENTICATOR_DATA_MIN_LENGTH = 37;
+const AAGUID_LENGTH = 16;
+
+/**
+ * A response that does not verify; the message is safe to return to the client
+ */
+export class WebAuthnError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'WebAuthnError';
+  }
+}
+
+export interface ClientData {
+  type: string;
+  challenge: string;
+  origin: string;
+  crossOrigin?: boolean;
+}
+
+export interface AuthenticatorData {
+  rpIdHash: Buffer;
+  userPresent: boolean;
+  userVerified: boolean;
+  backupEligible: boolean;
+  backedUp: boolean;
+  signCount: number;
+  attestedCredential?: {
+    aaguid: string;
+    credentialId: Buffer;
+    publicKey: Buffer;
+  };
+}
+
+export interface VerifiedRegistration {
+  credentialId: string;
+  /**
+   * COSE-encoded credential public key, stored for later assertions
+   */
+  publicKey: Buffer;
+  algorithm: number;
+  signCount: number;
+  aaguid: string;
+  userVerified: boolean;
+  backedUp: boolean;
+}
+
+export interface VerifiedAuthentication {
+  signCount: number;
+  userVerified: boolean;
+  backedUp: boolean;
+}
+
+/**
+ * Decode one CBOR data item (RFC 8949) of the subset used by WebAuthn:
+ * integers, byte and text strings, arrays, maps and simple values
+ *
+ * @returns The value and the offset of the next item
+ */
+export function decodeCbor(buffer: Buffer, offset = 0): { value: unknown; offset: number } {
+  if (offset >= buffer.length) {
+    throw new WebAuthnError('Unexpected end of CBOR data');
+  }
+
+  const initial = buffer[offset++];
+  const majorType = initial >> 5;
+  const additional = initial & 0x1f;
+
+  let argument: number;
+
+  if (additional < 24) {
+    argument = additional;
+  } else if (additional === 24) {
+    argument = buffer.readUInt8(offset);
+    offset += 1;
+  } else if (additional === 25) {
+    argument = buffer.readUInt16BE(offset);
+    offset += 2;
+  } else if (additional === 26) {
+    argument = buffer.readUInt32BE(offset);
+    offset += 4;
+  } else if (additional === 27) {
+    argument = Number(buffer.readBigUInt64BE(offset));
+    offset += 8;
+  } else {
+    throw new WebAuthnError('Unsupported CBOR encoding');
+  }
+
+  switch (majorType) {
+    case 0:
+      return { value: argument, offset };
+    case 1:
+      return { value: -1 - argument, offset };
+    case 2:
+    case 3: {
+      const end = offset + argument;
+
+      if (end > buffer.length) {
+        throw new WebAuthnError('Unexpected end of CBOR data');
+      }
+
+      const bytes = buffer.subarray(offset, end);
+      return { value: majorType === 2 ? Buffer.from(bytes) : bytes.toString('utf8'), offset: end };
+    }
+    case 4: {
+      const items: unknown[] = [];
+
+      for (let i = 0; i < argument; i++) {
+        const item = decodeCbor(buffer, offset);
+        items.push(item.value);
+        offset = item.offset;
+      }
+
+      return { value: items, offset };
+    }
+    case 5: {
+      const map = new Map<unknown, unknown>();
+
+      for (let i = 0; i < argument; i++) {
+        const key = decodeCbor(buffer, offset);
+        const value = decodeCbor(buffer, key.offset);
+        map.set(key.value, value.value);
+        offset = value.offset;
+      }
+
+      return { value: map, offset };
+    }
+    case 7:
+      if (additional === 20) return { value: false, offset };
+      if (additional === 21) return { value: true, offset };
+      if (additional === 22) return { value: null, offset };
+      throw new WebAuthnError('Unsupported CBOR simple value');
+    default:
+      throw new WebAuthnError('Unsupported CBOR type');
+  }
+}
+
+function decodeCborMap(buffer: Buffer): Map<unknown, unknown> {
+  const { value } = decodeCbor(buffer);
+
+  if (!(value instanceof Map)) {
+    throw new WebAuthnError('Expected a CBOR map');
+  }
+
+  return value;
+}
+
+function sha256(data: Buffer | string): Buffer {
+  return crypto.createHash('sha256').update(data).digest();
+}
+
+/**
+ * Parse and check clientDataJSON: ceremony type and origin. The challenge is returned
+ * for the caller to match against its stored challenges.
+ */
+export function parseClientData(
+  clientDataJSON: string,
+  expectedType: 'webauthn.create' | 'webauthn.get',
+  allowedOrigins: string[]
+): ClientData {
+  let clientData: ClientData;
+
+  try {
+    clientData = JSON.parse(Buffer.from(clientDataJSON, 'base64url').toString('utf8'));
+  } catch {
+    throw new WebAuthnError('Invalid client data');
+  }
+
+  if (clientData?.type !== expectedType || typeof clientData.challenge !== 'string') {
+    throw new WebAuthnError('Invalid client data');
+  }
+
+  if (!allowedOrigins.includes(clientData.origin) || clientData.crossOrigin === true) {
+    throw new WebAuthnError('Origin not allowed');
+  }
+
+  return clientData;
+}
+
+export function parseAuthenticatorData(authData: Buffer): AuthenticatorData {
+  if (authData.length < AUTHENTICATOR_DATA_MIN_LENGTH) {
+    throw new WebAuthnError('Invalid authenticator data');
+  }
+
+  const flags = authData[RP_ID_HASH_LENGTH];
+  const result: AuthenticatorData = {
+    rpIdHash: authData.subarray(0, RP_ID_HASH_LENGTH),
+    userPresent: (flags & FLAG_USER_PRESENT) !== 0,
+    userVerified: (flags & FLAG_USER_VERIFIED) !== 0,
+    backupEligible: (flags & FLAG_BACKUP_ELIGIBLE) !== 0,
+    backedUp: (flags & FLAG_BACKED_UP) !== 0,
+    signCount: authData.readUInt32BE(RP_ID_HASH_LENGTH + 1),
+  };
+
+  if (flags & FLAG_ATTESTED_CREDENTIAL_DATA) {
+    let offset = AUTHENTICATOR_DATA_MIN_LENGTH;
+    const aaguid = authData.subarray(offset, offset + AAGUID_LENGTH);
+    offset += AAGUID_LENGTH;
+
+    if (authData.length < offset + 2) {
+      throw new WebAuthnError('Invalid authenticator data');
+    }
+
+    const credentialIdLength = authData.readUInt16BE(offset);
+    offset += 2;
+    const credentialId = authData.subarray(offset, offset + credentialIdLength);
+    offset += credentialIdLength;
+
+    const { offset: keyEnd } = decodeCbor(authData, offset);
+
+    result.attestedCredential = {
+      aaguid: formatAaguid(aaguid),
+      credentialId: Buffer.from(credentialId),
+      publicKey: Buffer.from(authData.subarray(offset, keyEnd)),
+    };
+  }
+
+  return result;
+}
+
+function formatAaguid(aaguid: Buffer): string {
+  const hex = aaguid.toString('hex');
+
+  return [
+    hex.slice(0, 8),
+    hex.slice(8, 12),
+    hex.slice(12, 16),
+    hex.slice(16, 20),
+    hex.slice(20),
+  ].join('-');
+}
+
+function base64url(value: unknown): string {
+  if (!Buffer.isBuffer(value)) {
+    throw new WebAuthnError('Invalid credential public key');
+  }
+
+  return value.toString('base64url');
+}
+
+/**
+ * Convert a COSE_Key (RFC 9053) to a Node.js public key
+ */
+export function importCosePublicKey(coseKey: Buffer): { key: KeyObject; algorithm: number } {
+  const map = decodeCborMap(coseKey);
+  const keyType = map.get(1);
+  const algorithm = map.get(3) as number;
+
+  let jwk: Record<string, string>;
+
+  if (algorithm === COSE_ALGORITHMS.ES256 && keyType === 2 && map.get(-1) === 1) {
+    jwk = { kty: 'EC', crv: 'P-256', x: base64url(map.get(-2)), y: base64url(map.get(-3)) };
+  } else if (algorithm === COSE_ALGORITHMS.EdDSA && keyType === 1 && map.get(-1) === 6) {
+    jwk = { kty: 'OKP', crv: 'Ed25519', x: base64url(map.get(-2)) };
+  } else if (algorithm === COSE_ALGORITHMS.RS256 && keyType === 3) {
+    jwk = { kty: 'RSA', n: base64url(map.get(-1)), e: base64url(map.get(-2)) };
+  } else {
+    throw new WebAuthnError('Unsupported credential public key algorithm');
+  }
+
+  try {
+    return { key: crypto.createPublicKey({ key: jwk, format: 'jwk' }), algorithm };
+  } catch {
+    throw new WebAuthnError('Invalid credential public key');
+  }
+}
+
+function verifySignature(coseKey: Buffer, data: Buffer, signature: Buffer): boolean {
+  const { key, algorithm } = importCosePublicKey(coseKey);
+
+  try {
+    if (algorithm === COSE_ALGORITHMS.EdDSA) {
+      return crypto.verify(null, data, key, signature);
+    }
+
+    // ES256 signatures are DER-encoded, the Node.js default
+    return crypto.verify('sha256', data, key, signature);
+  } catch {
+    return false;
+  }
+}
+
+function assertRelyingParty(authData: AuthenticatorData, rpId: string): void {
+  if (!crypto.timingSafeEqual(authData.rpIdHash, sha256(rpId))) {
+    throw new WebAuthnError('Credential was created for another relying party');
+  }
+
+  if (!authData.userPresent) {
+    throw new WebAuthnError('User presence was not confirmed');
+  }
+}
+
+/**
+ * Verify a registration response (`navigator.credentials.create()`) requested with
+ * attestation "none". The client data must already have been checked with `parseClientData`.
+ */
+export function verifyRegistrationResponse(
+  response: { attestationObject: string },
+  rpId: string
+): VerifiedRegistration {
+  const attestation = decodeCborMap(Buffer.from(response.attestationObject, 'base64url'));
+  const attestationStatement = attestation.get('attStmt');
+
+  if (
+    attestation.get('fmt') !== 'none' ||
+    !(attestationStatement instanceof Map) ||
+    attestationStatement.size > 0
+  ) {
+    throw new WebAuthnError('Unsupported attestation format');
+  }
+
+  const rawAuthData = attestation.get('authData');
+
+  if (!Buffer.isBuffer(rawAuthData)) {
+    throw new WebAuthnError('Invalid authenticator data');
+  }
+
+  const authData = parseAuthenticatorData(rawAuthData);
+  assertRelyingParty(authData, rpId);
+
+  if (!authData.attestedCredential) {
+    throw new WebAuthnError('Authenticator data contains no credential');
+  }
+
+  const { credentialId, publicKey, aaguid } = authData.attestedCredential;
+  const { algorithm } = importCosePublicKey(publicKey);
+
+  return {
+    credentialId: credentialId.toString('base64url'),
+    publicKey,
+    algorithm,
+    signCount: authData.signCount,
+    aaguid,
+    userVerified: authData.userVerified,
+    backedUp: authData.backedUp,
+  };
+}
+
+/**
+ * Verify an authentication response (`navigator.credentials.get()`) against the stored
+ * credential public key. The client data must already have been checked with `parseClientData`.
+ */
+export function verifyAuthenticationResponse(
+  response: { clientDataJSON: string; authenticatorData: string; signature: string },
+  publicKey: Buffer,
+  rpId: string
+): VerifiedAuthentication {
+  const rawAuthData = Buffer.from(response.authenticatorData, 'base64url');
+  const authData = parseAuthenticatorData(rawAuthData);
+  assertRelyingParty(authData, rpId);
+
+  const signedData = Buffer.concat([
+    rawAuthData,
+    sha256(Buffer.from(response.clientDataJSON, 'base64url')),
+  ]);
+
+  if (!verifySignature(publicKey, signedData, Buffer.from(response.signature, 'base64url'))) {
+    throw new WebAuthnError('Invalid signature');
+  }
+
+  return {
+    signCount: authData.signCount,
+    userVerified: authData.userVerified,
+    backedUp: authData.backedUp,
+  };
+}
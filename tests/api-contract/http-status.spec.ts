@@ -86,13 +86,28 @@ app.use(notFoundHandler);
 app.use(errorHandler);
 
 const JWT_SECRET = process.env.JWT_SECRET || 'dev_secret_do_not_use';
+const EXAMPLE_PERMISSIONS = [
+  'examples:read',
+  'examples:create',
+  'examples:update',
+  'examples:delete',
+];
 
 /**
  * Helper to create a test user and return auth token
  */
-async function createTestUserWithToken(): Promise<{ token: string; userId: number }> {
+async function createTestUserWithToken(): Promise<{
+  token: string;
+  userId: number;
+  organizationId: number;
+}> {
   const user = await prisma.user.create({
-    data: { name: 'Test User', email: `test-${Date.now()}@test.com`, password: 'hash' },
+    data: {
+      name: 'Test User',
+      email: `test-${Date.now()}@test.com`,
+      password: 'hash',
+      emailVerifiedAt: new Date(),
+    },
   });
   const session = await prisma.userSession.create({
     data: {
@@ -101,14 +116,24 @@ async function createTestUserWithToken(): Promise<{ token: string; userId: numbe
       expiresAt: addDays(new Date(), 1),
     },
   });
-  const token = jwt.sign({ userId: user.id, sessionId: session.id, role: 'user' }, JWT_SECRET);
-  return { token, userId: user.id };
+  const organization = await prisma.organization.create({
+    data: {
+      name: 'Test Organization',
+      memberships: { create: { userId: user.id, role: 'owner' } },
+    },
+  });
+  const token = jwt.sign(
+    { userId: user.id, sessionId: session.id, roles: ['user'], permissions: EXAMPLE_PERMISSIONS },
+    JWT_SECRET
+  );
+  return { token, userId: user.id, organizationId: organization.id };
 }
 
 describe('HTTP Status Code Contract Tests', () => {
   beforeEach(async () => {
     vi.clearAllMocks();
     await prisma.example.deleteMany();
+    await prisma.organization.deleteMany();
     await prisma.userSession.deleteMany();
     await prisma.emailVerificationToken.deleteMany();
     await prisma.passwordResetToken.deleteMany();
@@ -128,11 +153,12 @@ describe('HTTP Status Code Contract Tests', () => {
     });
 
     it('returns 200 with success response for GET /examples (list)', async () => {
-      const { token } = await createTestUserWithToken();
+      const { token, organizationId } = await createTestUserWithToken();
 
       const res = await request(app)
         .get('/api/v1/examples')
-        .set('Authorization', `Bearer ${token}`);
+        .set('Authorization', `Bearer ${token}`)
+        .set('X-Organization-Id', String(organizationId));
 
       const body = expectSuccessResponse(res, 200);
       expect(Array.isArray(body.data)).toBe(true);
@@ -141,12 +167,15 @@ describe('HTTP Status Code Contract Tests', () => {
     });
 
     it('returns 200 with success response for GET /examples/:id', async () => {
-      const { token } = await createTestUserWithToken();
-      const example = await prisma.example.create({ data: { name: 'Test Example' } });
+      const { token, organizationId } = await createTestUserWithToken();
+      const example = await prisma.example.create({
+        data: { name: 'Test Example', organizationId },
+      });
 
       const res = await request(app)
         .get(`/api/v1/examples/${example.id}`)
-        .set('Authorization', `Bearer ${token}`);
+        .set('Authorization', `Bearer ${token}`)
+        .set('X-Organization-Id', String(organizationId));
 
       const body = expectSuccessResponse(res, 200);
       expect(body.data).toHaveProperty('id', example.id);
@@ -219,11 +248,12 @@ describe('HTTP Status Code Contract Tests', () => {
     });
 
     it('returns 201 with success response for POST /examples', async () => {
-      const { token } = await createTestUserWithToken();
+      const { token, organizationId } = await createTestUserWithToken();
 
       const res = await request(app)
         .post('/api/v1/examples')
         .set('Authorization', `Bearer ${token}`)
+        .set('X-Organization-Id', String(organizationId))
         .send({
           name: 'New Example',
           description: 'Test description',
@@ -344,11 +374,12 @@ describe('HTTP Status Code Contract Tests', () => {
   // ============================================================
   describe('404 Not Found - Resource Not Found', () => {
     it('returns 404 when example does not exist', async () => {
-      const { token } = await createTestUserWithToken();
+      const { token, organizationId } = await createTestUserWithToken();
 
       const res = await request(app)
         .get('/api/v1/examples/999999')
-        .set('Authorization', `Bearer ${token}`);
+        .set('Authorization', `Bearer ${token}`)
+        .set('X-Organization-Id', String(organizationId));
 
       expectErrorResponse(res, 404, 'RESOURCE_NOT_FOUND');
     });
@@ -360,22 +391,24 @@ describe('HTTP Status Code Contract Tests', () => {
     });
 
     it('returns 404 when updating non-existent example', async () => {
-      const { token } = await createTestUserWithToken();
+      const { token, organizationId } = await createTestUserWithToken();
 
       const res = await request(app)
         .put('/api/v1/examples/999999')
         .set('Authorization', `Bearer ${token}`)
+        .set('X-Organization-Id', String(organizationId))
         .send({ name: 'Updated' });
 
       expectErrorResponse(res, 404, 'RESOURCE_NOT_FOUND');
     });
 
     it('returns 404 when deleting non-existent example', async () => {
-      const { token } = await createTestUserWithToken();
+      const { token, organizationId } = await createTestUserWithToken();
 
       const res = await request(app)
         .delete('/api/v1/examples/999999')
-        .set('Authorization', `Bearer ${token}`);
+        .set('Authorization', `Bearer ${token}`)
+        .set('X-Organization-Id', String(organizationId));
 
       expectErrorResponse(res, 404, 'RESOURCE_NOT_FOUND');
     });
@@ -429,11 +462,12 @@ describe('HTTP Status Code Contract Tests', () => {
     });
 
     it('returns 422 with validation error response shape for missing required fields', async () => {
-      const { token } = await createTestUserWithToken();
+      const { token, organizationId } = await createTestUserWithToken();
 
       const res = await request(app)
         .post('/api/v1/examples')
         .set('Authorization', `Bearer ${token}`)
+        .set('X-Organization-Id', String(organizationId))
         .send({
           description: 'No name provided',
         });
@@ -442,11 +476,12 @@ describe('HTTP Status Code Contract Tests', () => {
     });
 
     it('returns 422 with validation error for invalid params', async () => {
-      const { token } = await createTestUserWithToken();
+      const { token, organizationId } = await createTestUserWithToken();
 
       const res = await request(app)
         .get('/api/v1/examples/not-a-number')
-        .set('Authorization', `Bearer ${token}`);
+        .set('Authorization', `Bearer ${token}`)
+        .set('X-Organization-Id', String(organizationId));
 
       expectValidationError(res, ['params.id']);
     });
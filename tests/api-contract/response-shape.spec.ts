@@ -70,10 +70,25 @@ app.use(notFoundHandler);
 app.use(errorHandler);
 
 const JWT_SECRET = process.env.JWT_SECRET || 'dev_secret_do_not_use';
-
-async function createTestUserWithToken(): Promise<{ token: string; userId: number }> {
+const EXAMPLE_PERMISSIONS = [
+  'examples:read',
+  'examples:create',
+  'examples:update',
+  'examples:delete',
+];
+
+async function createTestUserWithToken(): Promise<{
+  token: string;
+  userId: number;
+  organizationId: number;
+}> {
   const user = await prisma.user.create({
-    data: { name: 'Test User', email: `test-${Date.now()}@test.com`, password: 'hash' },
+    data: {
+      name: 'Test User',
+      email: `test-${Date.now()}@test.com`,
+      password: 'hash',
+      emailVerifiedAt: new Date(),
+    },
   });
   const session = await prisma.userSession.create({
     data: {
@@ -82,14 +97,24 @@ async function createTestUserWithToken(): Promise<{ token: string; userId: numbe
       expiresAt: addDays(new Date(), 1),
     },
   });
-  const token = jwt.sign({ userId: user.id, sessionId: session.id, role: 'user' }, JWT_SECRET);
-  return { token, userId: user.id };
+  const organization = await prisma.organization.create({
+    data: {
+      name: 'Test Organization',
+      memberships: { create: { userId: user.id, role: 'owner' } },
+    },
+  });
+  const token = jwt.sign(
+    { userId: user.id, sessionId: session.id, roles: ['user'], permissions: EXAMPLE_PERMISSIONS },
+    JWT_SECRET
+  );
+  return { token, userId: user.id, organizationId: organization.id };
 }
 
 describe('Response Shape Contract Tests', () => {
   beforeEach(async () => {
     vi.clearAllMocks();
     await prisma.example.deleteMany();
+    await prisma.organization.deleteMany();
     await prisma.userSession.deleteMany();
     await prisma.emailVerificationToken.deleteMany();
     await prisma.passwordResetToken.deleteMany();
@@ -98,7 +123,7 @@ describe('Response Shape Contract Tests', () => {
 
   describe('Success Response Contract', () => {
     it('all 2xx responses have success: true', async () => {
-      const { token } = await createTestUserWithToken();
+      const { token, organizationId } = await createTestUserWithToken();
 
       const endpoints = [
         { method: 'get', path: '/api/v1/health', auth: false },
@@ -107,7 +132,11 @@ describe('Response Shape Contract Tests', () => {
 
       for (const { method, path, auth } of endpoints) {
         const req = (request(app) as unknown as Record<string, CallableFunction>)[method](path);
-        if (auth) req.set('Authorization', `Bearer ${token}`);
+        if (auth) {
+          req
+            .set('Authorization', `Bearer ${token}`)
+            .set('X-Organization-Id', String(organizationId));
+        }
         const res = await req;
 
         if (res.status >= 200 && res.status < 300 && res.body && Object.keys(res.body).length > 0) {
@@ -127,11 +156,12 @@ describe('Response Shape Contract Tests', () => {
     });
 
     it('list endpoints include meta field for pagination', async () => {
-      const { token } = await createTestUserWithToken();
+      const { token, organizationId } = await createTestUserWithToken();
 
       const res = await request(app)
         .get('/api/v1/examples')
-        .set('Authorization', `Bearer ${token}`);
+        .set('Authorization', `Bearer ${token}`)
+        .set('X-Organization-Id', String(organizationId));
 
       expect(res.status).toBe(200);
       expect(res.body).toHaveProperty('meta');
@@ -141,7 +171,7 @@ describe('Response Shape Contract Tests', () => {
 
   describe('Error Response Contract', () => {
     it('all 4xx/5xx responses have success: false', async () => {
-      const { token } = await createTestUserWithToken();
+      const { token, organizationId } = await createTestUserWithToken();
 
       const errorEndpoints = [
         { method: 'get', path: '/api/v1/auth/me', expectedStatus: 401, auth: false },
@@ -151,7 +181,11 @@ describe('Response Shape Contract Tests', () => {
 
       for (const { method, path, expectedStatus, auth } of errorEndpoints) {
         const req = (request(app) as unknown as Record<string, CallableFunction>)[method](path);
-        if (auth) req.set('Authorization', `Bearer ${token}`);
+        if (auth) {
+          req
+            .set('Authorization', `Bearer ${token}`)
+            .set('X-Organization-Id', String(organizationId));
+        }
         const res = await req;
 
         expect(res.status).toBe(expectedStatus);
@@ -162,11 +196,12 @@ describe('Response Shape Contract Tests', () => {
     });
 
     it('error responses have code and message fields', async () => {
-      const { token } = await createTestUserWithToken();
+      const { token, organizationId } = await createTestUserWithToken();
 
       const res = await request(app)
         .get('/api/v1/examples/999999')
-        .set('Authorization', `Bearer ${token}`);
+        .set('Authorization', `Bearer ${token}`)
+        .set('X-Organization-Id', String(organizationId));
 
       expect(res.status).toBe(404);
       expect(res.body.error).toHaveProperty('code');
@@ -176,11 +211,12 @@ describe('Response Shape Contract Tests', () => {
     });
 
     it('error codes are UPPER_SNAKE_CASE', async () => {
-      const { token } = await createTestUserWithToken();
+      const { token, organizationId } = await createTestUserWithToken();
 
       const res = await request(app)
         .get('/api/v1/examples/999999')
-        .set('Authorization', `Bearer ${token}`);
+        .set('Authorization', `Bearer ${token}`)
+        .set('X-Organization-Id', String(organizationId));
 
       expect(res.status).toBe(404);
       expect(res.body.error.code).toMatch(/^[A-Z][A-Z0-9_]*$/);
@@ -202,7 +238,7 @@ describe('Response Shape Contract Tests', () => {
 
   describe('Meta-Tests: Contract Integrity', () => {
     it('CRITICAL: errors NEVER return 2xx status', async () => {
-      const { token } = await createTestUserWithToken();
+      const { token, organizationId } = await createTestUserWithToken();
 
       const endpoints = [
         { method: 'get', path: '/api/v1/health', auth: false },
@@ -212,7 +248,11 @@ describe('Response Shape Contract Tests', () => {
 
       for (const { method, path, body, auth } of endpoints) {
         const req = (request(app) as unknown as Record<string, CallableFunction>)[method](path);
-        if (auth) req.set('Authorization', `Bearer ${token}`);
+        if (auth) {
+          req
+            .set('Authorization', `Bearer ${token}`)
+            .set('X-Organization-Id', String(organizationId));
+        }
         if (body) req.send(body);
         const res = await req;
 
@@ -240,11 +280,12 @@ describe('Response Shape Contract Tests', () => {
     });
 
     it('CRITICAL: error responses NEVER have data field', async () => {
-      const { token } = await createTestUserWithToken();
+      const { token, organizationId } = await createTestUserWithToken();
 
       const res = await request(app)
         .get('/api/v1/examples/999999')
-        .set('Authorization', `Bearer ${token}`);
+        .set('Authorization', `Bearer ${token}`)
+        .set('X-Organization-Id', String(organizationId));
 
       expect(res.status).toBe(404);
       expect(res.body.success).toBe(false);
@@ -252,7 +293,7 @@ describe('Response Shape Contract Tests', () => {
     });
 
     it('all endpoints return consistent response structure', async () => {
-      const { token } = await createTestUserWithToken();
+      const { token, organizationId } = await createTestUserWithToken();
 
       // Success shape
       const successRes = await request(app).get('/api/v1/health');
@@ -264,7 +305,8 @@ describe('Response Shape Contract Tests', () => {
       // Error shape
       const errorRes = await request(app)
         .get('/api/v1/examples/999999')
-        .set('Authorization', `Bearer ${token}`);
+        .set('Authorization', `Bearer ${token}`)
+        .set('X-Organization-Id', String(organizationId));
       expect(errorRes.body).toMatchObject({
         success: false,
         error: {
@@ -90,6 +90,7 @@ describe('Full User Journey E2E', () => {
 
     // Clean Database
     await prisma.example.deleteMany();
+    await prisma.organization.deleteMany();
     await prisma.userSession.deleteMany();
     await prisma.emailVerificationToken.deleteMany();
     await prisma.passwordResetToken.deleteMany();
@@ -212,6 +213,7 @@ describe('Full User Journey E2E', () => {
 
   describe('Example Module (CRUD)', () => {
     let accessToken: string;
+    let organizationId: string;
 
     beforeEach(async () => {
       // Setup User & Token for CRUD
@@ -223,6 +225,18 @@ describe('Full User Journey E2E', () => {
       });
       vi.stubEnv('NODE_ENV', 'test');
 
+      // Examples require a verified email address
+      const user = await prisma.user.update({
+        where: { email: 'crud@example.com' },
+        data: { emailVerifiedAt: new Date() },
+      });
+
+      // ...and belong to an organization the user is a member of
+      const organization = await prisma.organization.create({
+        data: { name: 'CRUD Organization', memberships: { create: { userId: user.id } } },
+      });
+      organizationId = String(organization.id);
+
       const loginRes = await request(app).post('/api/v1/auth/login').send({
         email: 'crud@example.com',
         password: 'Password123!',
@@ -234,6 +248,7 @@ describe('Full User Journey E2E', () => {
       const res = await request(app)
         .post('/api/v1/examples')
         .set('Authorization', `Bearer ${accessToken}`)
+        .set('X-Organization-Id', organizationId)
         .send({
           name: 'Test Example',
           description: 'Description',
@@ -248,6 +263,7 @@ describe('Full User Journey E2E', () => {
       const res = await request(app)
         .post('/api/v1/examples')
         .set('Authorization', `Bearer ${accessToken}`)
+        .set('X-Organization-Id', organizationId)
         .send({
           description: 'Missing Name',
         });
@@ -260,15 +276,18 @@ describe('Full User Journey E2E', () => {
       await request(app)
         .post('/api/v1/examples')
         .set('Authorization', `Bearer ${accessToken}`)
+        .set('X-Organization-Id', organizationId)
         .send({ name: 'Ex 1' });
       await request(app)
         .post('/api/v1/examples')
         .set('Authorization', `Bearer ${accessToken}`)
+        .set('X-Organization-Id', organizationId)
         .send({ name: 'Ex 2' });
 
       const res = await request(app)
         .get('/api/v1/examples')
-        .set('Authorization', `Bearer ${accessToken}`);
+        .set('Authorization', `Bearer ${accessToken}`)
+        .set('X-Organization-Id', organizationId);
 
       expect(res.status).toBe(200);
       expect(res.body.data).toHaveLength(2);
@@ -280,12 +299,14 @@ describe('Full User Journey E2E', () => {
       const createRes = await request(app)
         .post('/api/v1/examples')
         .set('Authorization', `Bearer ${accessToken}`)
+        .set('X-Organization-Id', organizationId)
         .send({ name: 'Single Ex' });
       const id = createRes.body.data.id;
 
       const res = await request(app)
         .get(`/api/v1/examples/${id}`)
-        .set('Authorization', `Bearer ${accessToken}`);
+        .set('Authorization', `Bearer ${accessToken}`)
+        .set('X-Organization-Id', organizationId);
 
       expect(res.status).toBe(200);
       expect(res.body.data.id).toBe(id);
@@ -294,7 +315,8 @@ describe('Full User Journey E2E', () => {
     it('should return 404 for non-existent example ID (Negative Case)', async () => {
       const res = await request(app)
         .get('/api/v1/examples/999999')
-        .set('Authorization', `Bearer ${accessToken}`);
+        .set('Authorization', `Bearer ${accessToken}`)
+        .set('X-Organization-Id', organizationId);
 
       expect(res.status).toBe(404);
     });
@@ -302,7 +324,8 @@ describe('Full User Journey E2E', () => {
     it('should return 400 for invalid ID format (Edge Case)', async () => {
       const res = await request(app)
         .get('/api/v1/examples/abc')
-        .set('Authorization', `Bearer ${accessToken}`);
+        .set('Authorization', `Bearer ${accessToken}`)
+        .set('X-Organization-Id', organizationId);
 
       // Assuming validation middleware catches non-numeric params if schema defines regex
       // If schema defines ID as number string, 'abc' fails.
@@ -313,12 +336,14 @@ describe('Full User Journey E2E', () => {
       const createRes = await request(app)
         .post('/api/v1/examples')
         .set('Authorization', `Bearer ${accessToken}`)
+        .set('X-Organization-Id', organizationId)
         .send({ name: 'Original Name' });
       const id = createRes.body.data.id;
 
       const res = await request(app)
         .put(`/api/v1/examples/${id}`)
         .set('Authorization', `Bearer ${accessToken}`)
+        .set('X-Organization-Id', organizationId)
         .send({ name: 'Updated Name' });
 
       expect(res.status).toBe(200);
@@ -329,19 +354,22 @@ describe('Full User Journey E2E', () => {
       const createRes = await request(app)
         .post('/api/v1/examples')
         .set('Authorization', `Bearer ${accessToken}`)
+        .set('X-Organization-Id', organizationId)
         .send({ name: 'To Delete' });
       const id = createRes.body.data.id;
 
       const res = await request(app)
         .delete(`/api/v1/examples/${id}`)
-        .set('Authorization', `Bearer ${accessToken}`);
+        .set('Authorization', `Bearer ${accessToken}`)
+        .set('X-Organization-Id', organizationId);
 
       expect(res.status).toBe(200);
 
       // Verify deletion
       const getRes = await request(app)
         .get(`/api/v1/examples/${id}`)
-        .set('Authorization', `Bearer ${accessToken}`);
+        .set('Authorization', `Bearer ${accessToken}`)
+        .set('X-Organization-Id', organizationId);
       expect(getRes.status).toBe(404);
     });
   });